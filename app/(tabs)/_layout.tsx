@@ -1,6 +1,6 @@
 import { Tabs } from "expo-router";
 import React from "react";
-import { Home, Target, Users, User } from "lucide-react-native";
+import { Home, Target, Shirt, Users, User } from "lucide-react-native";
 
 import Colors from "@/constants/colors";
 
@@ -53,6 +53,13 @@ export default function TabLayout() {
           tabBarIcon: ({ color }) => <Target size={24} color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="wardrobe"
+        options={{
+          title: "Wardrobe",
+          tabBarIcon: ({ color }) => <Shirt size={24} color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="community"
         options={{
@@ -87,6 +94,60 @@ export default function TabLayout() {
           href: null, // This hides it from the tab bar
         }}
       />
+      <Tabs.Screen
+        name="glow-history"
+        options={{
+          href: null, // This hides it from the tab bar
+        }}
+      />
+      <Tabs.Screen
+        name="glow-compare"
+        options={{
+          href: null, // This hides it from the tab bar
+        }}
+      />
+      <Tabs.Screen
+        name="color-palette"
+        options={{
+          href: null, // This hides it from the tab bar
+        }}
+      />
+      <Tabs.Screen
+        name="wardrobe-item"
+        options={{
+          href: null, // This hides it from the tab bar
+        }}
+      />
+      <Tabs.Screen
+        name="style-me"
+        options={{
+          href: null, // This hides it from the tab bar
+        }}
+      />
+      <Tabs.Screen
+        name="event-type"
+        options={{
+          href: null, // This hides it from the tab bar
+        }}
+      />
+      <Tabs.Screen
+        name="lookbook"
+        options={{
+          href: null, // This hides it from the tab bar
+        }}
+      />
+      <Tabs.Screen
+        name="wardrobe-gaps"
+        options={{
+          href: null, // This hides it from the tab bar
+        }}
+      />
+      <Tabs.Screen
+        name="skincare-routine"
+        options={{
+          href: null, // This hides it from the tab bar
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
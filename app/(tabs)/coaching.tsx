@@ -1,7 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, FlatList, Alert } from 'react-native';
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, FlatList, Alert, ActivityIndicator, Platform } from 'react-native';
 import { Stack, useLocalSearchParams, router } from 'expo-router';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Target, CheckCircle, Circle, Calendar, Trophy, Sparkles, Crown } from 'lucide-react-native';
 
 import Button from '@/components/Button';
@@ -9,25 +8,31 @@ import Card from '@/components/Card';
 import ProgressBar from '@/components/ProgressBar';
 
 import { COLORS } from '@/constants/colors';
-import { aiService, CoachingPlan, DailyTask } from '@/lib/ai-service';
+import { glowPlanService, ActivePlan } from '@/lib/glow-plan';
 import { useAuth } from '@/hooks/auth-store';
 import { useSubscription } from '@/hooks/subscription-store';
+import type { GlowUpDayTask } from '@/types';
 
 export default function CoachingScreen() {
-  const { hasCompletedScan, isPremium } = useAuth();
+  const { user, hasCompletedScan } = useAuth();
   const { hasPremiumAccess } = useSubscription();
   
   // Mock values for demo
   const mockHasCompletedScan = true;
   const mockHasPremiumAccess = true;
   const params = useLocalSearchParams();
-  const [currentPlan, setCurrentPlan] = useState<CoachingPlan | null>(null);
+  const [active, setActive] = useState<ActivePlan | null>(null);
+  const [checkingPlan, setCheckingPlan] = useState(true);
   const [loading, setLoading] = useState(false);
   const [selectedGoal, setSelectedGoal] = useState('');
-  const [showGoalSelection, setShowGoalSelection] = useState(true);
-  const [todaysTasks, setTodaysTasks] = useState<DailyTask[]>([]);
-  const [currentDay, setCurrentDay] = useState(1);
-  const [hasActivePlan, setHasActivePlan] = useState(false);
+
+  const userId = user?.id || 'anonymous';
+  const currentDay = active ? glowPlanService.currentDay(active.plan) : 1;
+  const todaysTasks = useMemo(
+    () => (active ? glowPlanService.tasksForDay(active.tasks, currentDay) : []),
+    [active, currentDay]
+  );
+  const progress = useMemo(() => (active ? glowPlanService.getProgress(active) : null), [active]);
 
   const goals = [
     'Improve skin hydration and glow',
@@ -38,90 +43,41 @@ export default function CoachingScreen() {
     'Boost overall confidence and beauty',
   ];
 
-  // Check for existing plan and handle auto-generation
+  // Load the active plan, or start one when arriving from a glow analysis
   useEffect(() => {
     const checkExistingPlan = async () => {
       try {
-        // Check if user has an active glow-up plan
-        const currentPlanId = await AsyncStorage.getItem('current-glow-plan');
-        if (currentPlanId) {
-          const planData = await AsyncStorage.getItem(`glow-plan-${currentPlanId}`);
-          if (planData) {
-            const plan = JSON.parse(planData);
-            setHasActivePlan(true);
-            setShowGoalSelection(false);
-            // Create a simplified coaching plan from glow-up plan
-            const coachingPlan: CoachingPlan = {
-              id: plan.id,
-              goal: plan.goal,
-              duration: 30,
-              dailyTasks: [],
-              tips: [
-                'Stay consistent with your daily routine',
-                'Track your progress with photos',
-                'Stay hydrated throughout the day',
-                'Get adequate sleep for skin recovery'
-              ],
-              expectedResults: [
-                'Improved skin texture and hydration',
-                'More consistent skincare habits',
-                'Increased confidence in your appearance',
-                'Better understanding of your skin needs'
-              ]
-            };
-            setCurrentPlan(coachingPlan);
-            return;
-          }
+        const existing = await glowPlanService.getActivePlan(userId);
+        if (existing) {
+          setActive(existing);
+          return;
         }
         
         // Handle auto-generation from glow analysis
         if (params.autoGenerate === 'true' && params.goal && params.glowScore && mockHasPremiumAccess) {
           setSelectedGoal(params.goal as string);
-          const planGoal = params.goal as string;
-          const glowScore = parseInt(params.glowScore as string);
-          
           setLoading(true);
           try {
-            const plan = await aiService.generateCoachingPlan(planGoal, glowScore);
-            setCurrentPlan(plan);
-            setShowGoalSelection(false);
+            setActive(await glowPlanService.createPlan(userId, {
+              goal: params.goal as string,
+              glowScore: parseInt(params.glowScore as string),
+            }));
           } catch (error) {
-            console.error('Error generating coaching plan:', error);
-            
-            // For auto-generation, just silently fall back to manual selection
-            // Don't show error alerts for auto-generation failures
-            if (error instanceof Error && error.message.includes('cancelled')) {
-              // User cancelled, just return to goal selection
-              setShowGoalSelection(true);
-            } else {
-              // Other errors, show goal selection with pre-selected goal
-              setShowGoalSelection(true);
-              console.warn('Auto-generation failed, falling back to manual selection:', error);
-            }
+            // For auto-generation, just silently fall back to manual selection with the goal pre-selected
+            console.warn('Auto-generation failed, falling back to manual selection:', error);
           } finally {
             setLoading(false);
           }
         }
       } catch (error) {
         console.error('Error checking existing plan:', error);
+      } finally {
+        setCheckingPlan(false);
       }
     };
     
     checkExistingPlan();
-  }, [params, mockHasPremiumAccess]);
-
-  useEffect(() => {
-    if (currentPlan) {
-      const today = new Date();
-      const planStartDate = new Date(); // In production, store actual start date
-      const daysDiff = Math.floor((today.getTime() - planStartDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-      const actualDay = Math.min(Math.max(daysDiff, 1), 30);
-      
-      setCurrentDay(actualDay);
-      const tasksForToday = currentPlan.dailyTasks.filter(task => task.day === actualDay);
-      setTodaysTasks(tasksForToday);
-    }
-  }, [currentPlan]);
+  }, [params, mockHasPremiumAccess, userId]);
 
   const generatePlan = async (goal?: string, glowScore?: number) => {
     const planGoal = goal || selectedGoal;
@@ -133,9 +89,7 @@ export default function CoachingScreen() {
     
     setLoading(true);
     try {
-      const plan = await aiService.generateCoachingPlan(planGoal, glowScore || 75);
-      setCurrentPlan(plan);
-      setShowGoalSelection(false);
+      setActive(await glowPlanService.createPlan(userId, { goal: planGoal, glowScore: glowScore || 75 }));
       
       // Show success message
       Alert.alert(
@@ -189,23 +143,18 @@ export default function CoachingScreen() {
     }
   };
 
-  const toggleTaskCompletion = (taskId: string) => {
-    if (!currentPlan) return;
-    
-    const updatedTasks = currentPlan.dailyTasks.map(task =>
-      task.id === taskId ? { ...task, completed: !task.completed } : task
-    );
-    
-    setCurrentPlan({ ...currentPlan, dailyTasks: updatedTasks });
-    setTodaysTasks(prev => prev.map(task =>
-      task.id === taskId ? { ...task, completed: !task.completed } : task
-    ));
+  const toggleTaskCompletion = async (taskId: string) => {
+    try {
+      const updated = await glowPlanService.toggleTask(userId, taskId);
+      if (updated) setActive(updated);
+    } catch (error) {
+      console.error('Error updating task:', error);
+    }
   };
 
   const getCompletionRate = () => {
-    if (!currentPlan) return 0;
-    const completedTasks = currentPlan.dailyTasks.filter(task => task.completed).length;
-    return Math.round((completedTasks / currentPlan.dailyTasks.length) * 100);
+    if (!progress || progress.total_tasks === 0) return 0;
+    return Math.round((progress.completed_tasks / progress.total_tasks) * 100);
   };
 
   const getTodayCompletionRate = () => {
@@ -215,15 +164,27 @@ export default function CoachingScreen() {
   };
 
   const resetPlan = () => {
-    setCurrentPlan(null);
-    setShowGoalSelection(true);
-    setSelectedGoal('');
-    setTodaysTasks([]);
+    const startOver = async () => {
+      await glowPlanService.endPlan(userId);
+      setActive(null);
+      setSelectedGoal('');
+    };
+    // Alert.alert is a no-op on web, so the browser's dialog confirms there
+    if (Platform.OS === 'web') {
+      if (window.confirm('Start a New Plan?\n\nYour current plan and its progress will be removed.')) startOver();
+      return;
+    }
+    Alert.alert(
+      'Start a New Plan?',
+      'Your current plan and its progress will be removed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Start Over', style: 'destructive', onPress: startOver },
+      ]
+    );
   };
 
-
-
-  const renderTask = ({ item }: { item: DailyTask }) => (
+  const renderTask = ({ item }: { item: GlowUpDayTask }) => (
     <TouchableOpacity
       style={[styles.taskItem, item.completed && styles.taskCompleted]}
       onPress={() => toggleTaskCompletion(item.id)}
@@ -274,67 +235,16 @@ export default function CoachingScreen() {
     );
   }
 
-  // Show active plan progress if user has one
-  if (hasActivePlan && currentPlan) {
+  if (checkingPlan) {
     return (
-      <ScrollView style={styles.container}>
+      <View style={styles.loadingContainer}>
         <Stack.Screen options={{ title: 'Beauty Coaching' }} />
-        
-        <View style={styles.activePlanContainer}>
-          <Card style={styles.activePlanCard} gradient>
-            <View style={styles.activePlanHeader}>
-              <View style={styles.activePlanTitleContainer}>
-                <Sparkles size={24} color={COLORS.primary} />
-                <Text style={styles.activePlanTitle}>Your 30-Day Glow-Up Plan Progress</Text>
-              </View>
-              {isPremium && (
-                <View style={styles.premiumBadge}>
-                  <Crown size={16} color={COLORS.gold} />
-                  <Text style={styles.premiumText}>Premium</Text>
-                </View>
-              )}
-            </View>
-            
-            <Text style={styles.activePlanGoal}>{currentPlan.goal}</Text>
-            
-            <View style={styles.activePlanProgress}>
-              <Text style={styles.activePlanProgressLabel}>Day {currentDay} of 30</Text>
-              <ProgressBar 
-                progress={(currentDay / 30) * 100} 
-                height={8}
-                style={styles.activePlanProgressBar}
-              />
-            </View>
-            
-            <Button
-              title="Continue Plan"
-              onPress={() => router.push('/(tabs)/glow-plan')}
-              style={styles.activePlanButton}
-              leftIcon={<Target size={18} color={COLORS.white} />}
-            />
-          </Card>
-          
-          <Card style={styles.tipsCard}>
-            <View style={styles.tipsHeader}>
-              <Trophy size={20} color={COLORS.secondary} />
-              <Text style={styles.tipsTitle}>Today&apos;s Tips</Text>
-            </View>
-            
-            {currentPlan.tips.slice(0, 3).map((tip, index) => (
-              <View key={index} style={styles.tipItem}>
-                <View style={styles.tipBullet}>
-                  <Text style={styles.tipBulletText}>{index + 1}</Text>
-                </View>
-                <Text style={styles.tipText}>{tip}</Text>
-              </View>
-            ))}
-          </Card>
-        </View>
-      </ScrollView>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
     );
   }
 
-  if (showGoalSelection) {
+  if (!active) {
     return (
       <ScrollView style={styles.container}>
           <Stack.Screen options={{ title: 'Beauty Coaching' }} />
@@ -398,8 +308,6 @@ export default function CoachingScreen() {
     );
   }
 
-  if (!currentPlan) return null;
-
   return (
     <ScrollView style={styles.container}>
       <Stack.Screen 
@@ -416,9 +324,9 @@ export default function CoachingScreen() {
       <View style={styles.planContainer}>
         <Card style={styles.progressCard} gradient>
           <View style={styles.progressHeader}>
-            <View>
-              <Text style={styles.progressTitle}>Day {currentDay} of 30</Text>
-              <Text style={styles.progressGoal}>{currentPlan.goal}</Text>
+            <View style={styles.progressInfo}>
+              <Text style={styles.progressTitle}>Day {currentDay} of {active.plan.progress.total_days}</Text>
+              <Text style={styles.progressGoal}>{active.plan.goal}</Text>
             </View>
             <View style={styles.progressStats}>
               <Text style={styles.progressPercentage}>{getCompletionRate()}%</Text>
@@ -430,6 +338,13 @@ export default function CoachingScreen() {
             height={8}
             style={styles.progressBar}
           />
+          <Button
+            title="Open Full Plan"
+            onPress={() => router.push('/(tabs)/glow-plan')}
+            style={styles.openPlanButton}
+            leftIcon={<Target size={18} color={COLORS.white} />}
+            testID="open-glow-plan-button"
+          />
         </Card>
 
         <Card style={styles.todayCard}>
@@ -466,7 +381,7 @@ export default function CoachingScreen() {
             <Text style={styles.tipsTitle}>Pro Tips</Text>
           </View>
           
-          {currentPlan.tips.map((tip, index) => (
+          {active.plan.tips.map((tip, index) => (
             <View key={index} style={styles.tipItem}>
               <View style={styles.tipBullet}>
                 <Text style={styles.tipBulletText}>{index + 1}</Text>
@@ -479,7 +394,7 @@ export default function CoachingScreen() {
         <Card style={styles.resultsCard}>
           <Text style={styles.resultsTitle}>Expected Results</Text>
           
-          {currentPlan.expectedResults.map((result, index) => (
+          {active.plan.expected_results.map((result, index) => (
             <View key={index} style={styles.resultItem}>
               <CheckCircle size={16} color={COLORS.success} />
               <Text style={styles.resultText}>{result}</Text>
@@ -496,6 +411,12 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: COLORS.background,
   },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.background,
+  },
   goalSelectionContainer: {
     padding: 12,
   },
@@ -528,52 +449,6 @@ const styles = StyleSheet.create({
   scanPromptButton: {
     width: '100%',
   },
-  activePlanContainer: {
-    padding: 12,
-  },
-  activePlanCard: {
-    marginBottom: 12,
-    padding: 16,
-  },
-  activePlanHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'flex-start',
-    marginBottom: 8,
-  },
-  activePlanTitleContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    flex: 1,
-  },
-  activePlanTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: COLORS.textDark,
-    marginLeft: 8,
-    flex: 1,
-  },
-  activePlanGoal: {
-    fontSize: 15,
-    color: COLORS.textLight,
-    marginBottom: 12,
-    lineHeight: 20,
-  },
-  activePlanProgress: {
-    marginBottom: 12,
-  },
-  activePlanProgressLabel: {
-    fontSize: 14,
-    color: COLORS.textDark,
-    marginBottom: 6,
-    fontWeight: '500',
-  },
-  activePlanProgressBar: {
-    marginBottom: 4,
-  },
-  activePlanButton: {
-    width: '100%',
-  },
   headerContainer: {
     alignItems: 'center',
     marginBottom: 20,
@@ -688,6 +563,10 @@ const styles = StyleSheet.create({
     color: COLORS.textDark,
     marginBottom: 4,
   },
+  progressInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
   progressGoal: {
     fontSize: 14,
     color: COLORS.textLight,
@@ -707,6 +586,10 @@ const styles = StyleSheet.create({
   progressBar: {
     marginTop: 8,
   },
+  openPlanButton: {
+    width: '100%',
+    marginTop: 16,
+  },
   todayCard: {
     marginBottom: 12,
     padding: 16,
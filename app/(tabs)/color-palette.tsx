@@ -0,0 +1,284 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { Stack, router, useFocusEffect } from 'expo-router';
+import { Palette } from 'lucide-react-native';
+
+import Button from '@/components/Button';
+import Card from '@/components/Card';
+import { COLORS } from '@/constants/colors';
+import { useAuth } from '@/hooks/auth-store';
+import { scanHistoryService } from '@/lib/scan-history';
+import { SkinToneProfile } from '@/lib/skin-tone';
+import {
+  colorPaletteService,
+  PersonalPalette,
+  HairColor,
+  EyeColor,
+  HAIR_COLORS,
+  EYE_COLORS,
+} from '@/lib/color-palette';
+
+export default function ColorPaletteScreen() {
+  const { user } = useAuth();
+  const [skinTone, setSkinTone] = useState<SkinToneProfile | null>(null);
+  const [palette, setPalette] = useState<PersonalPalette | null>(null);
+  const [hairColor, setHairColor] = useState<HairColor | undefined>();
+  const [eyeColor, setEyeColor] = useState<EyeColor | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+      Promise.all([scanHistoryService.getLatestSkinTone(user.id), colorPaletteService.getPalette(user.id)])
+        .then(([latestTone, savedPalette]) => {
+          setSkinTone(latestTone);
+          setPalette(savedPalette);
+          setHairColor(savedPalette?.basedOn.hairColor);
+          setEyeColor(savedPalette?.basedOn.eyeColor);
+        })
+        .catch(error => console.error('Error loading color palette:', error))
+        .finally(() => setLoading(false));
+    }, [user])
+  );
+
+  const generatePalette = async () => {
+    if (!user || !skinTone) return;
+    setSaving(true);
+    try {
+      const next = colorPaletteService.derivePalette(skinTone, { hairColor, eyeColor });
+      await colorPaletteService.savePalette(user.id, next);
+      setPalette(next);
+    } catch (error) {
+      console.error('Error saving color palette:', error);
+      Alert.alert('Error', 'Failed to save your palette. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderSwatches = (colors: string[]) => (
+    <View style={styles.swatchRow}>
+      {colors.map(color => (
+        <View key={color} style={[styles.swatch, { backgroundColor: color }]} />
+      ))}
+    </View>
+  );
+
+  if (!loading && !skinTone) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Stack.Screen options={{ title: 'My Colors' }} />
+        <Palette size={48} color={COLORS.primary} />
+        <Text style={styles.emptyTitle}>Scan your face first</Text>
+        <Text style={styles.emptyDescription}>
+          Your color palette is based on your skin tone. Run a glow analysis in natural light to get started.
+        </Text>
+        <Button
+          title="Start Face Scan"
+          onPress={() => router.push('/(tabs)/glow-analysis')}
+          style={styles.emptyButton}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Stack.Screen options={{ title: 'My Colors' }} />
+
+      {palette && (
+        <>
+          <Card style={styles.card}>
+            <Text style={styles.seasonLabel}>{palette.label}</Text>
+            <Text style={styles.explanation}>{palette.explanation}</Text>
+          </Card>
+
+          <Card style={styles.card}>
+            <Text style={styles.cardTitle}>✨ Your Best Colors</Text>
+            {renderSwatches(palette.bestColors)}
+            <Text style={styles.subTitle}>Neutrals</Text>
+            {renderSwatches(palette.neutrals)}
+            <Text style={styles.subTitle}>Wear Away From Your Face</Text>
+            {renderSwatches(palette.avoidColors)}
+          </Card>
+        </>
+      )}
+
+      <Card style={styles.card}>
+        <Text style={styles.cardTitle}>🎨 {palette ? 'Refine Your Palette' : 'Find Your Season'}</Text>
+        {skinTone && (
+          <View style={styles.skinToneRow}>
+            <View style={[styles.skinToneSwatch, { backgroundColor: skinTone.hex }]} />
+            <Text style={styles.skinToneText}>
+              {skinTone.label} · Monk {skinTone.monkIndex}/10
+            </Text>
+          </View>
+        )}
+
+        <Text style={styles.subTitle}>Hair color (optional)</Text>
+        <View style={styles.chipWrap}>
+          {HAIR_COLORS.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, hairColor === option.id && styles.chipActive]}
+              onPress={() => setHairColor(current => (current === option.id ? undefined : option.id))}
+            >
+              <View style={[styles.chipDot, { backgroundColor: option.swatch }]} />
+              <Text style={[styles.chipText, hairColor === option.id && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.subTitle}>Eye color (optional)</Text>
+        <View style={styles.chipWrap}>
+          {EYE_COLORS.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, eyeColor === option.id && styles.chipActive]}
+              onPress={() => setEyeColor(current => (current === option.id ? undefined : option.id))}
+            >
+              <View style={[styles.chipDot, { backgroundColor: option.swatch }]} />
+              <Text style={[styles.chipText, eyeColor === option.id && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Button
+          title={palette ? 'Update My Palette' : 'Create My Palette'}
+          onPress={generatePalette}
+          isLoading={saving}
+          disabled={!skinTone}
+          style={styles.generateButton}
+          testID="generate-palette-button"
+        />
+      </Card>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContent: {
+    paddingVertical: 16,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    backgroundColor: COLORS.background,
+  },
+  emptyTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.textDark,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyDescription: {
+    fontSize: 15,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  emptyButton: {
+    width: '100%',
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  seasonLabel: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+    marginBottom: 8,
+  },
+  explanation: {
+    fontSize: 15,
+    color: COLORS.text,
+    lineHeight: 22,
+  },
+  subTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textMuted,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  swatchRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  swatch: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  skinToneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  skinToneSwatch: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  skinToneText: {
+    fontSize: 15,
+    color: COLORS.text,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: COLORS.chip,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textMuted,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  generateButton: {
+    marginTop: 20,
+  },
+});
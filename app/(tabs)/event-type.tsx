@@ -0,0 +1,293 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+
+import Button from '@/components/Button';
+import Card from '@/components/Card';
+import Input from '@/components/Input';
+import { COLORS } from '@/constants/colors';
+import { EventType, createDressCode } from '@/constants/event-types';
+import { useAuth } from '@/hooks/auth-store';
+import { eventTypeService } from '@/lib/event-types';
+import { FORMALITY_LEVELS, FormalityLevel } from '@/lib/dress-code';
+import { WardrobeCategory, WARDROBE_CATEGORIES, COLOR_FAMILIES } from '@/lib/wardrobe';
+
+export default function EventTypeScreen() {
+  const { user } = useAuth();
+  const params = useLocalSearchParams<{ id?: string }>();
+  const [eventType, setEventType] = useState<EventType | null>(null);
+  const [label, setLabel] = useState('');
+  const [icon, setIcon] = useState('📅');
+  const [formality, setFormality] = useState<FormalityLevel>(3);
+  const [requiredCategories, setRequiredCategories] = useState<WardrobeCategory[]>([]);
+  const [forbiddenCategories, setForbiddenCategories] = useState<WardrobeCategory[]>([]);
+  const [preferredColors, setPreferredColors] = useState<string[]>([]);
+  const [avoidColors, setAvoidColors] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user || !params.id) return;
+    eventTypeService.get(user.id, params.id)
+      .then(existing => {
+        if (!existing) return;
+        setEventType(existing);
+        setLabel(existing.label);
+        setIcon(existing.icon);
+        setFormality(existing.dressCode.formality);
+        setRequiredCategories(existing.dressCode.requiredCategories);
+        setForbiddenCategories(existing.dressCode.forbiddenCategories);
+        setPreferredColors(existing.dressCode.preferredColors);
+        setAvoidColors(existing.dressCode.avoidColors);
+        setNotes(existing.dressCode.notes ?? '');
+      })
+      .catch(error => console.error('Error loading event type:', error));
+  }, [user, params.id]);
+
+  // A category can be required or not allowed, never both
+  const toggleCategory = (category: WardrobeCategory, list: 'required' | 'forbidden') => {
+    const [set, clearOther] = list === 'required'
+      ? [setRequiredCategories, setForbiddenCategories]
+      : [setForbiddenCategories, setRequiredCategories];
+    set(current => (current.includes(category) ? current.filter(c => c !== category) : [...current, category]));
+    clearOther(current => current.filter(c => c !== category));
+  };
+
+  const toggleColor = (hex: string, list: 'preferred' | 'avoid') => {
+    const [set, clearOther] = list === 'preferred'
+      ? [setPreferredColors, setAvoidColors]
+      : [setAvoidColors, setPreferredColors];
+    set(current => (current.includes(hex) ? current.filter(c => c !== hex) : [...current, hex]));
+    clearOther(current => current.filter(c => c !== hex));
+  };
+
+  const save = async () => {
+    if (!user || !label.trim()) return;
+    setSaving(true);
+    try {
+      const input = {
+        label: label.trim(),
+        icon: icon.trim() || '📅',
+        dressCode: createDressCode(formality, {
+          requiredCategories,
+          forbiddenCategories,
+          preferredColors,
+          avoidColors,
+          notes: notes.trim() || undefined,
+        }),
+      };
+      if (eventType) {
+        await eventTypeService.update(user.id, eventType.id, input);
+      } else {
+        await eventTypeService.add(user.id, input);
+      }
+      router.back();
+    } catch (error) {
+      console.error('Error saving event type:', error);
+      Alert.alert('Error', 'Failed to save this event type. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmRemove = () => {
+    if (!user || !eventType) return;
+    Alert.alert('Delete Event Type', `Delete ${eventType.label}? Past analyses keep their scores.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await eventTypeService.remove(user.id, eventType.id);
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  const renderCategoryChips = (selected: WardrobeCategory[], list: 'required' | 'forbidden') => (
+    <View style={styles.chipWrap}>
+      {WARDROBE_CATEGORIES.map(option => (
+        <TouchableOpacity
+          key={option.id}
+          style={[styles.chip, selected.includes(option.id) && (list === 'required' ? styles.chipActive : styles.chipForbidden)]}
+          onPress={() => toggleCategory(option.id, list)}
+        >
+          <Text style={[styles.chipText, selected.includes(option.id) && styles.chipTextActive]}>
+            {option.icon} {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderColorOptions = (selected: string[], list: 'preferred' | 'avoid') => (
+    <View style={styles.chipWrap}>
+      {COLOR_FAMILIES.map(family => (
+        <TouchableOpacity
+          key={family.id}
+          style={[styles.colorOption, selected.includes(family.swatch) && (list === 'preferred' ? styles.colorOptionActive : styles.colorOptionAvoid)]}
+          onPress={() => toggleColor(family.swatch, list)}
+        >
+          <View style={[styles.colorDot, { backgroundColor: family.swatch }]} />
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Stack.Screen options={{ title: eventType ? 'Edit Event Type' : 'New Event Type' }} />
+
+      <Card style={styles.card}>
+        <View style={styles.nameRow}>
+          <Input
+            label="Icon"
+            value={icon}
+            onChangeText={setIcon}
+            maxLength={2}
+            containerStyle={styles.iconInput}
+            testID="event-type-icon"
+          />
+          <Input
+            label="Name"
+            value={label}
+            onChangeText={setLabel}
+            placeholder="e.g. Cousin's wedding"
+            containerStyle={styles.nameInput}
+            testID="event-type-name"
+          />
+        </View>
+
+        <Text style={styles.subTitle}>Formality</Text>
+        <View style={styles.chipWrap}>
+          {FORMALITY_LEVELS.map(option => (
+            <TouchableOpacity
+              key={option.level}
+              style={[styles.chip, formality === option.level && styles.chipActive]}
+              onPress={() => setFormality(option.level)}
+            >
+              <Text style={[styles.chipText, formality === option.level && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.subTitle}>Must include</Text>
+        {renderCategoryChips(requiredCategories, 'required')}
+
+        <Text style={styles.subTitle}>Not allowed</Text>
+        {renderCategoryChips(forbiddenCategories, 'forbidden')}
+
+        <Text style={styles.subTitle}>Preferred colors</Text>
+        {renderColorOptions(preferredColors, 'preferred')}
+
+        <Text style={styles.subTitle}>Colors to avoid</Text>
+        {renderColorOptions(avoidColors, 'avoid')}
+
+        <Input
+          label="Notes"
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="e.g. Shoulders covered, no white"
+          multiline
+          testID="event-type-notes"
+        />
+
+        <Button
+          title={eventType ? 'Save Changes' : 'Create Event Type'}
+          onPress={save}
+          isLoading={saving}
+          disabled={!label.trim()}
+          style={styles.saveButton}
+          testID="save-event-type"
+        />
+        {eventType && (
+          <Button title="Delete Event Type" variant="outline" onPress={confirmRemove} style={styles.removeButton} />
+        )}
+      </Card>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContent: {
+    paddingVertical: 16,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  iconInput: {
+    width: 64,
+  },
+  nameInput: {
+    flex: 1,
+    width: undefined,
+  },
+  subTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textMuted,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: COLORS.chip,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipForbidden: {
+    backgroundColor: COLORS.error,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textMuted,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  colorOption: {
+    padding: 3,
+    borderRadius: 18,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  colorOptionActive: {
+    borderColor: COLORS.primary,
+  },
+  colorOptionAvoid: {
+    borderColor: COLORS.error,
+  },
+  colorDot: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+  removeButton: {
+    marginTop: 12,
+  },
+});
@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Image, ActivityIndicator, Platform, TextInput, Alert, Animated } from 'react-native';
 import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
-import { Camera, RefreshCw, Target, Sparkles, Crown } from 'lucide-react-native';
+import { Camera, RefreshCw, Target, Sparkles, Crown, History } from 'lucide-react-native';
 import { Stack, router } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import * as Haptics from 'expo-haptics';
@@ -10,12 +10,19 @@ import Button from '@/components/Button';
 import Card from '@/components/Card';
 import ProgressBar from '@/components/ProgressBar';
 import PremiumModal from '@/components/PremiumModal';
+import FaceMap, { CONDITION_COLORS } from '@/components/FaceMap';
 import { COLORS } from '@/constants/colors';
 import { aiService, GlowAnalysisResult } from '@/lib/ai-service';
+import { scanHistoryService, GlowScanRecord } from '@/lib/scan-history';
+import { planCheckInService } from '@/lib/plan-check-ins';
+import { faceTracker, TrackedFace } from '@/lib/face-tracking';
+import { confirmImageQuality } from '@/lib/image-quality';
+import { SkinRegionId } from '@/lib/skin-regions';
+import type { PlanAdaptation } from '@/types';
 import { useAuth } from '@/hooks/auth-store';
 
 export default function GlowAnalysisScreen() {
-  const { isPremium } = useAuth();
+  const { user, isPremium } = useAuth();
   const [showPremiumModal, setShowPremiumModal] = useState(false);
   const [permission, requestPermission] = useCameraPermissions();
   const [cameraActive, setCameraActive] = useState(false);
@@ -26,6 +33,8 @@ export default function GlowAnalysisScreen() {
   const [analysisStage, setAnalysisStage] = useState('');
   const [analysisResult, setAnalysisResult] = useState<GlowAnalysisResult | null>(null);
   const [showRecommendations, setShowRecommendations] = useState(false);
+  const [selectedRegionId, setSelectedRegionId] = useState<SkinRegionId | null>(null);
+  const [planCheckIn, setPlanCheckIn] = useState<PlanAdaptation | null>(null);
   const [cameraReady, setCameraReady] = useState(false);
   const [takingPicture, setTakingPicture] = useState(false);
   const [cameraReadyTimer, setCameraReadyTimer] = useState<ReturnType<typeof setTimeout> | null>(null);
@@ -35,6 +44,9 @@ export default function GlowAnalysisScreen() {
   const [lastFaceDetectionTime, setLastFaceDetectionTime] = useState<number>(0);
   const [faceLostTimeout, setFaceLostTimeout] = useState<ReturnType<typeof setTimeout> | null>(null);
   const [faceDetectionMessage, setFaceDetectionMessage] = useState('Preparing camera...');
+
+  // Same id the plan screens store plans under, so scans without a signed-in user still check in
+  const userId = user?.id || 'anonymous';
   
   // Animation values
   const buttonOpacity = useRef(new Animated.Value(0)).current;
@@ -43,6 +55,9 @@ export default function GlowAnalysisScreen() {
   
   const cameraRef = useRef<any>(null);
   const faceDetectionIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const trackingInFlightRef = useRef(false);
+  const cameraLayoutRef = useRef<{ width: number; height: number } | null>(null);
+  const guideLayoutRef = useRef<{ x: number; y: number; width: number; height: number } | null>(null);
 
 
 
@@ -71,6 +86,11 @@ export default function GlowAnalysisScreen() {
     setTakingPicture(true);
     
     try {
+      // Let any in-flight tracking snapshot finish so the two captures don't collide
+      while (trackingInFlightRef.current) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      
       // Additional wait for web to ensure camera has enough data
       if (Platform.OS === 'web') {
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -145,9 +165,15 @@ export default function GlowAnalysisScreen() {
   const analyzeImage = async (imageUri: string) => {
     setAnalyzing(true);
     setAnalysisProgress(0);
-    setAnalysisStage('Initializing analysis...');
+    setAnalysisStage('Checking photo quality...');
     
     try {
+      const proceed = await confirmImageQuality(imageUri, 'face');
+      if (!proceed) {
+        resetAnalysis();
+        return;
+      }
+      
       console.log('Starting comprehensive face analysis...');
       
       // Simulate analysis stages for better UX
@@ -170,6 +196,22 @@ export default function GlowAnalysisScreen() {
       const result = await aiService.analyzeGlow(imageUri);
       console.log('Analysis result:', result);
       
+      let record: GlowScanRecord | null = null;
+      try {
+        record = await scanHistoryService.addScan(userId, result, imageUri);
+      } catch (historyError) {
+        console.warn('Failed to save scan to history:', historyError);
+      }
+      if (record) {
+        try {
+          // A scan taken when the plan's weekly check-in is due adjusts the rest of the plan
+          const checkIn = await planCheckInService.recordCheckIn(userId, record);
+          setPlanCheckIn(checkIn?.entry ?? null);
+        } catch (checkInError) {
+          console.warn('Failed to record plan check-in:', checkInError);
+        }
+      }
+      
       setAnalysisProgress(100);
       setAnalysisStage('Analysis complete!');
       
@@ -206,6 +248,8 @@ export default function GlowAnalysisScreen() {
   const resetAnalysis = () => {
     setCapturedImage(null);
     setAnalysisResult(null);
+    setSelectedRegionId(null);
+    setPlanCheckIn(null);
     setShowRecommendations(false);
     setAnalysisProgress(0);
     setAnalysisStage('');
@@ -285,142 +329,153 @@ export default function GlowAnalysisScreen() {
 
 
 
-  // Enhanced face detection simulation with strict requirements
-  const simulateFaceDetection = useCallback(() => {
-    if (!cameraReady || takingPicture) return;
-    
-    const now = Date.now();
+  const showCaptureReady = useCallback(() => {
+    // Animate button appearance and border
+    Animated.parallel([
+      Animated.timing(buttonOpacity, {
+        toValue: 1,
+        duration: 300,
+        useNativeDriver: true,
+      }),
+      Animated.timing(borderAnimation, {
+        toValue: 1,
+        duration: 300,
+        useNativeDriver: true,
+      }),
+    ]).start();
     
-    // More sophisticated face detection simulation
-    // Higher success rate when camera is stable and ready
-    const cameraStabilityFactor = cameraReady ? 0.8 : 0.2;
-    const faceDetectionSuccess = Math.random() < cameraStabilityFactor;
-    
-    if (faceDetectionSuccess && !faceDetected) {
-      console.log('Face detected!');
-      
-      // Simulate face position within the camera guide circle
-      const centerX = 125; // Half of guide circle width (250px)
-      const centerY = 125; // Half of guide circle height (250px)
-      const faceSize = 80 + Math.random() * 40; // Random face size between 80-120px
-      
-      // Add some variation to face position (slightly off-center for realism)
-      const offsetX = (Math.random() - 0.5) * 30;
-      const offsetY = (Math.random() - 0.5) * 30;
-      
-      const facePos = {
-        x: centerX + offsetX - faceSize / 2,
-        y: centerY + offsetY - faceSize / 2,
-        width: faceSize,
-        height: faceSize
-      };
-      
-      setFaceDetected(true);
-      setFacePosition(facePos);
-      setLastFaceDetectionTime(now);
-      setFaceDetectionMessage('Face detected! Tap to take photo.');
-      
-      // Clear any existing face lost timeout
-      if (faceLostTimeout) {
-        clearTimeout(faceLostTimeout);
-        setFaceLostTimeout(null);
-      }
-      
-      // Animate button appearance and border
-      Animated.parallel([
-        Animated.timing(buttonOpacity, {
-          toValue: 1,
-          duration: 300,
+    // Start pulse animation
+    Animated.loop(
+      Animated.sequence([
+        Animated.timing(pulseAnimation, {
+          toValue: 1.1,
+          duration: 800,
           useNativeDriver: true,
         }),
-        Animated.timing(borderAnimation, {
+        Animated.timing(pulseAnimation, {
           toValue: 1,
-          duration: 300,
+          duration: 800,
           useNativeDriver: true,
         }),
-      ]).start();
+      ])
+    ).start();
+  }, [buttonOpacity, borderAnimation, pulseAnimation]);
+
+  const hideCaptureReady = useCallback(() => {
+    // Animate button disappearance
+    Animated.parallel([
+      Animated.timing(buttonOpacity, {
+        toValue: 0,
+        duration: 200,
+        useNativeDriver: true,
+      }),
+      Animated.timing(borderAnimation, {
+        toValue: 0,
+        duration: 200,
+        useNativeDriver: true,
+      }),
+    ]).start();
+    
+    // Stop pulse animation
+    pulseAnimation.stopAnimation();
+    pulseAnimation.setValue(1);
+  }, [buttonOpacity, borderAnimation, pulseAnimation]);
+
+  // Maps a frame-normalized face box into the guide circle's coordinate space
+  const toGuidePosition = useCallback((face: TrackedFace, frame: { width: number; height: number }) => {
+    const view = cameraLayoutRef.current;
+    const guide = guideLayoutRef.current;
+    if (!view || !guide) return null;
+    
+    // The preview fills the view like resizeMode "cover"
+    const scale = Math.max(view.width / frame.width, view.height / frame.height);
+    const offsetX = (frame.width * scale - view.width) / 2;
+    const offsetY = (frame.height * scale - view.height) / 2;
+    const box = face.boundingBox;
+    // Front camera preview is mirrored while captured frames are not
+    const boxX = facing === 'front' ? 1 - box.x - box.width : box.x;
+    
+    return {
+      x: boxX * frame.width * scale - offsetX - guide.x,
+      y: box.y * frame.height * scale - offsetY - guide.y,
+      width: box.width * frame.width * scale,
+      height: box.height * frame.height * scale,
+    };
+  }, [facing]);
+
+  // Samples a low-resolution frame from the preview and runs on-device face tracking on it
+  const trackFace = useCallback(async () => {
+    if (!cameraReady || takingPicture || !cameraRef.current || trackingInFlightRef.current) return;
+    trackingInFlightRef.current = true;
+    
+    try {
+      const frame = await cameraRef.current.takePictureAsync({
+        quality: 0.1,
+        skipProcessing: true,
+        exif: true,
+        shutterSound: false,
+      });
+      if (!frame) return;
       
-      // Start pulse animation
-      Animated.loop(
-        Animated.sequence([
-          Animated.timing(pulseAnimation, {
-            toValue: 1.1,
-            duration: 800,
-            useNativeDriver: true,
-          }),
-          Animated.timing(pulseAnimation, {
-            toValue: 1,
-            duration: 800,
-            useNativeDriver: true,
-          }),
-        ])
-      ).start();
+      const result = await faceTracker.processFrame(frame);
+      const alignment = faceTracker.evaluateAlignment(result);
+      const face = result.faces[0];
       
-      // Haptic feedback when face is detected (mobile only)
-      if (Platform.OS !== 'web') {
-        Haptics.selectionAsync();
-      }
+      setFacePosition(face ? toGuidePosition(face, frame) : null);
+      setFaceDetectionMessage(alignment.message);
+      setLastFaceDetectionTime(Date.now());
       
-    } else if (!faceDetectionSuccess && faceDetected) {
-      // Use faceLostTimeout to wait 1.5 seconds before setting faceDetected to false
-      if (!faceLostTimeout) {
+      if (alignment.ready) {
+        // Face is centered, level and well lit; clear any pending timeout
+        if (faceLostTimeout) {
+          clearTimeout(faceLostTimeout);
+          setFaceLostTimeout(null);
+        }
+        if (!faceDetected) {
+          console.log('Face aligned!');
+          setFaceDetected(true);
+          showCaptureReady();
+          
+          // Haptic feedback when face is aligned (mobile only)
+          if (Platform.OS !== 'web') {
+            Haptics.selectionAsync();
+          }
+        }
+      } else if (faceDetected && !faceLostTimeout) {
+        // Use faceLostTimeout to wait 1.5 seconds before setting faceDetected to false
         const timeout = setTimeout(() => {
-          console.log('Face lost after timeout...');
+          console.log('Face alignment lost after timeout...');
           setFaceDetected(false);
-          setFacePosition(null);
-          setFaceDetectionMessage('No face detected. Please align your face.');
           setFaceLostTimeout(null);
-          
-          // Animate button disappearance
-          Animated.parallel([
-            Animated.timing(buttonOpacity, {
-              toValue: 0,
-              duration: 200,
-              useNativeDriver: true,
-            }),
-            Animated.timing(borderAnimation, {
-              toValue: 0,
-              duration: 200,
-              useNativeDriver: true,
-            }),
-          ]).start();
-          
-          // Stop pulse animation
-          pulseAnimation.stopAnimation();
-          pulseAnimation.setValue(1);
+          hideCaptureReady();
         }, 1500);
         setFaceLostTimeout(timeout);
       }
-    } else if (faceDetectionSuccess && faceDetected) {
-      // Face is still detected, clear any pending timeout
-      if (faceLostTimeout) {
-        clearTimeout(faceLostTimeout);
-        setFaceLostTimeout(null);
-      }
-      
-      // Update face position slightly for natural movement
-      if (facePosition) {
-        const newPosition = {
-          ...facePosition,
-          x: facePosition.x + (Math.random() - 0.5) * 4,
-          y: facePosition.y + (Math.random() - 0.5) * 4,
-        };
-        setFacePosition(newPosition);
-        setLastFaceDetectionTime(now);
-      }
+    } catch (error) {
+      console.warn('Face tracking frame failed:', error);
+    } finally {
+      trackingInFlightRef.current = false;
     }
-  }, [cameraReady, takingPicture, faceDetected, facePosition, lastFaceDetectionTime, faceLostTimeout, buttonOpacity, borderAnimation, pulseAnimation]);
+  }, [cameraReady, takingPicture, faceDetected, faceLostTimeout, toGuidePosition, showCaptureReady, hideCaptureReady]);
 
-  // Start face detection when camera is ready
+  // Start face tracking when camera is ready
   useEffect(() => {
     if (cameraReady && !takingPicture) {
-      console.log('Starting face detection interval...');
+      if (!faceTracker.isAvailable()) {
+        // Without an on-device detector we can't gate capture; the server-side analysis still verifies the face
+        console.log('Face tracking unavailable, enabling manual capture');
+        setFaceDetected(true);
+        setFaceDetectionMessage('Center your face in the circle, then tap to capture.');
+        showCaptureReady();
+        return;
+      }
+      
+      console.log('Starting face tracking interval...');
       setFaceDetectionMessage('Looking for face...');
-      // Check for faces more frequently for better responsiveness
-      faceDetectionIntervalRef.current = setInterval(simulateFaceDetection, 500);
+      faceDetectionIntervalRef.current = setInterval(trackFace, 800);
     } else {
       if (faceDetectionIntervalRef.current) {
-        console.log('Stopping face detection interval...');
+        console.log('Stopping face tracking interval...');
         clearInterval(faceDetectionIntervalRef.current);
         faceDetectionIntervalRef.current = null;
       }
@@ -432,7 +487,7 @@ export default function GlowAnalysisScreen() {
         faceDetectionIntervalRef.current = null;
       }
     };
-  }, [cameraReady, takingPicture, simulateFaceDetection]);
+  }, [cameraReady, takingPicture, trackFace, showCaptureReady]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -444,6 +499,8 @@ export default function GlowAnalysisScreen() {
     };
   }, []);
 
+  const selectedRegion = analysisResult?.regions?.find(r => r.id === selectedRegionId) ?? analysisResult?.regions?.[0];
+
   if (cameraActive) {
     return (
       <View style={styles.cameraContainer}>
@@ -452,6 +509,10 @@ export default function GlowAnalysisScreen() {
           style={styles.camera}
           facing={facing}
           ref={cameraRef}
+          onLayout={event => {
+            const { width, height } = event.nativeEvent.layout;
+            cameraLayoutRef.current = { width, height };
+          }}
           onCameraReady={() => {
             console.log('Camera ready callback triggered');
             // Don't immediately set ready on web, wait for timer
@@ -461,12 +522,17 @@ export default function GlowAnalysisScreen() {
           }}
         >
           <View style={styles.cameraOverlay}>
-            <Animated.View style={[
-              styles.cameraGuide,
-              {
-                transform: [{ scale: pulseAnimation }],
-              }
-            ]}>
+            <Animated.View
+              onLayout={event => {
+                guideLayoutRef.current = event.nativeEvent.layout;
+              }}
+              style={[
+                styles.cameraGuide,
+                {
+                  transform: [{ scale: pulseAnimation }],
+                }
+              ]}
+            >
               <Animated.View style={[
                 styles.cameraGuideCircle,
                 {
@@ -474,7 +540,7 @@ export default function GlowAnalysisScreen() {
                   opacity: borderAnimation,
                 }
               ]} />
-              {faceDetected && (
+              {facePosition && (
                 <View style={[
                   styles.faceIndicator,
                   {
@@ -482,7 +548,8 @@ export default function GlowAnalysisScreen() {
                     top: facePosition?.y || 0,
                     width: facePosition?.width || 80,
                     height: facePosition?.height || 80,
-                  }
+                  },
+                  !faceDetected && styles.faceIndicatorAdjusting,
                 ]} />
               )}
             </Animated.View>
@@ -661,9 +728,24 @@ export default function GlowAnalysisScreen() {
             
             <View style={styles.skinToneContainer}>
               <Text style={styles.skinToneLabel}>Skin Tone</Text>
-              <Text style={styles.skinToneValue}>{analysisResult?.skinTone}</Text>
+              <View style={styles.skinToneValueRow}>
+                {analysisResult?.skinToneProfile && (
+                  <View style={[styles.skinToneSwatch, { backgroundColor: analysisResult.skinToneProfile.hex }]} />
+                )}
+                <Text style={styles.skinToneValue}>{analysisResult?.skinTone}</Text>
+              </View>
             </View>
             
+            {analysisResult?.skinToneProfile && (
+              <View style={styles.skinToneContainer}>
+                <Text style={styles.skinToneLabel}>Monk Scale · Undertone</Text>
+                <Text style={styles.skinToneValue}>
+                  {analysisResult.skinToneProfile.monkIndex}/10 · {analysisResult.skinToneProfile.undertone}
+                  {analysisResult.skinToneProfile.confidence < 0.5 ? ' (low confidence)' : ''}
+                </Text>
+              </View>
+            )}
+            
             <View style={styles.skinToneContainer}>
               <Text style={styles.skinToneLabel}>Skin Type</Text>
               <Text style={styles.skinToneValue}>{analysisResult?.skinType || 'Normal'}</Text>
@@ -708,6 +790,60 @@ export default function GlowAnalysisScreen() {
             </View>
           </Card>
 
+          {analysisResult?.regions && selectedRegion && (
+            <Card style={styles.metricsCard}>
+              <Text style={styles.analysisTitle}>🗺️ Skin Map</Text>
+              <Text style={styles.regionHint}>Tap an area to see how it compares.</Text>
+              <FaceMap
+                regions={analysisResult.regions}
+                selectedId={selectedRegion.id}
+                onSelect={setSelectedRegionId}
+                testID="skin-face-map"
+              />
+              <View style={styles.regionDetails}>
+                <View style={styles.geometryHeader}>
+                  <Text style={styles.regionTitle}>{selectedRegion.label}</Text>
+                  <Text style={[styles.regionCondition, { color: CONDITION_COLORS[selectedRegion.condition] }]}>
+                    {selectedRegion.condition.charAt(0).toUpperCase() + selectedRegion.condition.slice(1)}
+                  </Text>
+                </View>
+                <Text style={styles.metricsLabel}>Evenness</Text>
+                <ProgressBar progress={selectedRegion.uniformity} height={8} showPercentage color={COLORS.success} />
+                <Text style={styles.metricsLabel}>Shine</Text>
+                <ProgressBar progress={selectedRegion.shine} height={8} showPercentage color={COLORS.warning} />
+                <Text style={styles.metricsLabel}>Redness</Text>
+                <ProgressBar progress={selectedRegion.redness} height={8} showPercentage color={COLORS.error} />
+                {selectedRegion.notes.map((note, index) => (
+                  <Text key={index} style={styles.geometryExplanation}>{note}</Text>
+                ))}
+              </View>
+            </Card>
+          )}
+
+          {analysisResult?.geometry && (
+            <Card style={styles.metricsCard}>
+              <Text style={styles.analysisTitle}>📐 Facial Proportions</Text>
+              {!analysisResult.geometry.reliable && (
+                <Text style={styles.geometryNote}>Your head was slightly turned, so these measurements are approximate.</Text>
+              )}
+              {[
+                { key: 'symmetry', label: 'Symmetry', metric: analysisResult.geometry.symmetry },
+                { key: 'thirds', label: 'Facial Thirds', metric: analysisResult.geometry.facialThirds },
+                { key: 'jaw', label: 'Jaw Angle', metric: analysisResult.geometry.jawAngle, unit: '°' },
+                { key: 'eyes', label: 'Eye Spacing', metric: analysisResult.geometry.eyeSpacing },
+              ].map(({ key, label, metric, unit }) => metric && (
+                <View key={key} style={styles.geometryItem}>
+                  <View style={styles.geometryHeader}>
+                    <Text style={styles.metricsLabel}>{label}</Text>
+                    {unit && <Text style={styles.geometryValue}>{metric.value}{unit}</Text>}
+                  </View>
+                  <ProgressBar progress={metric.score} height={8} showPercentage color={COLORS.primary} />
+                  <Text style={styles.geometryExplanation}>{metric.explanation}</Text>
+                </View>
+              ))}
+            </Card>
+          )}
+
           <Card style={styles.tipsCard}>
             <View style={styles.tipsHeader}>
               <Text style={styles.tipsTitle}>🤖 Personalized AI Beauty Tips</Text>
@@ -724,6 +860,27 @@ export default function GlowAnalysisScreen() {
             ))}
           </Card>
 
+          {planCheckIn && (
+            <Card style={styles.tipsCard}>
+              <View style={styles.tipsHeader}>
+                <Text style={styles.tipsTitle}>Your Plan Was Updated</Text>
+                <History size={16} color={COLORS.primary} />
+              </View>
+              <Text style={styles.checkInNote}>{planCheckIn.note}</Text>
+              {(planCheckIn.changes ?? []).map(change => (
+                <Text key={change} style={styles.checkInChange}>• {change}</Text>
+              ))}
+              <Button
+                title="View Updated Plan"
+                variant="outline"
+                size="small"
+                onPress={() => router.push('/(tabs)/glow-plan')}
+                style={styles.checkInButton}
+                testID="view-updated-plan-button"
+              />
+            </Card>
+          )}
+
           <View style={styles.actionButtons}>
             <Button
               title="Start 30-Day Glow-Up Plan"
@@ -753,12 +910,9 @@ export default function GlowAnalysisScreen() {
                 style={styles.actionButton}
               />
               <Button
-                title="Save Results"
+                title="View History"
                 variant="outline"
-                onPress={() => {
-                  // TODO: Implement save functionality
-                  console.log('Save results:', analysisResult);
-                }}
+                onPress={() => router.push('/(tabs)/glow-history')}
                 style={styles.actionButton}
               />
             </View>
@@ -873,6 +1027,10 @@ const styles = StyleSheet.create({
     borderRadius: 40,
     backgroundColor: 'rgba(34, 197, 94, 0.1)',
   },
+  faceIndicatorAdjusting: {
+    borderColor: COLORS.warning,
+    backgroundColor: 'rgba(212, 165, 116, 0.1)',
+  },
 
   cameraInstructions: {
     color: COLORS.white,
@@ -1121,6 +1279,18 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: COLORS.primary,
   },
+  skinToneValueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  skinToneSwatch: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
   metricsContainer: {
     gap: 16,
   },
@@ -1129,6 +1299,49 @@ const styles = StyleSheet.create({
     color: COLORS.textDark,
     marginBottom: 8,
   },
+  regionHint: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginBottom: 12,
+  },
+  regionDetails: {
+    marginTop: 16,
+    gap: 4,
+  },
+  regionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 8,
+  },
+  regionCondition: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  geometryNote: {
+    fontSize: 13,
+    color: COLORS.warning,
+    marginBottom: 12,
+  },
+  geometryItem: {
+    marginBottom: 16,
+  },
+  geometryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  geometryValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textMuted,
+  },
+  geometryExplanation: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    lineHeight: 18,
+    marginTop: 6,
+  },
   tipsCard: {
     marginBottom: 16,
     padding: 20,
@@ -1170,6 +1383,21 @@ const styles = StyleSheet.create({
     color: COLORS.text,
     lineHeight: 24,
   },
+  checkInNote: {
+    fontSize: 15,
+    color: COLORS.textDark,
+    lineHeight: 22,
+    marginBottom: 6,
+  },
+  checkInChange: {
+    fontSize: 14,
+    color: COLORS.text,
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+  checkInButton: {
+    marginTop: 10,
+  },
   actionButtons: {
     marginBottom: 30,
   },
@@ -1195,7 +1423,7 @@ interface PersonalizedRecommendationsProps {
 }
 
 function PersonalizedRecommendations({ analysisResult, onClose, onStartCoaching }: PersonalizedRecommendationsProps) {
-  const { isPremium } = useAuth();
+  const { user, isPremium } = useAuth();
   const [selectedRecommendation, setSelectedRecommendation] = useState<string | null>(null);
   const [customGoal, setCustomGoal] = useState('');
   const [showCustomInput, setShowCustomInput] = useState(false);
@@ -0,0 +1,264 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity } from 'react-native';
+import { Stack, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { CheckCircle, Sparkles } from 'lucide-react-native';
+
+import Card from '@/components/Card';
+import FaceCrop from '@/components/FaceCrop';
+import { COLORS } from '@/constants/colors';
+import { useAuth } from '@/hooks/auth-store';
+import { scanHistoryService, GlowScanRecord } from '@/lib/scan-history';
+import { scanComparisonService } from '@/lib/scan-comparison';
+
+export default function GlowCompareScreen() {
+  const { user } = useAuth();
+  const params = useLocalSearchParams<{ before?: string; after?: string }>();
+  const [scans, setScans] = useState<GlowScanRecord[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      scanHistoryService.getScans(user.id)
+        .then(history => {
+          setScans(history);
+          const preselected = [params.before, params.after].filter((id): id is string => !!id && history.some(s => s.id === id));
+          // Default to the oldest and newest scans so progress is visible straight away
+          if (preselected.length === 2) {
+            setSelectedIds(preselected);
+          } else if (history.length >= 2) {
+            setSelectedIds([history[history.length - 1].id, history[0].id]);
+          }
+        })
+        .catch(error => console.error('Error loading scan history:', error));
+    }, [user, params.before, params.after])
+  );
+
+  const toggleSelection = (scanId: string) => {
+    setSelectedIds(current => {
+      if (current.includes(scanId)) {
+        return current.filter(id => id !== scanId);
+      }
+      // Keep at most two scans selected, replacing the earliest pick
+      return [...current, scanId].slice(-2);
+    });
+  };
+
+  const comparison = useMemo(() => {
+    const selected = selectedIds
+      .map(id => scans.find(s => s.id === id))
+      .filter((s): s is GlowScanRecord => !!s);
+    return selected.length === 2 ? scanComparisonService.compare(selected[0], selected[1]) : null;
+  }, [selectedIds, scans]);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Stack.Screen options={{ title: 'Compare Scans' }} />
+
+      {comparison ? (
+        <>
+          <Card style={styles.card}>
+            <View style={styles.facesRow}>
+              <View style={styles.faceColumn}>
+                <FaceCrop uri={comparison.before.thumbnailUri} faceBox={comparison.before.result.faceBox} size={140} testID="compare-before" />
+                <Text style={styles.faceLabel}>Before</Text>
+                <Text style={styles.faceDate}>{new Date(comparison.before.createdAt).toLocaleDateString()}</Text>
+              </View>
+              <View style={styles.faceColumn}>
+                <FaceCrop uri={comparison.after.thumbnailUri} faceBox={comparison.after.result.faceBox} size={140} testID="compare-after" />
+                <Text style={styles.faceLabel}>After</Text>
+                <Text style={styles.faceDate}>{new Date(comparison.after.createdAt).toLocaleDateString()}</Text>
+              </View>
+            </View>
+            <Text style={styles.daysApart}>{comparison.daysApart} days apart</Text>
+          </Card>
+
+          <Card style={styles.card}>
+            <View style={styles.narrativeHeader}>
+              <Sparkles size={16} color={COLORS.primary} />
+              <Text style={styles.cardTitle}>Your Progress</Text>
+            </View>
+            <Text style={styles.narrative}>{comparison.narrative}</Text>
+          </Card>
+
+          <Card style={styles.card}>
+            <Text style={styles.cardTitle}>📊 Metric Changes</Text>
+            {comparison.deltas.map(d => (
+              <View key={d.metric} style={styles.deltaRow}>
+                <Text style={styles.deltaLabel}>{d.label}</Text>
+                <Text style={styles.deltaValues}>{d.before} → {d.after}</Text>
+                <Text style={[
+                  styles.deltaChange,
+                  { color: d.delta > 0 ? COLORS.success : d.delta < 0 ? COLORS.error : COLORS.textLight },
+                ]}>
+                  {d.delta > 0 ? `+${d.delta}` : d.delta}
+                </Text>
+              </View>
+            ))}
+          </Card>
+        </>
+      ) : (
+        <Card style={styles.card}>
+          <Text style={styles.hintText}>
+            {scans.length < 2 ? 'You need at least two scans to compare your progress.' : 'Select two scans to compare.'}
+          </Text>
+        </Card>
+      )}
+
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Choose Scans</Text>
+      </View>
+      <View style={styles.scanList}>
+        {scans.map(scan => {
+          const selected = selectedIds.includes(scan.id);
+          return (
+            <TouchableOpacity
+              key={scan.id}
+              style={[styles.scanItem, selected && styles.scanItemSelected]}
+              onPress={() => toggleSelection(scan.id)}
+            >
+              <Image source={{ uri: scan.thumbnailUri }} style={styles.scanThumbnail} />
+              <View style={styles.scanInfo}>
+                <Text style={styles.scanTitle}>Score {scan.result.overallScore}</Text>
+                <Text style={styles.scanDate}>{new Date(scan.createdAt).toLocaleString()}</Text>
+              </View>
+              {selected && <CheckCircle size={20} color={COLORS.primary} />}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContent: {
+    paddingVertical: 16,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  facesRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  faceColumn: {
+    alignItems: 'center',
+  },
+  faceLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginTop: 8,
+  },
+  faceDate: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  daysApart: {
+    fontSize: 14,
+    color: COLORS.textMuted,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  narrativeHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 6,
+  },
+  narrative: {
+    fontSize: 16,
+    color: COLORS.text,
+    lineHeight: 24,
+  },
+  deltaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.divider,
+  },
+  deltaLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: COLORS.text,
+  },
+  deltaValues: {
+    fontSize: 14,
+    color: COLORS.textMuted,
+    marginRight: 12,
+  },
+  deltaChange: {
+    fontSize: 15,
+    fontWeight: '600',
+    minWidth: 36,
+    textAlign: 'right',
+  },
+  hintText: {
+    fontSize: 15,
+    color: COLORS.textLight,
+    textAlign: 'center',
+  },
+  sectionHeader: {
+    paddingHorizontal: 16,
+    marginBottom: 8,
+    marginTop: 6,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  scanList: {
+    backgroundColor: COLORS.white,
+    borderRadius: 12,
+    marginHorizontal: 16,
+    padding: 4,
+    shadowColor: COLORS.black,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  scanItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  scanItemSelected: {
+    backgroundColor: COLORS.primary + '10',
+  },
+  scanThumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 10,
+    backgroundColor: COLORS.chip,
+  },
+  scanInfo: {
+    flex: 1,
+  },
+  scanTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: COLORS.textDark,
+    marginBottom: 4,
+  },
+  scanDate: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+});
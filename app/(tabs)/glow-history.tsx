@@ -0,0 +1,359 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, Alert } from 'react-native';
+import { Stack, router, useFocusEffect } from 'expo-router';
+import { Camera, TrendingUp, TrendingDown, Minus, Trash2, RefreshCw } from 'lucide-react-native';
+
+import Button from '@/components/Button';
+import Card from '@/components/Card';
+import TrendChart from '@/components/TrendChart';
+import { COLORS } from '@/constants/colors';
+import { useAuth } from '@/hooks/auth-store';
+import { scanHistoryService, GlowScanRecord, GlowTrendMetric, GLOW_TREND_METRICS, WeekOverWeekDeltas } from '@/lib/scan-history';
+import { scoringModels } from '@/lib/scoring-models';
+
+const formatScanDate = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.toLocaleDateString()}, ${date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+};
+
+export default function GlowHistoryScreen() {
+  const { user } = useAuth();
+  const [scans, setScans] = useState<GlowScanRecord[]>([]);
+  const [deltas, setDeltas] = useState<WeekOverWeekDeltas | null>(null);
+  const [deltasMixModels, setDeltasMixModels] = useState(false);
+  const [selectedMetric, setSelectedMetric] = useState<GlowTrendMetric>('overallScore');
+  const [loading, setLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+    try {
+      await scanHistoryService.rescoreOutdatedScans(user.id);
+      const history = await scanHistoryService.getScans(user.id);
+      setScans(history);
+      setDeltas(scanHistoryService.getWeekOverWeekDeltas(history));
+      setDeltasMixModels(scanHistoryService.weekOverWeekMixesModels(history));
+    } catch (error) {
+      console.error('Error loading scan history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory();
+    }, [loadHistory])
+  );
+
+  const confirmRemove = (scan: GlowScanRecord) => {
+    if (!user) return;
+    Alert.alert('Delete Scan', 'Remove this scan from your history?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await scanHistoryService.removeScan(user.id, scan.id);
+          loadHistory();
+        },
+      },
+    ]);
+  };
+
+  const renderDelta = (value: number | null) => {
+    if (value === null) {
+      return <Text style={styles.deltaNeutral}>—</Text>;
+    }
+    const color = value > 0 ? COLORS.success : value < 0 ? COLORS.error : COLORS.textLight;
+    const Icon = value > 0 ? TrendingUp : value < 0 ? TrendingDown : Minus;
+    return (
+      <View style={styles.deltaValue}>
+        <Icon size={14} color={color} />
+        <Text style={[styles.deltaText, { color }]}>{value > 0 ? `+${value}` : value}</Text>
+      </View>
+    );
+  };
+
+  const selectedLabel = GLOW_TREND_METRICS.find(m => m.key === selectedMetric)?.label;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Stack.Screen options={{ title: 'Scan History' }} />
+
+      {!loading && scans.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Camera size={48} color={COLORS.primary} />
+          <Text style={styles.emptyTitle}>No scans yet</Text>
+          <Text style={styles.emptyDescription}>
+            Every glow analysis you run is saved here so you can track your progress over time.
+          </Text>
+          <Button
+            title="Start Face Scan"
+            onPress={() => router.push('/(tabs)/glow-analysis')}
+            style={styles.emptyButton}
+          />
+        </View>
+      ) : (
+        <>
+          <Card style={styles.card}>
+            <Text style={styles.cardTitle}>📈 {selectedLabel} Trend</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.metricChips}>
+              {GLOW_TREND_METRICS.map(metric => (
+                <TouchableOpacity
+                  key={metric.key}
+                  style={[styles.chip, selectedMetric === metric.key && styles.chipActive]}
+                  onPress={() => setSelectedMetric(metric.key)}
+                >
+                  <Text style={[styles.chipText, selectedMetric === metric.key && styles.chipTextActive]}>
+                    {metric.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <TrendChart points={scanHistoryService.getTrend(scans, selectedMetric)} height={140} testID="glow-trend-chart" />
+          </Card>
+
+          <Card style={styles.card}>
+            <Text style={styles.cardTitle}>🗓 Week over Week</Text>
+            {GLOW_TREND_METRICS.map(metric => (
+              <View key={metric.key} style={styles.deltaRow}>
+                <Text style={styles.deltaLabel}>{metric.label}</Text>
+                {renderDelta(deltas?.[metric.key] ?? null)}
+              </View>
+            ))}
+            {deltasMixModels && (
+              <Text style={styles.modelNote}>
+                Some of these scans were scored by an older model, so part of the change comes from scoring updates rather than your skin.
+              </Text>
+            )}
+          </Card>
+
+          <View style={[styles.sectionHeader, styles.sectionHeaderRow]}>
+            <Text style={styles.sectionTitle}>All Scans ({scans.length})</Text>
+            {scans.length >= 2 && (
+              <TouchableOpacity onPress={() => router.push('/(tabs)/glow-compare')} testID="compare-scans">
+                <Text style={styles.sectionLink}>Compare</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={styles.scanList}>
+            {scans.map((scan, index) => {
+              // Scans are newest first, so the next entry is the one this score is compared against
+              const previous = scans[index + 1];
+              const modelChanged = previous && scanHistoryService.scoredByDifferentModels(scan, previous);
+              return (
+                <View key={scan.id} style={styles.scanItem}>
+                  <Image source={{ uri: scan.thumbnailUri }} style={styles.scanThumbnail} />
+                  <View style={styles.scanInfo}>
+                    <Text style={styles.scanTitle}>{scan.result.skinQuality} · {scan.result.skinType}</Text>
+                    <Text style={styles.scanDate}>{formatScanDate(scan.createdAt)}</Text>
+                    {scan.result.rescoredFrom && (
+                      <View style={styles.modelBadge}>
+                        <RefreshCw size={11} color={COLORS.info} />
+                        <Text style={styles.modelBadgeText}>
+                          Re-scored with {scan.result.modelVersion} (was {scan.result.rescoredFrom.overallScore})
+                        </Text>
+                      </View>
+                    )}
+                    {modelChanged && (
+                      <Text style={styles.modelChangeText}>
+                        Change vs. previous scan partly due to scoring model update (previous: {scoringModels.describe(previous.result.modelVersion)})
+                      </Text>
+                    )}
+                  </View>
+                  <Text style={styles.scanScore}>{scan.result.overallScore}</Text>
+                  <TouchableOpacity style={styles.removeButton} onPress={() => confirmRemove(scan)}>
+                    <Trash2 size={16} color={COLORS.textLight} />
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </View>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContent: {
+    paddingVertical: 16,
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 80,
+  },
+  emptyTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.textDark,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyDescription: {
+    fontSize: 15,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  emptyButton: {
+    width: '100%',
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  metricChips: {
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: COLORS.chip,
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textMuted,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  deltaRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.divider,
+  },
+  deltaLabel: {
+    fontSize: 15,
+    color: COLORS.text,
+  },
+  deltaValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  deltaText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  deltaNeutral: {
+    fontSize: 15,
+    color: COLORS.textLight,
+  },
+  sectionHeader: {
+    paddingHorizontal: 16,
+    marginBottom: 8,
+    marginTop: 6,
+  },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  sectionLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  scanList: {
+    backgroundColor: COLORS.white,
+    borderRadius: 12,
+    marginHorizontal: 16,
+    padding: 4,
+    shadowColor: COLORS.black,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  scanItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  scanThumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 10,
+    backgroundColor: COLORS.chip,
+  },
+  scanInfo: {
+    flex: 1,
+  },
+  scanTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: COLORS.textDark,
+    marginBottom: 4,
+  },
+  scanDate: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  scanScore: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+    marginRight: 8,
+  },
+  removeButton: {
+    padding: 6,
+  },
+  modelNote: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  modelBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  modelBadgeText: {
+    fontSize: 11,
+    color: COLORS.info,
+  },
+  modelChangeText: {
+    fontSize: 11,
+    color: COLORS.warning,
+    marginTop: 2,
+  },
+});
@@ -1,9 +1,8 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, RefreshControl, ActivityIndicator, Platform } from 'react-native';
-import { Stack, router, useLocalSearchParams } from 'expo-router';
-import { CheckCircle, Circle, Droplets, Moon, Dumbbell, Apple, Heart, Plus, Edit3, Bell, Trophy, Flame } from 'lucide-react-native';
+import { Stack, router, useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { CheckCircle, Circle, Droplets, Moon, Dumbbell, Apple, Heart, Plus, Edit3, Bell, Trophy, Flame, Sparkles, CalendarClock, ScanFace, History, FlaskConical } from 'lucide-react-native';
 import * as Notifications from 'expo-notifications';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import Button from '@/components/Button';
 import Card from '@/components/Card';
@@ -12,27 +11,47 @@ import Input from '@/components/Input';
 import RouteGuard from '@/components/RouteGuard';
 import Colors from '@/constants/colors';
 import { useAuth } from '@/hooks/auth-store';
-import { GlowUpPlan, GlowUpDayTask, GlowUpProgress } from '@/types';
-import { aiService } from '@/lib/ai-service';
 import { logger } from '@/lib/logger';
+import type { PlanAdjustment } from '@/types';
+import { scanComparisonService, ScanComparison } from '@/lib/scan-comparison';
+import { glowPlanService, routineSlot, ActivePlan, PlanAnalysisData } from '@/lib/glow-plan';
+import { planAdaptationService, ADJUSTMENT_LABELS } from '@/lib/plan-adaptation';
+import { planCheckInService } from '@/lib/plan-check-ins';
+import { planCalendarWeeks, planDayOn, dateOfPlanDay, isPausedOn, keyToDate, DayKey } from '@/lib/plan-calendar';
 
-interface DayTaskWithProduct extends GlowUpDayTask {
-  showProductInput?: boolean;
-}
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const MAX_CHANGELOG_ENTRIES = 5;
+
+const formatDayKey = (key: DayKey, withWeekday: boolean = false) =>
+  keyToDate(key).toLocaleDateString(undefined, {
+    weekday: withWeekday ? 'short' : undefined,
+    month: 'short',
+    day: 'numeric',
+  });
 
 export default function GlowUpPlanScreen() {
   const { user } = useAuth();
   const params = useLocalSearchParams();
   
-  const [plan, setPlan] = useState<GlowUpPlan | null>(null);
-  const [tasks, setTasks] = useState<DayTaskWithProduct[]>([]);
-  const [progress, setProgress] = useState<GlowUpProgress | null>(null);
+  const [active, setActive] = useState<ActivePlan | null>(null);
   const [currentDay, setCurrentDay] = useState(1);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [editingProduct, setEditingProduct] = useState<string | null>(null);
   const [productInput, setProductInput] = useState('');
   const [notificationPermission, setNotificationPermission] = useState<boolean>(false);
+  const [milestoneComparison, setMilestoneComparison] = useState<ScanComparison | null>(null);
+
+  const userId = user?.id || 'anonymous';
+  const plan = active?.plan ?? null;
+  const tasks = useMemo(() => active?.tasks ?? [], [active]);
+  const progress = useMemo(() => (active ? glowPlanService.getProgress(active) : null), [active]);
+  const calendarWeeks = useMemo(() => (active ? planCalendarWeeks(active.plan) : []), [active]);
+  const missedDays = useMemo(() => (active ? glowPlanService.missedDays(active) : []), [active]);
+  const missedReview = useMemo(() => (active ? planAdaptationService.review(active) : null), [active]);
+  const checkInDue = useMemo(() => (active ? planCheckInService.isDue(active) : false), [active]);
+  const changelog = useMemo(() => (active?.plan.adaptations ?? []).slice().reverse(), [active]);
+  const loadedRef = useRef(false);
 
   // Initialize plan from params or load existing
   useEffect(() => {
@@ -40,6 +59,26 @@ export default function GlowUpPlanScreen() {
     checkNotificationPermission();
   }, []);
 
+  // A check-in scan changes the plan from the analysis screen, so pick that up on the way back
+  useFocusEffect(
+    useCallback(() => {
+      if (loadedRef.current) {
+        loadExistingPlan();
+      }
+    }, [userId])
+  );
+
+  // Surface before/after progress on milestone days (7/14/30)
+  useEffect(() => {
+    if (!plan || !user || !scanComparisonService.isMilestoneDay(currentDay)) {
+      setMilestoneComparison(null);
+      return;
+    }
+    scanComparisonService.getPlanComparison(user.id, plan.start_date)
+      .then(setMilestoneComparison)
+      .catch(error => logger.warn('Failed to load milestone comparison', error as Error));
+  }, [plan?.id, plan?.start_date, user?.id, currentDay]);
+
   const checkNotificationPermission = async () => {
     try {
       // Notifications have limited support in Expo Go SDK 53
@@ -143,6 +182,7 @@ export default function GlowUpPlanScreen() {
         // Load existing plan
         await loadExistingPlan();
       }
+      loadedRef.current = true;
     } catch (error) {
       logger.error('Failed to initialize plan', error as Error);
       Alert.alert('Error', 'Failed to load your glow-up plan. Please try again.');
@@ -152,209 +192,24 @@ export default function GlowUpPlanScreen() {
   };
 
   const createNewPlan = async (goal: string, glowScore: number) => {
-    try {
-      logger.info('Creating new glow-up plan', { goal, glowScore });
-      
-      // Generate AI coaching plan
-      await aiService.generateCoachingPlan(goal, glowScore);
-      
-      const startDate = new Date();
-      const endDate = new Date();
-      endDate.setDate(startDate.getDate() + 30);
-      
-      const newPlan: GlowUpPlan = {
-        id: `glow-plan-${Date.now()}`,
-        user_id: user?.id || 'anonymous',
-        goal,
-        start_date: startDate.toISOString(),
-        end_date: endDate.toISOString(),
-        created_at: new Date().toISOString(),
-        analysis_data: params.analysisData ? JSON.parse(params.analysisData as string) : undefined,
-        progress: {
-          completed_days: 0,
-          total_days: 30,
-          completion_percentage: 0,
-        },
-      };
-      
-      // Convert AI tasks to our format
-      const planTasks: GlowUpDayTask[] = [];
-      
-      for (let day = 1; day <= 30; day++) {
-        const dayTasks = generateDayTasks(day, newPlan.id, goal, glowScore, newPlan.analysis_data);
-        planTasks.push(...dayTasks);
-      }
-      
-      // Save to storage
-      await AsyncStorage.setItem(`glow-plan-${newPlan.id}`, JSON.stringify(newPlan));
-      await AsyncStorage.setItem(`glow-tasks-${newPlan.id}`, JSON.stringify(planTasks));
-      await AsyncStorage.setItem('current-glow-plan', newPlan.id);
-      
-      setPlan(newPlan);
-      setTasks(planTasks);
-      
-      // Initialize progress
-      const initialProgress: GlowUpProgress = {
-        plan_id: newPlan.id,
-        user_id: user?.id || 'anonymous',
-        current_day: 1,
-        completed_tasks: 0,
-        total_tasks: planTasks.length,
-        streak_days: 0,
-        last_activity_date: new Date().toISOString(),
-        weekly_progress: Array.from({ length: 5 }, (_, i) => ({
-          week: i + 1,
-          completed_days: 0,
-          total_days: 7,
-        })),
-      };
-      
-      setProgress(initialProgress);
-      await AsyncStorage.setItem(`glow-progress-${newPlan.id}`, JSON.stringify(initialProgress));
-      
-      logger.info('New glow-up plan created successfully');
-    } catch (error) {
-      logger.error('Failed to create new plan', error as Error);
-      throw error;
-    }
-  };
-
-  const generateDayTasks = (day: number, planId: string, goal: string, glowScore: number, analysisData?: any): GlowUpDayTask[] => {
-    const taskDate = new Date();
-    taskDate.setDate(taskDate.getDate() + day - 1);
-    
-    const baseTasks: Omit<GlowUpDayTask, 'id'>[] = [
-      {
-        plan_id: planId,
-        user_id: user?.id || 'anonymous',
-        day,
-        date: taskDate.toISOString(),
-        title: 'Morning Skincare Routine',
-        description: 'Complete your morning skincare routine',
-        type: 'skincare',
-        product_suggestion: getSkincareRecommendation('morning', analysisData),
-        completed: false,
-      },
-      {
-        plan_id: planId,
-        user_id: user?.id || 'anonymous',
-        day,
-        date: taskDate.toISOString(),
-        title: 'Hydration Goal',
-        description: 'Drink 8-10 glasses of water throughout the day',
-        type: 'hydration',
-        completed: false,
-      },
-      {
-        plan_id: planId,
-        user_id: user?.id || 'anonymous',
-        day,
-        date: taskDate.toISOString(),
-        title: 'Evening Skincare',
-        description: 'Complete your evening skincare routine',
-        type: 'skincare',
-        product_suggestion: getSkincareRecommendation('evening', analysisData),
-        completed: false,
-      },
-    ];
-    
-    // Add weekly special tasks
-    if (day % 7 === 0) {
-      baseTasks.push({
-        plan_id: planId,
-        user_id: user?.id || 'anonymous',
-        day,
-        date: taskDate.toISOString(),
-        title: 'Weekly Face Mask',
-        description: 'Apply a hydrating or purifying face mask',
-        type: 'skincare',
-        product_suggestion: 'Hydrating sheet mask or clay mask',
-        completed: false,
-      });
-    }
-    
-    // Add exercise every 3 days
-    if (day % 3 === 0) {
-      baseTasks.push({
-        plan_id: planId,
-        user_id: user?.id || 'anonymous',
-        day,
-        date: taskDate.toISOString(),
-        title: 'Light Exercise',
-        description: '20-30 minutes of light exercise to boost circulation',
-        type: 'exercise',
-        completed: false,
-      });
-    }
-    
-    return baseTasks.map(task => ({
-      ...task,
-      id: `task-${planId}-${day}-${Math.random().toString(36).substr(2, 9)}`,
-    }));
-  };
-
-  const getSkincareRecommendation = (timeOfDay: 'morning' | 'evening', analysisData?: any): string => {
-    if (!analysisData) {
-      return timeOfDay === 'morning' 
-        ? 'Gentle cleanser + Vitamin C serum + Moisturizer + SPF 30+'
-        : 'Double cleanse + Retinol serum + Night moisturizer';
-    }
-    
-    const { skinType, hydration, brightness } = analysisData;
-    
-    if (timeOfDay === 'morning') {
-      let recommendation = 'Gentle cleanser + ';
-      
-      if (brightness < 70) {
-        recommendation += 'Vitamin C serum + ';
-      }
-      
-      if (hydration < 70) {
-        recommendation += 'Hyaluronic acid serum + ';
-      }
-      
-      recommendation += 'Moisturizer + SPF 30+';
-      return recommendation;
-    } else {
-      let recommendation = 'Double cleanse + ';
-      
-      if (skinType === 'Oily') {
-        recommendation += 'Salicylic acid toner + ';
-      }
-      
-      recommendation += 'Retinol serum (2x/week) + Night moisturizer';
-      return recommendation;
-    }
+    logger.info('Creating new glow-up plan', { goal, glowScore });
+    const analysisData = params.analysisData ? JSON.parse(params.analysisData as string) as PlanAnalysisData : null;
+    const created = await glowPlanService.createPlan(userId, { goal, glowScore, analysisData });
+    setActive(created);
+    setCurrentDay(glowPlanService.currentDay(created.plan));
   };
 
   const loadExistingPlan = async () => {
     try {
-      const currentPlanId = await AsyncStorage.getItem('current-glow-plan');
-      if (!currentPlanId) {
+      // Opening the plan moves missed masks and workouts ahead before anything is shown
+      const loaded = await planAdaptationService.redistribute(userId);
+      if (!loaded) {
         // No existing plan, redirect to create one
         router.replace('/(tabs)/glow-analysis');
         return;
       }
-      
-      const planData = await AsyncStorage.getItem(`glow-plan-${currentPlanId}`);
-      const tasksData = await AsyncStorage.getItem(`glow-tasks-${currentPlanId}`);
-      const progressData = await AsyncStorage.getItem(`glow-progress-${currentPlanId}`);
-      
-      if (planData && tasksData) {
-        const loadedPlan = JSON.parse(planData);
-        const loadedTasks = JSON.parse(tasksData);
-        const loadedProgress = progressData ? JSON.parse(progressData) : null;
-        
-        setPlan(loadedPlan);
-        setTasks(loadedTasks);
-        setProgress(loadedProgress);
-        
-        // Calculate current day
-        const startDate = new Date(loadedPlan.start_date);
-        const today = new Date();
-        const daysDiff = Math.floor((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-        setCurrentDay(Math.max(1, Math.min(30, daysDiff)));
-      }
+      setActive(loaded);
+      setCurrentDay(glowPlanService.currentDay(loaded.plan));
     } catch (error) {
       logger.error('Failed to load existing plan', error as Error);
     }
@@ -362,45 +217,8 @@ export default function GlowUpPlanScreen() {
 
   const toggleTaskCompletion = async (taskId: string) => {
     try {
-      const updatedTasks = tasks.map(task => {
-        if (task.id === taskId) {
-          return { ...task, completed: !task.completed };
-        }
-        return task;
-      });
-      
-      setTasks(updatedTasks);
-      
-      // Update progress
-      if (progress && plan) {
-        const completedTasks = updatedTasks.filter(t => t.completed).length;
-        const completedDays = new Set(updatedTasks.filter(t => t.completed).map(t => t.day)).size;
-        
-        const updatedProgress: GlowUpProgress = {
-          ...progress,
-          completed_tasks: completedTasks,
-          current_day: currentDay,
-          last_activity_date: new Date().toISOString(),
-        };
-        
-        // Update plan progress
-        const updatedPlan: GlowUpPlan = {
-          ...plan,
-          progress: {
-            completed_days: completedDays,
-            total_days: 30,
-            completion_percentage: Math.round((completedDays / 30) * 100),
-          },
-        };
-        
-        setProgress(updatedProgress);
-        setPlan(updatedPlan);
-        
-        // Save to storage
-        await AsyncStorage.setItem(`glow-tasks-${plan.id}`, JSON.stringify(updatedTasks));
-        await AsyncStorage.setItem(`glow-progress-${plan.id}`, JSON.stringify(updatedProgress));
-        await AsyncStorage.setItem(`glow-plan-${plan.id}`, JSON.stringify(updatedPlan));
-      }
+      const updated = await glowPlanService.toggleTask(userId, taskId);
+      if (updated) setActive(updated);
     } catch (error) {
       logger.error('Failed to toggle task completion', error as Error);
     }
@@ -408,30 +226,48 @@ export default function GlowUpPlanScreen() {
 
   const updateUserProduct = async (taskId: string, product: string) => {
     try {
-      const updatedTasks = tasks.map(task => {
-        if (task.id === taskId) {
-          return { ...task, user_product: product, showProductInput: false };
-        }
-        return task;
-      });
-      
-      setTasks(updatedTasks);
+      const updated = await glowPlanService.setUserProduct(userId, taskId, product);
+      if (updated) setActive(updated);
       setEditingProduct(null);
       setProductInput('');
-      
-      if (plan) {
-        await AsyncStorage.setItem(`glow-tasks-${plan.id}`, JSON.stringify(updatedTasks));
-      }
     } catch (error) {
       logger.error('Failed to update user product', error as Error);
     }
   };
 
+  const togglePause = async () => {
+    if (!plan) return;
+    try {
+      const updated = glowPlanService.isPaused(plan)
+        ? await glowPlanService.resumePlan(userId)
+        : await glowPlanService.pausePlan(userId);
+      if (updated) {
+        setActive(updated);
+        setCurrentDay(glowPlanService.currentDay(updated.plan));
+      }
+    } catch (error) {
+      logger.error('Failed to pause or resume plan', error as Error);
+    }
+  };
+
+  const adjustPlan = async (choice: PlanAdjustment) => {
+    try {
+      const updated = await planAdaptationService.adjust(userId, choice);
+      if (updated) {
+        setActive(updated);
+        setCurrentDay(glowPlanService.currentDay(updated.plan));
+      }
+    } catch (error) {
+      logger.error('Failed to adjust plan', error as Error);
+      Alert.alert('Error', 'Failed to update your plan. Please try again.');
+    }
+  };
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     await loadExistingPlan();
     setRefreshing(false);
-  }, []);
+  }, [userId]);
 
   const getTaskIcon = (type: string) => {
     switch (type) {
@@ -444,29 +280,6 @@ export default function GlowUpPlanScreen() {
     }
   };
 
-  const getCurrentDayTasks = () => {
-    return tasks.filter(task => task.day === currentDay);
-  };
-
-  const getStreakDays = () => {
-    if (!tasks.length) return 0;
-    
-    let streak = 0;
-    
-    for (let i = currentDay; i >= 1; i--) {
-      const dayTasks = tasks.filter(task => task.day === i);
-      const completedTasks = dayTasks.filter(task => task.completed);
-      
-      if (completedTasks.length === dayTasks.length && dayTasks.length > 0) {
-        streak++;
-      } else {
-        break;
-      }
-    }
-    
-    return streak;
-  };
-
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -491,9 +304,11 @@ export default function GlowUpPlanScreen() {
     );
   }
 
-  const currentDayTasks = getCurrentDayTasks();
+  const totalDays = plan.progress.total_days;
+  const today = glowPlanService.currentDay(plan);
+  const paused = glowPlanService.isPaused(plan);
+  const currentDayTasks = glowPlanService.tasksForDay(tasks, currentDay);
   const completedTasks = currentDayTasks.filter(task => task.completed).length;
-  const streakDays = getStreakDays();
 
   return (
     <RouteGuard requireAuth requirePremium>
@@ -532,12 +347,12 @@ export default function GlowUpPlanScreen() {
       <Card style={styles.progressCard} gradient>
         <View style={styles.progressHeader}>
           <View style={styles.progressInfo}>
-            <Text style={styles.progressTitle}>Day {currentDay} of 30</Text>
+            <Text style={styles.progressTitle}>Day {currentDay} of {totalDays}</Text>
             <Text style={styles.progressSubtitle}>{plan.goal}</Text>
           </View>
           <View style={styles.streakContainer}>
             <Flame size={24} color={Colors.warning} />
-            <Text style={styles.streakText}>{streakDays}</Text>
+            <Text style={styles.streakText}>{progress?.streak_days ?? 0}</Text>
             <Text style={styles.streakLabel}>day streak</Text>
           </View>
         </View>
@@ -550,58 +365,177 @@ export default function GlowUpPlanScreen() {
             style={styles.progressBar}
           />
           <Text style={styles.progressText}>
-            You have completed {plan.progress.completed_days} of 30 days ✅
+            You have completed {plan.progress.completed_days} of {totalDays} days ✅
           </Text>
         </View>
       </Card>
 
-      {/* Day Navigation */}
+      {/* Milestone Progress */}
+      {milestoneComparison && (
+        <Card style={styles.milestoneCard}>
+          <View style={styles.milestoneHeader}>
+            <Sparkles size={20} color={Colors.light.tint} />
+            <Text style={styles.milestoneTitle}>Day {currentDay} Milestone</Text>
+          </View>
+          <Text style={styles.milestoneNarrative}>{milestoneComparison.narrative}</Text>
+          <Button
+            title="See Before & After"
+            variant="outline"
+            size="small"
+            onPress={() => router.push({
+              pathname: '/(tabs)/glow-compare',
+              params: { before: milestoneComparison.before.id, after: milestoneComparison.after.id },
+            })}
+          />
+        </Card>
+      )}
+
+      {/* Missed Days */}
+      {missedReview && missedReview.gap.length > 0 && (
+        <Card style={styles.adaptCard}>
+          <View style={styles.milestoneHeader}>
+            <CalendarClock size={20} color={Colors.warning} />
+            <Text style={styles.milestoneTitle}>
+              You missed {missedReview.gap.length === 1 ? 'a day' : `${missedReview.gap.length} days`}
+            </Text>
+          </View>
+          <Text style={styles.adaptText}>
+            Nothing was checked off since {formatDayKey(dateOfPlanDay(plan, missedReview.gap[0]))}. How should your plan adapt?
+          </Text>
+          {(Object.keys(ADJUSTMENT_LABELS) as PlanAdjustment[]).map(choice => (
+            <View key={choice} style={styles.adaptOption}>
+              <Text style={styles.adaptDescription}>{ADJUSTMENT_LABELS[choice].description}</Text>
+              <Button
+                title={ADJUSTMENT_LABELS[choice].title}
+                variant={choice === 'extend' ? 'primary' : 'outline'}
+                size="small"
+                onPress={() => adjustPlan(choice)}
+                testID={`adjust-plan-${choice}`}
+              />
+            </View>
+          ))}
+        </Card>
+      )}
+
+      {/* Weekly Check-in */}
+      {checkInDue && (
+        <Card style={styles.milestoneCard}>
+          <View style={styles.milestoneHeader}>
+            <ScanFace size={20} color={Colors.light.tint} />
+            <Text style={styles.milestoneTitle}>Weekly Check-in</Text>
+          </View>
+          <Text style={styles.milestoneNarrative}>
+            Take a quick scan so the rest of your plan can adjust to how your skin is responding.
+          </Text>
+          <Button
+            title="Take Check-in Scan"
+            variant="outline"
+            size="small"
+            onPress={() => router.push('/(tabs)/glow-analysis')}
+            testID="plan-check-in-scan"
+          />
+        </Card>
+      )}
+
+      {/* Plan Calendar */}
       <Card style={styles.dayNavCard}>
         <View style={styles.dayNavHeader}>
-          <Text style={styles.dayNavTitle}>Select Day</Text>
-          <TouchableOpacity onPress={() => setCurrentDay(Math.min(30, Math.floor((new Date().getTime() - new Date(plan.start_date).getTime()) / (1000 * 60 * 60 * 24)) + 1))}>
+          <View>
+            <Text style={styles.dayNavTitle}>Plan Calendar</Text>
+            <Text style={styles.dayNavSubtitle}>
+              {formatDayKey(plan.start_day)} – {formatDayKey(plan.end_date)}
+              {missedDays.length > 0 ? ` · ${missedDays.length} missed` : ''}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => setCurrentDay(today)}>
             <Text style={styles.todayButton}>Today</Text>
           </TouchableOpacity>
         </View>
-        
-        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dayNavScroll}>
-          {Array.from({ length: 30 }, (_, i) => i + 1).map(day => {
-            const dayTasks = tasks.filter(task => task.day === day);
-            const dayCompleted = dayTasks.length > 0 && dayTasks.every(task => task.completed);
+
+        <View style={styles.calendarGrid}>
+          {WEEKDAYS.map((weekday, index) => (
+            <Text key={`weekday-${index}`} style={styles.weekday}>{weekday}</Text>
+          ))}
+          {calendarWeeks.flat().map(key => {
+            const day = planDayOn(plan, key);
+            const inPlan = key >= plan.start_day && key <= plan.end_date;
+            const paused = inPlan && isPausedOn(plan, key);
+            if (!inPlan || paused) {
+              return (
+                <View key={key} style={styles.calendarCell}>
+                  <View style={[styles.dayButton, paused ? styles.dayButtonPaused : styles.dayButtonOutside]}>
+                    <Text style={styles.dayButtonTextOutside}>{keyToDate(key).getDate()}</Text>
+                  </View>
+                </View>
+              );
+            }
+            const status = glowPlanService.dayStatus(active!, day);
             const isCurrentDay = day === currentDay;
-            const isToday = day === Math.floor((new Date().getTime() - new Date(plan.start_date).getTime()) / (1000 * 60 * 60 * 24)) + 1;
-            
+
             return (
-              <TouchableOpacity
-                key={day}
-                style={[
+              <TouchableOpacity key={key} style={styles.calendarCell} onPress={() => setCurrentDay(day)} testID={`plan-day-${day}`}>
+                <View style={[
                   styles.dayButton,
+                  status === 'complete' && styles.dayButtonCompleted,
+                  (status === 'missed' || status === 'partial') && styles.dayButtonMissed,
                   isCurrentDay && styles.dayButtonActive,
-                  dayCompleted && styles.dayButtonCompleted,
-                  isToday && styles.dayButtonToday,
-                ]}
-                onPress={() => setCurrentDay(day)}
-              >
-                <Text style={[
-                  styles.dayButtonText,
-                  isCurrentDay && styles.dayButtonTextActive,
-                  dayCompleted && styles.dayButtonTextCompleted,
+                  status === 'today' && styles.dayButtonToday,
                 ]}>
-                  {day}
-                </Text>
-                {dayCompleted && (
-                  <CheckCircle size={12} color={Colors.white} style={styles.dayCompletedIcon} />
-                )}
+                  <Text style={[
+                    styles.dayButtonText,
+                    (isCurrentDay || status === 'complete') && styles.dayButtonTextActive,
+                  ]}>
+                    {keyToDate(key).getDate()}
+                  </Text>
+                  {status === 'complete' && (
+                    <CheckCircle size={12} color={Colors.white} style={styles.dayCompletedIcon} />
+                  )}
+                </View>
               </TouchableOpacity>
             );
           })}
-        </ScrollView>
+        </View>
+
+        <View style={styles.pauseRow}>
+          <Text style={styles.pauseText}>
+            {paused ? 'Paused — days don\'t count until you resume.' : 'Need a break? Pausing pushes the end date back.'}
+          </Text>
+          <Button
+            title={paused ? 'Resume' : 'Pause'}
+            variant="outline"
+            size="small"
+            onPress={togglePause}
+            testID="toggle-plan-pause"
+          />
+        </View>
       </Card>
 
+      {/* Plan Changes */}
+      {changelog.length > 0 && (
+        <Card style={styles.milestoneCard}>
+          <View style={styles.milestoneHeader}>
+            <History size={20} color={Colors.light.tint} />
+            <Text style={styles.milestoneTitle}>Plan Changes</Text>
+          </View>
+          {changelog.slice(0, MAX_CHANGELOG_ENTRIES).map(entry => (
+            <View key={`${entry.kind}-${entry.at}`} style={styles.changelogEntry}>
+              <Text style={styles.changelogDate}>{new Date(entry.at).toLocaleDateString()}</Text>
+              <Text style={styles.changelogNote}>{entry.note}</Text>
+              {(entry.changes ?? []).map(change => (
+                <Text key={change} style={styles.changelogChange}>• {change}</Text>
+              ))}
+            </View>
+          ))}
+        </Card>
+      )}
+
       {/* Daily Tasks */}
       <Card style={styles.tasksCard}>
         <View style={styles.tasksHeader}>
-          <Text style={styles.tasksTitle}>Day {currentDay} Tasks</Text>
+          <View>
+            <Text style={styles.tasksTitle}>Day {currentDay} Tasks</Text>
+            <Text style={styles.tasksDate}>{formatDayKey(dateOfPlanDay(plan, currentDay), true)}</Text>
+          </View>
           <View style={styles.tasksProgress}>
             <Text style={styles.tasksProgressText}>
               {completedTasks}/{currentDayTasks.length} completed
@@ -640,6 +574,10 @@ export default function GlowUpPlanScreen() {
               ]}>
                 {task.description}
               </Text>
+
+              {task.rescheduled_from !== undefined && (
+                <Text style={styles.rescheduledText}>Moved from day {task.rescheduled_from}</Text>
+              )}
               
               {task.product_suggestion && (
                 <View style={styles.productSection}>
@@ -673,6 +611,19 @@ export default function GlowUpPlanScreen() {
                       <Text style={styles.addProductText}>Add your product</Text>
                     </TouchableOpacity>
                   )}
+
+                  {routineSlot(task) && (
+                    <TouchableOpacity
+                      style={styles.addProductButton}
+                      onPress={() => router.push('/(tabs)/skincare-routine')}
+                      testID={`manage-routine-${task.id}`}
+                    >
+                      <FlaskConical size={16} color={Colors.light.tint} />
+                      <Text style={styles.addProductText}>
+                        {task.routine_product_ids ? 'Edit your routine' : 'Build your routine'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                   
                   {editingProduct === task.id && (
                     <View style={styles.productInputContainer}>
@@ -743,10 +694,7 @@ export default function GlowUpPlanScreen() {
         <Button
           title="View Progress Photos"
           variant="outline"
-          onPress={() => {
-            // TODO: Implement progress photos feature
-            Alert.alert('Coming Soon', 'Progress photos feature will be available soon!');
-          }}
+          onPress={() => router.push('/(tabs)/glow-compare')}
           style={styles.actionButton}
         />
         
@@ -862,6 +810,76 @@ const styles = StyleSheet.create({
     color: Colors.textLight,
     textAlign: 'center',
   },
+  milestoneCard: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 16,
+  },
+  milestoneHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  milestoneTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.textDark,
+  },
+  milestoneNarrative: {
+    fontSize: 15,
+    color: Colors.text,
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  changelogEntry: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  changelogDate: {
+    fontSize: 12,
+    color: Colors.textLight,
+    marginBottom: 2,
+  },
+  changelogNote: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.textDark,
+    lineHeight: 20,
+  },
+  changelogChange: {
+    fontSize: 13,
+    color: Colors.text,
+    lineHeight: 19,
+    marginTop: 2,
+  },
+  adaptCard: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: Colors.warning,
+  },
+  adaptText: {
+    fontSize: 15,
+    color: Colors.text,
+    lineHeight: 22,
+    marginBottom: 4,
+  },
+  adaptOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  adaptDescription: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.textLight,
+  },
   dayNavCard: {
     marginHorizontal: 16,
     marginBottom: 12,
@@ -883,19 +901,37 @@ const styles = StyleSheet.create({
     color: Colors.primary,
     fontWeight: '500',
   },
-  dayNavScroll: {
+  dayNavSubtitle: {
+    fontSize: 13,
+    color: Colors.textLight,
+    marginTop: 2,
+  },
+  calendarGrid: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  weekday: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.textLight,
+    marginBottom: 6,
+  },
+  calendarCell: {
+    width: `${100 / 7}%`,
+    alignItems: 'center',
+    marginBottom: 6,
   },
   dayButton: {
-    width: 44,
-    height: 44,
-    borderRadius: 22,
+    width: 36,
+    height: 36,
+    borderRadius: 18,
     backgroundColor: Colors.background,
     borderWidth: 1,
     borderColor: Colors.border,
     justifyContent: 'center',
     alignItems: 'center',
-    marginRight: 8,
     position: 'relative',
   },
   dayButtonActive: {
@@ -910,6 +946,18 @@ const styles = StyleSheet.create({
     borderColor: Colors.primary,
     borderWidth: 2,
   },
+  dayButtonMissed: {
+    backgroundColor: Colors.error + '20',
+    borderColor: Colors.error + '60',
+  },
+  dayButtonPaused: {
+    borderStyle: 'dashed',
+    backgroundColor: Colors.chip,
+  },
+  dayButtonOutside: {
+    borderColor: 'transparent',
+    backgroundColor: 'transparent',
+  },
   dayButtonText: {
     fontSize: 14,
     fontWeight: '600',
@@ -918,8 +966,24 @@ const styles = StyleSheet.create({
   dayButtonTextActive: {
     color: Colors.white,
   },
-  dayButtonTextCompleted: {
-    color: Colors.white,
+  dayButtonTextOutside: {
+    fontSize: 13,
+    color: Colors.textLight,
+  },
+  pauseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 6,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  pauseText: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.textLight,
   },
   dayCompletedIcon: {
     position: 'absolute',
@@ -942,6 +1006,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.textDark,
   },
+  tasksDate: {
+    fontSize: 13,
+    color: Colors.textLight,
+    marginTop: 2,
+  },
   tasksProgress: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -990,6 +1059,12 @@ const styles = StyleSheet.create({
   taskDescriptionCompleted: {
     textDecorationLine: 'line-through',
   },
+  rescheduledText: {
+    fontSize: 12,
+    color: Colors.warning,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
   productSection: {
     backgroundColor: Colors.background,
     padding: 10,
@@ -6,6 +6,7 @@ import { Shirt, Target, ChevronRight } from 'lucide-react-native';
 
 import { useAuth } from '@/hooks/auth-store';
 import { COLORS } from '@/constants/colors';
+import TomorrowOutfitCard from '@/components/TomorrowOutfitCard';
 
 export default function HomeScreen() {
   const { user } = useAuth();
@@ -52,6 +53,9 @@ export default function HomeScreen() {
         </View>
       </TouchableOpacity>
 
+      {/* Tomorrow's Outfit */}
+      <TomorrowOutfitCard />
+
       {/* Action Cards */}
       <View style={styles.actionCardsContainer}>
         <TouchableOpacity 
@@ -0,0 +1,498 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, Alert } from 'react-native';
+import { Stack, router, useFocusEffect } from 'expo-router';
+import { BookOpen, ChevronLeft, ChevronRight, Trash2 } from 'lucide-react-native';
+
+import Button from '@/components/Button';
+import Card from '@/components/Card';
+import { COLORS } from '@/constants/colors';
+import { useAuth } from '@/hooks/auth-store';
+import { eventTypeService } from '@/lib/event-types';
+import { outfitHistoryService, OutfitLookRecord, WearStats } from '@/lib/outfit-history';
+import { toDayKey } from '@/lib/dates';
+import { wardrobeService, WardrobeItem } from '@/lib/wardrobe';
+
+type LookbookView = 'calendar' | 'looks';
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const formatDay = (dayKey: string) => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+// Leading blanks so the first of the month lands on its weekday
+function monthCells(month: Date): (Date | null)[] {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const days = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: (Date | null)[] = Array(first.getDay()).fill(null);
+  for (let day = 1; day <= days; day++) {
+    cells.push(new Date(month.getFullYear(), month.getMonth(), day));
+  }
+  return cells;
+}
+
+export default function LookbookScreen() {
+  const { user } = useAuth();
+  const [looks, setLooks] = useState<OutfitLookRecord[]>([]);
+  const [wearStats, setWearStats] = useState<WearStats | null>(null);
+  const [customTypeIds, setCustomTypeIds] = useState<string[]>([]);
+  const [view, setView] = useState<LookbookView>('calendar');
+  const [month, setMonth] = useState(() => new Date(new Date().getFullYear(), new Date().getMonth(), 1));
+  const [selectedDay, setSelectedDay] = useState<string>(() => toDayKey(new Date()));
+  const [loading, setLoading] = useState(true);
+
+  const loadLookbook = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+    try {
+      await outfitHistoryService.rescoreOutdatedLooks(user.id);
+      const [history, items, custom] = await Promise.all([
+        outfitHistoryService.getLooks(user.id),
+        wardrobeService.getItems(user.id),
+        eventTypeService.getCustom(user.id),
+      ]);
+      setLooks(history);
+      setWearStats(items.length > 0 ? outfitHistoryService.getWearStats(items) : null);
+      setCustomTypeIds(custom.map(t => t.id));
+    } catch (error) {
+      console.error('Error loading lookbook:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadLookbook();
+    }, [loadLookbook])
+  );
+
+  const byDay = useMemo(() => outfitHistoryService.groupByDay(looks), [looks]);
+  const cells = useMemo(() => monthCells(month), [month]);
+
+  // Looks are newest first, so a repeat is found among the entries after it
+  const repeatOf = useMemo(() => {
+    const repeats: Record<string, OutfitLookRecord> = {};
+    looks.forEach((look, index) => {
+      const repeat = outfitHistoryService.findRepeat(
+        looks.slice(index + 1),
+        outfitHistoryService.garmentsOf(look),
+        { eventTypeId: look.eventTypeId, custom: customTypeIds.includes(look.eventTypeId), seriesId: look.calendarEvent?.recurring ? look.calendarEvent.seriesId : null }
+      );
+      if (repeat) repeats[look.id] = repeat.look;
+    });
+    return repeats;
+  }, [looks, customTypeIds]);
+
+  const shiftMonth = (delta: number) => {
+    setMonth(current => new Date(current.getFullYear(), current.getMonth() + delta, 1));
+  };
+
+  const confirmRemove = (look: OutfitLookRecord) => {
+    if (!user) return;
+    Alert.alert('Delete Look', 'Remove this look from your lookbook?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await outfitHistoryService.removeLook(user.id, look.id);
+          loadLookbook();
+        },
+      },
+    ]);
+  };
+
+  const renderLook = (look: OutfitLookRecord) => {
+    const repeat = repeatOf[look.id];
+    return (
+      <View key={look.id} style={styles.lookItem}>
+        <Image source={{ uri: look.thumbnailUri }} style={styles.lookThumbnail} />
+        <View style={styles.lookInfo}>
+          <Text style={styles.lookTitle}>{look.calendarEvent?.title ?? look.eventLabel}</Text>
+          <Text style={styles.lookDate}>
+            {formatDay(look.wornOn)} · {look.result.styleCategory}
+          </Text>
+          {repeat && (
+            <Text style={styles.repeatText}>🔁 Same outfit as {formatDay(repeat.wornOn)}</Text>
+          )}
+          {look.tryOns && look.tryOns.length > 0 && (
+            <View style={styles.tryOnRow}>
+              {look.tryOns.slice(0, 4).map(variation => (
+                <Image key={variation.id} source={{ uri: variation.imageUri }} style={styles.tryOnThumbnail} />
+              ))}
+            </View>
+          )}
+        </View>
+        <Text style={styles.lookScore}>{look.result.outfitScore}</Text>
+        <TouchableOpacity style={styles.removeButton} onPress={() => confirmRemove(look)}>
+          <Trash2 size={16} color={COLORS.textLight} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderWearList = (title: string, items: WardrobeItem[]) => (
+    <View style={styles.wearColumn}>
+      <Text style={styles.subTitle}>{title}</Text>
+      {items.map(item => (
+        <TouchableOpacity
+          key={item.id}
+          style={styles.wearItem}
+          onPress={() => router.push({ pathname: '/(tabs)/wardrobe-item', params: { id: item.id } })}
+        >
+          <View style={[styles.colorDot, { backgroundColor: item.colorHex }]} />
+          <View style={styles.wearInfo}>
+            <Text style={styles.wearName} numberOfLines={1}>{item.name}</Text>
+            <Text style={styles.wearCount}>
+              {item.timesWorn === 0 ? 'Never worn' : `Worn ${item.timesWorn}×`}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const dayLooks = byDay[selectedDay] ?? [];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Stack.Screen options={{ title: 'Lookbook' }} />
+
+      {!loading && looks.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <BookOpen size={48} color={COLORS.primary} />
+          <Text style={styles.emptyTitle}>No looks yet</Text>
+          <Text style={styles.emptyDescription}>
+            Every outfit you analyze is saved here with its photo, event and scores.
+          </Text>
+          <Button
+            title="Analyze an Outfit"
+            onPress={() => router.push('/(tabs)/outfit-analysis')}
+            style={styles.emptyButton}
+          />
+        </View>
+      ) : (
+        <>
+          <View style={styles.toggleRow}>
+            {(['calendar', 'looks'] as LookbookView[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, view === option && styles.chipActive]}
+                onPress={() => setView(option)}
+                testID={`lookbook-view-${option}`}
+              >
+                <Text style={[styles.chipText, view === option && styles.chipTextActive]}>
+                  {option === 'calendar' ? '🗓 Calendar' : '👗 All Looks'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {view === 'calendar' ? (
+            <>
+              <Card style={styles.card}>
+                <View style={styles.monthHeader}>
+                  <TouchableOpacity onPress={() => shiftMonth(-1)} style={styles.monthButton}>
+                    <ChevronLeft size={20} color={COLORS.textDark} />
+                  </TouchableOpacity>
+                  <Text style={styles.monthTitle}>
+                    {month.toLocaleDateString([], { month: 'long', year: 'numeric' })}
+                  </Text>
+                  <TouchableOpacity onPress={() => shiftMonth(1)} style={styles.monthButton}>
+                    <ChevronRight size={20} color={COLORS.textDark} />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.calendarGrid}>
+                  {WEEKDAYS.map((day, index) => (
+                    <Text key={`weekday-${index}`} style={styles.weekday}>{day}</Text>
+                  ))}
+                  {cells.map((date, index) => {
+                    if (!date) return <View key={`blank-${index}`} style={styles.dayCell} />;
+                    const key = toDayKey(date);
+                    const worn = byDay[key];
+                    return (
+                      <TouchableOpacity
+                        key={key}
+                        style={[styles.dayCell, selectedDay === key && styles.dayCellSelected]}
+                        onPress={() => setSelectedDay(key)}
+                      >
+                        {worn ? (
+                          <Image source={{ uri: worn[0].thumbnailUri }} style={styles.dayThumbnail} />
+                        ) : (
+                          <Text style={styles.dayNumber}>{date.getDate()}</Text>
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </Card>
+
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>{formatDay(selectedDay)}</Text>
+              </View>
+              {dayLooks.length > 0 ? (
+                <View style={styles.lookList}>{dayLooks.map(renderLook)}</View>
+              ) : (
+                <Text style={styles.emptyDay}>No looks recorded on this day.</Text>
+              )}
+            </>
+          ) : (
+            <>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>All Looks ({looks.length})</Text>
+              </View>
+              <View style={styles.lookList}>{looks.map(renderLook)}</View>
+            </>
+          )}
+
+          {wearStats && (
+            <Card style={{ ...styles.card, ...styles.wearCard }}>
+              <Text style={styles.cardTitle}>👕 Wardrobe Wear</Text>
+              <View style={styles.wearColumns}>
+                {wearStats.mostWorn.length > 0 && renderWearList('Most worn', wearStats.mostWorn)}
+                {wearStats.leastWorn.length > 0 && renderWearList('Least worn', wearStats.leastWorn)}
+              </View>
+            </Card>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContent: {
+    paddingVertical: 16,
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 80,
+  },
+  emptyTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.textDark,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyDescription: {
+    fontSize: 15,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  emptyButton: {
+    width: '100%',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: COLORS.chip,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textMuted,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  monthButton: {
+    padding: 6,
+  },
+  monthTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  calendarGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  weekday: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginBottom: 6,
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+  },
+  dayCellSelected: {
+    backgroundColor: COLORS.chip,
+  },
+  dayNumber: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  dayThumbnail: {
+    width: '80%',
+    height: '80%',
+    borderRadius: 6,
+    backgroundColor: COLORS.chip,
+  },
+  sectionHeader: {
+    paddingHorizontal: 16,
+    marginBottom: 8,
+    marginTop: 6,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  emptyDay: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  lookList: {
+    backgroundColor: COLORS.white,
+    borderRadius: 12,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 4,
+    shadowColor: COLORS.black,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  lookItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  lookThumbnail: {
+    width: 48,
+    height: 64,
+    borderRadius: 8,
+    marginRight: 10,
+    backgroundColor: COLORS.chip,
+  },
+  lookInfo: {
+    flex: 1,
+  },
+  lookTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: COLORS.textDark,
+    marginBottom: 4,
+  },
+  lookDate: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  repeatText: {
+    fontSize: 11,
+    color: COLORS.warning,
+    marginTop: 4,
+  },
+  tryOnRow: {
+    flexDirection: 'row',
+    gap: 4,
+    marginTop: 4,
+  },
+  tryOnThumbnail: {
+    width: 24,
+    height: 36,
+    borderRadius: 4,
+    backgroundColor: COLORS.chip,
+  },
+  lookScore: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+    marginRight: 8,
+  },
+  removeButton: {
+    padding: 6,
+  },
+  wearCard: {
+    marginTop: 6,
+  },
+  wearColumns: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  wearColumn: {
+    flex: 1,
+  },
+  subTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textMuted,
+    marginBottom: 8,
+  },
+  wearItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  colorDot: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  wearInfo: {
+    flex: 1,
+  },
+  wearName: {
+    fontSize: 14,
+    color: COLORS.textDark,
+  },
+  wearCount: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+});
@@ -1,8 +1,8 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useCallback } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Image, ActivityIndicator, Platform, Alert } from 'react-native';
 import { CameraView, CameraType } from 'expo-camera';
-import { Camera, RefreshCw, Shirt, Crown, Lock, Upload, CheckCircle, XCircle, Palette, Sparkles, TrendingUp, Calendar } from 'lucide-react-native';
-import { Stack } from 'expo-router';
+import { Camera, RefreshCw, Shirt, Crown, Lock, Upload, CheckCircle, XCircle, Palette, Sparkles, TrendingUp, Calendar, Plus, X, Wand2 } from 'lucide-react-native';
+import { Stack, router, useFocusEffect } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 
 import Button from '@/components/Button';
@@ -12,22 +12,43 @@ import PremiumModal from '@/components/PremiumModal';
 import { useAuth } from '@/hooks/auth-store';
 import { usePremiumAccess } from '@/hooks/subscription-store';
 import { COLORS } from '@/constants/colors';
+import { EVENT_TYPES, EventType } from '@/constants/event-types';
 import { aiService, OutfitAnalysisResult } from '@/lib/ai-service';
+import { confirmImageQuality } from '@/lib/image-quality';
+import { colorPaletteService } from '@/lib/color-palette';
+import { wardrobeService } from '@/lib/wardrobe';
+import { createOutfitShot, OutfitShot, OutfitShotKind, OUTFIT_SHOT_KINDS } from '@/lib/outfit-session';
+import { outfitContextService } from '@/lib/outfit-context';
+import type { UpcomingEvent } from '@/lib/device-calendar';
+import { eventTypeService } from '@/lib/event-types';
+import { outfitHistoryService, RepeatWarning } from '@/lib/outfit-history';
+import { describeWeather } from '@/lib/weather-fit';
+import { formalityLabel } from '@/lib/dress-code';
+import { scanHistoryService } from '@/lib/scan-history';
+import { ACCESSORY_KINDS, METAL_TONE_LABELS } from '@/lib/accessories';
+import { tryOnService, TryOnVariation } from '@/lib/try-on';
 
 export default function OutfitAnalysisScreen() {
   const [permission, requestPermission] = useCameraPermissions();
   const [cameraActive, setCameraActive] = useState(false);
   const [facing, setFacing] = useState<CameraType>('back');
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [shots, setShots] = useState<OutfitShot[]>([]);
+  const [captureKind, setCaptureKind] = useState<OutfitShotKind>('front');
   const [eventType, setEventType] = useState('');
   const [analyzing, setAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<OutfitAnalysisResult | null>(null);
   const [cameraReady, setCameraReady] = useState(false);
   const [takingPicture, setTakingPicture] = useState(false);
   const [showPremiumModal, setShowPremiumModal] = useState(false);
+  const [savingToWardrobe, setSavingToWardrobe] = useState(false);
+  const [savedToWardrobe, setSavedToWardrobe] = useState(false);
+  const [lookId, setLookId] = useState<string | null>(null);
+  const [repeatWarning, setRepeatWarning] = useState<RepeatWarning | null>(null);
+  const [tryOns, setTryOns] = useState<TryOnVariation[]>([]);
+  const [previewing, setPreviewing] = useState<string | null>(null);
   
   const cameraRef = useRef<any>(null);
-  const { isPremium } = useAuth();
+  const { user, isPremium } = useAuth();
   const { hasPremiumAccess } = usePremiumAccess();
   
   // Mock premium access for demo
@@ -35,16 +56,45 @@ export default function OutfitAnalysisScreen() {
 
 
 
-  const eventTypes = [
-    { id: 'date-night', label: 'Date Night', icon: '💕' },
-    { id: 'job-interview', label: 'Job Interview', icon: '💼' },
-    { id: 'casual-outing', label: 'Casual Outing', icon: '☀️' },
-    { id: 'formal-event', label: 'Formal Event', icon: '🎩' },
-    { id: 'business-meeting', label: 'Business Meeting', icon: '📊' },
-    { id: 'party', label: 'Party/Social', icon: '🎉' },
-    { id: 'workout', label: 'Workout/Active', icon: '💪' },
-    { id: 'travel', label: 'Travel/Vacation', icon: '✈️' },
-  ];
+  const [eventTypes, setEventTypes] = useState<EventType[]>(EVENT_TYPES);
+
+  // Picks up event types created or edited on the event type screen
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      eventTypeService.getAll(user.id)
+        .then(setEventTypes)
+        .catch(error => console.error('Error loading event types:', error));
+    }, [user])
+  );
+
+  // The front shot leads; without one, whichever shot came first
+  const primaryImage = (shots.find(s => s.kind === 'front') ?? shots[0])?.imageUri ?? null;
+
+  // One shot per kind; capturing a kind again replaces it
+  const addShot = (kind: OutfitShotKind, imageUri: string) => {
+    setShots(current => [...current.filter(s => s.kind !== kind), createOutfitShot(kind, imageUri)]);
+  };
+
+  const removeShot = (shotId: string) => {
+    setShots(current => current.filter(s => s.id !== shotId));
+  };
+
+  const promptAddShot = (kind: OutfitShotKind) => {
+    const label = OUTFIT_SHOT_KINDS.find(k => k.kind === kind)?.label ?? kind;
+    const takePhoto = () => { setCaptureKind(kind); toggleCamera(); };
+    // react-native-web ignores Alert buttons; the library picker can still be cancelled
+    if (Platform.OS === 'web') {
+      if (window.confirm(`Add ${label} Shot\n\nOK to take a photo, Cancel to choose from your library.`)) takePhoto();
+      else pickImage(kind);
+      return;
+    }
+    Alert.alert(`Add ${label} Shot`, undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Take Photo', onPress: takePhoto },
+      { text: 'Choose from Library', onPress: () => pickImage(kind) },
+    ]);
+  };
 
   const takePicture = async () => {
     if (!cameraRef.current || takingPicture) return;
@@ -63,7 +113,7 @@ export default function OutfitAnalysisScreen() {
         skipProcessing: Platform.OS === 'web', // Skip processing on web for faster capture
       });
       
-      setCapturedImage(photo.uri);
+      addShot(captureKind, photo.uri);
       setCameraActive(false);
       setCameraReady(false);
     } catch (error) {
@@ -77,7 +127,7 @@ export default function OutfitAnalysisScreen() {
     }
   };
 
-  const pickImage = async () => {
+  const pickImage = async (kind: OutfitShotKind = 'front') => {
     const result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: ImagePicker.MediaTypeOptions.Images,
       allowsEditing: true,
@@ -86,21 +136,44 @@ export default function OutfitAnalysisScreen() {
     });
 
     if (!result.canceled) {
-      setCapturedImage(result.assets[0].uri);
+      addShot(kind, result.assets[0].uri);
     }
   };
 
   const analyzeOutfit = async () => {
-    if (!capturedImage || !eventType) return;
+    if (shots.length === 0 || !eventType) return;
     
     // Premium check removed for demo
     
     setAnalyzing(true);
     
     try {
+      for (const shot of shots) {
+        const proceed = await confirmImageQuality(shot.imageUri, 'outfit');
+        if (!proceed) {
+          // Keep the event and the other shots so only this photo needs retaking
+          removeShot(shot.id);
+          return;
+        }
+      }
+      
       const selectedEvent = eventTypes.find(e => e.id === eventType);
-      const result = await aiService.analyzeOutfit(capturedImage, selectedEvent?.label || eventType);
+      const palette = user ? await colorPaletteService.getPalette(user.id).catch(() => null) : null;
+      // The palette records the undertone it was built from; otherwise fall back to the latest face scan
+      const undertone = palette?.basedOn.undertone
+        ?? (user ? (await scanHistoryService.getLatestSkinTone(user.id).catch(() => null))?.undertone : null);
+      // Today's forecast makes the seasonal check real; the analysis still runs without it
+      const context = await outfitContextService.getContext().catch(() => null);
+      const result = await aiService.analyzeOutfitSession(shots, selectedEvent?.label || eventType, {
+        palette,
+        weather: context?.weather,
+        dressCode: selectedEvent?.dressCode,
+        undertone,
+      });
       setAnalysisResult(result);
+      if (user && selectedEvent && primaryImage) {
+        await recordLook(result, primaryImage, selectedEvent, context?.event ?? null);
+      }
     } catch (error) {
       console.error('Error analyzing outfit:', error);
       Alert.alert(
@@ -113,8 +186,99 @@ export default function OutfitAnalysisScreen() {
     }
   };
 
+  // Checks for a repeat before saving, so the look doesn't match itself
+  const recordLook = async (
+    result: OutfitAnalysisResult,
+    imageUri: string,
+    selectedEvent: EventType,
+    todaysEvent: UpcomingEvent | null
+  ) => {
+    if (!user) return;
+    try {
+      // Only link today's calendar entry when it's the occasion being dressed for
+      const calendarEvent = todaysEvent && eventTypeService.resolveForEvent(eventTypes, todaysEvent)?.id === selectedEvent.id
+        ? todaysEvent
+        : null;
+      const looks = await outfitHistoryService.getLooks(user.id);
+      setRepeatWarning(outfitHistoryService.findRepeat(
+        looks,
+        (result.garments ?? []).map(g => ({ category: g.category, colorHex: g.colorHex })),
+        { eventTypeId: selectedEvent.id, custom: selectedEvent.custom, seriesId: calendarEvent?.recurring ? calendarEvent.seriesId : null }
+      ));
+      const look = await outfitHistoryService.addLook(user.id, {
+        result,
+        imageUri,
+        eventTypeId: selectedEvent.id,
+        eventLabel: selectedEvent.label,
+        calendarEvent,
+      });
+      setLookId(look.id);
+    } catch (error) {
+      // The analysis is still shown; only the lookbook misses this one
+      console.error('Error recording look:', error);
+    }
+  };
+
+  const saveToWardrobe = async () => {
+    if (!user || !analysisResult) return;
+    setSavingToWardrobe(true);
+    try {
+      const selectedEvent = eventTypes.find(e => e.id === eventType);
+      const { added, worn } = await wardrobeService.importFromAnalysis(user.id, analysisResult, selectedEvent?.label || eventType);
+      if (lookId) {
+        await outfitHistoryService.setLookItems(user.id, lookId, [...added, ...worn].map(i => i.id));
+      }
+      setSavedToWardrobe(true);
+      const summary = [
+        added.length > 0 ? `${added.length} new item${added.length === 1 ? '' : 's'} added` : null,
+        worn.length > 0 ? `${worn.length} item${worn.length === 1 ? '' : 's'} you already own marked as worn` : null,
+      ].filter(Boolean).join('\n');
+      Alert.alert(
+        'Saved to Wardrobe',
+        summary || 'No individual garments were detected in this outfit. You can add them manually in your wardrobe.',
+        [
+          { text: 'OK' },
+          { text: 'View Wardrobe', onPress: () => router.push('/(tabs)/wardrobe') },
+        ]
+      );
+    } catch (error) {
+      console.error('Error saving to wardrobe:', error);
+      Alert.alert('Error', 'Failed to save items to your wardrobe. Please try again.');
+    } finally {
+      setSavingToWardrobe(false);
+    }
+  };
+
+  // Previews join the look's gallery when the analysis was recorded; otherwise they last as long as the screen
+  const previewSuggestion = async (suggestion: string) => {
+    if (!analysisResult) return;
+    setPreviewing(suggestion);
+    try {
+      const selectedEvent = eventTypes.find(e => e.id === eventType);
+      const skinTone = user ? (await scanHistoryService.getLatestSkinTone(user.id).catch(() => null))?.label : null;
+      const variation = await tryOnService.generate(analysisResult, suggestion, {
+        eventLabel: selectedEvent?.label || eventType,
+        skinTone,
+      });
+      setTryOns(current => [variation, ...current.filter(t => t.id !== variation.id)]);
+      if (user && lookId) {
+        await outfitHistoryService.addTryOn(user.id, lookId, variation);
+      }
+    } catch (error) {
+      console.error('Error generating try-on preview:', error);
+      Alert.alert('Preview Failed', 'Unable to generate a preview right now. Please try again later.', [{ text: 'OK' }]);
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
   const resetAnalysis = () => {
-    setCapturedImage(null);
+    setSavedToWardrobe(false);
+    setLookId(null);
+    setRepeatWarning(null);
+    setTryOns([]);
+    setShots([]);
+    setCaptureKind('front');
     setEventType('');
     setAnalysisResult(null);
   };
@@ -160,7 +324,9 @@ export default function OutfitAnalysisScreen() {
             <Text style={styles.cameraInstructions}>
               {!cameraReady 
                 ? 'Preparing camera...' 
-                : 'Capture your full outfit within the frame'
+                : captureKind === 'front'
+                ? 'Capture your full outfit within the frame'
+                : OUTFIT_SHOT_KINDS.find(k => k.kind === captureKind)?.hint
               }
             </Text>
           </View>
@@ -243,11 +409,11 @@ export default function OutfitAnalysisScreen() {
               Get personalized outfit ratings and style suggestions for any occasion.
             </Text>
           
-          {!capturedImage ? (
+          {shots.length === 0 ? (
             <View style={styles.buttonContainer}>
               <Button
                 title="Take Photo"
-                onPress={toggleCamera}
+                onPress={() => { setCaptureKind('front'); toggleCamera(); }}
                 leftIcon={<Camera size={18} color={COLORS.white} style={{ marginRight: 8 }} />}
                 style={styles.button}
                 testID="take-photo-button"
@@ -255,17 +421,54 @@ export default function OutfitAnalysisScreen() {
               <Button
                 title="Upload Photo"
                 variant="outline"
-                onPress={pickImage}
+                onPress={() => pickImage('front')}
                 style={styles.button}
                 testID="upload-photo-button"
               />
             </View>
           ) : (
             <View style={styles.outfitSetupContainer}>
-              <Image
-                source={{ uri: capturedImage }}
-                style={styles.outfitImage}
-              />
+              {primaryImage && (
+                <Image
+                  source={{ uri: primaryImage }}
+                  style={styles.outfitImage}
+                />
+              )}
+              
+              <Text style={styles.eventTypeLabel}>Your shots</Text>
+              <View style={styles.shotTray}>
+                {OUTFIT_SHOT_KINDS.map(({ kind, label }) => {
+                  const shot = shots.find(s => s.kind === kind);
+                  return shot ? (
+                    <View key={kind} style={styles.shotSlot}>
+                      <Image source={{ uri: shot.imageUri }} style={styles.shotThumbnail} />
+                      <TouchableOpacity
+                        style={styles.shotRemove}
+                        onPress={() => removeShot(shot.id)}
+                        testID={`remove-shot-${kind}`}
+                      >
+                        <X size={12} color={COLORS.white} />
+                      </TouchableOpacity>
+                      <Text style={styles.shotLabel}>{label}</Text>
+                    </View>
+                  ) : (
+                    <TouchableOpacity
+                      key={kind}
+                      style={styles.shotSlot}
+                      onPress={() => promptAddShot(kind)}
+                      testID={`add-shot-${kind}`}
+                    >
+                      <View style={[styles.shotThumbnail, styles.shotEmpty]}>
+                        <Plus size={20} color={COLORS.textLight} />
+                      </View>
+                      <Text style={styles.shotLabel}>{label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {shots.length < OUTFIT_SHOT_KINDS.length && (
+                <Text style={styles.shotHint}>Add back and close-up shots for a more complete analysis.</Text>
+              )}
               
               <Text style={styles.eventTypeLabel}>What&apos;s the occasion?</Text>
               <View style={styles.eventTypeContainer}>
@@ -277,6 +480,7 @@ export default function OutfitAnalysisScreen() {
                       eventType === type.id && styles.eventTypeButtonSelected,
                     ]}
                     onPress={() => setEventType(type.id)}
+                    onLongPress={type.custom ? () => router.push({ pathname: '/(tabs)/event-type', params: { id: type.id } }) : undefined}
                   >
                     <Text style={styles.eventTypeEmoji}>{type.icon}</Text>
                     <Text
@@ -289,12 +493,25 @@ export default function OutfitAnalysisScreen() {
                     </Text>
                   </TouchableOpacity>
                 ))}
+                <TouchableOpacity
+                  style={[styles.eventTypeButton, styles.eventTypeButtonNew]}
+                  onPress={() => router.push('/(tabs)/event-type')}
+                  testID="new-event-type"
+                >
+                  <Plus size={16} color={COLORS.textLight} />
+                  <Text style={styles.eventTypeButtonText}> Your Own</Text>
+                </TouchableOpacity>
               </View>
+              {eventTypes.some(t => t.custom) && (
+                <Text style={styles.shotHint}>Long-press one of your own event types to edit its dress code.</Text>
+              )}
               
               {analyzing ? (
                 <View style={styles.loadingContainer}>
                   <ActivityIndicator size="large" color={COLORS.secondary} />
-                  <Text style={styles.analyzingText}>Analyzing your outfit...</Text>
+                  <Text style={styles.analyzingText}>
+                    {shots.length > 1 ? `Analyzing ${shots.length} photos...` : 'Analyzing your outfit...'}
+                  </Text>
                 </View>
               ) : (
                 <View style={styles.actionButtons}>
@@ -306,7 +523,7 @@ export default function OutfitAnalysisScreen() {
                     variant="secondary"
                   />
                   <Button
-                    title="Change Photo"
+                    title={shots.length > 1 ? 'Start Over' : 'Change Photo'}
                     variant="outline"
                     onPress={resetAnalysis}
                     style={styles.changeButton}
@@ -320,7 +537,7 @@ export default function OutfitAnalysisScreen() {
         <View style={styles.resultContainer}>
           <View style={styles.resultHeader}>
             <Image
-              source={{ uri: capturedImage || 'https://images.unsplash.com/photo-1589710751893-f9a6770ad71b?q=80&w=500&auto=format&fit=crop' }}
+              source={{ uri: primaryImage || 'https://images.unsplash.com/photo-1589710751893-f9a6770ad71b?q=80&w=500&auto=format&fit=crop' }}
               style={styles.resultImage}
             />
             <View style={styles.resultInfo}>
@@ -341,6 +558,22 @@ export default function OutfitAnalysisScreen() {
             </View>
           </View>
 
+          {repeatWarning && (
+            <Card style={{ ...styles.analysisCard, ...styles.repeatCard }} testID="repeat-warning">
+              <Text style={styles.repeatTitle}>🔁 You&apos;ve worn this before</Text>
+              <Text style={styles.repeatText}>
+                A very similar outfit went to {repeatWarning.look.calendarEvent?.title ?? repeatWarning.look.eventLabel} on{' '}
+                {new Date(repeatWarning.look.createdAt).toLocaleDateString()}. Swap a piece or two if the same people will be there.
+              </Text>
+              <Button
+                title="Open Lookbook"
+                variant="text"
+                size="small"
+                onPress={() => router.push('/(tabs)/lookbook')}
+              />
+            </Card>
+          )}
+
           <Card style={styles.analysisCard}>
             <Text style={styles.analysisTitle}>Style Analysis</Text>
             
@@ -352,9 +585,37 @@ export default function OutfitAnalysisScreen() {
                 showPercentage
               />
             </View>
+
+            {analysisResult.features?.context && analysisResult.weatherFit && (
+              <View style={styles.weatherRow}>
+                <Text style={styles.weatherText}>Today: {describeWeather(analysisResult.features.context)}</Text>
+                <Text style={[styles.weatherVerdict, { color: analysisResult.seasonalMatch ? COLORS.success : COLORS.warning }]}>
+                  {analysisResult.seasonalMatch ? 'Weather-ready' : 'Not dressed for the weather'}
+                </Text>
+              </View>
+            )}
+            
+            {analysisResult.paletteMatch && (
+              <View style={styles.colorsContainer}>
+                <Text style={styles.colorsTitle}>Your Colors vs {analysisResult.paletteMatch.seasonLabel}</Text>
+                {analysisResult.paletteMatch.garmentColors.map(match => (
+                  <View key={match.hex} style={styles.paletteMatchRow}>
+                    <View style={[styles.paletteMatchSwatch, { backgroundColor: match.hex }]} />
+                    <Text style={styles.paletteMatchArrow}>→</Text>
+                    <View style={[styles.paletteMatchSwatch, { backgroundColor: match.closest }]} />
+                    <Text style={[
+                      styles.paletteMatchVerdict,
+                      { color: match.verdict === 'great' ? COLORS.success : match.verdict === 'ok' ? COLORS.info : match.verdict === 'avoid' ? COLORS.error : COLORS.warning },
+                    ]}>
+                      {match.verdict === 'great' ? 'In your palette' : match.verdict === 'ok' ? 'Close match' : match.verdict === 'avoid' ? 'Avoid near face' : 'Off palette'}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
             
             <View style={styles.colorsContainer}>
-              <Text style={styles.colorsTitle}>Compatible Colors</Text>
+              <Text style={styles.colorsTitle}>{analysisResult.paletteMatch ? 'Try These From Your Palette' : 'Compatible Colors'}</Text>
               <View style={styles.colorSwatches}>
                 {analysisResult.compatibleColors.map((color, index) => (
                   <View 
@@ -366,6 +627,133 @@ export default function OutfitAnalysisScreen() {
             </View>
           </Card>
 
+          {analysisResult.fitAnalysis && (
+            <Card style={styles.analysisCard}>
+              <Text style={styles.analysisTitle}>📐 Fit & Proportions</Text>
+              <View style={styles.metricsContainer}>
+                <Text style={styles.metricsLabel}>Fit</Text>
+                <ProgressBar progress={analysisResult.fitScore} height={8} showPercentage />
+              </View>
+              {analysisResult.fitAnalysis.strengths.map(strength => (
+                <Text key={strength} style={[styles.checkNote, { color: COLORS.success }]}>✓ {strength}</Text>
+              ))}
+              {analysisResult.fitAnalysis.feedback.map(item => (
+                <Text key={item} style={[styles.checkNote, { color: COLORS.warning }]}>• {item}</Text>
+              ))}
+              {analysisResult.fitAnalysis.measurements.source === 'boxes' && (
+                <Text style={styles.fitSourceNote}>Estimated from garment outlines — a straight-on, head-to-toe photo gives more precise proportions.</Text>
+              )}
+            </Card>
+          )}
+
+          {analysisResult.accessories && (analysisResult.accessories.items.length > 0 || analysisResult.accessories.tips.length > 0) && (
+            <Card style={styles.analysisCard}>
+              <Text style={styles.analysisTitle}>💍 Accessories</Text>
+              {analysisResult.accessories.items.length > 0 && (
+                <View style={styles.accessoryList}>
+                  {analysisResult.accessories.items.map(item => (
+                    <View key={item.name} style={styles.accessoryChip}>
+                      {item.colorHex && <View style={[styles.accessoryDot, { backgroundColor: item.colorHex }]} />}
+                      <Text style={styles.accessoryText}>
+                        {ACCESSORY_KINDS.find(k => k.kind === item.kind)?.icon} {item.name}
+                        {item.metalTone ? ` · ${METAL_TONE_LABELS[item.metalTone].toLowerCase()}` : ''}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+              {analysisResult.accessories.metalTone && !analysisResult.accessories.undertone && (
+                <Text style={styles.accessoryNote}>
+                  Run a face scan or build your color palette to see whether {METAL_TONE_LABELS[analysisResult.accessories.metalTone].toLowerCase()} suits your undertone.
+                </Text>
+              )}
+              {analysisResult.accessories.strengths.map(strength => (
+                <Text key={strength} style={[styles.checkNote, { color: COLORS.success }]}>✓ {strength}</Text>
+              ))}
+              {analysisResult.accessories.tips.map(tip => (
+                <Text key={tip} style={[styles.checkNote, { color: COLORS.warning }]}>• {tip}</Text>
+              ))}
+            </Card>
+          )}
+
+          {analysisResult.dressCodeFit && analysisResult.features?.dressCode && (
+            <Card style={styles.analysisCard}>
+              <Text style={styles.analysisTitle}>👔 Dress Code</Text>
+              <View style={styles.metricsContainer}>
+                <Text style={styles.metricsLabel}>
+                  Calls for {formalityLabel(analysisResult.features.dressCode.formality).toLowerCase()}
+                  {analysisResult.dressCodeFit.formality !== null &&
+                    ` · yours reads ${formalityLabel(analysisResult.dressCodeFit.formality).toLowerCase()}`}
+                </Text>
+                <ProgressBar progress={analysisResult.dressCodeFit.score} height={8} showPercentage />
+              </View>
+              {analysisResult.dressCodeFit.strengths.map(strength => (
+                <Text key={strength} style={[styles.checkNote, { color: COLORS.success }]}>✓ {strength}</Text>
+              ))}
+              {analysisResult.dressCodeFit.issues.map(issue => (
+                <Text key={issue} style={[styles.checkNote, { color: COLORS.warning }]}>• {issue}</Text>
+              ))}
+            </Card>
+          )}
+
+          {analysisResult.shots && analysisResult.shots.length > 1 && (
+            <Card style={styles.analysisCard}>
+              <Text style={styles.analysisTitle}>📸 Shots Analyzed</Text>
+              {analysisResult.shots.map(shot => (
+                <View key={shot.kind} style={styles.shotResultRow}>
+                  <Image source={{ uri: shot.imageUri }} style={styles.shotResultThumbnail} />
+                  <View style={styles.shotResultInfo}>
+                    <Text style={styles.shotLabel}>{OUTFIT_SHOT_KINDS.find(k => k.kind === shot.kind)?.label}</Text>
+                    <Text style={styles.shotResultItems}>
+                      {shot.detectedItems.length > 0 ? shot.detectedItems.join(', ') : 'No garments detected'}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </Card>
+          )}
+
+          {analysisResult.improvements.length > 0 && (
+            <Card style={styles.analysisCard} testID="try-on-card">
+              <View style={styles.improvementHeader}>
+                <Wand2 size={18} color={COLORS.warning} />
+                <Text style={styles.improvementTitle}>Improvements to Try On</Text>
+              </View>
+              {analysisResult.improvements.map((improvement, index) => {
+                const previewed = tryOns.some(t => t.suggestion === improvement);
+                return (
+                  <View key={improvement} style={styles.improvementItem}>
+                    <View style={[styles.improvementBullet, { backgroundColor: COLORS.warning }]}>
+                      <Text style={styles.improvementBulletText}>{index + 1}</Text>
+                    </View>
+                    <Text style={styles.improvementText}>{improvement}</Text>
+                    <Button
+                      title={previewed ? 'Previewed' : 'Preview'}
+                      variant="outline"
+                      size="small"
+                      onPress={() => previewSuggestion(improvement)}
+                      isLoading={previewing === improvement}
+                      disabled={previewed || (previewing !== null && previewing !== improvement)}
+                    />
+                  </View>
+                );
+              })}
+              {tryOns.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.tryOnGallery}>
+                  {tryOns.map(variation => (
+                    <View key={variation.id} style={styles.tryOnItem}>
+                      <Image source={{ uri: variation.imageUri }} style={styles.tryOnImage} />
+                      <Text style={styles.tryOnCaption} numberOfLines={2}>{variation.suggestion}</Text>
+                    </View>
+                  ))}
+                </ScrollView>
+              )}
+              <Text style={styles.tryOnNote}>
+                Previews are drawn from a description of your outfit, so the model won&apos;t look exactly like you.
+              </Text>
+            </Card>
+          )}
+
           <Card style={styles.tipsCard}>
             <View style={styles.tipsHeader}>
               <Text style={styles.tipsTitle}>Style Suggestions</Text>
@@ -390,10 +778,13 @@ export default function OutfitAnalysisScreen() {
               variant="secondary"
             />
             <Button
-              title="Save Results"
+              title={savedToWardrobe ? 'Saved' : 'Save to Wardrobe'}
               variant="outline"
-              onPress={() => {}}
+              onPress={saveToWardrobe}
+              isLoading={savingToWardrobe}
+              disabled={savedToWardrobe || !user}
               style={styles.actionButton}
+              testID="save-to-wardrobe-button"
             />
           </View>
         </View>
@@ -587,6 +978,70 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     marginBottom: 20,
   },
+  shotTray: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignSelf: 'stretch',
+    marginBottom: 8,
+  },
+  shotSlot: {
+    alignItems: 'center',
+  },
+  shotThumbnail: {
+    width: 64,
+    height: 80,
+    borderRadius: 8,
+    backgroundColor: COLORS.chip,
+  },
+  shotEmpty: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: COLORS.border,
+  },
+  shotRemove: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: COLORS.error,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shotLabel: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: COLORS.textDark,
+    marginTop: 4,
+  },
+  shotHint: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    alignSelf: 'flex-start',
+    marginBottom: 20,
+  },
+  shotResultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  shotResultThumbnail: {
+    width: 40,
+    height: 50,
+    borderRadius: 6,
+    marginRight: 12,
+    backgroundColor: COLORS.chip,
+  },
+  shotResultInfo: {
+    flex: 1,
+  },
+  shotResultItems: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
   eventTypeLabel: {
     fontSize: 18,
     fontWeight: '600',
@@ -618,6 +1073,9 @@ const styles = StyleSheet.create({
     backgroundColor: COLORS.secondary,
     borderColor: COLORS.secondary,
   },
+  eventTypeButtonNew: {
+    borderStyle: 'dashed',
+  },
   eventTypeEmoji: {
     fontSize: 16,
     marginRight: 6,
@@ -672,6 +1130,98 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  checkNote: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  repeatCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.warning,
+  },
+  repeatTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 6,
+  },
+  repeatText: {
+    fontSize: 14,
+    color: COLORS.text,
+    lineHeight: 20,
+  },
+  fitSourceNote: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 6,
+  },
+  accessoryList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 10,
+  },
+  accessoryChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    backgroundColor: COLORS.chip,
+  },
+  accessoryDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  accessoryText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  accessoryNote: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginBottom: 6,
+  },
+  tryOnGallery: {
+    gap: 10,
+    paddingVertical: 6,
+  },
+  tryOnItem: {
+    width: 120,
+  },
+  tryOnImage: {
+    width: 120,
+    height: 180,
+    borderRadius: 10,
+    backgroundColor: COLORS.chip,
+  },
+  tryOnCaption: {
+    fontSize: 11,
+    color: COLORS.textLight,
+    marginTop: 4,
+  },
+  tryOnNote: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 6,
+  },
+  weatherRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  weatherText: {
+    fontSize: 14,
+    color: COLORS.text,
+  },
+  weatherVerdict: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   eventTypeResult: {
     fontSize: 18,
     fontWeight: '600',
@@ -730,6 +1280,28 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
   },
+  paletteMatchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  paletteMatchSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  paletteMatchArrow: {
+    fontSize: 14,
+    color: COLORS.textLight,
+  },
+  paletteMatchVerdict: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   colorSwatch: {
     width: 40,
     height: 40,
@@ -981,5 +1553,6 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: COLORS.textDark,
     lineHeight: 20,
+    marginRight: 8,
   },
 });
\ No newline at end of file
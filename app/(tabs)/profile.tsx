@@ -1,18 +1,40 @@
-import React from 'react';
+import React, { useState, useCallback } from 'react';
 import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity } from 'react-native';
-import { Stack } from 'expo-router';
-import { Settings, LogOut, ChevronRight, Camera, Shirt, Bell, CreditCard, HelpCircle, Shield, Crown } from 'lucide-react-native';
+import { Stack, router, useFocusEffect } from 'expo-router';
+import { Settings, LogOut, ChevronRight, Camera, Shirt, Bell, CreditCard, HelpCircle, Shield, Crown, Palette } from 'lucide-react-native';
 
 import { useAuth } from '@/hooks/auth-store';
 import Button from '@/components/Button';
 import Card from '@/components/Card';
 import { COLORS } from '@/constants/colors';
+import { scanHistoryService, GlowScanRecord } from '@/lib/scan-history';
+
+const formatActivityDate = (iso: string) => {
+  const date = new Date(iso);
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  const today = new Date();
+  const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+  if (date.toDateString() === today.toDateString()) return `Today, ${time}`;
+  if (date.toDateString() === yesterday.toDateString()) return `Yesterday, ${time}`;
+  return `${date.toLocaleDateString()}, ${time}`;
+};
 
 export default function ProfileScreen() {
   const { user, logout, isPremium, upgradeToPremium } = useAuth();
 
-  // Mock data
-  const analysisCount = 12;
+  const [scans, setScans] = useState<GlowScanRecord[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      scanHistoryService.getScans(user.id)
+        .then(setScans)
+        .catch(error => console.error('Error loading scan history:', error));
+    }, [user])
+  );
+
+  const analysisCount = scans.length;
+  const latestScan = scans[0];
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false} contentContainerStyle={styles.scrollContent}>
@@ -60,7 +82,7 @@ export default function ProfileScreen() {
         </View>
         <View style={styles.statDivider} />
         <View style={styles.statItem}>
-          <Text style={styles.statValue}>78</Text>
+          <Text style={styles.statValue}>{latestScan ? latestScan.result.overallScore : '—'}</Text>
           <Text style={styles.statLabel}>Glow Score</Text>
         </View>
       </View>
@@ -103,20 +125,28 @@ export default function ProfileScreen() {
         </Card>
       )}
 
-      <View style={styles.sectionHeader}>
+      <View style={[styles.sectionHeader, styles.sectionHeaderRow]}>
         <Text style={styles.sectionTitle}>Recent Activity</Text>
+        <TouchableOpacity onPress={() => router.push('/(tabs)/glow-history')} testID="view-scan-history">
+          <Text style={styles.sectionLink}>Scan History</Text>
+        </TouchableOpacity>
       </View>
 
       <View style={styles.activityList}>
-        <TouchableOpacity style={styles.activityItem}>
+        <TouchableOpacity
+          style={styles.activityItem}
+          onPress={() => router.push(latestScan ? '/(tabs)/glow-history' : '/(tabs)/glow-analysis')}
+        >
           <View style={[styles.activityIcon, { backgroundColor: COLORS.primary + '20' }]}>
             <Camera size={20} color={COLORS.primary} />
           </View>
           <View style={styles.activityInfo}>
             <Text style={styles.activityTitle}>Glow Analysis</Text>
-            <Text style={styles.activityDate}>Today, 10:30 AM</Text>
+            <Text style={styles.activityDate}>
+              {latestScan ? formatActivityDate(latestScan.createdAt) : 'No scans yet'}
+            </Text>
           </View>
-          <Text style={styles.activityScore}>78</Text>
+          <Text style={styles.activityScore}>{latestScan ? latestScan.result.overallScore : '—'}</Text>
         </TouchableOpacity>
 
         <TouchableOpacity style={styles.activityItem}>
@@ -136,6 +166,12 @@ export default function ProfileScreen() {
       </View>
 
       <View style={styles.settingsList}>
+        <TouchableOpacity style={styles.settingsItem} onPress={() => router.push('/(tabs)/color-palette')} testID="open-color-palette">
+          <Palette size={20} color={COLORS.textDark} style={styles.settingsIcon} />
+          <Text style={styles.settingsText}>My Colors</Text>
+          <ChevronRight size={18} color={COLORS.textLight} />
+        </TouchableOpacity>
+
         <TouchableOpacity style={styles.settingsItem}>
           <Bell size={20} color={COLORS.textDark} style={styles.settingsIcon} />
           <Text style={styles.settingsText}>Notifications</Text>
@@ -320,11 +356,21 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     marginTop: 6,
   },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
     color: COLORS.textDark,
   },
+  sectionLink: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
   activityList: {
     backgroundColor: COLORS.white,
     borderRadius: 12,
@@ -0,0 +1,458 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Stack, useFocusEffect } from 'expo-router';
+import { Sun, Moon, AlertTriangle, FlaskConical } from 'lucide-react-native';
+
+import Button from '@/components/Button';
+import Card from '@/components/Card';
+import Input from '@/components/Input';
+import { COLORS } from '@/constants/colors';
+import { useAuth } from '@/hooks/auth-store';
+import {
+  skincareRoutineService,
+  buildRoutine,
+  parseIngredients,
+  productActives,
+  searchIngredients,
+  SkincareProduct,
+  ProductStep,
+  ProductTexture,
+  RoutineSlot,
+  RoutineWarning,
+  PRODUCT_STEPS,
+  PRODUCT_TEXTURES,
+  ACTIVE_LABELS,
+} from '@/lib/skincare-routine';
+
+const SLOTS: { id: RoutineSlot; label: string }[] = [
+  { id: 'morning', label: 'Morning' },
+  { id: 'evening', label: 'Evening' },
+];
+
+const WARNING_COLORS: Record<RoutineWarning['severity'], string> = {
+  conflict: COLORS.error,
+  missing: COLORS.error,
+  caution: COLORS.warning,
+};
+
+const stepLabel = (step: ProductStep) => PRODUCT_STEPS.find(s => s.id === step)?.label ?? step;
+const textureLabel = (texture: ProductTexture) => PRODUCT_TEXTURES.find(t => t.id === texture)?.label ?? texture;
+
+export default function SkincareRoutineScreen() {
+  const { user } = useAuth();
+  const [products, setProducts] = useState<SkincareProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<SkincareProduct | null>(null);
+  const [name, setName] = useState('');
+  const [brand, setBrand] = useState('');
+  const [step, setStep] = useState<ProductStep>('serum');
+  const [texture, setTexture] = useState<ProductTexture>('serum');
+  const [slots, setSlots] = useState<RoutineSlot[]>(['morning', 'evening']);
+  const [ingredientText, setIngredientText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const routine = useMemo(() => buildRoutine(products), [products]);
+  const ingredients = useMemo(() => parseIngredients(ingredientText), [ingredientText]);
+  const actives = useMemo(() => productActives({ ingredients }), [ingredients]);
+  // Dataset matches for the ingredient being typed, i.e. the text after the last comma
+  const suggestions = useMemo(() => {
+    const fragment = ingredientText.split(/[,\n;]/).pop() ?? '';
+    return searchIngredients(fragment).filter(entry => !ingredients.slice(0, -1).includes(entry.inci));
+  }, [ingredientText, ingredients]);
+
+  const loadProducts = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+    try {
+      setProducts(await skincareRoutineService.getProducts(user.id));
+    } catch (error) {
+      console.error('Error loading skincare products:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadProducts();
+    }, [loadProducts])
+  );
+
+  const resetForm = () => {
+    setEditing(null);
+    setName('');
+    setBrand('');
+    setStep('serum');
+    setTexture('serum');
+    setSlots(['morning', 'evening']);
+    setIngredientText('');
+  };
+
+  const editProduct = (product: SkincareProduct) => {
+    setEditing(product);
+    setName(product.name);
+    setBrand(product.brand ?? '');
+    setStep(product.step);
+    setTexture(product.texture);
+    setSlots(product.slots);
+    setIngredientText(product.ingredients.join(', '));
+  };
+
+  const selectStep = (id: ProductStep) => {
+    setStep(id);
+    setTexture(PRODUCT_STEPS.find(s => s.id === id)?.texture ?? texture);
+  };
+
+  const toggleSlot = (slot: RoutineSlot) => {
+    setSlots(current => (current.includes(slot) ? current.filter(s => s !== slot) : [...current, slot]));
+  };
+
+  const completeIngredient = (inci: string) => {
+    const parts = ingredientText.split(',');
+    parts[parts.length - 1] = ` ${inci}`;
+    setIngredientText(`${parts.join(',').trim()}, `);
+  };
+
+  const save = async () => {
+    if (!user || !name.trim() || slots.length === 0) return;
+    setSaving(true);
+    try {
+      const input = { name: name.trim(), brand: brand.trim() || undefined, step, texture, ingredients, slots };
+      if (editing) {
+        await skincareRoutineService.updateProduct(user.id, editing.id, input);
+      } else {
+        await skincareRoutineService.addProduct(user.id, input);
+      }
+      resetForm();
+      await loadProducts();
+    } catch (error) {
+      console.error('Error saving skincare product:', error);
+      Alert.alert('Error', 'Failed to save this product. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmRemove = () => {
+    if (!user || !editing) return;
+    Alert.alert('Remove Product', `Remove ${editing.name} from your routine?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await skincareRoutineService.removeProduct(user.id, editing.id);
+          resetForm();
+          await loadProducts();
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Stack.Screen options={{ title: 'My Skincare Routine' }} />
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Stack.Screen options={{ title: 'My Skincare Routine' }} />
+
+      <Text style={styles.intro}>
+        Add the products you actually use. They're put in order for each routine, checked for clashes, and
+        filled into your glow plan's skincare tasks.
+      </Text>
+
+      {routine.warnings.length > 0 && (
+        <Card style={styles.card}>
+          {routine.warnings.map(warning => (
+            <View key={warning.id} style={styles.warningRow}>
+              <AlertTriangle size={18} color={WARNING_COLORS[warning.severity]} />
+              <Text style={styles.warningText}>{warning.message}</Text>
+            </View>
+          ))}
+        </Card>
+      )}
+
+      {SLOTS.map(slot => (
+        <Card key={slot.id} style={styles.card}>
+          <View style={styles.slotHeader}>
+            {slot.id === 'morning' ? <Sun size={20} color={COLORS.warning} /> : <Moon size={20} color={COLORS.primary} />}
+            <Text style={styles.slotTitle}>{slot.label} Routine</Text>
+          </View>
+          {routine[slot.id].length === 0 ? (
+            <Text style={styles.emptySlot}>No products yet.</Text>
+          ) : (
+            routine[slot.id].map((product, index) => {
+              const productActiveLabels = productActives(product).map(a => ACTIVE_LABELS[a]);
+              return (
+                <TouchableOpacity
+                  key={product.id}
+                  style={styles.stepRow}
+                  onPress={() => editProduct(product)}
+                  testID={`routine-${slot.id}-${product.id}`}
+                >
+                  <View style={styles.stepNumber}>
+                    <Text style={styles.stepNumberText}>{index + 1}</Text>
+                  </View>
+                  <View style={styles.stepInfo}>
+                    <Text style={styles.stepName}>{product.name}</Text>
+                    <Text style={styles.stepMeta}>
+                      {[product.brand, stepLabel(product.step), textureLabel(product.texture)].filter(Boolean).join(' · ')}
+                    </Text>
+                    {productActiveLabels.length > 0 && (
+                      <Text style={styles.stepActives}>{productActiveLabels.join(', ')}</Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </Card>
+      ))}
+
+      <Card style={styles.card}>
+        <View style={styles.slotHeader}>
+          <FlaskConical size={20} color={COLORS.primary} />
+          <Text style={styles.slotTitle}>{editing ? 'Edit Product' : 'Add a Product'}</Text>
+        </View>
+
+        <Input
+          label="Name"
+          value={name}
+          onChangeText={setName}
+          placeholder="e.g. Retinol 0.5% serum"
+          testID="skincare-product-name"
+        />
+        <Input
+          label="Brand"
+          value={brand}
+          onChangeText={setBrand}
+          placeholder="Optional"
+        />
+
+        <Text style={styles.subTitle}>Step</Text>
+        <View style={styles.chipWrap}>
+          {PRODUCT_STEPS.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, step === option.id && styles.chipActive]}
+              onPress={() => selectStep(option.id)}
+            >
+              <Text style={[styles.chipText, step === option.id && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.subTitle}>Texture</Text>
+        <View style={styles.chipWrap}>
+          {PRODUCT_TEXTURES.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, texture === option.id && styles.chipActive]}
+              onPress={() => setTexture(option.id)}
+            >
+              <Text style={[styles.chipText, texture === option.id && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.subTitle}>Used in</Text>
+        <View style={styles.chipWrap}>
+          {SLOTS.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, slots.includes(option.id) && styles.chipActive]}
+              onPress={() => toggleSlot(option.id)}
+            >
+              <Text style={[styles.chipText, slots.includes(option.id) && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Input
+          label="Ingredients"
+          value={ingredientText}
+          onChangeText={setIngredientText}
+          placeholder="Paste the INCI list, separated by commas"
+          multiline
+          autoCapitalize="words"
+          testID="skincare-product-ingredients"
+        />
+        {suggestions.length > 0 && (
+          <View style={styles.chipWrap}>
+            {suggestions.map(entry => (
+              <TouchableOpacity key={entry.inci} style={styles.chip} onPress={() => completeIngredient(entry.inci)}>
+                <Text style={styles.chipText}>{entry.inci}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {actives.length > 0 && (
+          <Text style={styles.recognized}>Actives: {actives.map(a => ACTIVE_LABELS[a]).join(', ')}</Text>
+        )}
+
+        <Button
+          title={editing ? 'Save Changes' : 'Add to Routine'}
+          onPress={save}
+          isLoading={saving}
+          disabled={!name.trim() || slots.length === 0}
+          style={styles.saveButton}
+          testID="save-skincare-product"
+        />
+        {editing && (
+          <View style={styles.editActions}>
+            <Button title="Cancel" variant="outline" onPress={resetForm} style={styles.editButton} />
+            <Button title="Remove" variant="outline" onPress={confirmRemove} style={styles.editButton} />
+          </View>
+        )}
+      </Card>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContent: {
+    paddingVertical: 16,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: COLORS.background,
+  },
+  intro: {
+    fontSize: 14,
+    color: COLORS.textMuted,
+    lineHeight: 20,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 6,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    color: COLORS.text,
+    lineHeight: 20,
+  },
+  slotHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  slotTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  emptySlot: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    fontStyle: 'italic',
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  stepNumber: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: COLORS.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  stepNumberText: {
+    color: COLORS.white,
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  stepInfo: {
+    flex: 1,
+  },
+  stepName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  stepMeta: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  stepActives: {
+    fontSize: 12,
+    color: COLORS.primary,
+    marginTop: 2,
+  },
+  subTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textMuted,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: COLORS.chip,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textMuted,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  recognized: {
+    fontSize: 13,
+    color: COLORS.success,
+    marginBottom: 8,
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+  editActions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 12,
+  },
+  editButton: {
+    flex: 1,
+  },
+});
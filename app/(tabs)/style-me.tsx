@@ -0,0 +1,327 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, Alert } from 'react-native';
+import { Stack, router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { Lock, Sparkles } from 'lucide-react-native';
+
+import Button from '@/components/Button';
+import Card from '@/components/Card';
+import { COLORS } from '@/constants/colors';
+import { EVENT_TYPES, EventType } from '@/constants/event-types';
+import { useAuth } from '@/hooks/auth-store';
+import { wardrobeService, WardrobeItem, WARDROBE_CATEGORIES } from '@/lib/wardrobe';
+import { outfitGeneratorService, GeneratedOutfit } from '@/lib/outfit-generator';
+import { outfitContextService } from '@/lib/outfit-context';
+import { eventTypeService } from '@/lib/event-types';
+import { describeWeather, toWeatherContext, OutfitWeatherContext } from '@/lib/weather-fit';
+
+// "YYYY-MM-DD" as midday local time, so the forecast lands on the right day
+const parseDay = (day?: string): Date => {
+  const [y, m, d] = (day ?? '').split('-').map(Number);
+  return y && m && d ? new Date(y, m - 1, d, 12) : new Date();
+};
+
+export default function StyleMeScreen() {
+  const { user } = useAuth();
+  // Opened from the home card with the day's event and date already chosen
+  const params = useLocalSearchParams<{ event?: string; date?: string }>();
+  const [wardrobe, setWardrobe] = useState<WardrobeItem[]>([]);
+  const [eventTypes, setEventTypes] = useState<EventType[]>(EVENT_TYPES);
+  const [eventType, setEventType] = useState(params.event ?? '');
+  const [weather, setWeather] = useState<OutfitWeatherContext | null>(null);
+  const [outfits, setOutfits] = useState<GeneratedOutfit[]>([]);
+  const [shownIds, setShownIds] = useState<string[]>([]);
+  const [lockedItemId, setLockedItemId] = useState<string | undefined>();
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      wardrobeService.getItems(user.id)
+        .then(setWardrobe)
+        .catch(error => console.error('Error loading wardrobe:', error));
+      eventTypeService.getAll(user.id)
+        .then(setEventTypes)
+        .catch(error => console.error('Error loading event types:', error));
+    }, [user])
+  );
+
+  useEffect(() => {
+    if (params.event) setEventType(params.event);
+  }, [params.event]);
+
+  useEffect(() => {
+    outfitContextService.getForecast(parseDay(params.date))
+      .then(forecast => setWeather(toWeatherContext(forecast)))
+      .catch(error => console.error('Error loading forecast:', error));
+  }, [params.date]);
+
+  const selectedEvent = eventTypes.find(e => e.id === eventType);
+  const eventLabel = selectedEvent?.label ?? '';
+  const missing = outfitGeneratorService.missingCategories(wardrobe);
+
+  const generate = (options: { lockedItemId?: string; exclude?: string[] } = {}) => {
+    if (!eventLabel) return;
+    const next = outfitGeneratorService.generate(wardrobe, eventLabel, { ...options, weather, dressCode: selectedEvent?.dressCode });
+    setOutfits(next);
+    setShownIds([...(options.exclude ?? []), ...next.map(o => o.id)]);
+  };
+
+  const selectEvent = (id: string) => {
+    setEventType(id);
+    setOutfits([]);
+    setShownIds([]);
+    setLockedItemId(undefined);
+  };
+
+  const styleMe = () => {
+    generate({ lockedItemId });
+  };
+
+  // Keeps the locked piece and proposes looks that haven't been shown yet
+  const regenerate = () => {
+    generate({ lockedItemId, exclude: shownIds });
+  };
+
+  const toggleLock = (itemId: string) => {
+    setLockedItemId(current => (current === itemId ? undefined : itemId));
+  };
+
+  const wearOutfit = async (outfit: GeneratedOutfit) => {
+    if (!user) return;
+    try {
+      await wardrobeService.markWorn(user.id, outfit.items.map(i => i.id), eventLabel);
+      setWardrobe(await wardrobeService.getItems(user.id));
+      Alert.alert('Enjoy!', `Marked ${outfit.items.length} items as worn for ${eventLabel}.`);
+    } catch (error) {
+      console.error('Error marking outfit as worn:', error);
+    }
+  };
+
+  const categoryLabel = (category: WardrobeItem['category']) =>
+    WARDROBE_CATEGORIES.find(c => c.id === category)?.label.toLowerCase() ?? category;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Stack.Screen options={{ title: 'Style Me' }} />
+
+      <Card style={styles.card}>
+        <Text style={styles.cardTitle}>What&apos;s the occasion?</Text>
+        {weather && (
+          <Text style={styles.weatherText}>
+            {params.date ? 'Forecast' : 'Today'}: {describeWeather(weather)}
+          </Text>
+        )}
+        <View style={styles.chipWrap}>
+          {eventTypes.map(type => (
+            <TouchableOpacity
+              key={type.id}
+              style={[styles.chip, eventType === type.id && styles.chipActive]}
+              onPress={() => selectEvent(type.id)}
+              onLongPress={type.custom ? () => router.push({ pathname: '/(tabs)/event-type', params: { id: type.id } }) : undefined}
+            >
+              <Text style={[styles.chipText, eventType === type.id && styles.chipTextActive]}>
+                {type.icon} {type.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.chip} onPress={() => router.push('/(tabs)/event-type')} testID="new-event-type">
+            <Text style={styles.chipText}>+ Your Own</Text>
+          </TouchableOpacity>
+        </View>
+
+        {missing.length > 0 ? (
+          <>
+            <Text style={styles.missingText}>
+              Add {missing.map(categoryLabel).join(' and ')} to your wardrobe to get complete looks.
+            </Text>
+            <Button title="Go to Wardrobe" variant="outline" onPress={() => router.push('/(tabs)/wardrobe')} />
+          </>
+        ) : (
+          <Button
+            title="Style Me"
+            onPress={styleMe}
+            disabled={!eventType}
+            leftIcon={<Sparkles size={18} color={COLORS.white} style={{ marginRight: 8 }} />}
+            testID="style-me-button"
+          />
+        )}
+      </Card>
+
+      {outfits.length > 0 && (
+        <Text style={styles.lockHint}>Tap a piece to lock it, then regenerate to restyle around it.</Text>
+      )}
+
+      {outfits.map((outfit, index) => (
+        <Card key={outfit.id} style={styles.card}>
+          <View style={styles.outfitHeader}>
+            <Text style={styles.cardTitle}>Look {index + 1}</Text>
+            <Text style={styles.outfitScore}>{outfit.score}</Text>
+          </View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.itemRow}>
+            {outfit.items.map(item => {
+              const isLocked = item.id === lockedItemId;
+              return (
+                <TouchableOpacity
+                  key={item.id}
+                  style={[styles.itemTile, isLocked && styles.itemTileLocked]}
+                  onPress={() => toggleLock(item.id)}
+                  testID={`lock-item-${item.id}`}
+                >
+                  {item.photoUri ? (
+                    <Image source={{ uri: item.photoUri }} style={styles.itemPhoto} />
+                  ) : (
+                    <View style={[styles.itemPhoto, { backgroundColor: item.colorHex }]} />
+                  )}
+                  {isLocked && (
+                    <View style={styles.lockBadge}>
+                      <Lock size={12} color={COLORS.white} />
+                    </View>
+                  )}
+                  <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+          {outfit.reasons.map(reason => (
+            <Text key={reason} style={styles.reason}>• {reason}</Text>
+          ))}
+          <Button title="Wear This" variant="outline" size="small" onPress={() => wearOutfit(outfit)} style={styles.wearButton} />
+        </Card>
+      ))}
+
+      {outfits.length > 0 && (
+        <Button
+          title={lockedItemId ? 'Regenerate Around Locked Item' : 'Show Me Other Looks'}
+          onPress={regenerate}
+          variant="secondary"
+          style={styles.regenerateButton}
+          testID="regenerate-outfits"
+        />
+      )}
+
+      {eventType && outfits.length === 0 && shownIds.length > 0 && (
+        <Text style={styles.missingText}>No more new combinations — unlock the item or add more pieces.</Text>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContent: {
+    paddingVertical: 16,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 12,
+  },
+  weatherText: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    marginTop: -6,
+    marginBottom: 12,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: COLORS.chip,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textMuted,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  missingText: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    marginBottom: 12,
+    marginHorizontal: 16,
+    textAlign: 'center',
+  },
+  lockHint: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  outfitHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  outfitScore: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+  },
+  itemRow: {
+    gap: 10,
+    marginBottom: 10,
+  },
+  itemTile: {
+    width: 84,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    padding: 2,
+  },
+  itemTileLocked: {
+    borderColor: COLORS.primary,
+  },
+  itemPhoto: {
+    width: '100%',
+    height: 96,
+    borderRadius: 8,
+    backgroundColor: COLORS.chip,
+  },
+  lockBadge: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  itemName: {
+    fontSize: 12,
+    color: COLORS.textDark,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  reason: {
+    fontSize: 13,
+    color: COLORS.text,
+    marginBottom: 2,
+  },
+  wearButton: {
+    marginTop: 10,
+    alignSelf: 'flex-start',
+  },
+  regenerateButton: {
+    marginHorizontal: 16,
+  },
+});
@@ -0,0 +1,221 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Linking, ActivityIndicator } from 'react-native';
+import { Stack, router, useFocusEffect } from 'expo-router';
+import { Puzzle } from 'lucide-react-native';
+
+import Button from '@/components/Button';
+import Card from '@/components/Card';
+import { COLORS } from '@/constants/colors';
+import { useAuth } from '@/hooks/auth-store';
+import { wardrobeGapService, GapReport } from '@/lib/wardrobe-gaps';
+import type { WardrobeCategory } from '@/lib/wardrobe';
+import type { Product } from '@/lib/product-catalog';
+
+const GAP_NOUNS: Record<WardrobeCategory, string> = {
+  top: 'top',
+  bottom: 'bottom',
+  dress: 'dress',
+  outerwear: 'layer',
+  shoes: 'shoes',
+  accessory: 'accessory',
+};
+
+export default function WardrobeGapsScreen() {
+  const { user } = useAuth();
+  const [report, setReport] = useState<GapReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      wardrobeGapService.getReport(user.id)
+        .then(setReport)
+        .catch(error => console.error('Error building gap report:', error))
+        .finally(() => setLoading(false));
+    }, [user])
+  );
+
+  const openProduct = (product: Product) => {
+    if (product.url) {
+      Linking.openURL(product.url).catch(error => console.error('Error opening product:', error));
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Stack.Screen options={{ title: 'Missing Pieces' }} />
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  if (!report || report.gaps.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Stack.Screen options={{ title: 'Missing Pieces' }} />
+        <Puzzle size={48} color={COLORS.primary} />
+        <Text style={styles.emptyTitle}>Nothing obvious is missing</Text>
+        <Text style={styles.emptyDescription}>
+          No single piece would add many new outfits right now. Save more looks to your wardrobe and check back.
+        </Text>
+        <Button title="Back to Wardrobe" onPress={() => router.back()} style={styles.emptyButton} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Stack.Screen options={{ title: 'Missing Pieces' }} />
+
+      <Text style={styles.intro}>
+        Pieces that would unlock the most new outfits for {report.events.map(e => e.eventType.label).join(', ')}
+        {report.paletteLabel ? `, in ${report.paletteLabel} colors` : ''}.
+      </Text>
+
+      {report.gaps.map(gap => (
+        <Card key={gap.id} style={styles.card}>
+          <View style={styles.gapHeader}>
+            <View style={[styles.swatch, { backgroundColor: gap.colorHex }]} />
+            <View style={styles.gapInfo}>
+              <Text style={styles.gapTitle}>
+                {gap.colorLabel} {gap.styleTag.toLowerCase()} {GAP_NOUNS[gap.category]}
+              </Text>
+              <Text style={styles.gapMeta}>
+                +{gap.newLooks} outfit{gap.newLooks === 1 ? '' : 's'} · {gap.byEvent.map(e => `${e.label} ${e.newLooks}`).join(', ')}
+              </Text>
+            </View>
+          </View>
+
+          {gap.products.length > 0 ? (
+            gap.products.map(product => (
+              <TouchableOpacity
+                key={`${product.catalog}:${product.id}`}
+                style={styles.productRow}
+                onPress={() => openProduct(product)}
+                disabled={!product.url}
+              >
+                <View style={[styles.productSwatch, { backgroundColor: product.colorHex }]} />
+                <View style={styles.gapInfo}>
+                  <Text style={styles.productTitle} numberOfLines={1}>{product.title}</Text>
+                  <Text style={styles.productBrand}>{product.brand}</Text>
+                </View>
+                <Text style={styles.productPrice}>{product.currency} {product.price}</Text>
+              </TouchableOpacity>
+            ))
+          ) : (
+            <Text style={styles.noProducts}>No close match in the catalog yet.</Text>
+          )}
+        </Card>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContent: {
+    paddingVertical: 16,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    backgroundColor: COLORS.background,
+  },
+  emptyTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.textDark,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyDescription: {
+    fontSize: 15,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  emptyButton: {
+    width: '100%',
+  },
+  intro: {
+    fontSize: 14,
+    color: COLORS.textMuted,
+    lineHeight: 20,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  gapHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  swatch: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  gapInfo: {
+    flex: 1,
+  },
+  gapTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  gapMeta: {
+    fontSize: 12,
+    color: COLORS.success,
+    marginTop: 2,
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  productSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+    marginRight: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  productTitle: {
+    fontSize: 14,
+    color: COLORS.textDark,
+  },
+  productBrand: {
+    fontSize: 12,
+    color: COLORS.textLight,
+  },
+  productPrice: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  noProducts: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,328 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity, Alert } from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+
+import Button from '@/components/Button';
+import Card from '@/components/Card';
+import Input from '@/components/Input';
+import { COLORS } from '@/constants/colors';
+import { EVENT_TYPES, EventType } from '@/constants/event-types';
+import { useAuth } from '@/hooks/auth-store';
+import { eventTypeService } from '@/lib/event-types';
+import {
+  wardrobeService,
+  WardrobeItem,
+  WardrobeCategory,
+  WARDROBE_CATEGORIES,
+  COLOR_FAMILIES,
+  STYLE_TAGS,
+} from '@/lib/wardrobe';
+
+const HEX_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+export default function WardrobeItemScreen() {
+  const { user } = useAuth();
+  const params = useLocalSearchParams<{ id?: string }>();
+  const [item, setItem] = useState<WardrobeItem | null>(null);
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<WardrobeCategory>('top');
+  const [colorHex, setColorHex] = useState(COLOR_FAMILIES[0].swatch);
+  const [styleTag, setStyleTag] = useState(STYLE_TAGS[0]);
+  const [occasions, setOccasions] = useState<string[]>([]);
+  const [eventTypes, setEventTypes] = useState<EventType[]>(EVENT_TYPES);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    eventTypeService.getAll(user.id)
+      .then(setEventTypes)
+      .catch(error => console.error('Error loading event types:', error));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !params.id) return;
+    wardrobeService.getItem(user.id, params.id)
+      .then(existing => {
+        if (!existing) return;
+        setItem(existing);
+        setName(existing.name);
+        setCategory(existing.category);
+        setColorHex(existing.colorHex);
+        setStyleTag(existing.styleTag);
+        setOccasions(existing.occasions);
+      })
+      .catch(error => console.error('Error loading wardrobe item:', error));
+  }, [user, params.id]);
+
+  // Event types plus anything the item was tagged with before
+  const occasionOptions = Array.from(new Set([...eventTypes.map(e => e.label), ...occasions]));
+  const colorValid = HEX_PATTERN.test(colorHex);
+
+  const toggleOccasion = (occasion: string) => {
+    setOccasions(current => (current.includes(occasion) ? current.filter(o => o !== occasion) : [...current, occasion]));
+  };
+
+  const save = async () => {
+    if (!user || !name.trim() || !colorValid) return;
+    setSaving(true);
+    try {
+      const input = { name: name.trim(), category, colorHex, styleTag, occasions };
+      if (item) {
+        await wardrobeService.updateItem(user.id, item.id, input);
+      } else {
+        await wardrobeService.addItem(user.id, input);
+      }
+      router.back();
+    } catch (error) {
+      console.error('Error saving wardrobe item:', error);
+      Alert.alert('Error', 'Failed to save this item. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const markWorn = async () => {
+    if (!user || !item) return;
+    await wardrobeService.markWorn(user.id, [item.id]);
+    setItem(await wardrobeService.getItem(user.id, item.id));
+  };
+
+  const confirmRemove = () => {
+    if (!user || !item) return;
+    Alert.alert('Remove Item', `Remove ${item.name} from your wardrobe?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await wardrobeService.removeItem(user.id, item.id);
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Stack.Screen options={{ title: item ? 'Edit Item' : 'Add Item' }} />
+
+      {item && (
+        <Card style={styles.card}>
+          <View style={styles.summaryRow}>
+            {item.photoUri ? (
+              <Image source={{ uri: item.photoUri }} style={styles.photo} />
+            ) : (
+              <View style={[styles.photo, { backgroundColor: item.colorHex }]} />
+            )}
+            <View style={styles.summaryInfo}>
+              <Text style={styles.summaryTitle}>Worn {item.timesWorn} time{item.timesWorn === 1 ? '' : 's'}</Text>
+              {item.lastWornAt && (
+                <Text style={styles.summaryText}>Last worn {new Date(item.lastWornAt).toLocaleDateString()}</Text>
+              )}
+              <Text style={styles.summaryText}>{item.source === 'analysis' ? 'From an outfit analysis' : 'Added manually'}</Text>
+              <Button title="Wore It Today" variant="outline" size="small" onPress={markWorn} style={styles.wornButton} />
+            </View>
+          </View>
+        </Card>
+      )}
+
+      <Card style={styles.card}>
+        <Input
+          label="Name"
+          value={name}
+          onChangeText={setName}
+          placeholder="e.g. Navy blazer"
+          testID="wardrobe-item-name"
+        />
+
+        <Text style={styles.subTitle}>Category</Text>
+        <View style={styles.chipWrap}>
+          {WARDROBE_CATEGORIES.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, category === option.id && styles.chipActive]}
+              onPress={() => setCategory(option.id)}
+            >
+              <Text style={[styles.chipText, category === option.id && styles.chipTextActive]}>
+                {option.icon} {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.subTitle}>Color</Text>
+        <View style={styles.chipWrap}>
+          {COLOR_FAMILIES.map(family => (
+            <TouchableOpacity
+              key={family.id}
+              style={[styles.colorOption, colorHex.toUpperCase() === family.swatch && styles.colorOptionActive]}
+              onPress={() => setColorHex(family.swatch)}
+            >
+              <View style={[styles.colorDot, { backgroundColor: family.swatch }]} />
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.hexRow}>
+          <View style={[styles.hexPreview, { backgroundColor: colorValid ? colorHex : COLORS.chip }]} />
+          <Input
+            value={colorHex}
+            onChangeText={text => setColorHex(text.startsWith('#') ? text : `#${text}`)}
+            autoCapitalize="characters"
+            maxLength={7}
+            error={colorValid ? undefined : 'Use a hex color like #1A2B3C'}
+            containerStyle={styles.hexInput}
+            testID="wardrobe-item-color"
+          />
+        </View>
+
+        <Text style={styles.subTitle}>Style</Text>
+        <View style={styles.chipWrap}>
+          {STYLE_TAGS.map(tag => (
+            <TouchableOpacity
+              key={tag}
+              style={[styles.chip, styleTag === tag && styles.chipActive]}
+              onPress={() => setStyleTag(tag)}
+            >
+              <Text style={[styles.chipText, styleTag === tag && styles.chipTextActive]}>{tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.subTitle}>Occasions</Text>
+        <View style={styles.chipWrap}>
+          {occasionOptions.map(occasion => (
+            <TouchableOpacity
+              key={occasion}
+              style={[styles.chip, occasions.includes(occasion) && styles.chipActive]}
+              onPress={() => toggleOccasion(occasion)}
+            >
+              <Text style={[styles.chipText, occasions.includes(occasion) && styles.chipTextActive]}>{occasion}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Button
+          title={item ? 'Save Changes' : 'Add to Wardrobe'}
+          onPress={save}
+          isLoading={saving}
+          disabled={!name.trim() || !colorValid}
+          style={styles.saveButton}
+          testID="save-wardrobe-item"
+        />
+        {item && (
+          <Button title="Remove Item" variant="outline" onPress={confirmRemove} style={styles.removeButton} />
+        )}
+      </Card>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContent: {
+    paddingVertical: 16,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  photo: {
+    width: 96,
+    height: 120,
+    borderRadius: 10,
+    backgroundColor: COLORS.chip,
+  },
+  summaryInfo: {
+    flex: 1,
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.textDark,
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: COLORS.textLight,
+    marginBottom: 2,
+  },
+  wornButton: {
+    marginTop: 8,
+    alignSelf: 'flex-start',
+  },
+  subTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textMuted,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: COLORS.chip,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textMuted,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  colorOption: {
+    padding: 3,
+    borderRadius: 18,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  colorOptionActive: {
+    borderColor: COLORS.primary,
+  },
+  colorDot: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  hexRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+  },
+  hexPreview: {
+    width: 44,
+    height: 44,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  hexInput: {
+    flex: 1,
+    width: undefined,
+  },
+  saveButton: {
+    marginTop: 8,
+  },
+  removeButton: {
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,354 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, Image, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router, useFocusEffect } from 'expo-router';
+import { BookOpen, Plus, Shirt, Sparkles } from 'lucide-react-native';
+
+import Button from '@/components/Button';
+import { COLORS } from '@/constants/colors';
+import { useAuth } from '@/hooks/auth-store';
+import {
+  wardrobeService,
+  WardrobeItem,
+  WardrobeFilter,
+  WARDROBE_CATEGORIES,
+  COLOR_FAMILIES,
+  colorFamily,
+} from '@/lib/wardrobe';
+
+export default function WardrobeScreen() {
+  const { user } = useAuth();
+  const [items, setItems] = useState<WardrobeItem[]>([]);
+  const [filter, setFilter] = useState<WardrobeFilter>({});
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+      wardrobeService.getItems(user.id)
+        .then(setItems)
+        .catch(error => console.error('Error loading wardrobe:', error))
+        .finally(() => setLoading(false));
+    }, [user])
+  );
+
+  const filtered = useMemo(() => wardrobeService.filterItems(items, filter), [items, filter]);
+  const occasions = useMemo(() => wardrobeService.getOccasions(items), [items]);
+  // Only offer colors that are actually in the wardrobe
+  const colorFamilies = useMemo(() => {
+    const present = new Set(items.map(i => colorFamily(i.colorHex)));
+    return COLOR_FAMILIES.filter(f => present.has(f.id));
+  }, [items]);
+
+  const toggleFilter = <K extends keyof WardrobeFilter>(key: K, value: WardrobeFilter[K]) => {
+    setFilter(current => ({ ...current, [key]: current[key] === value ? undefined : value }));
+  };
+
+  const openItem = (itemId?: string) => {
+    router.push(itemId ? { pathname: '/(tabs)/wardrobe-item', params: { id: itemId } } : '/(tabs)/wardrobe-item');
+  };
+
+  if (!loading && items.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Stack.Screen options={{ title: 'Wardrobe' }} />
+        <Shirt size={48} color={COLORS.primary} />
+        <Text style={styles.emptyTitle}>Your wardrobe is empty</Text>
+        <Text style={styles.emptyDescription}>
+          Analyze an outfit and save it to collect each piece here, or add items yourself.
+        </Text>
+        <Button
+          title="Analyze an Outfit"
+          onPress={() => router.push('/(tabs)/outfit-analysis')}
+          style={styles.emptyButton}
+        />
+        <Button
+          title="Add Item Manually"
+          variant="outline"
+          onPress={() => openItem()}
+          style={styles.emptyButton}
+          testID="add-wardrobe-item"
+        />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top']}>
+      <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+        <Stack.Screen options={{ title: 'Wardrobe' }} />
+
+        <View style={styles.header}>
+          <Text style={styles.title}>Wardrobe</Text>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={[styles.addButton, styles.lookbookButton]}
+              onPress={() => router.push('/(tabs)/lookbook')}
+              testID="open-lookbook"
+            >
+              <BookOpen size={18} color={COLORS.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.addButton, styles.styleMeButton]}
+              onPress={() => router.push('/(tabs)/style-me')}
+              testID="open-style-me"
+            >
+              <Sparkles size={16} color={COLORS.primary} />
+              <Text style={styles.styleMeText}>Style Me</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.addButton} onPress={() => openItem()} testID="add-wardrobe-item">
+              <Plus size={20} color={COLORS.white} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          {WARDROBE_CATEGORIES.map(category => (
+            <TouchableOpacity
+              key={category.id}
+              style={[styles.chip, filter.category === category.id && styles.chipActive]}
+              onPress={() => toggleFilter('category', category.id)}
+            >
+              <Text style={[styles.chipText, filter.category === category.id && styles.chipTextActive]}>
+                {category.icon} {category.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {colorFamilies.length > 1 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+            {colorFamilies.map(family => (
+              <TouchableOpacity
+                key={family.id}
+                style={[styles.colorFilter, filter.colorFamily === family.id && styles.colorFilterActive]}
+                onPress={() => toggleFilter('colorFamily', family.id)}
+                testID={`color-filter-${family.id}`}
+              >
+                <View style={[styles.colorDot, { backgroundColor: family.swatch }]} />
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        {occasions.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+            {occasions.map(occasion => (
+              <TouchableOpacity
+                key={occasion}
+                style={[styles.chip, filter.occasion === occasion && styles.chipActive]}
+                onPress={() => toggleFilter('occasion', occasion)}
+              >
+                <Text style={[styles.chipText, filter.occasion === occasion && styles.chipTextActive]}>{occasion}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={styles.countRow}>
+          <Text style={styles.resultCount}>
+            {filtered.length} of {items.length} item{items.length === 1 ? '' : 's'}
+          </Text>
+          <TouchableOpacity onPress={() => router.push('/(tabs)/wardrobe-gaps')} testID="open-wardrobe-gaps">
+            <Text style={styles.countLink}>🧩 Missing Pieces</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.grid}>
+          {filtered.map(item => (
+            <TouchableOpacity key={item.id} style={styles.itemCard} onPress={() => openItem(item.id)} testID={`wardrobe-item-${item.id}`}>
+              {item.photoUri ? (
+                <Image source={{ uri: item.photoUri }} style={styles.itemPhoto} />
+              ) : (
+                <View style={[styles.itemPhoto, { backgroundColor: item.colorHex }]} />
+              )}
+              <View style={styles.itemInfo}>
+                <View style={[styles.itemColor, { backgroundColor: item.colorHex }]} />
+                <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
+              </View>
+              <Text style={styles.itemMeta} numberOfLines={1}>
+                {item.styleTag} · worn {item.timesWorn}×
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  scrollContent: {
+    paddingTop: 12,
+    paddingBottom: 24,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    backgroundColor: COLORS.background,
+  },
+  emptyTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: COLORS.textDark,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyDescription: {
+    fontSize: 15,
+    color: COLORS.textLight,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  emptyButton: {
+    width: '100%',
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: COLORS.textDark,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  styleMeButton: {
+    flexDirection: 'row',
+    width: undefined,
+    paddingHorizontal: 12,
+    gap: 6,
+    backgroundColor: COLORS.chip,
+  },
+  lookbookButton: {
+    backgroundColor: COLORS.chip,
+  },
+  styleMeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  addButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: COLORS.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  filterRow: {
+    paddingHorizontal: 16,
+    gap: 8,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: COLORS.chip,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.textMuted,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+  colorFilter: {
+    padding: 3,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  colorFilterActive: {
+    borderColor: COLORS.primary,
+  },
+  colorDot: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  countRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  resultCount: {
+    fontSize: 13,
+    color: COLORS.textLight,
+  },
+  countLink: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 12,
+  },
+  itemCard: {
+    width: '50%',
+    padding: 4,
+  },
+  itemPhoto: {
+    width: '100%',
+    aspectRatio: 0.8,
+    borderRadius: 12,
+    backgroundColor: COLORS.chip,
+  },
+  itemInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  itemColor: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { View, Image, StyleSheet, ViewStyle } from 'react-native';
+
+import { COLORS } from '@/constants/colors';
+
+interface FaceCropProps {
+  uri: string;
+  faceBox?: { x: number; y: number; width: number; height: number };
+  size?: number;
+  padding?: number; // extra space around the face, as a fraction of the face size
+  style?: ViewStyle;
+  testID?: string;
+}
+
+export const FaceCrop: React.FC<FaceCropProps> = ({
+  uri,
+  faceBox,
+  size = 150,
+  padding = 0.35,
+  style,
+  testID,
+}) => {
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    if (!faceBox) return;
+    Image.getSize(
+      uri,
+      (width, height) => setImageSize({ width, height }),
+      error => console.warn('FaceCrop: Failed to read image size', error)
+    );
+  }, [uri, faceBox]);
+
+  // Without a face box we fall back to a centered cover crop
+  if (!faceBox || !imageSize) {
+    return (
+      <View style={[styles.container, { width: size, height: size, borderRadius: size / 2 }, style]} testID={testID}>
+        <Image source={{ uri }} style={{ width: size, height: size }} resizeMode="cover" />
+      </View>
+    );
+  }
+
+  // Scale so the padded face fills the frame, then shift the face center to the middle
+  const faceExtent = Math.max(faceBox.width, faceBox.height) * (1 + padding * 2);
+  const scale = size / faceExtent;
+  const centerX = faceBox.x + faceBox.width / 2;
+  const centerY = faceBox.y + faceBox.height / 2;
+
+  return (
+    <View style={[styles.container, { width: size, height: size, borderRadius: size / 2 }, style]} testID={testID}>
+      <Image
+        source={{ uri }}
+        style={{
+          position: 'absolute',
+          width: imageSize.width * scale,
+          height: imageSize.height * scale,
+          left: size / 2 - centerX * scale,
+          top: size / 2 - centerY * scale,
+        }}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    backgroundColor: COLORS.chip,
+  },
+});
+
+export default FaceCrop;
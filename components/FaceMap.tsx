@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
+
+import { COLORS } from '@/constants/colors';
+import type { SkinRegionAnalysis, SkinRegionCondition, SkinRegionId } from '@/lib/skin-regions';
+
+interface FaceMapProps {
+  regions: SkinRegionAnalysis[];
+  selectedId?: SkinRegionId | null;
+  onSelect?: (id: SkinRegionId) => void;
+  width?: number;
+  style?: ViewStyle;
+  testID?: string;
+}
+
+export const CONDITION_COLORS: Record<SkinRegionCondition, string> = {
+  balanced: COLORS.success,
+  oily: COLORS.warning,
+  dry: COLORS.info,
+  red: COLORS.error,
+  uneven: COLORS.secondary,
+};
+
+// Face box proportions; region bounds are normalized to the face box
+const ASPECT = 1.25;
+
+export const FaceMap: React.FC<FaceMapProps> = ({
+  regions,
+  selectedId,
+  onSelect,
+  width = 200,
+  style,
+  testID,
+}) => {
+  const height = width * ASPECT;
+
+  return (
+    <View style={[styles.face, { width, height, borderRadius: width / 2 }, style]} testID={testID}>
+      {regions.flatMap(region =>
+        region.bounds.map((bounds, index) => {
+          const selected = region.id === selectedId;
+          const color = CONDITION_COLORS[region.condition];
+          return (
+            <TouchableOpacity
+              key={`${region.id}-${index}`}
+              onPress={() => onSelect?.(region.id)}
+              style={[
+                styles.region,
+                {
+                  left: Math.max(0, bounds.x) * width,
+                  top: Math.max(0, bounds.y) * height,
+                  width: Math.min(1, bounds.width) * width,
+                  height: Math.min(1, bounds.height) * height,
+                  backgroundColor: color + (selected ? '66' : '33'),
+                  borderColor: color,
+                  borderWidth: selected ? 2 : 1,
+                  // Overlapping regions (the T-zone sits on the forehead) stay tappable when selected
+                  zIndex: selected ? 2 : 1,
+                },
+              ]}
+              testID={testID ? `${testID}-${region.id}-${index}` : undefined}
+            />
+          );
+        })
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  face: {
+    alignSelf: 'center',
+    backgroundColor: COLORS.chip,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    overflow: 'hidden',
+  },
+  region: {
+    position: 'absolute',
+    borderRadius: 8,
+  },
+});
+
+export default FaceMap;
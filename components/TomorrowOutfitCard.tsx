@@ -0,0 +1,163 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { CalendarDays, ChevronRight } from 'lucide-react-native';
+
+import Card from '@/components/Card';
+import { COLORS } from '@/constants/colors';
+import { EventType } from '@/constants/event-types';
+import { useAuth } from '@/hooks/auth-store';
+import { outfitContextService, OutfitDayContext } from '@/lib/outfit-context';
+import { deviceCalendarService } from '@/lib/device-calendar';
+import { outfitGeneratorService, GeneratedOutfit } from '@/lib/outfit-generator';
+import { wardrobeService } from '@/lib/wardrobe';
+import { eventTypeService } from '@/lib/event-types';
+import { outfitHistoryService, RepeatWarning } from '@/lib/outfit-history';
+import { assessWeatherFit, describeWeather } from '@/lib/weather-fit';
+
+// "Tomorrow's interview: here's what to wear", from the calendar, the forecast and the wardrobe
+export default function TomorrowOutfitCard() {
+  const { user } = useAuth();
+  const [context, setContext] = useState<OutfitDayContext | null>(null);
+  const [eventType, setEventType] = useState<EventType | null>(null);
+  const [outfit, setOutfit] = useState<GeneratedOutfit | null>(null);
+  const [repeat, setRepeat] = useState<RepeatWarning | null>(null);
+  const [canReadCalendar, setCanReadCalendar] = useState(true);
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [tomorrow, wardrobe, types, hasCalendar, looks] = await Promise.all([
+        outfitContextService.getTomorrowContext(),
+        wardrobeService.getItems(user.id),
+        eventTypeService.getAll(user.id),
+        deviceCalendarService.hasPermission(),
+        outfitHistoryService.getLooks(user.id),
+      ]);
+      setContext(tomorrow);
+      setCanReadCalendar(hasCalendar || !deviceCalendarService.isAvailable());
+      const matched = tomorrow.event ? eventTypeService.resolveForEvent(types, tomorrow.event) : null;
+      setEventType(matched);
+      const [best] = matched
+        ? outfitGeneratorService.generate(wardrobe, matched.label, { weather: tomorrow.weather, dressCode: matched.dressCode, count: 1 })
+        : [];
+      setOutfit(best ?? null);
+      setRepeat(best && matched
+        ? outfitHistoryService.findRepeat(
+            looks,
+            best.items.map(i => ({ category: i.category, colorHex: i.colorHex })),
+            { eventTypeId: matched.id, custom: matched.custom, seriesId: tomorrow.event?.recurring ? tomorrow.event.seriesId : null }
+          )
+        : null);
+    } catch (error) {
+      console.error('Error loading tomorrow\'s outfit context:', error);
+    }
+  }, [user]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  const connectCalendar = async () => {
+    if (await deviceCalendarService.requestPermission()) {
+      load();
+    }
+  };
+
+  if (!context || (!context.weather && !context.event)) return null;
+
+  const { event, weather } = context;
+  const eventLabel = eventType?.label ?? event?.title;
+  const title = eventLabel ? `Tomorrow's ${eventLabel.toLowerCase()}` : 'Tomorrow';
+  // Without a generated look, fall back to what the weather alone suggests
+  const tips = outfit ? outfit.reasons : weather ? assessWeatherFit([], [], weather).tips : [];
+
+  const openStyleMe = () => {
+    router.push({
+      pathname: '/(tabs)/style-me',
+      params: { date: context.date, ...(eventType ? { event: eventType.id } : {}) },
+    });
+  };
+
+  return (
+    <Card style={styles.container} testID="tomorrow-outfit-card">
+      <TouchableOpacity onPress={openStyleMe} style={styles.header}>
+        <CalendarDays size={22} color={COLORS.primary} />
+        <View style={styles.headerText}>
+          <Text style={styles.title} numberOfLines={1}>{title}: here&apos;s what to wear</Text>
+          {weather && <Text style={styles.weather}>{describeWeather(weather)}</Text>}
+        </View>
+        <ChevronRight size={20} color={COLORS.textLight} />
+      </TouchableOpacity>
+
+      {outfit && (
+        <Text style={styles.outfitItems}>{outfit.items.map(i => i.name).join(' · ')}</Text>
+      )}
+      {repeat && (
+        <Text style={styles.repeat}>
+          🔁 You wore nearly this to {repeat.look.calendarEvent?.title ?? repeat.look.eventLabel} on {new Date(repeat.look.createdAt).toLocaleDateString()}
+        </Text>
+      )}
+      {tips.slice(0, 3).map(tip => (
+        <Text key={tip} style={styles.tip}>• {tip}</Text>
+      ))}
+
+      {!canReadCalendar && (
+        <TouchableOpacity onPress={connectCalendar} testID="connect-calendar">
+          <Text style={styles.connect}>Connect your calendar to plan around your events</Text>
+        </TouchableOpacity>
+      )}
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  headerText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textDark,
+  },
+  weather: {
+    fontSize: 14,
+    color: COLORS.textLight,
+    marginTop: 2,
+  },
+  outfitItems: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: COLORS.primary,
+    marginBottom: 6,
+  },
+  repeat: {
+    fontSize: 13,
+    color: COLORS.warning,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  tip: {
+    fontSize: 13,
+    color: COLORS.text,
+    marginBottom: 2,
+  },
+  connect: {
+    fontSize: 13,
+    color: COLORS.primary,
+    fontWeight: '500',
+    marginTop: 8,
+  },
+});
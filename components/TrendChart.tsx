@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, ViewStyle, LayoutChangeEvent } from 'react-native';
+import Svg, { Polyline, Circle, Line } from 'react-native-svg';
+
+import { COLORS } from '@/constants/colors';
+
+interface TrendChartProps {
+  points: { timestamp: number; value: number }[];
+  height?: number;
+  color?: string;
+  min?: number;
+  max?: number;
+  style?: ViewStyle;
+  testID?: string;
+}
+
+export const TrendChart: React.FC<TrendChartProps> = ({
+  points,
+  height = 120,
+  color = COLORS.primary,
+  min = 0,
+  max = 100,
+  style,
+  testID,
+}) => {
+  const [width, setWidth] = useState(0);
+  const padding = 8;
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  if (points.length === 0) {
+    return (
+      <View style={[styles.empty, { height }, style]} testID={testID}>
+        <Text style={styles.emptyText}>No scans yet</Text>
+      </View>
+    );
+  }
+
+  // Points are spaced evenly so a burst of same-day scans stays readable
+  const range = Math.max(1, max - min);
+  const step = points.length > 1 ? (width - padding * 2) / (points.length - 1) : 0;
+  const coords = points.map((p, i) => ({
+    x: points.length > 1 ? padding + i * step : width / 2,
+    y: padding + (1 - (Math.min(max, Math.max(min, p.value)) - min) / range) * (height - padding * 2),
+  }));
+
+  return (
+    <View style={[styles.container, { height }, style]} onLayout={onLayout} testID={testID}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {[0.25, 0.5, 0.75].map(f => (
+            <Line
+              key={f}
+              x1={padding}
+              x2={width - padding}
+              y1={padding + f * (height - padding * 2)}
+              y2={padding + f * (height - padding * 2)}
+              stroke={COLORS.divider}
+              strokeWidth={1}
+            />
+          ))}
+          {coords.length > 1 && (
+            <Polyline
+              points={coords.map(c => `${c.x},${c.y}`).join(' ')}
+              fill="none"
+              stroke={color}
+              strokeWidth={2}
+            />
+          )}
+          {coords.map((c, i) => (
+            <Circle key={i} cx={c.x} cy={c.y} r={3} fill={color} />
+          ))}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  empty: {
+    width: '100%',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.chip,
+    borderRadius: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: COLORS.textLight,
+  },
+});
+
+export default TrendChart;
@@ -0,0 +1,29 @@
+import type { DressCode } from '../lib/dress-code';
+
+export interface EventType {
+  id: string;
+  label: string;
+  icon: string;
+  dressCode: DressCode;
+  custom?: boolean; // created by the user rather than built in
+}
+
+export const createDressCode = (formality: DressCode['formality'], overrides: Partial<DressCode> = {}): DressCode => ({
+  formality,
+  requiredCategories: [],
+  forbiddenCategories: [],
+  preferredColors: [],
+  avoidColors: [],
+  ...overrides,
+});
+
+export const EVENT_TYPES: EventType[] = [
+  { id: 'date-night', label: 'Date Night', icon: '💕', dressCode: createDressCode(3) },
+  { id: 'job-interview', label: 'Job Interview', icon: '💼', dressCode: createDressCode(4, { requiredCategories: ['outerwear'] }) },
+  { id: 'casual-outing', label: 'Casual Outing', icon: '☀️', dressCode: createDressCode(2) },
+  { id: 'formal-event', label: 'Formal Event', icon: '🎩', dressCode: createDressCode(5) },
+  { id: 'business-meeting', label: 'Business Meeting', icon: '📊', dressCode: createDressCode(4, { requiredCategories: ['outerwear'] }) },
+  { id: 'party', label: 'Party/Social', icon: '🎉', dressCode: createDressCode(3) },
+  { id: 'workout', label: 'Workout/Active', icon: '💪', dressCode: createDressCode(1) },
+  { id: 'travel', label: 'Travel/Vacation', icon: '✈️', dressCode: createDressCode(2) },
+];
@@ -0,0 +1,223 @@
+import { hexToLab, labChroma, labHue, deltaE } from './color-science';
+import { sampleGarmentColor, DetectedGarment } from './wardrobe';
+import type { ImagePixels } from './image-pixels';
+import type { Undertone } from './skin-tone';
+import type { VisionObject } from './vision-providers';
+
+export type AccessoryKind = 'bag' | 'watch' | 'belt' | 'glasses' | 'jewelry' | 'scarf';
+
+export type MetalTone = 'gold' | 'silver' | 'rose-gold';
+
+export type MetalVerdict = 'flattering' | 'works' | 'clashes';
+
+export interface DetectedAccessory {
+  name: string;
+  kind: AccessoryKind;
+  colorHex?: string;
+  metalTone?: MetalTone; // only for metal pieces, when the name or the pixels say which
+}
+
+export interface AccessoryAnalysis {
+  items: DetectedAccessory[];
+  metalTone: MetalTone | null; // the dominant metal across the pieces
+  undertone?: Undertone;
+  metalVerdict?: MetalVerdict; // how that metal suits the user's undertone
+  tips: string[];
+  strengths: string[];
+}
+
+export interface AccessoryContext {
+  undertone?: Undertone | null;
+  formality?: number | null; // the event's dress code formality
+  garments?: DetectedGarment[]; // the rest of the outfit, for color echoes and belt-to-shoe matching
+  paletteColors?: string[]; // the user's wearable palette colors
+}
+
+export const ACCESSORY_KINDS: { kind: AccessoryKind; label: string; icon: string }[] = [
+  { kind: 'bag', label: 'Bag', icon: '👜' },
+  { kind: 'watch', label: 'Watch', icon: '⌚' },
+  { kind: 'belt', label: 'Belt', icon: '🪢' },
+  { kind: 'glasses', label: 'Glasses', icon: '👓' },
+  { kind: 'jewelry', label: 'Jewelry', icon: '💍' },
+  { kind: 'scarf', label: 'Scarf', icon: '🧣' },
+];
+
+export const METAL_TONE_LABELS: Record<MetalTone, string> = {
+  gold: 'Gold',
+  silver: 'Silver',
+  'rose-gold': 'Rose gold',
+};
+
+// Whole words only, so "ring" finds a ring but not a shearling
+const ACCESSORY_KEYWORDS: [AccessoryKind, string[]][] = [
+  ['watch', ['watch', 'wristwatch', 'smartwatch']],
+  ['glasses', ['glasses', 'sunglasses', 'eyeglasses', 'eyewear', 'spectacles']],
+  ['jewelry', ['jewelry', 'jewellery', 'necklace', 'earring', 'bracelet', 'bangle', 'ring', 'pendant', 'brooch', 'chain', 'anklet', 'cufflink']],
+  ['scarf', ['scarf', 'scarves', 'shawl', 'bandana', 'pashmina']],
+  ['belt', ['belt']],
+  ['bag', ['bag', 'handbag', 'purse', 'clutch', 'tote', 'backpack', 'satchel', 'briefcase', 'wallet']],
+];
+
+// Metal is only worth classifying on pieces that are mostly metal
+const METAL_KINDS: AccessoryKind[] = ['watch', 'jewelry'];
+
+// Checked in order: "rose gold" before "gold", "white gold" before "gold"
+const METAL_NAMES: [MetalTone, string[]][] = [
+  ['rose-gold', ['rose gold', 'rose-gold', 'copper']],
+  ['silver', ['silver', 'white gold', 'platinum', 'steel', 'chrome', 'titanium']],
+  ['gold', ['gold', 'brass', 'golden']],
+];
+
+// Which metals suit which undertone: warm skin takes yellow metals, cool skin white ones, neutral both
+const METAL_FOR_UNDERTONE: Record<Undertone, Record<MetalTone, MetalVerdict>> = {
+  warm: { gold: 'flattering', 'rose-gold': 'works', silver: 'clashes' },
+  olive: { gold: 'flattering', 'rose-gold': 'works', silver: 'works' },
+  cool: { silver: 'flattering', 'rose-gold': 'works', gold: 'clashes' },
+  neutral: { gold: 'flattering', silver: 'flattering', 'rose-gold': 'flattering' },
+};
+
+// Beyond this a scarf color reads as off-palette next to the face
+const PALETTE_DELTA_E = 28;
+const ECHO_DELTA_E = 15;
+const BELT_SHOE_DELTA_E = 25;
+const TOO_MANY_KINDS = 4;
+
+const hasWord = (name: string, word: string) => new RegExp(`\\b${word}(e?s)?\\b`).test(name);
+
+export function accessoryKind(name: string): AccessoryKind | null {
+  const lower = name.toLowerCase();
+  return ACCESSORY_KEYWORDS.find(([, words]) => words.some(w => hasWord(lower, w)))?.[0] ?? null;
+}
+
+/**
+ * Metal tone from a sampled color: low chroma reads as silver, yellow hues as gold and pink ones as rose
+ * gold. Rose gold sits inside the skin gate the sampler uses, so from pixels it mostly comes from the name.
+ */
+export function classifyMetal(hex: string): MetalTone | null {
+  const lab = hexToLab(hex);
+  // Dark pieces are leather, enamel or shadow rather than polished metal
+  if (lab.L < 35) return null;
+  const chroma = labChroma(lab);
+  if (chroma < 12) return 'silver';
+  const hue = labHue(lab);
+  if (hue < 50 || hue >= 345) return 'rose-gold';
+  if (hue < 110) return 'gold';
+  return null;
+}
+
+function metalFromName(name: string): MetalTone | null {
+  const lower = name.toLowerCase();
+  return METAL_NAMES.find(([, words]) => words.some(w => lower.includes(w)))?.[0] ?? null;
+}
+
+// Accessories in one photo; pixels are optional and add colors and metal tones the names don't give
+export function detectAccessories(objects: VisionObject[], pixels?: ImagePixels | null): DetectedAccessory[] {
+  const accessories: DetectedAccessory[] = [];
+  for (const object of objects) {
+    const kind = accessoryKind(object.name);
+    if (!kind || accessories.some(a => a.name.toLowerCase() === object.name.toLowerCase())) continue;
+    const colorHex = pixels && object.boundingBox ? sampleGarmentColor(pixels, object.boundingBox) ?? undefined : undefined;
+    const metalTone = METAL_KINDS.includes(kind)
+      ? metalFromName(object.name) ?? (colorHex ? classifyMetal(colorHex) : null) ?? undefined
+      : undefined;
+    accessories.push({ name: object.name.charAt(0).toUpperCase() + object.name.slice(1), kind, colorHex, metalTone });
+  }
+  return accessories;
+}
+
+// Combines per-shot detections; a close-up that could read the metal wins over a wide shot that couldn't
+export function mergeAccessories(lists: DetectedAccessory[][]): DetectedAccessory[] {
+  const merged = new Map<string, DetectedAccessory>();
+  for (const accessory of lists.flat()) {
+    const key = accessory.name.toLowerCase();
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, accessory);
+    } else {
+      merged.set(key, {
+        ...existing,
+        colorHex: existing.colorHex ?? accessory.colorHex,
+        metalTone: existing.metalTone ?? accessory.metalTone,
+      });
+    }
+  }
+  return Array.from(merged.values());
+}
+
+function dominantMetal(items: DetectedAccessory[]): MetalTone | null {
+  const counts = new Map<MetalTone, number>();
+  items.forEach(i => i.metalTone && counts.set(i.metalTone, (counts.get(i.metalTone) ?? 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+export function analyzeAccessories(items: DetectedAccessory[], context: AccessoryContext = {}): AccessoryAnalysis {
+  const { undertone, formality, garments = [], paletteColors = [] } = context;
+  const tips: string[] = [];
+  const strengths: string[] = [];
+  const metalTone = dominantMetal(items);
+  const metalVerdict = metalTone && undertone ? METAL_FOR_UNDERTONE[undertone][metalTone] : undefined;
+
+  if (items.length === 0) {
+    if ((formality ?? 0) >= 3) {
+      tips.push('Finish the look with one accessory — a watch, a belt or a simple piece of jewelry');
+    }
+    return { items, metalTone: null, undertone: undertone ?? undefined, tips, strengths };
+  }
+
+  if (metalTone && undertone && metalVerdict) {
+    const metal = METAL_TONE_LABELS[metalTone];
+    if (metalVerdict === 'flattering') {
+      strengths.push(`${metal} flatters your ${undertone} undertone`);
+    } else if (metalVerdict === 'clashes') {
+      tips.push(undertone === 'cool'
+        ? `${metal} can look brassy against a cool undertone — silver, white gold or platinum will brighten your skin`
+        : `${metal} can wash out a ${undertone} undertone — gold or rose gold will warm up your face`);
+    }
+  }
+
+  const metals = new Set(items.map(i => i.metalTone).filter(Boolean));
+  if (metals.size > 1) {
+    tips.push("You're mixing metals — it reads as deliberate when each one appears at least twice, or when a two-tone piece ties them together");
+  }
+
+  const belt = items.find(i => i.kind === 'belt');
+  const shoes = garments.find(g => g.category === 'shoes');
+  if (belt?.colorHex && shoes && (formality ?? 0) >= 3) {
+    if (deltaE(hexToLab(belt.colorHex), hexToLab(shoes.colorHex)) > BELT_SHOE_DELTA_E) {
+      tips.push("Match your belt to your shoes — it's the quickest way to look put together at this level of formality");
+    } else {
+      strengths.push('Belt and shoes match');
+    }
+  }
+
+  if ((formality ?? 0) >= 4 && items.some(i => i.kind === 'bag' && hasWord(i.name.toLowerCase(), 'backpack'))) {
+    tips.push('Swap the backpack for a structured bag or briefcase to meet the dress code');
+  }
+
+  // Scarves sit right by the face, so their color matters as much as a top's
+  const scarf = items.find(i => i.kind === 'scarf' && i.colorHex);
+  if (scarf?.colorHex && paletteColors.length > 0) {
+    const lab = hexToLab(scarf.colorHex);
+    const nearest = Math.min(...paletteColors.map(hex => deltaE(lab, hexToLab(hex))));
+    if (nearest > PALETTE_DELTA_E) {
+      tips.push('Your scarf sits next to your face — a shade from your palette would be more flattering there');
+    } else {
+      strengths.push('Scarf color comes from your palette');
+    }
+  }
+
+  const outfitColors = garments.filter(g => g.category !== 'accessory').map(g => hexToLab(g.colorHex));
+  const echo = items.find(i => i.kind !== 'jewelry' && i.colorHex &&
+    outfitColors.some(lab => deltaE(lab, hexToLab(i.colorHex!)) < ECHO_DELTA_E));
+  if (echo) {
+    strengths.push(`${echo.name} picks up a color from the outfit`);
+  } else if (outfitColors.length > 0 && items.some(i => i.colorHex)) {
+    tips.push('Let one accessory repeat a color from your clothes so it looks chosen for the outfit');
+  }
+
+  if (new Set(items.map(i => i.kind)).size >= TOO_MANY_KINDS) {
+    tips.push("That's a lot of accessories — edit down so one statement piece leads");
+  }
+
+  return { items, metalTone, undertone: undertone ?? undefined, metalVerdict, tips, strengths };
+}
@@ -6,6 +6,20 @@ import { networkService } from './network';
 import { storageService } from './storage';
 import { errorHandler } from './error-handler';
 import { analyticsService } from './analytics';
+import { faceGeometryService, FacialGeometry } from './face-geometry';
+import { skinRegionService, SkinRegionAnalysis } from './skin-regions';
+import { loadImagePixels, ImagePixels } from './image-pixels';
+import { skinToneService, SkinToneProfile, Undertone } from './skin-tone';
+import { colorPaletteService, PaletteMatch, SeasonDefinition } from './color-palette';
+import { scoringModels, GlowFeatures, OutfitFeatures, RescoreRecord } from './scoring-models';
+import { mergeShotAnalyses, dedupeItems, dedupeGarments, AnalyzedOutfitShot, OutfitShot, OutfitShotSummary, OUTFIT_SHOT_KINDS } from './outfit-session';
+import { extractGarments, DetectedGarment } from './wardrobe';
+import { assessWeatherFit, OutfitWeatherContext, WeatherFit } from './weather-fit';
+import { evaluateDressCode, DressCode, DressCodeEvaluation } from './dress-code';
+import { analyzeFit, FitAnalysis } from './fit-analysis';
+import { detectAccessories, mergeAccessories, analyzeAccessories, AccessoryAnalysis, DetectedAccessory } from './accessories';
+import type { GlowUpDayTask, PlanTaskType } from '../types';
+import { visionProviders, VisionAnalysis, VisionBoundingBox, VisionColor, VisionFace, VisionProviderId, rgbToHex, hexToRgb } from './vision-providers';
 
 // Import FileSystem conditionally for React Native
 let FileSystem: any = null;
@@ -32,6 +46,13 @@ export interface GlowAnalysisResult {
   recommendations: string[];
   tips: string[];
   aiTips: string[];
+  faceBox?: VisionBoundingBox; // face bounds in source image pixels, used to align crops
+  geometry?: FacialGeometry; // landmark measurements behind symmetryScore and jawlineScore
+  regions?: SkinRegionAnalysis[]; // per-region skin readings behind skinType
+  skinToneProfile?: SkinToneProfile; // calibrated tone behind the skinTone label
+  modelVersion?: string; // scoring model that produced the numeric scores
+  features?: GlowFeatures; // model inputs, kept so the result can be re-scored
+  rescoredFrom?: RescoreRecord;
 }
 
 export interface OutfitAnalysisResult {
@@ -50,28 +71,38 @@ export interface OutfitAnalysisResult {
   seasonalMatch: boolean;
   styleCategory: string;
   confidenceLevel: number;
+  paletteMatch?: PaletteMatch; // garment colors scored against the user's personal palette
+  shots?: OutfitShotSummary[]; // per-capture detections when analyzed as a multi-photo session
+  garments?: DetectedGarment[]; // individual pieces with their own colors, for the wardrobe
+  weatherFit?: WeatherFit; // how the outfit suits the forecast, when one was available
+  dressCodeFit?: DressCodeEvaluation; // how the outfit meets the event's dress code
+  fitAnalysis?: FitAnalysis; // proportions measured from person and garment boxes
+  accessories?: AccessoryAnalysis; // bags, watches, jewelry and the like, with coordination tips
+  modelVersion?: string;
+  features?: OutfitFeatures;
+  rescoredFrom?: RescoreRecord;
 }
 
-export interface CoachingPlan {
-  id: string;
+// What outfit scoring can take into account beyond the photos themselves
+export interface OutfitAnalysisOptions {
+  palette?: SeasonDefinition | null; // the user's personal color palette
+  weather?: OutfitWeatherContext | null;
+  dressCode?: DressCode | null;
+  undertone?: Undertone | null; // the user's skin undertone, for matching jewelry metals
+}
+
+// A generated plan before it is scheduled; the plan service turns it into a GlowUpPlan with day tasks
+export interface PlanDraft {
   goal: string;
   duration: number; // days
-  dailyTasks: DailyTask[];
+  tasks: PlanDraftTask[];
   tips: string[];
   expectedResults: string[];
 }
 
-export type TaskType = 'skincare' | 'hydration' | 'sleep' | 'exercise' | 'nutrition';
+export type PlanDraftTask = Pick<GlowUpDayTask, 'day' | 'title' | 'description' | 'type' | 'reminder_time'>;
 
-export interface DailyTask {
-  id: string;
-  day: number;
-  title: string;
-  description: string;
-  type: TaskType;
-  completed: boolean;
-  reminder?: string;
-}
+const PLAN_TASK_TYPES: PlanTaskType[] = ['skincare', 'hydration', 'sleep', 'exercise', 'nutrition', 'mindfulness'];
 
 class AIService {
 
@@ -146,154 +177,11 @@ class AIService {
     });
   }
 
-  async analyzeImageWithVision(imageUri: string): Promise<any> {
+  async analyzeImageWithVision(imageUri: string, priority?: VisionProviderId[]): Promise<VisionAnalysis> {
     try {
-      const base64Image = await this.convertImageToBase64(imageUri);
-      
-      const apiKey = CONFIG.AI.GOOGLE_VISION_API_KEY;
-      console.log('Google Vision API Key check:', {
-        hasKey: !!apiKey,
-        keyLength: apiKey?.length || 0,
-        keyStart: apiKey?.substring(0, 10) || 'none'
-      });
-      
-      if (!apiKey) {
-        throw new Error('Google Vision API key not configured');
-      }
-      
-      const response = await fetch(
-        `https://vision.googleapis.com/v1/images:annotate?key=${CONFIG.AI.GOOGLE_VISION_API_KEY}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            requests: [
-              {
-                image: {
-                  content: base64Image,
-                },
-                features: [
-                  { type: 'FACE_DETECTION', maxResults: 1 },
-                  { type: 'IMAGE_PROPERTIES', maxResults: 1 },
-                  { type: 'OBJECT_LOCALIZATION', maxResults: 10 },
-                ],
-              },
-            ],
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        let details = '';
-        try {
-          const errJson = await response.json();
-          details = errJson?.error?.message || JSON.stringify(errJson);
-        } catch {
-          details = response.statusText || 'Unknown error';
-        }
-        throw new Error(`Vision API error: ${response.status} ${details}`);
-      }
-
-      const json = await response.json();
-      return json;
+      return await visionProviders.analyze(() => this.convertImageToBase64(imageUri), priority);
     } catch (error) {
-      await errorHandler.reportNetworkError(
-        error as Error,
-        `https://vision.googleapis.com/v1/images:annotate`,
-        'POST'
-      );
-      logger.error('Vision API failed', error as Error);
-
-      try {
-        const fallback = await this.analyzeImageWithGemini(imageUri);
-        const parseHex = (hex: string) => {
-          const clean = (hex || '').replace('#','');
-          const r = parseInt(clean.slice(0,2) || '00', 16);
-          const g = parseInt(clean.slice(2,4) || '00', 16);
-          const b = parseInt(clean.slice(4,6) || '00', 16);
-          return { r, g, b };
-        };
-        const synthetic = {
-          responses: [
-            {
-              faceAnnotations: fallback.facePresent ? [
-                {
-                  detectionConfidence: 0.8,
-                  landmarkingConfidence: 0.6,
-                  rollAngle: 0,
-                  panAngle: 0,
-                  tiltAngle: 0,
-                }
-              ] : [],
-              imagePropertiesAnnotation: {
-                dominantColors: {
-                  colors: (fallback.colors || []).slice(0,5).map((h: string) => ({
-                    color: parseHex(h),
-                    pixelFraction: 0.2,
-                    score: 0.2,
-                  }))
-                }
-              },
-              localizedObjectAnnotations: (fallback.items || []).map((name: string) => ({ name, score: 0.7 }))
-            }
-          ]
-        };
-        logger.warn('Using Gemini fallback for Vision data');
-        return synthetic;
-      } catch (fallbackErr) {
-        logger.error('Gemini fallback failed', fallbackErr as Error);
-        throw error;
-      }
-    }
-  }
-
-  private async analyzeImageWithGemini(imageUri: string): Promise<{ facePresent: boolean; facesCount: number; quality: 'good' | 'bad'; reasons: string[]; items: string[]; colors: string[] }> {
-    try {
-      const base64Image = await this.convertImageToBase64(imageUri);
-      const apiKey = CONFIG.AI.GOOGLE_GEMINI_API_KEY;
-      if (!apiKey) {
-        throw new Error('Google Gemini API key not configured');
-      }
-      const body = {
-        contents: [
-          {
-            parts: [
-              { text: 'You are a strict validator. Analyze this photo and return compact JSON. Goals: 1) Determine if a real human face is clearly present and centered for analysis (not cartoon, not obscured), 2) List visible clothing items on the person, 3) Extract dominant garment colors as hex if possible, 4) Rate image quality for analysis based on lighting, focus, and obstructions.' },
-              { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
-              { text: 'Respond ONLY with JSON having fields: {"facePresent": true|false, "facesCount": number, "quality": "good"|"bad", "reasons": string[], "items": string[], "colors": string[] }' }
-            ]
-          }
-        ]
-      } as const;
-
-      const res = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(body)
-        }
-      );
-      if (!res.ok) {
-        throw new Error(`Gemini API error: ${res.status} ${res.statusText}`);
-      }
-      const json = await res.json();
-      const text: string = json?.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
-      const match = text.match(/\{[\s\S]*\}/);
-      const payload = match ? match[0] : text;
-      const parsed = JSON.parse(payload);
-      return {
-        facePresent: !!parsed.facePresent,
-        facesCount: Number(parsed.facesCount ?? 0),
-        quality: parsed.quality === 'good' ? 'good' : 'bad',
-        reasons: Array.isArray(parsed.reasons) ? parsed.reasons : [],
-        items: Array.isArray(parsed.items) ? parsed.items : [],
-        colors: Array.isArray(parsed.colors) ? parsed.colors : [],
-      };
-    } catch (error) {
-      await errorHandler.reportNetworkError(error as Error, 'https://generativelanguage.googleapis.com', 'POST');
-      logger.error('Gemini image analysis failed', error as Error);
+      logger.error('Vision analysis failed', error as Error);
       throw error;
     }
   }
@@ -335,7 +223,8 @@ class AIService {
     try {
       console.log('Starting glow analysis for:', imageUri);
       const fingerprint = await this.generateImageFingerprint(imageUri);
-      const cacheKey = `glow_analysis_${fingerprint}`;
+      // Keyed by model version so a scoring update never serves stale scores
+      const cacheKey = `glow_analysis_${scoringModels.currentGlowVersion}_${fingerprint}`;
       const cachedResult = await storageService.get<GlowAnalysisResult>(cacheKey);
       if (cachedResult) {
         logger.debug('Using cached glow analysis result', { fingerprint });
@@ -343,12 +232,18 @@ class AIService {
       }
 
       const vision = await this.analyzeImageWithVision(imageUri);
-      const face = vision?.responses?.[0]?.faceAnnotations?.[0];
+      const face = vision.faces[0];
       if (!face) {
         throw new Error('No face detected. Please retake the photo with good lighting and center your face.');
       }
-      const imageProps = vision?.responses?.[0]?.imagePropertiesAnnotation?.dominantColors?.colors ?? [];
-      const computed = this.computeGlowFromVision(face, imageProps);
+      // Pixel-level skin analysis is best effort; landmark and color scores stand on their own
+      let pixels: ImagePixels | undefined;
+      try {
+        pixels = await loadImagePixels(imageUri, 512);
+      } catch (pixelError) {
+        logger.warn('Failed to read image pixels for skin analysis', { error: (pixelError as Error).message });
+      }
+      const computed = this.computeGlowFromVision(face, vision.colors, pixels);
       await storageService.set(cacheKey, computed, { expiresIn: 24 * 60 * 60 * 1000 });
       return computed;
     } catch (error) {
@@ -367,7 +262,7 @@ class AIService {
     }
   }
 
-  private async getAIGlowAnalysis(visionData: any, imageUri: string, fingerprint: string): Promise<GlowAnalysisResult> {
+  private async getAIGlowAnalysis(visionData: VisionAnalysis, imageUri: string, fingerprint: string): Promise<GlowAnalysisResult> {
     try {
       const base64Image = await this.convertImageToBase64(imageUri);
       const consistentAnalysis = this.generateConsistentAnalysis(fingerprint);
@@ -511,15 +406,20 @@ class AIService {
     }
   }
 
-  async analyzeOutfit(imageUri: string, eventType: string): Promise<OutfitAnalysisResult> {
+  async analyzeOutfit(imageUri: string, eventType: string, options: OutfitAnalysisOptions = {}): Promise<OutfitAnalysisResult> {
     try {
       console.log('Starting outfit analysis for:', imageUri, eventType);
       const vision = await this.analyzeImageWithVision(imageUri);
-      const objects = vision?.responses?.[0]?.localizedObjectAnnotations ?? [];
-      if (!objects || objects.length === 0) {
+      if (vision.objects.length === 0) {
         throw new Error('No person/outfit detected. Please upload a full or half-body photo with clear lighting.');
       }
-      return this.computeOutfitFromVision(vision, eventType);
+      const pixels = await this.loadPixelsForGarments(imageUri);
+      const garments = extractGarments(vision, imageUri, pixels);
+      const accessories = this.analyzeOutfitAccessories(detectAccessories(vision.objects, pixels), garments, options);
+      return {
+        ...this.computeOutfitFromVision(vision, eventType, options, accessories),
+        garments,
+      };
     } catch (error) {
       if (error instanceof Error && (error.message.includes('cancelled') || error.message.includes('aborted'))) {
         logger.debug('Outfit analysis request was cancelled', { imageUri: imageUri.substring(0, 50) + '...', eventType });
@@ -536,7 +436,77 @@ class AIService {
     }
   }
 
-  private async getAIOutfitAnalysis(visionData: any, imageUri: string, eventType: string): Promise<OutfitAnalysisResult> {
+  // Analyzes several captures of one outfit (front, back, close-ups) and merges them into one result
+  async analyzeOutfitSession(shots: OutfitShot[], eventType: string, options: OutfitAnalysisOptions = {}): Promise<OutfitAnalysisResult> {
+    try {
+      logger.info('Starting outfit session analysis', { shots: shots.length, eventType });
+      const analyzed: AnalyzedOutfitShot[] = [];
+      // One shot at a time keeps us within vision provider rate limits
+      for (const shot of shots) {
+        try {
+          analyzed.push({ shot, vision: await this.analyzeImageWithVision(shot.imageUri) });
+        } catch (error) {
+          if (error instanceof Error && (error.message.includes('cancelled') || error.message.includes('aborted'))) throw error;
+          // A failed close-up shouldn't sink the whole session
+          logger.warn('Outfit session: shot analysis failed', { kind: shot.kind, error: (error as Error).message });
+        }
+      }
+
+      const usable = analyzed.filter(a => a.vision.objects.length > 0);
+      if (usable.length === 0) {
+        throw new Error('No person/outfit detected. Please upload a full or half-body photo with clear lighting.');
+      }
+
+      const kindOrder = OUTFIT_SHOT_KINDS.map(k => k.kind);
+      const garments: DetectedGarment[] = [];
+      const accessoryLists: DetectedAccessory[][] = [];
+      for (const { shot, vision } of [...usable].sort((a, b) => kindOrder.indexOf(a.shot.kind) - kindOrder.indexOf(b.shot.kind))) {
+        const pixels = await this.loadPixelsForGarments(shot.imageUri);
+        garments.push(...extractGarments(vision, shot.imageUri, pixels));
+        accessoryLists.push(detectAccessories(vision.objects, pixels));
+      }
+      const uniqueGarments = dedupeGarments(garments);
+      const accessories = this.analyzeOutfitAccessories(mergeAccessories(accessoryLists), uniqueGarments, options);
+      const result = this.computeOutfitFromVision(mergeShotAnalyses(usable), eventType, options, accessories);
+      return {
+        ...result,
+        // Each extra angle confirms what the others saw
+        confidenceLevel: Math.min(95, result.confidenceLevel + (usable.length - 1) * 5),
+        shots: analyzed.map(({ shot, vision }) => ({
+          kind: shot.kind,
+          imageUri: shot.imageUri,
+          // The accessories close-up would otherwise list nothing
+          detectedItems: dedupeItems([...this.extractClothingItems(vision.objects), ...detectAccessories(vision.objects).map(a => a.name)]),
+        })),
+        garments: uniqueGarments,
+      };
+    } catch (error) {
+      if (error instanceof Error && (error.message.includes('cancelled') || error.message.includes('aborted'))) {
+        logger.debug('Outfit session analysis was cancelled', { shots: shots.length, eventType });
+        throw error;
+      }
+      await errorHandler.reportError(
+        error as Error,
+        'outfit-analysis',
+        'analyzeOutfitSession',
+        { shots: shots.map(s => s.kind), eventType }
+      );
+      logger.error('Outfit session analysis failed', error as Error);
+      throw error;
+    }
+  }
+
+  // Per-garment colors are a refinement; without pixels garments fall back to the dominant colors
+  private async loadPixelsForGarments(imageUri: string): Promise<ImagePixels | null> {
+    try {
+      return await loadImagePixels(imageUri, 256);
+    } catch (error) {
+      logger.warn('Outfit analysis: could not load pixels for garment colors', { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  private async getAIOutfitAnalysis(visionData: VisionAnalysis, imageUri: string, eventType: string): Promise<OutfitAnalysisResult> {
     try {
       const base64Image = await this.convertImageToBase64(imageUri);
       const requestBody = {
@@ -659,7 +629,7 @@ class AIService {
     }
   }
 
-  async generateCoachingPlan(goal: string, currentGlowScore: number): Promise<CoachingPlan> {
+  async generateCoachingPlan(goal: string, currentGlowScore: number): Promise<PlanDraft> {
     try {
       logger.info('Starting coaching plan generation', { goal, currentGlowScore });
       
@@ -685,15 +655,14 @@ class AIService {
                   "day": 1,
                   "title": "Task title",
                   "description": "Task description",
-                  "type": "skincare",
-                  "completed": false
+                  "type": "skincare"
                 }
               ],
               "tips": ["tip1", "tip2", "tip3"],
               "expectedResults": ["result1", "result2", "result3"]
             }
             
-            Task types can be: "skincare", "hydration", "sleep", "exercise", "nutrition"
+            Task types can be: "skincare", "hydration", "sleep", "exercise", "nutrition", "mindfulness"
             Create 3-5 tasks per day for the first 7 days, then 2-3 tasks per day for the remaining days.`,
           },
           {
@@ -756,7 +725,7 @@ class AIService {
     }
   }
 
-  private parseCoachingPlan(aiResponse: string, goal: string): CoachingPlan {
+  private parseCoachingPlan(aiResponse: string, goal: string): PlanDraft {
     try {
       logger.debug('Parsing coaching plan response', { responseLength: aiResponse.length });
       
@@ -778,23 +747,18 @@ class AIService {
       }
       
       // Ensure all daily tasks have required fields
-      const validatedTasks = parsed.dailyTasks.map((task: any, index: number) => ({
-        id: task.id || `task-${index + 1}`,
+      const validatedTasks: PlanDraftTask[] = parsed.dailyTasks.map((task: any, index: number) => ({
         day: Number(task.day) || Math.floor(index / 3) + 1,
         title: String(task.title || `Task ${index + 1}`),
         description: String(task.description || 'Complete this task'),
-        type: ['skincare', 'hydration', 'sleep', 'exercise', 'nutrition'].includes(task.type) 
-          ? task.type 
-          : 'skincare',
-        completed: false,
-        reminder: task.reminder || undefined,
+        type: PLAN_TASK_TYPES.includes(task.type) ? task.type : 'skincare',
+        reminder_time: task.reminder || undefined,
       }));
       
-      const plan: CoachingPlan = {
-        id: `plan-${Date.now()}`,
+      const plan: PlanDraft = {
         goal,
         duration: Number(parsed.duration) || 30,
-        dailyTasks: validatedTasks,
+        tasks: validatedTasks,
         tips: Array.isArray(parsed.tips) ? parsed.tips.map(String) : [
           'Stay consistent with your daily routine',
           'Track your progress with photos',
@@ -808,7 +772,7 @@ class AIService {
       };
       
       logger.info('Successfully parsed coaching plan', { 
-        tasksCount: plan.dailyTasks.length,
+        tasksCount: plan.tasks.length,
         tipsCount: plan.tips.length,
         resultsCount: plan.expectedResults.length
       });
@@ -821,11 +785,10 @@ class AIService {
       });
       
       // Return a fallback plan instead of throwing
-      const fallbackPlan: CoachingPlan = {
-        id: `plan-${Date.now()}`,
+      const fallbackPlan: PlanDraft = {
         goal,
         duration: 30,
-        dailyTasks: this.generateFallbackTasks(),
+        tasks: this.generateFallbackTasks(),
         tips: [
           'Start with a gentle cleanser and moisturizer',
           'Drink at least 8 glasses of water daily',
@@ -846,28 +809,21 @@ class AIService {
     }
   }
   
-  private generateFallbackTasks(): DailyTask[] {
-    const tasks: DailyTask[] = [];
-    const taskTemplates = [
-      { title: 'Morning Cleanse', description: 'Gently cleanse your face with a mild cleanser', type: 'skincare' as TaskType },
-      { title: 'Hydrate', description: 'Drink a large glass of water', type: 'hydration' as TaskType },
-      { title: 'Moisturize', description: 'Apply moisturizer to clean skin', type: 'skincare' as TaskType },
-      { title: 'Evening Routine', description: 'Remove makeup and cleanse before bed', type: 'skincare' as TaskType },
-      { title: 'Sleep Schedule', description: 'Aim for 7-8 hours of quality sleep', type: 'sleep' as TaskType },
+  private generateFallbackTasks(): PlanDraftTask[] {
+    const tasks: PlanDraftTask[] = [];
+    const taskTemplates: Omit<PlanDraftTask, 'day'>[] = [
+      { title: 'Morning Cleanse', description: 'Gently cleanse your face with a mild cleanser', type: 'skincare' },
+      { title: 'Hydrate', description: 'Drink a large glass of water', type: 'hydration' },
+      { title: 'Moisturize', description: 'Apply moisturizer to clean skin', type: 'skincare' },
+      { title: 'Evening Routine', description: 'Remove makeup and cleanse before bed', type: 'skincare' },
+      { title: 'Sleep Schedule', description: 'Aim for 7-8 hours of quality sleep', type: 'sleep' },
     ];
     
     for (let day = 1; day <= 30; day++) {
       const dailyTaskCount = day <= 7 ? 3 : 2;
       for (let i = 0; i < dailyTaskCount; i++) {
         const template = taskTemplates[i % taskTemplates.length];
-        tasks.push({
-          id: `task-${day}-${i + 1}`,
-          day,
-          title: template.title,
-          description: template.description,
-          type: template.type,
-          completed: false,
-        });
+        tasks.push({ ...template, day });
       }
     }
     
@@ -993,13 +949,11 @@ class AIService {
       symmetryScore,
     };
   }
-  // Public precheck for human presence using Vision API
+  // Public precheck for human presence using the vision provider chain
   async validateHumanPresence(imageUri: string): Promise<{ personPresent: boolean; facePresent: boolean; reasons: string[] }> {
     const vision = await this.analyzeImageWithVision(imageUri);
-    const res = vision?.responses?.[0];
-    const face = res?.faceAnnotations?.[0];
-    const objects = res?.localizedObjectAnnotations ?? [];
-    const personObj = objects.find((o: any) => (o?.name || '').toLowerCase().includes('person'));
+    const face = vision.faces[0];
+    const personObj = vision.objects.find(o => o.name.toLowerCase().includes('person'));
     return {
       personPresent: !!personObj,
       facePresent: !!face,
@@ -1007,65 +961,51 @@ class AIService {
     };
   }
 
-  private computeGlowFromVision(face: any, dominantColors: any[]): GlowAnalysisResult {
-    const clamp = (n: number, min = 1, max = 100) => Math.max(min, Math.min(max, Math.round(n)));
-    const roll = Math.abs(Number(face.rollAngle ?? 0));
-    const pan = Math.abs(Number(face.panAngle ?? 0));
-    const tilt = Math.abs(Number(face.tiltAngle ?? 0));
-    const anglePenalty = Math.min(30, roll + pan + tilt);
-    const detection = Number(face.detectionConfidence ?? 0.7);
-    const landmarking = Number(face.landmarkingConfidence ?? 0.6);
-
-    const brightnessRaw = (() => {
-      if (!Array.isArray(dominantColors) || dominantColors.length === 0) return 60;
+  private computeGlowFromVision(face: VisionFace, dominantColors: VisionColor[], pixels?: ImagePixels): GlowAnalysisResult {
+    const luminance = (() => {
+      if (dominantColors.length === 0) return 60;
       let total = 0;
       let weight = 0;
-      for (const c of dominantColors) {
-        const color = c?.color;
-        const frac = Number(c?.pixelFraction ?? 0.1);
-        if (color && typeof color.r === 'number' && typeof color.g === 'number' && typeof color.b === 'number') {
-          const lum = 0.2126 * color.r + 0.7152 * color.g + 0.0722 * color.b; // 0-255
-          total += lum * frac;
-          weight += frac;
-        }
+      for (const color of dominantColors) {
+        const frac = color.pixelFraction;
+        const lum = 0.2126 * color.r + 0.7152 * color.g + 0.0722 * color.b; // 0-255
+        total += lum * frac;
+        weight += frac;
       }
       const avgLum = weight > 0 ? total / weight : 128;
       return (avgLum / 255) * 100;
     })();
 
-    const symmetryBase = 100 - anglePenalty * 2;
-    const jawlineBase = landmarking * 100;
-
-    const brightness = clamp(brightnessRaw);
-    const symmetryScore = clamp(symmetryBase);
-    const jawlineScore = clamp(jawlineBase);
-
-    const hydration = clamp((brightness * 0.6) + (symmetryScore * 0.2) + (detection * 100 * 0.2));
-
-    const overall = clamp(
-      (symmetryScore * 0.25) +
-      (brightness * 0.25) +
-      (jawlineScore * 0.2) +
-      (hydration * 0.2) +
-      (detection * 100 * 0.1)
-    );
+    const geometry = faceGeometryService.analyze(face);
+    const regions = pixels ? skinRegionService.analyze(pixels, face) : null;
+    const features: GlowFeatures = {
+      detectionConfidence: face.detectionConfidence,
+      landmarkingConfidence: face.landmarkingConfidence,
+      rollAngle: face.rollAngle,
+      panAngle: face.panAngle,
+      tiltAngle: face.tiltAngle,
+      luminance,
+      geometry: geometry ?? undefined,
+      regions: regions ?? undefined,
+    };
+    const model = scoringModels.getGlowModel();
+    const scores = model.score(features);
+    const { brightness, symmetryScore } = scores;
 
-    const skinTone = this.inferSkinToneFromColors(dominantColors);
+    const skinToneProfile = (pixels && skinToneService.classify(pixels, face)) || skinToneService.fromDominantColors(dominantColors);
+    const skinTone = skinToneProfile?.label ?? 'Medium';
+    const skinType = regions ? skinRegionService.inferSkinType(regions) : 'Normal';
 
     return {
-      overallScore: overall,
-      skinPotential: overall >= 85 ? 'High' : overall >= 70 ? 'Medium' : 'Low',
-      skinQuality: overall >= 90 ? 'Excellent' : overall >= 80 ? 'Good' : overall >= 70 ? 'Fair' : 'Needs Improvement',
-      jawlineScore,
+      ...scores,
       skinTone,
-      skinType: 'Normal',
-      brightness,
-      hydration,
-      symmetryScore,
-      glowScore: overall,
+      skinType,
+      glowScore: scores.overallScore,
       improvements: [
         brightness < 65 ? 'Improve lighting and even skin tone appearance' : 'Maintain consistent skincare routine',
         symmetryScore < 80 ? 'Face the camera directly to improve symmetry detection' : 'Great symmetry captured',
+        ...(geometry && !geometry.reliable ? ['Your head was turned, so proportions are approximate — retake facing the camera'] : []),
+        ...(regions ?? []).filter(r => r.condition !== 'balanced').map(r => r.notes[0]),
       ],
       recommendations: [
         'Use a gentle cleanser and hydrating moisturizer',
@@ -1081,124 +1021,156 @@ class AIService {
         'Use vitamin C serum to enhance brightness',
         'Consider gentle facial massage for improved definition',
       ],
+      faceBox: face.boundingBox,
+      geometry: geometry ?? undefined,
+      regions: regions ?? undefined,
+      skinToneProfile: skinToneProfile ?? undefined,
+      modelVersion: model.version,
+      features,
     };
   }
 
-  private inferSkinToneFromColors(dominantColors: any[]): string {
-    if (!Array.isArray(dominantColors) || dominantColors.length === 0) return 'Medium';
-    const top = dominantColors[0]?.color;
-    if (!top) return 'Medium';
-    const r = Number(top.r ?? 128);
-    const g = Number(top.g ?? 128);
-    const b = Number(top.b ?? 128);
-    if (r > g + 20 && r > b + 20) return 'Warm Beige';
-    if (b > r + 20) return 'Cool Ivory';
-    if (r > 150 && g > 120 && b < 100) return 'Golden Tan';
-    if (r < 90 && g < 90 && b < 90) return 'Deep Caramel';
-    return 'Olive Medium';
+  // Re-applies the current model to stored features; results without features are returned unchanged
+  rescoreGlow(result: GlowAnalysisResult): GlowAnalysisResult {
+    if (!result.features || !scoringModels.needsRescore(result, 'glow')) return result;
+    const model = scoringModels.getGlowModel();
+    const scores = model.score(result.features);
+    return {
+      ...result,
+      ...scores,
+      glowScore: scores.overallScore,
+      modelVersion: model.version,
+      rescoredFrom: {
+        modelVersion: result.modelVersion ?? 'legacy',
+        overallScore: result.overallScore,
+        rescoredAt: new Date().toISOString(),
+      },
+    };
   }
 
-  private computeOutfitFromVision(vision: any, eventType: string): OutfitAnalysisResult {
-    const res = vision?.responses?.[0];
-    const objects: any[] = res?.localizedObjectAnnotations ?? [];
-    const colorsArr: any[] = res?.imagePropertiesAnnotation?.dominantColors?.colors ?? [];
+  rescoreOutfit(result: OutfitAnalysisResult): OutfitAnalysisResult {
+    if (!result.features || !scoringModels.needsRescore(result, 'outfit')) return result;
+    const model = scoringModels.getOutfitModel();
+    const scores = model.score(result.features);
+    const { detectedItems, palette, context, dressCode } = result.features;
+    const weatherFit = context ? assessWeatherFit(detectedItems, palette, context) : null;
+    const dressCodeFit = dressCode ? evaluateDressCode(dressCode, detectedItems.map(name => ({ name })), palette) : null;
+    return {
+      ...result,
+      ...scores,
+      eventAppropriate: scores.occasionScore >= 70,
+      seasonalMatch: weatherFit?.seasonalMatch ?? result.seasonalMatch,
+      weatherFit: weatherFit ?? result.weatherFit,
+      dressCodeFit: dressCodeFit ?? result.dressCodeFit,
+      modelVersion: model.version,
+      rescoredFrom: {
+        modelVersion: result.modelVersion ?? 'legacy',
+        overallScore: result.outfitScore,
+        rescoredAt: new Date().toISOString(),
+      },
+    };
+  }
 
-    const clothingKeywords = ['person', 'shirt', 'dress', 'pants', 'trousers', 'jeans', 'skirt', 'coat', 'jacket', 'blazer', 'shoe', 'sneaker', 'tie', 'hat', 'sleeve', 'shorts'];
-    const detectedItems = Array.from(new Set(
-      objects
-        .map(o => String(o?.name || '').toLowerCase())
-        .filter(name => clothingKeywords.some(k => name.includes(k)))
-        .map(name => name.charAt(0).toUpperCase() + name.slice(1))
-    ));
+  private computeOutfitFromVision(
+    vision: VisionAnalysis,
+    eventType: string,
+    options: OutfitAnalysisOptions = {},
+    accessories?: AccessoryAnalysis
+  ): OutfitAnalysisResult {
+    const { palette: personalPalette, weather: context, dressCode } = options;
+    const objects = vision.objects;
+    const detectedItems = this.extractClothingItems(objects);
+    const fitAnalysis = analyzeFit(objects, vision.pose);
 
-    const palette = colorsArr.slice(0, 5).map(c => {
-      const color = c?.color || {};
-      const r = Number(color.r ?? 0);
-      const g = Number(color.g ?? 0);
-      const b = Number(color.b ?? 0);
-      const hex = `#${[r, g, b].map(v => Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, '0')).join('')}`;
-      return hex.toUpperCase();
-    });
+    const palette = vision.colors.slice(0, 5).map(c => c.hex);
 
-    const colorHarmonyScore = this.computeColorHarmony(palette);
-    const fitScore = Math.max(50, Math.min(95, (objects.length >= 3 ? 80 : 65)));
-    const trendScore = 70;
-    const occasionScore = this.estimateOccasionScore(eventType, detectedItems);
-    const styleScore = Math.round((colorHarmonyScore + fitScore + trendScore) / 3);
-    const outfitScore = Math.round(
-      colorHarmonyScore * 0.25 +
-      fitScore * 0.25 +
-      trendScore * 0.2 +
-      occasionScore * 0.15 +
-      styleScore * 0.15
-    );
+    const paletteMatch = personalPalette ? colorPaletteService.scoreOutfitColors(vision.colors, personalPalette) : null;
+    const features: OutfitFeatures = {
+      eventType,
+      detectedItems,
+      palette,
+      objectCount: objects.length,
+      paletteScore: paletteMatch?.score,
+      context: context ?? undefined,
+      dressCode: dressCode ?? undefined,
+      fit: fitAnalysis?.measurements,
+    };
+    const weatherFit = context ? assessWeatherFit(detectedItems, palette, context) : null;
+    const dressCodeFit = dressCode ? evaluateDressCode(dressCode, detectedItems.map(name => ({ name })), palette) : null;
+    const model = scoringModels.getOutfitModel();
+    const scores = model.score(features);
+    const { colorMatchScore: colorHarmonyScore, occasionScore } = scores;
 
     return {
-      outfitScore,
-      colorMatchScore: colorHarmonyScore,
-      styleScore,
-      fitScore,
-      trendScore,
-      occasionScore,
+      ...scores,
       detectedItems: detectedItems.length > 0 ? detectedItems : ['Outfit'],
-      compatibleColors: this.suggestCompatibleColors(palette[0]),
+      compatibleColors: paletteMatch ? paletteMatch.alternatives : this.suggestCompatibleColors(palette[0]),
       tips: [
-        'Ensure balanced proportions between top and bottom garments',
-        'Coordinate accessories to complement dominant colors',
+        ...(fitAnalysis ? [] : ['Ensure balanced proportions between top and bottom garments']),
+        // The accessories section has its own, specific tips
+        ...(accessories ? [] : ['Coordinate accessories to complement dominant colors']),
+        ...(paletteMatch ? [`Build around your ${paletteMatch.seasonLabel} palette — the suggested colors are drawn from it`] : []),
+        ...(weatherFit?.tips ?? []),
+        ...(dressCode?.notes ? [dressCode.notes] : []),
       ],
       whatWorked: [
         colorHarmonyScore >= 75 ? 'Strong color harmony' : 'Good base palette',
+        ...(fitAnalysis?.strengths ?? []),
+        ...(paletteMatch && paletteMatch.garmentColors.some(c => c.verdict === 'great')
+          ? [`Colors straight from your ${paletteMatch.seasonLabel} palette`]
+          : []),
+        ...(dressCodeFit?.strengths ?? []),
       ],
       improvements: [
-        colorHarmonyScore < 70 ? 'Consider adding contrast or complementary accessory' : 'Experiment with textures to add depth',
+        ...(fitAnalysis?.feedback ?? []),
+        // The generic texture note only fills in when nothing more specific was found
+        ...(colorHarmonyScore < 70
+          ? ['Consider adding contrast or complementary accessory']
+          : fitAnalysis && fitAnalysis.feedback.length > 0 ? [] : ['Experiment with textures to add depth']),
+        ...(paletteMatch && paletteMatch.garmentColors.some(c => c.verdict === 'avoid')
+          ? [`One of the main colors is one ${paletteMatch.seasonLabel} coloring should avoid — swap it for a suggested shade, especially near your face`]
+          : paletteMatch && paletteMatch.garmentColors.some(c => c.verdict === 'off-palette')
+          ? [`Some colors sit outside your ${paletteMatch.seasonLabel} palette — keep them away from your face or swap in a suggested shade`]
+          : []),
+        ...(dressCodeFit?.issues ?? []),
+        ...(weatherFit?.issues ?? []),
       ],
       eventAppropriate: occasionScore >= 70,
-      seasonalMatch: true,
+      // Without a forecast there's nothing to contradict the season
+      seasonalMatch: weatherFit?.seasonalMatch ?? true,
       styleCategory: this.inferStyleCategory(detectedItems),
       confidenceLevel: 80,
+      paletteMatch: paletteMatch ?? undefined,
+      weatherFit: weatherFit ?? undefined,
+      dressCodeFit: dressCodeFit ?? undefined,
+      fitAnalysis: fitAnalysis ?? undefined,
+      accessories,
+      modelVersion: model.version,
+      features,
     };
   }
 
-  private computeColorHarmony(palette: string[]): number {
-    if (palette.length <= 1) return 65;
-    const toHsv = (hex: string) => {
-      const r = parseInt(hex.slice(1, 3), 16) / 255;
-      const g = parseInt(hex.slice(3, 5), 16) / 255;
-      const b = parseInt(hex.slice(5, 7), 16) / 255;
-      const max = Math.max(r, g, b), min = Math.min(r, g, b);
-      const d = max - min;
-      let h = 0;
-      if (d === 0) h = 0; else if (max === r) h = ((g - b) / d) % 6; else if (max === g) h = (b - r) / d + 2; else h = (r - g) / d + 4;
-      h = Math.round((h * 60 + 360) % 360);
-      const s = max === 0 ? 0 : d / max;
-      const v = max;
-      return { h, s, v };
-    };
-    const hsv = palette.map(toHsv);
-    let spread = 0;
-    for (let i = 0; i < hsv.length; i++) {
-      for (let j = i + 1; j < hsv.length; j++) {
-        const diff = Math.min(Math.abs(hsv[i].h - hsv[j].h), 360 - Math.abs(hsv[i].h - hsv[j].h));
-        spread += diff;
-      }
-    }
-    const pairs = (hsv.length * (hsv.length - 1)) / 2;
-    const avgSpread = pairs > 0 ? spread / pairs : 0;
-    const harmony = 70 + Math.min(30, Math.abs(180 - avgSpread) / 6);
-    return Math.max(50, Math.min(95, Math.round(harmony)));
+  private analyzeOutfitAccessories(
+    accessories: DetectedAccessory[],
+    garments: DetectedGarment[],
+    options: OutfitAnalysisOptions
+  ): AccessoryAnalysis {
+    return analyzeAccessories(accessories, {
+      undertone: options.undertone,
+      formality: options.dressCode?.formality,
+      garments,
+      paletteColors: options.palette ? [...options.palette.bestColors, ...options.palette.neutrals] : [],
+    });
   }
 
-  private estimateOccasionScore(eventType: string, items: string[]): number {
-    const e = eventType.toLowerCase();
-    if (e.includes('formal') || e.includes('interview') || e.includes('business')) {
-      const hasBlazer = items.some(i => i.toLowerCase().includes('blazer') || i.toLowerCase().includes('jacket'));
-      return hasBlazer ? 85 : 70;
-    }
-    if (e.includes('party')) return 80;
-    if (e.includes('date')) return 78;
-    if (e.includes('casual') || e.includes('travel')) return 75;
-    if (e.includes('workout')) return 72;
-    return 75;
+  private extractClothingItems(objects: VisionAnalysis['objects']): string[] {
+    const clothingKeywords = ['person', 'shirt', 'dress', 'pants', 'trousers', 'jeans', 'skirt', 'coat', 'jacket', 'blazer', 'shoe', 'sneaker', 'boot', 'footwear', 'tie', 'hat', 'sleeve', 'shorts'];
+    return dedupeItems(
+      objects
+        .map(o => o.name.toLowerCase())
+        .filter(name => clothingKeywords.some(k => name.includes(k)))
+        .map(name => name.charAt(0).toUpperCase() + name.slice(1))
+    );
   }
 
   private inferStyleCategory(items: string[]): string {
@@ -1211,9 +1183,8 @@ class AIService {
 
   private suggestCompatibleColors(hex?: string): string[] {
     if (!hex) return ['#2196F3', '#4CAF50', '#FFC107'];
-    const toRgb = (h: string) => [parseInt(h.slice(1,3),16), parseInt(h.slice(3,5),16), parseInt(h.slice(5,7),16)] as const;
-    const [r,g,b] = toRgb(hex);
-    const complement = `#${[(255-r),(255-g),(255-b)].map(v=>Math.max(0,Math.min(255,v)).toString(16).padStart(2,'0')).join('')}`.toUpperCase();
+    const { r, g, b } = hexToRgb(hex);
+    const complement = rgbToHex(255 - r, 255 - g, 255 - b);
     return [hex.toUpperCase(), complement, '#FFFFFF', '#000000'];
   }
 }
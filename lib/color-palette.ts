@@ -0,0 +1,352 @@
+import { storageService } from './storage';
+import { logger } from './logger';
+import { rgbToLab, hexToLab, labChroma, labHue, deltaE, looksLikeSkin } from './color-science';
+import type { VisionColor } from './vision-providers';
+import type { SkinToneProfile } from './skin-tone';
+
+export type SeasonId =
+  | 'light-spring' | 'warm-spring' | 'clear-spring'
+  | 'light-summer' | 'cool-summer' | 'soft-summer'
+  | 'soft-autumn' | 'warm-autumn' | 'deep-autumn'
+  | 'deep-winter' | 'cool-winter' | 'clear-winter';
+
+export type HairColor = 'black' | 'dark-brown' | 'brown' | 'light-brown' | 'blonde' | 'red' | 'auburn' | 'gray';
+export type EyeColor = 'dark-brown' | 'brown' | 'hazel' | 'green' | 'blue' | 'gray';
+
+export interface ColoringTraits {
+  hairColor?: HairColor;
+  eyeColor?: EyeColor;
+}
+
+export interface SeasonDefinition {
+  id: SeasonId;
+  label: string;
+  description: string;
+  bestColors: string[];
+  neutrals: string[];
+  avoidColors: string[];
+}
+
+export interface PersonalPalette extends SeasonDefinition {
+  explanation: string;
+  basedOn: {
+    skinTone: string;
+    monkIndex: number;
+    undertone: SkinToneProfile['undertone'];
+  } & ColoringTraits;
+  createdAt: string;
+}
+
+export type PaletteVerdict = 'great' | 'ok' | 'off-palette' | 'avoid';
+
+export interface GarmentColorMatch {
+  hex: string;
+  closest: string; // nearest palette color
+  distance: number; // CIE76 delta E to the nearest palette color
+  verdict: PaletteVerdict;
+}
+
+export interface PaletteMatch {
+  season: SeasonId;
+  seasonLabel: string;
+  score: number; // 0-100
+  garmentColors: GarmentColorMatch[];
+  alternatives: string[]; // palette colors to swap in for off-palette garments
+}
+
+export const HAIR_COLORS: { id: HairColor; label: string; swatch: string }[] = [
+  { id: 'black', label: 'Black', swatch: '#1C1A1A' },
+  { id: 'dark-brown', label: 'Dark Brown', swatch: '#3B2A20' },
+  { id: 'brown', label: 'Brown', swatch: '#6A4A32' },
+  { id: 'light-brown', label: 'Light Brown', swatch: '#9A7350' },
+  { id: 'blonde', label: 'Blonde', swatch: '#D8B878' },
+  { id: 'red', label: 'Red', swatch: '#B5532A' },
+  { id: 'auburn', label: 'Auburn', swatch: '#7E3A22' },
+  { id: 'gray', label: 'Gray / White', swatch: '#B8B4B0' },
+];
+
+export const EYE_COLORS: { id: EyeColor; label: string; swatch: string }[] = [
+  { id: 'dark-brown', label: 'Dark Brown', swatch: '#3A2418' },
+  { id: 'brown', label: 'Brown', swatch: '#6B4226' },
+  { id: 'hazel', label: 'Hazel', swatch: '#8E7340' },
+  { id: 'green', label: 'Green', swatch: '#5E7F4F' },
+  { id: 'blue', label: 'Blue', swatch: '#5A7FA8' },
+  { id: 'gray', label: 'Gray', swatch: '#8A9299' },
+];
+
+export const SEASONS: Record<SeasonId, SeasonDefinition> = {
+  'light-spring': {
+    id: 'light-spring',
+    label: 'Light Spring',
+    description: 'Light, warm and fresh. Delicate pastels with a golden base.',
+    bestColors: ['#FFD1A9', '#FFA899', '#F9E29C', '#A8E6CF', '#8FD3E8', '#B5D99C', '#F4A6B7', '#A7C7E7'],
+    neutrals: ['#FFF8E7', '#E6D2B5', '#B8A99A', '#5E7391'],
+    avoidColors: ['#000000', '#4B0F2E', '#3B3B6D'],
+  },
+  'warm-spring': {
+    id: 'warm-spring',
+    label: 'Warm Spring',
+    description: 'Warm, golden and bright. Sunny yellows, corals and leaf greens.',
+    bestColors: ['#FF7F50', '#FFB347', '#F4D03F', '#7CB342', '#40C4AA', '#FF6F61', '#E8A33D', '#5DADE2'],
+    neutrals: ['#FFF3D6', '#C8A165', '#8B6B45', '#2F4F6F'],
+    avoidColors: ['#000000', '#C0C0D0', '#8E4585'],
+  },
+  'clear-spring': {
+    id: 'clear-spring',
+    label: 'Clear Spring',
+    description: 'Bright, warm and high-contrast. Saturated clear colors.',
+    bestColors: ['#FF4F5A', '#FF8C00', '#FFE135', '#00B16A', '#00A3E0', '#7B68EE', '#FF69B4', '#1ABC9C'],
+    neutrals: ['#FFFDF5', '#D9C7A7', '#5A5A5A', '#1F2A44'],
+    avoidColors: ['#A89F91', '#8A7F8D', '#B9A38F'],
+  },
+  'light-summer': {
+    id: 'light-summer',
+    label: 'Light Summer',
+    description: 'Light, cool and soft. Powdery pastels with a blue base.',
+    bestColors: ['#B3CDE0', '#C5B4E3', '#F2B8C6', '#A6D8D4', '#E0BBE4', '#9FB7D9', '#F7CAC9', '#B8D8BA'],
+    neutrals: ['#F5F5F2', '#C9C5C2', '#8E9AAF', '#5B6C8F'],
+    avoidColors: ['#000000', '#FF8C00', '#8B4513'],
+  },
+  'cool-summer': {
+    id: 'cool-summer',
+    label: 'Cool Summer',
+    description: 'Cool and gentle. Rose, berry and blue-greens with gray undertones.',
+    bestColors: ['#6A8EC7', '#C16E8A', '#8E7CC3', '#5FA8A0', '#D98BA6', '#4F7CAC', '#A05C7B', '#7FB3D5'],
+    neutrals: ['#F4F4F6', '#A9A9B3', '#6B7280', '#2E3A59'],
+    avoidColors: ['#FF8C00', '#C8A165', '#DAA520'],
+  },
+  'soft-summer': {
+    id: 'soft-summer',
+    label: 'Soft Summer',
+    description: 'Muted, cool and blended. Dusty rose, sage and slate.',
+    bestColors: ['#A3B1C6', '#B88A9F', '#8FA89B', '#9C8AA5', '#C9A9A6', '#7D9AAA', '#A7B8A0', '#8A7F9E'],
+    neutrals: ['#EDE9E3', '#B5AFA6', '#7A7771', '#4A5060'],
+    avoidColors: ['#000000', '#FF4500', '#FFD700'],
+  },
+  'soft-autumn': {
+    id: 'soft-autumn',
+    label: 'Soft Autumn',
+    description: 'Muted, warm and earthy. Sage, camel, soft teal and terracotta.',
+    bestColors: ['#A3A380', '#C19A6B', '#D4A59A', '#6F9A8D', '#B5835A', '#9C8F5C', '#C27C5A', '#7E8C69'],
+    neutrals: ['#F1E8D8', '#BFAE95', '#7D6B57', '#4B4A45'],
+    avoidColors: ['#000000', '#FF00FF', '#00BFFF'],
+  },
+  'warm-autumn': {
+    id: 'warm-autumn',
+    label: 'Warm Autumn',
+    description: 'Rich, warm and golden. Rust, mustard, olive and pumpkin.',
+    bestColors: ['#B7410E', '#D4A017', '#708238', '#CC7722', '#8B4513', '#C56C39', '#2E8B57', '#A0522D'],
+    neutrals: ['#F3E5C8', '#C2A878', '#6B4F32', '#3D3B30'],
+    avoidColors: ['#FF69B4', '#B0C4DE', '#E6E6FA'],
+  },
+  'deep-autumn': {
+    id: 'deep-autumn',
+    label: 'Deep Autumn',
+    description: 'Deep, warm and intense. Chocolate, forest green, burgundy and bronze.',
+    bestColors: ['#7B3F00', '#014421', '#800020', '#B8860B', '#8B2500', '#2F5233', '#9C661F', '#5C4033'],
+    neutrals: ['#EFE1C6', '#A58A64', '#4E3B2A', '#1E1B18'],
+    avoidColors: ['#FFC0CB', '#ADD8E6', '#E0E0E0'],
+  },
+  'deep-winter': {
+    id: 'deep-winter',
+    label: 'Deep Winter',
+    description: 'Deep, cool and dramatic. Black, jewel tones and icy accents.',
+    bestColors: ['#000000', '#8B0038', '#003366', '#006B3C', '#4B0082', '#C21E56', '#1560BD', '#7F1734'],
+    neutrals: ['#FFFFFF', '#8C8C8C', '#36454F', '#101820'],
+    avoidColors: ['#F5DEB3', '#D2B48C', '#FFA07A'],
+  },
+  'cool-winter': {
+    id: 'cool-winter',
+    label: 'Cool Winter',
+    description: 'Cool, crisp and clear. Blue-reds, royal blue, emerald and icy pastels.',
+    bestColors: ['#DC143C', '#4169E1', '#009B77', '#C71585', '#6A0DAD', '#B0E0E6', '#E6E6FA', '#0F52BA'],
+    neutrals: ['#FFFFFF', '#A9A9A9', '#2F4F4F', '#000000'],
+    avoidColors: ['#D2691E', '#DAA520', '#C19A6B'],
+  },
+  'clear-winter': {
+    id: 'clear-winter',
+    label: 'Clear Winter',
+    description: 'Bright, cool and high-contrast. Vivid jewel tones against black and white.',
+    bestColors: ['#FF0040', '#0047AB', '#00A86B', '#FF1493', '#7DF9FF', '#9400D3', '#FFEF00', '#E30B5C'],
+    neutrals: ['#FFFFFF', '#C0C0C0', '#1C1C1C', '#000000'],
+    avoidColors: ['#C2B280', '#A68064', '#BC987E'],
+  },
+};
+
+// Lightness of each hair/eye option (0 dark - 1 light) and how much it shifts temperature (warm +)
+const HAIR_TRAITS: Record<HairColor, { lightness: number; warmth: number }> = {
+  black: { lightness: 0.05, warmth: -0.3 },
+  'dark-brown': { lightness: 0.2, warmth: 0 },
+  brown: { lightness: 0.35, warmth: 0.1 },
+  'light-brown': { lightness: 0.55, warmth: 0.1 },
+  blonde: { lightness: 0.8, warmth: 0.2 },
+  red: { lightness: 0.5, warmth: 0.7 },
+  auburn: { lightness: 0.3, warmth: 0.6 },
+  gray: { lightness: 0.75, warmth: -0.4 },
+};
+
+const EYE_TRAITS: Record<EyeColor, { lightness: number; warmth: number }> = {
+  'dark-brown': { lightness: 0.1, warmth: 0.1 },
+  brown: { lightness: 0.25, warmth: 0.15 },
+  hazel: { lightness: 0.45, warmth: 0.25 },
+  green: { lightness: 0.55, warmth: 0.15 },
+  blue: { lightness: 0.7, warmth: -0.35 },
+  gray: { lightness: 0.6, warmth: -0.3 },
+};
+
+const UNDERTONE_WARMTH: Record<SkinToneProfile['undertone'], number> = {
+  warm: 1,
+  olive: 0.25,
+  neutral: 0,
+  cool: -1,
+};
+
+// Primary characteristic → season, chosen by which way the secondary characteristic leans
+const SEASON_GRID: Record<'warm' | 'cool' | 'light' | 'deep' | 'clear' | 'soft', [SeasonId, SeasonId]> = {
+  warm: ['warm-spring', 'warm-autumn'], // [lighter/clearer, deeper/softer]
+  cool: ['cool-summer', 'cool-winter'], // [lighter/softer, deeper/clearer]
+  light: ['light-spring', 'light-summer'], // [warm, cool]
+  deep: ['deep-autumn', 'deep-winter'],
+  clear: ['clear-spring', 'clear-winter'],
+  soft: ['soft-autumn', 'soft-summer'],
+};
+
+const PALETTE_STORAGE_KEY = 'personal_palette';
+
+const VERDICT_SCORES: Record<PaletteVerdict, number> = {
+  great: 95,
+  ok: 80,
+  'off-palette': 62,
+  avoid: 45,
+};
+
+const clamp = (n: number, min = -1, max = 1) => Math.max(min, Math.min(max, n));
+
+class ColorPaletteService {
+  // Places the user on the warm/cool, light/deep and clear/soft axes, then picks the season from the strongest one
+  derivePalette(skinTone: SkinToneProfile, traits: ColoringTraits = {}): PersonalPalette {
+    const hair = traits.hairColor ? HAIR_TRAITS[traits.hairColor] : null;
+    const eyes = traits.eyeColor ? EYE_TRAITS[traits.eyeColor] : null;
+    const skinLightness = clamp(skinTone.lab.L / 100, 0, 1);
+
+    const skinWarmth = (UNDERTONE_WARMTH[skinTone.undertone] + clamp((labHue(skinTone.lab) - 56) / 10)) / 2;
+    const temperature = clamp(skinWarmth + (hair?.warmth ?? 0) * 0.4 + (eyes?.warmth ?? 0) * 0.3);
+
+    const lightnessParts = [
+      { value: skinLightness, weight: 0.5 },
+      ...(hair ? [{ value: hair.lightness, weight: 0.35 }] : []),
+      ...(eyes ? [{ value: eyes.lightness, weight: 0.15 }] : []),
+    ];
+    const overallLightness = lightnessParts.reduce((s, p) => s + p.value * p.weight, 0) /
+      lightnessParts.reduce((s, p) => s + p.weight, 0);
+    const value = clamp((overallLightness - 0.5) / 0.25);
+
+    // Contrast between skin and hair drives clear vs soft; without hair fall back to skin chroma
+    const clarity = hair
+      ? clamp((Math.abs(skinLightness - hair.lightness) - 0.4) / 0.25)
+      : clamp((labChroma(skinTone.lab) - 22) / 8);
+
+    const axes = [
+      { key: temperature >= 0 ? 'warm' : 'cool', strength: Math.abs(temperature) * 1.1 },
+      { key: value >= 0 ? 'light' : 'deep', strength: Math.abs(value) },
+      { key: clarity >= 0 ? 'clear' : 'soft', strength: Math.abs(clarity) },
+    ] as const;
+    const primary = [...axes].sort((a, b) => b.strength - a.strength)[0].key;
+
+    let season: SeasonId;
+    if (primary === 'warm') {
+      season = value + clarity >= 0 ? SEASON_GRID.warm[0] : SEASON_GRID.warm[1];
+    } else if (primary === 'cool') {
+      season = clarity - value < 0 ? SEASON_GRID.cool[0] : SEASON_GRID.cool[1];
+    } else {
+      season = temperature >= 0 ? SEASON_GRID[primary][0] : SEASON_GRID[primary][1];
+    }
+
+    const definition = SEASONS[season];
+    const descriptors = [
+      `${skinTone.undertone} undertone`,
+      value >= 0.3 ? 'light overall coloring' : value <= -0.3 ? 'deep overall coloring' : 'medium depth',
+      clarity >= 0.3 ? 'high contrast' : clarity <= -0.3 ? 'soft, blended contrast' : null,
+    ].filter(Boolean);
+
+    return {
+      ...definition,
+      explanation: `Your ${descriptors.join(', ')} place you in ${definition.label}. ${definition.description}`,
+      basedOn: {
+        skinTone: skinTone.label,
+        monkIndex: skinTone.monkIndex,
+        undertone: skinTone.undertone,
+        ...traits,
+      },
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  async getPalette(userId: string): Promise<PersonalPalette | null> {
+    return storageService.getUserData<PersonalPalette>(userId, PALETTE_STORAGE_KEY);
+  }
+
+  async savePalette(userId: string, palette: PersonalPalette): Promise<void> {
+    await storageService.setUserData(userId, PALETTE_STORAGE_KEY, palette, { persistent: true });
+    logger.info('ColorPalette: Palette saved', { userId, season: palette.id });
+  }
+
+  // Garment colors are the dominant image colors minus skin; weighted by how much of the frame they cover
+  scoreOutfitColors(colors: VisionColor[], palette: SeasonDefinition): PaletteMatch | null {
+    const garments = colors.filter(c => !looksLikeSkin(c.r, c.g, c.b)).slice(0, 4);
+    if (garments.length === 0) return null;
+
+    const wearable = [...palette.bestColors, ...palette.neutrals].map(hex => ({ hex, lab: hexToLab(hex) }));
+    const avoid = palette.avoidColors.map(hex => ({ hex, lab: hexToLab(hex) }));
+
+    const matches: GarmentColorMatch[] = garments.map(color => {
+      const lab = rgbToLab(color.r, color.g, color.b);
+      const nearest = wearable.reduce((best, p) => {
+        const d = deltaE(lab, p.lab);
+        return d < best.distance ? { hex: p.hex, distance: d } : best;
+      }, { hex: wearable[0].hex, distance: Infinity });
+      const nearestAvoid = Math.min(...avoid.map(p => deltaE(lab, p.lab)));
+
+      const verdict: PaletteVerdict =
+        nearestAvoid < 12 && nearestAvoid < nearest.distance ? 'avoid' :
+        nearest.distance < 15 ? 'great' :
+        nearest.distance < 28 ? 'ok' :
+        'off-palette';
+
+      return { hex: color.hex.toUpperCase(), closest: nearest.hex, distance: Math.round(nearest.distance), verdict };
+    });
+
+    const weights = garments.map(c => Math.max(0.05, c.pixelFraction));
+    const totalWeight = weights.reduce((s, w) => s + w, 0);
+    const score = Math.round(matches.reduce((s, m, i) => s + VERDICT_SCORES[m.verdict] * weights[i], 0) / totalWeight);
+
+    return {
+      season: palette.id,
+      seasonLabel: palette.label,
+      score,
+      garmentColors: matches,
+      alternatives: this.suggestAlternatives(matches, palette),
+    };
+  }
+
+  // Swaps for off-palette garments keep a similar lightness so a dark trouser is replaced by a dark palette shade
+  private suggestAlternatives(matches: GarmentColorMatch[], palette: SeasonDefinition): string[] {
+    const wearable = [...palette.bestColors, ...palette.neutrals];
+    const suggestions: string[] = [];
+
+    for (const match of matches.filter(m => m.verdict === 'off-palette' || m.verdict === 'avoid')) {
+      const garmentL = hexToLab(match.hex).L;
+      const byLightness = [...wearable].sort((a, b) => Math.abs(hexToLab(a).L - garmentL) - Math.abs(hexToLab(b).L - garmentL));
+      suggestions.push(...byLightness.slice(0, 2));
+    }
+
+    // Already on-palette: offer accents that aren't in the outfit yet
+    const worn = new Set(matches.map(m => m.closest));
+    suggestions.push(...palette.bestColors.filter(hex => !worn.has(hex)));
+
+    return Array.from(new Set(suggestions)).slice(0, 5);
+  }
+}
+
+export const colorPaletteService = new ColorPaletteService();
+export default colorPaletteService;
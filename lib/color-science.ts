@@ -0,0 +1,61 @@
+import { hexToRgb } from './vision-providers';
+
+export interface LabColor {
+  L: number; // 0-100
+  a: number; // green (-) to red (+)
+  b: number; // blue (-) to yellow (+)
+}
+
+// D65 reference white
+const REF_X = 95.047;
+const REF_Y = 100;
+const REF_Z = 108.883;
+
+const srgbToLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const labPivot = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+export function rgbToLab(r: number, g: number, b: number): LabColor {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) * 100;
+  const y = (lr * 0.2126 + lg * 0.7152 + lb * 0.0722) * 100;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) * 100;
+
+  const fx = labPivot(x / REF_X);
+  const fy = labPivot(y / REF_Y);
+  const fz = labPivot(z / REF_Z);
+
+  return {
+    L: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+}
+
+export function hexToLab(hex: string): LabColor {
+  const { r, g, b } = hexToRgb(hex);
+  return rgbToLab(r, g, b);
+}
+
+export const labChroma = (lab: LabColor) => Math.hypot(lab.a, lab.b);
+
+export const labHue = (lab: LabColor) => {
+  const h = (Math.atan2(lab.b, lab.a) * 180) / Math.PI;
+  return h < 0 ? h + 360 : h;
+};
+
+// CIE76 color difference; good enough for palette matching at the scale we work at
+export const deltaE = (x: LabColor, y: LabColor) => Math.hypot(x.L - y.L, x.a - y.a, x.b - y.b);
+
+// Loose YCbCr skin gate; keeps brows, hair and background out of skin samples
+export const looksLikeSkin = (r: number, g: number, b: number) => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 135 && cr >= 130 && cr <= 180;
+};
@@ -0,0 +1,8 @@
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// The device's local calendar date for an instant, YYYY-MM-DD
+export const toDayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Whole numbers from `from` to `to`, inclusive, such as a run of plan days; empty when `to` comes first
+export const range = (from: number, to: number) =>
+  to < from ? [] : Array.from({ length: to - from + 1 }, (_, i) => from + i);
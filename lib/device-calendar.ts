@@ -0,0 +1,110 @@
+import { Platform } from 'react-native';
+import * as Calendar from 'expo-calendar';
+import { logger } from './logger';
+
+export interface UpcomingEvent {
+  id: string;
+  seriesId: string; // shared by every occurrence of a recurring event
+  title: string;
+  startDate: string;
+  endDate: string;
+  location?: string;
+  allDay: boolean;
+  recurring: boolean;
+  eventTypeId: string | null; // matched entry in EVENT_TYPES, when the title gives it away
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Title keywords per event type; the first match wins, so more specific types come first
+const EVENT_KEYWORDS: [string, string[]][] = [
+  ['job-interview', ['interview']],
+  ['formal-event', ['wedding', 'gala', 'ceremony', 'black tie', 'opera', 'funeral']],
+  ['business-meeting', ['meeting', 'client', 'presentation', 'conference', 'review', 'standup', '1:1', 'pitch']],
+  ['date-night', ['date', 'dinner with', 'anniversary', 'romantic']],
+  ['party', ['party', 'birthday', 'drinks', 'celebration', 'bbq', 'reunion', 'concert']],
+  ['workout', ['gym', 'workout', 'yoga', 'run', 'pilates', 'training', 'hike', 'tennis', 'class']],
+  ['travel', ['flight', 'trip', 'vacation', 'holiday', 'travel', 'airport', 'train to']],
+  ['casual-outing', ['brunch', 'lunch', 'coffee', 'picnic', 'shopping', 'movie', 'museum']],
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, so "update" isn't a date and "brunch" isn't a run
+const EVENT_PATTERNS: [string, RegExp][] = EVENT_KEYWORDS.map(([eventTypeId, keywords]) => [
+  eventTypeId,
+  new RegExp(`\\b(${keywords.map(escapeRegExp).join('|')})\\b`, 'i'),
+]);
+
+export function matchEventType(title: string): string | null {
+  return EVENT_PATTERNS.find(([, pattern]) => pattern.test(title))?.[0] ?? null;
+}
+
+const toIso = (value: string | Date) => (value instanceof Date ? value : new Date(value)).toISOString();
+
+class DeviceCalendarService {
+  isAvailable(): boolean {
+    return Platform.OS !== 'web';
+  }
+
+  async hasPermission(): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+    try {
+      const { status } = await Calendar.getCalendarPermissionsAsync();
+      return status === 'granted';
+    } catch {
+      return false;
+    }
+  }
+
+  async requestPermission(): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+    try {
+      const { status } = await Calendar.requestCalendarPermissionsAsync();
+      return status === 'granted';
+    } catch (error) {
+      logger.warn('Calendar: Permission request failed', { error: (error as Error).message });
+      return false;
+    }
+  }
+
+  // Never prompts; without permission there are simply no events
+  async getEvents(from: Date, to: Date): Promise<UpcomingEvent[]> {
+    if (!(await this.hasPermission())) return [];
+    try {
+      const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+      if (calendars.length === 0) return [];
+      const events = await Calendar.getEventsAsync(calendars.map(c => c.id), from, to);
+      return events
+        .map(event => ({
+          id: event.id,
+          seriesId: event.originalId ?? event.id,
+          title: event.title,
+          startDate: toIso(event.startDate),
+          endDate: toIso(event.endDate),
+          location: event.location ?? undefined,
+          allDay: event.allDay,
+          recurring: !!event.recurrenceRule || !!event.originalId,
+          eventTypeId: matchEventType(event.title),
+        }))
+        .sort((a, b) => Date.parse(a.startDate) - Date.parse(b.startDate));
+    } catch (error) {
+      logger.warn('Calendar: Failed to read events', { error: (error as Error).message });
+      return [];
+    }
+  }
+
+  async getUpcomingEvents(days: number = 7, now: Date = new Date()): Promise<UpcomingEvent[]> {
+    return this.getEvents(now, new Date(now.getTime() + days * DAY_MS));
+  }
+
+  // Events on one calendar day in local time
+  async getEventsOn(date: Date): Promise<UpcomingEvent[]> {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const end = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+    return this.getEvents(start, end);
+  }
+}
+
+export const deviceCalendarService = new DeviceCalendarService();
+export default deviceCalendarService;
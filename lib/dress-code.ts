@@ -0,0 +1,129 @@
+import { categorizeGarment, WardrobeCategory } from './wardrobe';
+import { hexToLab, deltaE } from './color-science';
+
+// 1 athletic … 5 black tie
+export type FormalityLevel = 1 | 2 | 3 | 4 | 5;
+
+export interface DressCode {
+  formality: FormalityLevel;
+  requiredCategories: WardrobeCategory[];
+  forbiddenCategories: WardrobeCategory[];
+  preferredColors: string[]; // hex
+  avoidColors: string[]; // hex, e.g. white at a wedding
+  notes?: string;
+}
+
+// A garment as the dress code sees it; wardrobe items know their category and style, detected ones only a name
+export interface DressCodeItem {
+  name: string;
+  category?: WardrobeCategory | null;
+  formality?: number | null;
+}
+
+export interface DressCodeEvaluation {
+  score: number; // 0-100
+  formality: number | null; // estimated from recognizable garments
+  issues: string[];
+  strengths: string[];
+}
+
+export const FORMALITY_LEVELS: { level: FormalityLevel; label: string }[] = [
+  { level: 1, label: 'Athletic' },
+  { level: 2, label: 'Casual' },
+  { level: 3, label: 'Smart casual' },
+  { level: 4, label: 'Business' },
+  { level: 5, label: 'Formal' },
+];
+
+export const formalityLabel = (level: number): string =>
+  FORMALITY_LEVELS[Math.max(0, Math.min(4, Math.round(level) - 1))].label;
+
+// Keyword formality; order matters so a tracksuit isn't a suit, a t-shirt isn't a shirt and a dress shoe isn't a dress
+const ITEM_FORMALITY: [string[], number][] = [
+  [['shorts', 'sandal', 'flip-flop', 'leggings', 'sweatpants', 'tracksuit', 'swimsuit'], 1],
+  [['t-shirt', 'tank', 'hoodie', 'sweatshirt', 'jersey'], 1.5],
+  [['tuxedo', 'gown', 'bow tie', 'suit'], 5],
+  [['jeans', 'denim', 'sneaker', 'cap'], 2],
+  [['dress shirt', 'dress shoe', 'blazer', 'trousers', 'heel', 'loafer', 'oxford', 'tie'], 4],
+  [['dress', 'coat'], 4],
+  [['shirt', 'blouse', 'skirt', 'boot', 'chinos', 'jacket', 'sweater', 'cardigan', 'polo'], 3],
+];
+
+// Wardrobe style tags on the same scale, for items whose names say little
+export const STYLE_TAG_FORMALITY: Record<string, number> = {
+  Formal: 5,
+  'Business Casual': 4,
+  'Smart Casual': 3,
+  Casual: 2,
+  Streetwear: 2,
+  Athletic: 1,
+};
+
+export function itemFormality(name: string): number | null {
+  const lower = name.toLowerCase();
+  return ITEM_FORMALITY.find(([keywords]) => keywords.some(k => lower.includes(k)))?.[1] ?? null;
+}
+
+const closestDelta = (palette: string[], targets: string[]): number => {
+  let best = Infinity;
+  for (const hex of palette) {
+    for (const target of targets) {
+      best = Math.min(best, deltaE(hexToLab(hex), hexToLab(target)));
+    }
+  }
+  return best;
+};
+
+// Scores an outfit against an event's dress code; underdressing costs more than overdressing
+export function evaluateDressCode(code: DressCode, items: DressCodeItem[], palette: string[]): DressCodeEvaluation {
+  const categories = items.map(i => i.category ?? categorizeGarment(i.name));
+  const known = items.map(i => i.formality ?? itemFormality(i.name)).filter((f): f is number => f !== null);
+  const formality = known.length > 0 ? known.reduce((sum, f) => sum + f, 0) / known.length : null;
+
+  let score = 90;
+  const issues: string[] = [];
+  const strengths: string[] = [];
+
+  if (formality !== null) {
+    const gap = code.formality - formality;
+    if (gap > 0.75) {
+      score -= gap * 12;
+      issues.push(`Dress it up — this calls for ${formalityLabel(code.formality).toLowerCase()}, and the outfit reads ${formalityLabel(formality).toLowerCase()}`);
+    } else if (gap < -1) {
+      score -= (-gap - 1) * 8;
+      issues.push(`A little overdressed for a ${formalityLabel(code.formality).toLowerCase()} dress code`);
+    } else {
+      strengths.push(`Right level of formality (${formalityLabel(code.formality).toLowerCase()})`);
+    }
+  }
+
+  for (const category of code.requiredCategories) {
+    if (!categories.includes(category)) {
+      score -= 12;
+      issues.push(`This dress code expects ${category === 'outerwear' ? 'a jacket or blazer' : category === 'accessory' ? 'an accessory' : category}`);
+    }
+  }
+  for (const category of code.forbiddenCategories) {
+    if (categories.includes(category)) {
+      score -= 20;
+      issues.push(`${items[categories.indexOf(category)].name} isn't part of this dress code`);
+    }
+  }
+
+  // Only the most prominent colors count, so a white wall behind you doesn't break a wedding rule
+  const prominent = palette.slice(0, 3);
+  if (code.avoidColors.length > 0 && prominent.length > 0 && closestDelta(prominent, code.avoidColors) < 12) {
+    score -= 15;
+    issues.push('One of the main colors is one this event asks guests to avoid');
+  }
+  if (code.preferredColors.length > 0 && palette.length > 0) {
+    if (closestDelta(palette, code.preferredColors) < 15) {
+      score += 5;
+      strengths.push("Wearing one of the event's colors");
+    } else {
+      issues.push("Work in one of the event's preferred colors");
+    }
+  }
+
+  return { score: Math.max(30, Math.min(100, Math.round(score))), formality, issues, strengths };
+}
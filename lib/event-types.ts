@@ -0,0 +1,73 @@
+import { logger } from './logger';
+import { storageService } from './storage';
+import { EVENT_TYPES, EventType } from '../constants/event-types';
+import type { DressCode } from './dress-code';
+import type { UpcomingEvent } from './device-calendar';
+
+export interface EventTypeInput {
+  label: string;
+  icon: string;
+  dressCode: DressCode;
+}
+
+const CUSTOM_EVENT_TYPES_KEY = 'custom_event_types';
+
+class EventTypeService {
+  // Built-in types first, then the user's own
+  async getAll(userId: string): Promise<EventType[]> {
+    return [...EVENT_TYPES, ...(await this.getCustom(userId))];
+  }
+
+  async getCustom(userId: string): Promise<EventType[]> {
+    return (await storageService.getUserData<EventType[]>(userId, CUSTOM_EVENT_TYPES_KEY)) ?? [];
+  }
+
+  async get(userId: string, id: string): Promise<EventType | null> {
+    return (await this.getAll(userId)).find(e => e.id === id) ?? null;
+  }
+
+  async add(userId: string, input: EventTypeInput): Promise<EventType> {
+    const eventType: EventType = {
+      id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      ...input,
+      label: input.label.trim(),
+      custom: true,
+    };
+    const custom = await this.getCustom(userId);
+    await this.save(userId, [...custom, eventType]);
+    logger.info('Event types: Custom type added', { userId, eventTypeId: eventType.id });
+    return eventType;
+  }
+
+  async update(userId: string, id: string, changes: Partial<EventTypeInput>): Promise<EventType> {
+    const custom = await this.getCustom(userId);
+    const existing = custom.find(e => e.id === id);
+    if (!existing) {
+      throw new Error('Only custom event types can be edited');
+    }
+    const updated: EventType = { ...existing, ...changes, label: (changes.label ?? existing.label).trim() };
+    await this.save(userId, custom.map(e => (e.id === id ? updated : e)));
+    return updated;
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const custom = await this.getCustom(userId);
+    await this.save(userId, custom.filter(e => e.id !== id));
+    logger.info('Event types: Custom type removed', { userId, eventTypeId: id });
+  }
+
+  // A custom type named in the event title wins over the keyword match, so "Acme offsite" finds the user's "Acme" type
+  resolveForEvent(types: EventType[], event: UpcomingEvent): EventType | null {
+    const title = event.title.toLowerCase();
+    return types.find(t => t.custom && title.includes(t.label.toLowerCase()))
+      ?? types.find(t => t.id === event.eventTypeId)
+      ?? null;
+  }
+
+  private async save(userId: string, custom: EventType[]): Promise<void> {
+    await storageService.setUserData(userId, CUSTOM_EVENT_TYPES_KEY, custom, { persistent: true });
+  }
+}
+
+export const eventTypeService = new EventTypeService();
+export default eventTypeService;
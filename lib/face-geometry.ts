@@ -0,0 +1,244 @@
+import type { VisionFace, VisionPoint } from './vision-providers';
+
+export interface GeometryMetric {
+  value: number;
+  score: number; // 1-100
+  explanation: string;
+}
+
+export interface SymmetryMetric extends GeometryMetric {
+  pairsMeasured: number;
+}
+
+export interface FacialThirdsMetric extends GeometryMetric {
+  upper: number | null; // fractions of total face height; upper is null when the hairline cannot be estimated
+  middle: number;
+  lower: number;
+}
+
+export interface FacialGeometry {
+  symmetry: SymmetryMetric | null;
+  facialThirds: FacialThirdsMetric | null;
+  jawAngle: GeometryMetric | null; // value in degrees
+  eyeSpacing: GeometryMetric | null; // value is interpupillary distance / face width
+  reliable: boolean; // false when the head is turned too far for 2D measurements to be trusted
+}
+
+// Mirrored landmark pairs, Google Vision naming (left/right as seen in the image, the viewer's point of view)
+const MIRRORED_PAIRS: [string, string][] = [
+  ['LEFT_EYE', 'RIGHT_EYE'],
+  ['LEFT_EYE_PUPIL', 'RIGHT_EYE_PUPIL'],
+  ['LEFT_EYE_LEFT_CORNER', 'RIGHT_EYE_RIGHT_CORNER'],
+  ['LEFT_EYE_RIGHT_CORNER', 'RIGHT_EYE_LEFT_CORNER'],
+  ['LEFT_OF_LEFT_EYEBROW', 'RIGHT_OF_RIGHT_EYEBROW'],
+  ['RIGHT_OF_LEFT_EYEBROW', 'LEFT_OF_RIGHT_EYEBROW'],
+  ['LEFT_EYEBROW_UPPER_MIDPOINT', 'RIGHT_EYEBROW_UPPER_MIDPOINT'],
+  ['NOSE_BOTTOM_LEFT', 'NOSE_BOTTOM_RIGHT'],
+  ['MOUTH_LEFT', 'MOUTH_RIGHT'],
+  ['LEFT_CHEEK_CENTER', 'RIGHT_CHEEK_CENTER'],
+  ['CHIN_LEFT_GONION', 'CHIN_RIGHT_GONION'],
+  ['LEFT_EAR_TRAGION', 'RIGHT_EAR_TRAGION'],
+];
+
+const MIDLINE_LANDMARKS = [
+  'FOREHEAD_GLABELLA',
+  'MIDPOINT_BETWEEN_EYES',
+  'NOSE_TIP',
+  'NOSE_BOTTOM_CENTER',
+  'UPPER_LIP',
+  'MOUTH_CENTER',
+  'LOWER_LIP',
+  'CHIN_GNATHION',
+];
+
+// Beyond this yaw one side of the face is foreshortened and left/right comparisons stop meaning much
+const MAX_RELIABLE_PAN = 15;
+
+// Population averages used as neutral reference points, not beauty targets
+const REFERENCE = {
+  jawAngle: 125,
+  eyeSpacing: 0.46,
+};
+
+const clampScore = (n: number) => Math.max(1, Math.min(100, Math.round(n)));
+
+const distance = (a: VisionPoint, b: VisionPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+class FaceGeometryService {
+  analyze(face: VisionFace): FacialGeometry | null {
+    if (face.landmarks.length < 4) return null;
+
+    const points = this.levelLandmarks(face);
+    const faceWidth = this.faceWidth(points, face);
+    if (!faceWidth) return null;
+
+    return {
+      symmetry: this.measureSymmetry(points, faceWidth),
+      facialThirds: this.measureThirds(points, face),
+      jawAngle: this.measureJawAngle(points),
+      eyeSpacing: this.measureEyeSpacing(points, faceWidth),
+      reliable: Math.abs(face.panAngle) <= MAX_RELIABLE_PAN,
+    };
+  }
+
+  // Rotates landmarks by the head roll so the facial midline is vertical
+  private levelLandmarks(face: VisionFace): Map<string, VisionPoint> {
+    const all = face.landmarks.map(l => l.position);
+    const cx = all.reduce((s, p) => s + p.x, 0) / all.length;
+    const cy = all.reduce((s, p) => s + p.y, 0) / all.length;
+
+    const leftEye = face.landmarks.find(l => l.type === 'LEFT_EYE')?.position;
+    const rightEye = face.landmarks.find(l => l.type === 'RIGHT_EYE')?.position;
+    // Prefer the measured eye line over the reported roll; it is what we are actually comparing against
+    const roll = leftEye && rightEye
+      ? Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x)
+      : (face.rollAngle * Math.PI) / 180;
+    const cos = Math.cos(-roll);
+    const sin = Math.sin(-roll);
+
+    const points = new Map<string, VisionPoint>();
+    for (const landmark of face.landmarks) {
+      const dx = landmark.position.x - cx;
+      const dy = landmark.position.y - cy;
+      points.set(landmark.type, { x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos });
+    }
+    return points;
+  }
+
+  private faceWidth(points: Map<string, VisionPoint>, face: VisionFace): number | null {
+    const leftEar = points.get('LEFT_EAR_TRAGION');
+    const rightEar = points.get('RIGHT_EAR_TRAGION');
+    if (leftEar && rightEar) return distance(leftEar, rightEar);
+    return face.boundingBox?.width ?? null;
+  }
+
+  private measureSymmetry(points: Map<string, VisionPoint>, faceWidth: number): SymmetryMetric | null {
+    const midline = MIDLINE_LANDMARKS.map(type => points.get(type)).filter((p): p is VisionPoint => !!p);
+    const pairs = MIRRORED_PAIRS
+      .map(([l, r]) => [points.get(l), points.get(r)] as const)
+      .filter((pair): pair is readonly [VisionPoint, VisionPoint] => !!pair[0] && !!pair[1]);
+    if (pairs.length < 2) return null;
+
+    // Without midline landmarks the axis is the average center of the mirrored pairs
+    const axisX = midline.length > 0
+      ? median(midline.map(p => p.x))
+      : pairs.reduce((s, [l, r]) => s + (l.x + r.x) / 2, 0) / pairs.length;
+
+    const deviations = pairs.map(([left, right]) => {
+      const mirrored = { x: 2 * axisX - right.x, y: right.y };
+      return distance(left, mirrored) / faceWidth;
+    });
+    const meanDeviation = deviations.reduce((s, d) => s + d, 0) / deviations.length;
+    const score = clampScore(100 - meanDeviation * 400);
+
+    const explanation = score >= 90
+      ? `Your features mirror closely across the midline — on average within ${(meanDeviation * 100).toFixed(1)}% of face width across ${pairs.length} landmark pairs.`
+      : score >= 75
+      ? `Minor left/right differences (about ${(meanDeviation * 100).toFixed(1)}% of face width), which is typical of most faces.`
+      : `Noticeable left/right offset (about ${(meanDeviation * 100).toFixed(1)}% of face width). A slight head turn or expression can exaggerate this — retake facing the camera squarely to confirm.`;
+
+    return { value: Math.round(meanDeviation * 1000) / 1000, score, explanation, pairsMeasured: pairs.length };
+  }
+
+  private measureThirds(points: Map<string, VisionPoint>, face: VisionFace): FacialThirdsMetric | null {
+    const brow = points.get('FOREHEAD_GLABELLA') ?? points.get('MIDPOINT_BETWEEN_EYES');
+    const noseBase = points.get('NOSE_BOTTOM_CENTER') ?? points.get('NOSE_TIP');
+    const chin = points.get('CHIN_GNATHION');
+    if (!brow || !noseBase || !chin) return null;
+
+    const middle = noseBase.y - brow.y;
+    const lower = chin.y - noseBase.y;
+    if (middle <= 0 || lower <= 0) return null;
+
+    // Hairline is not a landmark; the face box top only approximates it when it sits well above the brow
+    const boxTop = face.boundingBox?.y;
+    const upperRaw = boxTop !== undefined && brow.y - boxTop > middle * 0.6 ? brow.y - boxTop : null;
+
+    const total = middle + lower + (upperRaw ?? 0);
+    const thirds = {
+      upper: upperRaw !== null ? upperRaw / total : null,
+      middle: middle / total,
+      lower: lower / total,
+    };
+
+    const measured = [thirds.upper, thirds.middle, thirds.lower].filter((t): t is number => t !== null);
+    const ideal = 1 / measured.length;
+    const spread = measured.reduce((s, t) => s + Math.abs(t - ideal), 0) / measured.length;
+    const score = clampScore(100 - spread * 350);
+
+    const pct = (n: number) => `${Math.round(n * 100)}%`;
+    const breakdown = thirds.upper !== null
+      ? `upper ${pct(thirds.upper)}, middle ${pct(thirds.middle)}, lower ${pct(thirds.lower)}`
+      : `middle ${pct(thirds.middle)}, lower ${pct(thirds.lower)} (hairline not visible)`;
+    const dominant = thirds.lower > thirds.middle * 1.15
+      ? ' Your lower third is longer than your middle third.'
+      : thirds.middle > thirds.lower * 1.15
+      ? ' Your middle third is longer than your lower third.'
+      : '';
+
+    return {
+      value: Math.round(spread * 1000) / 1000,
+      score,
+      explanation: `Face height splits into ${breakdown}; evenly split thirds are the classical proportion.${dominant}`,
+      upper: thirds.upper !== null ? Math.round(thirds.upper * 100) / 100 : null,
+      middle: Math.round(thirds.middle * 100) / 100,
+      lower: Math.round(thirds.lower * 100) / 100,
+    };
+  }
+
+  // Angle at each gonion between the ramus (towards the ear) and the jaw line (towards the chin)
+  private measureJawAngle(points: Map<string, VisionPoint>): GeometryMetric | null {
+    const chin = points.get('CHIN_GNATHION');
+    if (!chin) return null;
+
+    const angles = ([['LEFT_EAR_TRAGION', 'CHIN_LEFT_GONION'], ['RIGHT_EAR_TRAGION', 'CHIN_RIGHT_GONION']] as const)
+      .map(([earType, gonionType]) => {
+        const ear = points.get(earType);
+        const gonion = points.get(gonionType);
+        if (!ear || !gonion) return null;
+        const a = { x: ear.x - gonion.x, y: ear.y - gonion.y };
+        const b = { x: chin.x - gonion.x, y: chin.y - gonion.y };
+        const cos = (a.x * b.x + a.y * b.y) / (Math.hypot(a.x, a.y) * Math.hypot(b.x, b.y));
+        return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+      })
+      .filter((a): a is number => a !== null);
+    if (angles.length === 0) return null;
+
+    const angle = angles.reduce((s, a) => s + a, 0) / angles.length;
+    const score = clampScore(100 - Math.max(0, angle - REFERENCE.jawAngle) * 2.5 - Math.max(0, REFERENCE.jawAngle - 10 - angle) * 1.5);
+
+    const explanation = angle <= REFERENCE.jawAngle
+      ? `Your jaw turns at about ${Math.round(angle)}°, a defined angle that reads as a crisp jawline.`
+      : angle <= REFERENCE.jawAngle + 10
+      ? `Your jaw turns at about ${Math.round(angle)}°, close to average. Reducing puffiness (sleep, salt, facial massage) can sharpen it.`
+      : `Your jaw turns at about ${Math.round(angle)}°, a softer angle. Posture, chin position and reducing water retention make the biggest visible difference.`;
+
+    return { value: Math.round(angle), score, explanation };
+  }
+
+  private measureEyeSpacing(points: Map<string, VisionPoint>, faceWidth: number): GeometryMetric | null {
+    const left = points.get('LEFT_EYE_PUPIL') ?? points.get('LEFT_EYE');
+    const right = points.get('RIGHT_EYE_PUPIL') ?? points.get('RIGHT_EYE');
+    if (!left || !right) return null;
+
+    const ratio = distance(left, right) / faceWidth;
+    const score = clampScore(100 - Math.abs(ratio - REFERENCE.eyeSpacing) * 400);
+
+    const explanation = Math.abs(ratio - REFERENCE.eyeSpacing) <= 0.03
+      ? `Your eyes are ${Math.round(ratio * 100)}% of face width apart, right around the average balance point.`
+      : ratio > REFERENCE.eyeSpacing
+      ? `Your eyes are ${Math.round(ratio * 100)}% of face width apart, slightly wide-set. Inner-corner highlight and fuller brows toward the center balance this.`
+      : `Your eyes are ${Math.round(ratio * 100)}% of face width apart, slightly close-set. Outer-corner definition and brows that extend outward balance this.`;
+
+    return { value: Math.round(ratio * 1000) / 1000, score, explanation };
+  }
+}
+
+export const faceGeometryService = new FaceGeometryService();
+export default faceGeometryService;
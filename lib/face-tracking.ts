@@ -0,0 +1,274 @@
+import { NativeModules, Platform } from 'react-native';
+import { logger } from './logger';
+
+// Import FileSystem conditionally for React Native
+let FileSystem: any = null;
+if (Platform.OS !== 'web') {
+  try {
+    FileSystem = require('expo-file-system');
+  } catch (error) {
+    console.warn('FileSystem not available:', error);
+  }
+}
+
+// A low-resolution camera snapshot sampled from the live preview
+export interface CameraFrame {
+  uri: string;
+  width: number;
+  height: number;
+  exif?: Record<string, any>;
+}
+
+// Bounding box normalized to the frame (0-1), angles in degrees
+export interface TrackedFace {
+  boundingBox: { x: number; y: number; width: number; height: number };
+  rollAngle: number;
+  panAngle: number;
+  tiltAngle: number;
+  leftEyeOpenProbability?: number;
+  rightEyeOpenProbability?: number;
+}
+
+export interface FaceTrackingResult {
+  faces: TrackedFace[];
+  lighting: number | null; // 0 (dark) - 1 (bright), null when the backend cannot tell
+}
+
+export type FaceAlignmentIssue =
+  | 'no-face'
+  | 'multiple-faces'
+  | 'off-center'
+  | 'too-far'
+  | 'too-close'
+  | 'not-level'
+  | 'eyes-closed'
+  | 'too-dark'
+  | 'too-bright';
+
+export interface FaceAlignment {
+  ready: boolean;
+  issues: FaceAlignmentIssue[];
+  message: string;
+}
+
+interface FaceDetectorBackend {
+  readonly id: string;
+  isAvailable(): boolean;
+  detect(frame: CameraFrame): Promise<FaceTrackingResult>;
+}
+
+const ALIGNMENT_LIMITS = {
+  maxCenterOffset: 0.12,
+  minFaceWidth: 0.25,
+  maxFaceWidth: 0.75,
+  maxRoll: 10,
+  maxPan: 12,
+  maxTilt: 12,
+  minEyeOpen: 0.4,
+  minLighting: 0.3,
+  maxLighting: 0.92,
+};
+
+const ALIGNMENT_MESSAGES: Record<FaceAlignmentIssue, string> = {
+  'no-face': 'No face detected. Please align your face.',
+  'multiple-faces': 'Make sure only your face is in the frame.',
+  'off-center': 'Center your face inside the circle.',
+  'too-far': 'Move a little closer.',
+  'too-close': 'Move a little further away.',
+  'not-level': 'Hold your head straight and look at the camera.',
+  'eyes-closed': 'Keep your eyes open.',
+  'too-dark': 'Find better lighting — face a window or lamp.',
+  'too-bright': 'Too much light — avoid direct sun or glare.',
+};
+
+// EXIF BrightnessValue is in APEX units; roughly -2 (dim room) to 8 (daylight)
+const lightingFromExif = (exif?: Record<string, any>): number | null => {
+  const value = Number(exif?.BrightnessValue ?? exif?.['{Exif}']?.BrightnessValue);
+  if (!isFinite(value)) return null;
+  return Math.max(0, Math.min(1, (value + 2) / 10));
+};
+
+class MLKitFaceDetectorBackend implements FaceDetectorBackend {
+  readonly id = 'mlkit';
+  private module: any = null;
+
+  isAvailable(): boolean {
+    if (Platform.OS === 'web' || !NativeModules.FaceDetection) return false;
+    if (!this.module) {
+      try {
+        this.module = require('@react-native-ml-kit/face-detection').default;
+      } catch (error) {
+        logger.warn('FaceTracking: ML Kit module failed to load', { error: (error as Error).message });
+        return false;
+      }
+    }
+    return true;
+  }
+
+  async detect(frame: CameraFrame): Promise<FaceTrackingResult> {
+    const faces: any[] = await this.module.detect(frame.uri, {
+      performanceMode: 'fast',
+      classificationMode: 'all',
+      minFaceSize: 0.15,
+    });
+    return {
+      faces: faces.map(f => ({
+        boundingBox: {
+          x: f.frame.left / frame.width,
+          y: f.frame.top / frame.height,
+          width: f.frame.width / frame.width,
+          height: f.frame.height / frame.height,
+        },
+        rollAngle: Number(f.rotationZ ?? 0),
+        panAngle: Number(f.rotationY ?? 0),
+        tiltAngle: Number(f.rotationX ?? 0),
+        leftEyeOpenProbability: f.leftEyeOpenProbability,
+        rightEyeOpenProbability: f.rightEyeOpenProbability,
+      })),
+      lighting: lightingFromExif(frame.exif),
+    };
+  }
+}
+
+// Uses the browser Shape Detection API where supported (Chromium based browsers)
+class WebFaceDetectorBackend implements FaceDetectorBackend {
+  readonly id = 'web-shape-detection';
+  private detector: any = null;
+
+  isAvailable(): boolean {
+    const anyGlobal = globalThis as any;
+    if (Platform.OS !== 'web' || typeof anyGlobal.FaceDetector !== 'function') return false;
+    if (!this.detector) {
+      this.detector = new anyGlobal.FaceDetector({ fastMode: true, maxDetectedFaces: 3 });
+    }
+    return true;
+  }
+
+  async detect(frame: CameraFrame): Promise<FaceTrackingResult> {
+    const blob = await (await fetch(frame.uri)).blob();
+    const bitmap = await createImageBitmap(blob);
+    const detected: any[] = await this.detector.detect(bitmap);
+
+    const faces: TrackedFace[] = detected.map(d => {
+      const box = d.boundingBox;
+      const eyes = (d.landmarks ?? []).filter((l: any) => l.type === 'eye');
+      let roll = 0;
+      if (eyes.length === 2) {
+        const [a, b] = eyes.map((e: any) => e.locations[0]).sort((p: any, q: any) => p.x - q.x);
+        roll = (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+      }
+      return {
+        boundingBox: {
+          x: box.x / bitmap.width,
+          y: box.y / bitmap.height,
+          width: box.width / bitmap.width,
+          height: box.height / bitmap.height,
+        },
+        rollAngle: roll,
+        panAngle: 0,
+        tiltAngle: 0,
+      };
+    });
+
+    return { faces, lighting: this.measureLighting(bitmap) };
+  }
+
+  private measureLighting(bitmap: ImageBitmap): number | null {
+    try {
+      const size = 32;
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
+      ctx.drawImage(bitmap, 0, 0, size, size);
+      const { data } = ctx.getImageData(0, 0, size, size);
+      let total = 0;
+      for (let i = 0; i < data.length; i += 4) {
+        total += 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+      }
+      return total / (size * size) / 255;
+    } catch {
+      return null;
+    }
+  }
+}
+
+class FaceTracker {
+  private backends: FaceDetectorBackend[] = [new MLKitFaceDetectorBackend(), new WebFaceDetectorBackend()];
+  private backend: FaceDetectorBackend | null | undefined;
+
+  private getBackend(): FaceDetectorBackend | null {
+    if (this.backend === undefined) {
+      this.backend = this.backends.find(b => b.isAvailable()) ?? null;
+      logger.info('FaceTracking: Backend selected', { backend: this.backend?.id ?? 'none' });
+    }
+    return this.backend;
+  }
+
+  isAvailable(): boolean {
+    return !!this.getBackend();
+  }
+
+  async processFrame(frame: CameraFrame): Promise<FaceTrackingResult> {
+    const backend = this.getBackend();
+    if (!backend) {
+      throw new Error('Face tracking is not available on this device');
+    }
+    try {
+      return await backend.detect(frame);
+    } finally {
+      // Sampled frames are throwaway snapshots; don't let them pile up in the cache
+      if (FileSystem && frame.uri.startsWith('file:')) {
+        FileSystem.deleteAsync(frame.uri, { idempotent: true }).catch(() => {});
+      }
+    }
+  }
+
+  evaluateAlignment(result: FaceTrackingResult): FaceAlignment {
+    const issues: FaceAlignmentIssue[] = [];
+    const limits = ALIGNMENT_LIMITS;
+
+    if (result.faces.length === 0) {
+      issues.push('no-face');
+    } else if (result.faces.length > 1) {
+      issues.push('multiple-faces');
+    } else {
+      const face = result.faces[0];
+      const { x, y, width, height } = face.boundingBox;
+      const centerX = x + width / 2;
+      const centerY = y + height / 2;
+
+      if (Math.abs(centerX - 0.5) > limits.maxCenterOffset || Math.abs(centerY - 0.45) > limits.maxCenterOffset * 1.5) {
+        issues.push('off-center');
+      }
+      if (width < limits.minFaceWidth) issues.push('too-far');
+      if (width > limits.maxFaceWidth) issues.push('too-close');
+      if (
+        Math.abs(face.rollAngle) > limits.maxRoll ||
+        Math.abs(face.panAngle) > limits.maxPan ||
+        Math.abs(face.tiltAngle) > limits.maxTilt
+      ) {
+        issues.push('not-level');
+      }
+      const eyes = [face.leftEyeOpenProbability, face.rightEyeOpenProbability].filter((p): p is number => typeof p === 'number');
+      if (eyes.length > 0 && Math.min(...eyes) < limits.minEyeOpen) {
+        issues.push('eyes-closed');
+      }
+    }
+
+    if (result.lighting !== null) {
+      if (result.lighting < limits.minLighting) issues.push('too-dark');
+      if (result.lighting > limits.maxLighting) issues.push('too-bright');
+    }
+
+    return {
+      ready: issues.length === 0,
+      issues,
+      message: issues.length === 0 ? 'Perfect! Tap to take photo.' : ALIGNMENT_MESSAGES[issues[0]],
+    };
+  }
+}
+
+export const faceTracker = new FaceTracker();
+export default faceTracker;
@@ -0,0 +1,223 @@
+import { categorizeGarment } from './wardrobe';
+import type { VisionBoundingBox, VisionObject, VisionPoseKeypoint, PoseKeypointName } from './vision-providers';
+
+// Proportions measured from one photo; stored with results so fit can be re-scored later
+export interface FitMeasurements {
+  source: 'pose' | 'boxes';
+  topBottomRatio: number | null; // visible top length over bottom length; near 1 cuts the body in half
+  topHemPosition: number | null; // where the top or dress ends, 0 = crown, 1 = feet
+  waistDefinition: number | null; // 0-100
+  silhouetteBalance: number | null; // 0-100
+  topVolume: number | null; // garment width relative to the body underneath, 1 = fitted
+  bottomVolume: number | null;
+  hasBelt: boolean;
+  isDress: boolean;
+}
+
+export interface FitAnalysis {
+  measurements: FitMeasurements;
+  score: number; // 0-100
+  feedback: string[]; // specific changes, for improvements
+  strengths: string[];
+}
+
+// Vertical landmarks as fractions of the image, from keypoints or estimated from the person box
+interface BodyFrame {
+  top: number;
+  bottom: number;
+  shoulderY: number;
+  waistY: number;
+  hipY: number;
+  shoulderWidth: number;
+  hipWidth: number;
+}
+
+const MIN_KEYPOINT_SCORE = 0.3;
+// Average adult proportions within a head-to-toe box, used when there are no keypoints
+const BOX_SHOULDER = 0.19;
+const BOX_WAIST = 0.4;
+const BOX_HIP = 0.5;
+const BOX_SHOULDER_WIDTH = 0.9; // the box includes the arms
+const BOX_HIP_WIDTH = 0.55;
+// Rule of thirds: a 1:2 or 2:1 split reads better than an even one
+const IDEAL_LOG_RATIO = Math.log(2);
+const LOOSE_VOLUME = 1.3;
+
+const hem = (box: VisionBoundingBox) => box.y + box.height;
+
+function findBox(objects: VisionObject[], match: (o: VisionObject) => boolean): VisionBoundingBox | null {
+  return objects
+    .filter(o => o.boundingBox && match(o))
+    .sort((a, b) => b.score - a.score)[0]?.boundingBox ?? null;
+}
+
+function keypointPair(pose: VisionPoseKeypoint[], part: 'shoulder' | 'hip' | 'ankle'): { y: number; width: number } | null {
+  const get = (name: PoseKeypointName) => pose.find(k => k.name === name && k.score >= MIN_KEYPOINT_SCORE);
+  const left = get(`left_${part}` as PoseKeypointName);
+  const right = get(`right_${part}` as PoseKeypointName);
+  if (!left || !right) return null;
+  return { y: (left.y + right.y) / 2, width: Math.abs(left.x - right.x) };
+}
+
+function bodyFrame(person: VisionBoundingBox, pose?: VisionPoseKeypoint[]): { frame: BodyFrame; source: FitMeasurements['source'] } {
+  const estimated: BodyFrame = {
+    top: person.y,
+    bottom: person.y + person.height,
+    shoulderY: person.y + person.height * BOX_SHOULDER,
+    waistY: person.y + person.height * BOX_WAIST,
+    hipY: person.y + person.height * BOX_HIP,
+    shoulderWidth: person.width * BOX_SHOULDER_WIDTH,
+    hipWidth: person.width * BOX_HIP_WIDTH,
+  };
+  const shoulders = pose && keypointPair(pose, 'shoulder');
+  const hips = pose && keypointPair(pose, 'hip');
+  if (!shoulders || !hips || hips.y <= shoulders.y) return { frame: estimated, source: 'boxes' };
+
+  const ankles = pose && keypointPair(pose, 'ankle');
+  return {
+    frame: {
+      ...estimated,
+      bottom: ankles ? Math.max(ankles.y, estimated.bottom) : estimated.bottom,
+      shoulderY: shoulders.y,
+      // The natural waist sits a little over halfway from shoulders to hip joints
+      waistY: shoulders.y + (hips.y - shoulders.y) * 0.62,
+      hipY: hips.y,
+      // Joints sit inside the body outline, and top boxes take in the arms and sleeves
+      shoulderWidth: shoulders.width * 1.8,
+      hipWidth: hips.width * 1.5,
+    },
+    source: 'pose',
+  };
+}
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+export function measureFit(objects: VisionObject[], pose?: VisionPoseKeypoint[]): FitMeasurements | null {
+  const person = findBox(objects, o => o.name.toLowerCase() === 'person');
+  if (!person) return null;
+
+  const category = (o: VisionObject) => categorizeGarment(o.name);
+  // An outer layer sets the visible line, so it takes precedence over the top underneath
+  const top = findBox(objects, o => category(o) === 'outerwear') ?? findBox(objects, o => category(o) === 'top');
+  const bottom = findBox(objects, o => category(o) === 'bottom');
+  const dress = findBox(objects, o => category(o) === 'dress');
+  const isBelt = (o: VisionObject) => o.name.toLowerCase().includes('belt');
+  const hasBelt = objects.some(isBelt);
+  const belt = findBox(objects, isBelt);
+  if (!top && !bottom && !dress) return null;
+
+  const { frame, source } = bodyFrame(person, pose);
+  const height = frame.bottom - frame.top;
+  const torso = frame.hipY - frame.shoulderY;
+  const upper = dress && !top ? dress : top;
+
+  const topHemPosition = upper ? (hem(upper) - frame.top) / height : null;
+
+  let topBottomRatio: number | null = null;
+  if (top && bottom) {
+    // Only what's visible counts: overlap from a tucked or layered top belongs to the top
+    const bottomVisible = hem(bottom) - Math.max(bottom.y, hem(top));
+    if (bottomVisible > 0) topBottomRatio = (hem(top) - top.y) / bottomVisible;
+  }
+
+  // A hem or belt at the natural waist defines it; a hem at the hips hides it. A dress has no hem there,
+  // so it's the belt's position, or without one how closely the dress follows the body
+  let waistDefinition: number | null = null;
+  if (upper && torso > 0) {
+    if (upper === dress && belt) {
+      waistDefinition = 90 - (Math.abs(belt.y + belt.height / 2 - frame.waistY) / torso) * 120;
+    } else if (upper === dress) {
+      waistDefinition = 90 - (dress.width / frame.hipWidth - 1) * 100;
+    } else {
+      waistDefinition = 90 - (Math.abs(hem(upper) - frame.waistY) / torso) * 120;
+    }
+    if (hasBelt) waistDefinition += 20;
+    waistDefinition = Math.max(20, Math.min(95, waistDefinition));
+  }
+
+  const topVolume = top ? top.width / frame.shoulderWidth : null;
+  const bottomVolume = bottom ? bottom.width / frame.hipWidth : null;
+  // One fitted half and one with volume balances; two loose halves swamp the frame
+  let silhouetteBalance: number | null = null;
+  if (topVolume !== null && bottomVolume !== null) {
+    const looseTop = topVolume > LOOSE_VOLUME;
+    const looseBottom = bottomVolume > LOOSE_VOLUME;
+    silhouetteBalance = looseTop && looseBottom ? 55 : looseTop !== looseBottom ? 90 : 82;
+  }
+
+  return {
+    source,
+    topBottomRatio: topBottomRatio !== null ? round(topBottomRatio) : null,
+    topHemPosition: topHemPosition !== null ? round(topHemPosition) : null,
+    waistDefinition: waistDefinition !== null ? Math.round(waistDefinition) : null,
+    silhouetteBalance,
+    topVolume: topVolume !== null ? round(topVolume) : null,
+    bottomVolume: bottomVolume !== null ? round(bottomVolume) : null,
+    hasBelt,
+    isDress: !!dress && !bottom,
+  };
+}
+
+function proportionScore(ratio: number): number {
+  return Math.round(100 - Math.min(50, Math.abs(Math.abs(Math.log(ratio)) - IDEAL_LOG_RATIO) * 80));
+}
+
+export function scoreFit(m: FitMeasurements): number {
+  const parts: [number, number][] = [];
+  if (m.topBottomRatio !== null) parts.push([proportionScore(m.topBottomRatio), 0.4]);
+  if (m.waistDefinition !== null) parts.push([m.waistDefinition, 0.3]);
+  if (m.silhouetteBalance !== null) parts.push([m.silhouetteBalance, 0.3]);
+  if (parts.length === 0) return 70;
+  const weight = parts.reduce((sum, [, w]) => sum + w, 0);
+  const score = parts.reduce((sum, [value, w]) => sum + value * w, 0) / weight;
+  // Estimated body landmarks are rougher than keypoints, so keep box-only scores away from the extremes
+  const spread = m.source === 'pose' ? 1 : 0.7;
+  return Math.max(40, Math.min(95, Math.round(70 + (score - 70) * spread)));
+}
+
+export function describeFit(m: FitMeasurements): { feedback: string[]; strengths: string[] } {
+  const feedback: string[] = [];
+  const strengths: string[] = [];
+
+  if (m.topBottomRatio !== null) {
+    if (m.topBottomRatio > 0.8 && m.topBottomRatio < 1.25) {
+      feedback.push('Your top and bottom are about the same length, which cuts you in half — tuck the top or switch to a longer or cropped layer for a 1:2 split');
+    } else if (proportionScore(m.topBottomRatio) >= 85) {
+      strengths.push('Top-to-bottom proportions follow the rule of thirds');
+    }
+  }
+
+  if (m.topHemPosition !== null && !m.isDress && m.topHemPosition > 0.58) {
+    feedback.push(`Your top ends about ${Math.round(m.topHemPosition * 100)}% of the way down your body, which shortens your legs — try a front tuck or a shorter layer`);
+  }
+
+  if (m.waistDefinition !== null) {
+    if (m.waistDefinition < 50) {
+      feedback.push(m.isDress
+        ? 'Your dress skims past the waist — a belt at the narrowest point would add shape'
+        : 'Your waist is hidden — a belt, a half-tuck or a top that ends at the natural waist would define it');
+    } else if (m.waistDefinition >= 75) {
+      strengths.push(m.hasBelt
+        ? 'The belt defines your waist'
+        : m.isDress ? 'Your dress follows the line of your waist' : 'Hemline sits at your natural waist');
+    }
+  }
+
+  if (m.silhouetteBalance !== null) {
+    if (m.silhouetteBalance < 65) {
+      feedback.push('Both your top and bottom are loose, which hides your shape — keep the volume in one half and fit the other');
+    } else if (m.topVolume !== null && m.bottomVolume !== null && m.silhouetteBalance >= 90) {
+      strengths.push(m.topVolume > m.bottomVolume
+        ? 'Relaxed top over a fitted bottom keeps the silhouette balanced'
+        : 'Fitted top balances the volume below');
+    }
+  }
+
+  return { feedback, strengths };
+}
+
+export function analyzeFit(objects: VisionObject[], pose?: VisionPoseKeypoint[]): FitAnalysis | null {
+  const measurements = measureFit(objects, pose);
+  if (!measurements) return null;
+  return { measurements, score: scoreFit(measurements), ...describeFit(measurements) };
+}
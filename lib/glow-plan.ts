@@ -0,0 +1,463 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger } from './logger';
+import { storageService } from './storage';
+import { errorHandler } from './error-handler';
+import { aiService, PlanDraft } from './ai-service';
+import { currentTimeZone, dayKeyInZone, todayKey, planDayOn, dateOfPlanDay, planEndDay, isPausedOn } from './plan-calendar';
+import type { SkinRegionCondition } from './skin-regions';
+import type { GlowUpPlan, GlowUpDayTask, GlowUpProgress, PlanFocusMetric } from '../types';
+
+export type PlanAnalysisData = NonNullable<GlowUpPlan['analysis_data']>;
+
+// A plan and its scheduled tasks, stored together so they can't drift apart
+export interface ActivePlan {
+  plan: GlowUpPlan;
+  tasks: GlowUpDayTask[];
+}
+
+// How a plan day stands as of today
+export type PlanDayStatus = 'complete' | 'partial' | 'missed' | 'today' | 'upcoming';
+
+export interface NewPlan {
+  goal: string;
+  glowScore: number;
+  analysisData?: PlanAnalysisData | null; // the scan the plan starts from; without one the tasks come from the AI draft
+}
+
+const PLAN_KEY = 'glow_plan';
+const PLAN_DAYS = 30;
+
+// Plans were stored under these raw keys before the plan service existed
+const LEGACY_CURRENT_KEY = 'current-glow-plan';
+const legacyKeys = (planId: string) => [`glow-plan-${planId}`, `glow-tasks-${planId}`, `glow-progress-${planId}`];
+
+const DEFAULT_TIPS = [
+  'Stay consistent with your daily routine',
+  'Track your progress with photos',
+  'Stay hydrated throughout the day',
+  'Get adequate sleep for skin recovery',
+];
+
+const DEFAULT_EXPECTED_RESULTS = [
+  'Improved skin texture and hydration',
+  'More consistent skincare habits',
+  'Increased confidence in your appearance',
+  'Better understanding of your skin needs',
+];
+
+// Plans saved before calendars were tracked get their start day from the instant they were created
+const withCalendar = (plan: GlowUpPlan): GlowUpPlan => {
+  const timezone = plan.timezone ?? currentTimeZone();
+  return {
+    ...plan,
+    timezone,
+    start_day: plan.start_day ?? dayKeyInZone(new Date(plan.start_date), timezone),
+    paused: plan.paused ?? [],
+  };
+};
+
+// Tasks saved before routine slots were recorded are recognized by their titles
+const ROUTINE_TITLES: Record<string, 'morning' | 'evening'> = {
+  'Morning Skincare Routine': 'morning',
+  'Evening Skincare': 'evening',
+};
+
+export const routineSlot = (task: GlowUpDayTask): 'morning' | 'evening' | undefined =>
+  task.routine_slot ?? ROUTINE_TITLES[task.title];
+
+// A check-in's focus swaps in stronger products for the metrics that stalled
+export function getSkincareRecommendation(
+  timeOfDay: 'morning' | 'evening',
+  analysisData?: PlanAnalysisData | null,
+  focus: PlanFocusMetric[] = []
+): string {
+  if (!analysisData) {
+    return timeOfDay === 'morning'
+      ? 'Gentle cleanser + Vitamin C serum + Moisturizer + SPF 30+'
+      : 'Double cleanse + Retinol serum + Night moisturizer';
+  }
+
+  const { skinType, hydration, brightness } = analysisData;
+  const regions = analysisData.regions ?? [];
+  const zonesWith = (condition: SkinRegionCondition) =>
+    regions.filter(r => r.condition === condition).map(r => r.label.toLowerCase());
+  const oilyZones = zonesWith('oily');
+  const dryZones = zonesWith('dry');
+  const redZones = zonesWith('red');
+  // Combination skin gets zone-targeted products instead of one product for the whole face
+  const isCombination = skinType === 'Combination' || (oilyZones.length > 0 && dryZones.length > 0);
+
+  if (timeOfDay === 'morning') {
+    let recommendation = 'Gentle cleanser + ';
+
+    if (focus.includes('brightness')) {
+      recommendation += 'Vitamin C serum (15-20%, first on clean skin) + ';
+    } else if (brightness < 70) {
+      recommendation += 'Vitamin C serum + ';
+    }
+
+    if (focus.includes('hydration')) {
+      recommendation += 'Hydrating essence + Hyaluronic acid serum on damp skin + ';
+    } else if (hydration < 70) {
+      recommendation += 'Hyaluronic acid serum + ';
+    }
+
+    if (isCombination) {
+      recommendation += `Oil-free gel moisturizer on ${oilyZones.join(' & ') || 't-zone'}, richer cream on ${dryZones.join(' & ') || 'cheeks'} + `;
+    } else {
+      recommendation += 'Moisturizer + ';
+    }
+
+    recommendation += 'SPF 30+';
+    return recommendation;
+  }
+
+  let recommendation = 'Double cleanse + ';
+
+  if (isCombination) {
+    recommendation += `Salicylic acid toner on ${oilyZones.join(' & ') || 't-zone'} only + `;
+  } else if (skinType === 'Oily') {
+    recommendation += 'Salicylic acid toner + ';
+  }
+
+  if (focus.includes('brightness')) {
+    recommendation += 'Niacinamide serum + ';
+  }
+
+  if (redZones.length > 0) {
+    recommendation += `Retinol serum (2x/week, skip ${redZones.join(' & ')}) + `;
+  } else {
+    recommendation += 'Retinol serum (2x/week) + ';
+  }
+
+  const moisturizer = focus.includes('hydration') ? 'Ceramide night cream' : 'Night moisturizer';
+  recommendation += dryZones.length > 0 ? `${moisturizer} (extra layer on ${dryZones.join(' & ')})` : moisturizer;
+  return recommendation;
+}
+
+class GlowPlanService {
+  async getActivePlan(userId: string): Promise<ActivePlan | null> {
+    const stored = await storageService.getUserData<ActivePlan>(userId, PLAN_KEY);
+    if (!stored) return this.migrateLegacyPlan(userId);
+    return { ...stored, plan: withCalendar(stored.plan) };
+  }
+
+  /**
+   * Scan-based plans schedule the analysis-driven routine; goal-only plans schedule the AI draft's tasks.
+   * The draft also supplies tips and expected results, so a scan plan still starts if it can't be fetched.
+   */
+  async createPlan(userId: string, input: NewPlan): Promise<ActivePlan> {
+    try {
+      let draft: PlanDraft | null = null;
+      try {
+        draft = await aiService.generateCoachingPlan(input.goal, input.glowScore);
+      } catch (error) {
+        if (!input.analysisData) throw error;
+        logger.warn('GlowPlan: AI draft unavailable, using the scan-based routine alone', { error: (error as Error).message });
+      }
+
+      const start = new Date();
+      const timezone = currentTimeZone();
+      const startDay = dayKeyInZone(start, timezone);
+      const plan: GlowUpPlan = {
+        id: `glow-plan-${Date.now()}`,
+        user_id: userId,
+        goal: input.goal,
+        source: input.analysisData ? 'glow-scan' : 'coaching',
+        start_date: start.toISOString(),
+        start_day: startDay,
+        timezone,
+        paused: [],
+        end_date: startDay, // set from the schedule on save
+        created_at: start.toISOString(),
+        tips: draft?.tips.length ? draft.tips : DEFAULT_TIPS,
+        expected_results: draft?.expectedResults.length ? draft.expectedResults : DEFAULT_EXPECTED_RESULTS,
+        analysis_data: input.analysisData ?? undefined,
+        progress: { completed_days: 0, total_days: PLAN_DAYS, completion_percentage: 0 },
+      };
+
+      const tasks = input.analysisData || !draft
+        ? Array.from({ length: PLAN_DAYS }, (_, i) => this.routineTasks(plan, i + 1)).flat()
+        : draft.tasks
+            .filter(task => task.day >= 1 && task.day <= PLAN_DAYS)
+            .map(task => this.scheduleTask(plan, task));
+
+      const active = await this.save(userId, { plan, tasks });
+      logger.info('GlowPlan: Plan created', { userId, planId: plan.id, source: plan.source, tasks: tasks.length });
+      return active;
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'glow-plan', 'createPlan', { userId });
+      throw error;
+    }
+  }
+
+  async endPlan(userId: string): Promise<void> {
+    await storageService.removeUserData(userId, PLAN_KEY);
+  }
+
+  /**
+   * Today's plan day. "Today" is the calendar date where the device is now, counted in whole calendar
+   * days from the stored start day, so travel and DST shifts never skip or repeat a day. Paused days
+   * don't count.
+   */
+  currentDay(plan: GlowUpPlan, now: Date = new Date()): number {
+    const today = todayKey(now);
+    return Math.max(1, Math.min(plan.progress.total_days, planDayOn(plan, today, today)));
+  }
+
+  isPaused(plan: GlowUpPlan, now: Date = new Date()): boolean {
+    const today = todayKey(now);
+    return isPausedOn(plan, today, today);
+  }
+
+  dayStatus(active: ActivePlan, day: number, now: Date = new Date()): PlanDayStatus {
+    if (this.isDayComplete(active.tasks, day)) return 'complete';
+    const today = todayKey(now);
+    const todayIndex = planDayOn(active.plan, today, today);
+    if (day > todayIndex || (day === todayIndex && isPausedOn(active.plan, today, today))) return 'upcoming';
+    if (day === todayIndex) return 'today';
+    return this.tasksForDay(active.tasks, day).some(task => task.completed) ? 'partial' : 'missed';
+  }
+
+  // Past days with tasks left undone, partially done ones included
+  missedDays(active: ActivePlan, now: Date = new Date()): number[] {
+    return Array.from({ length: active.plan.progress.total_days }, (_, i) => i + 1)
+      .filter(day => this.tasksForDay(active.tasks, day).length > 0)
+      .filter(day => ['missed', 'partial'].includes(this.dayStatus(active, day, now)));
+  }
+
+  async pausePlan(userId: string, now: Date = new Date()): Promise<ActivePlan | null> {
+    const active = await this.getActivePlan(userId);
+    if (!active || this.isPaused(active.plan, now)) return active;
+    const paused = [...active.plan.paused, { start_day: todayKey(now) }];
+    logger.info('GlowPlan: Paused', { userId, planId: active.plan.id });
+    return this.save(userId, { ...active, plan: { ...active.plan, paused } });
+  }
+
+  // A pause resumed on the day it started never happened
+  async resumePlan(userId: string, now: Date = new Date()): Promise<ActivePlan | null> {
+    const active = await this.getActivePlan(userId);
+    if (!active) return null;
+    const today = todayKey(now);
+    const paused = active.plan.paused
+      .map(p => (p.end_day ? p : { ...p, end_day: today }))
+      .filter(p => p.end_day! > p.start_day);
+    logger.info('GlowPlan: Resumed', { userId, planId: active.plan.id });
+    return this.save(userId, { ...active, plan: { ...active.plan, paused } });
+  }
+
+  tasksForDay(tasks: GlowUpDayTask[], day: number): GlowUpDayTask[] {
+    return tasks.filter(task => task.day === day);
+  }
+
+  // A day whose undone task was moved ahead wasn't finished, whatever is left on it
+  isDayComplete(tasks: GlowUpDayTask[], day: number): boolean {
+    const dayTasks = this.tasksForDay(tasks, day);
+    return dayTasks.length > 0
+      && dayTasks.every(task => task.completed)
+      && !tasks.some(task => task.rescheduled_from === day);
+  }
+
+  // An unfinished today doesn't break the streak until the day is over
+  getStreak(active: ActivePlan, now: Date = new Date()): number {
+    const today = this.currentDay(active.plan, now);
+    let streak = 0;
+    for (let day = this.isDayComplete(active.tasks, today) ? today : today - 1; day >= 1; day--) {
+      if (!this.isDayComplete(active.tasks, day)) break;
+      streak++;
+    }
+    return streak;
+  }
+
+  getProgress(active: ActivePlan, now: Date = new Date()): GlowUpProgress {
+    const { plan, tasks } = active;
+    const totalDays = plan.progress.total_days;
+    const missed = this.missedDays(active, now);
+    const lastActivity = tasks
+      .map(task => task.completed_at)
+      .filter((at): at is string => !!at)
+      .sort()
+      .pop();
+
+    return {
+      plan_id: plan.id,
+      user_id: plan.user_id,
+      current_day: this.currentDay(plan, now),
+      completed_tasks: tasks.filter(task => task.completed).length,
+      total_tasks: tasks.length,
+      streak_days: this.getStreak(active, now),
+      last_activity_date: lastActivity ?? plan.created_at,
+      missed_days: missed.filter(day => this.dayStatus(active, day, now) === 'missed'),
+      partial_days: missed.filter(day => this.dayStatus(active, day, now) === 'partial'),
+      weekly_progress: Array.from({ length: Math.ceil(totalDays / 7) }, (_, i) => {
+        const days = Array.from({ length: Math.min(7, totalDays - i * 7) }, (_, d) => i * 7 + d + 1);
+        return {
+          week: i + 1,
+          completed_days: days.filter(day => this.isDayComplete(tasks, day)).length,
+          total_days: days.length,
+        };
+      }),
+    };
+  }
+
+  async toggleTask(userId: string, taskId: string): Promise<ActivePlan | null> {
+    return this.updateTask(userId, taskId, task => ({
+      ...task,
+      completed: !task.completed,
+      completed_at: task.completed ? undefined : new Date().toISOString(),
+    }));
+  }
+
+  async setUserProduct(userId: string, taskId: string, product: string): Promise<ActivePlan | null> {
+    return this.updateTask(userId, taskId, task => ({
+      ...task,
+      user_product: product.trim() || undefined,
+      routine_product_ids: undefined,
+    }));
+  }
+
+  // Rewrites the stored plan; progress and task dates are recomputed from the result
+  async updatePlan(userId: string, update: (active: ActivePlan) => ActivePlan): Promise<ActivePlan | null> {
+    const active = await this.getActivePlan(userId);
+    if (!active) return null;
+    return this.save(userId, update(active));
+  }
+
+  private async updateTask(
+    userId: string,
+    taskId: string,
+    update: (task: GlowUpDayTask) => GlowUpDayTask
+  ): Promise<ActivePlan | null> {
+    try {
+      return await this.updatePlan(userId, active => ({
+        plan: active.plan,
+        tasks: active.tasks.map(task => (task.id === taskId ? update(task) : task)),
+      }));
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'glow-plan', 'updateTask', { userId, taskId });
+      throw error;
+    }
+  }
+
+  // Keeps the plan's progress summary and calendar dates in step with its tasks and pauses on every write
+  private async save(userId: string, active: ActivePlan): Promise<ActivePlan> {
+    const totalDays = active.plan.progress.total_days;
+    const today = todayKey();
+    const completedDays = Array.from({ length: totalDays }, (_, i) => i + 1)
+      .filter(day => this.isDayComplete(active.tasks, day)).length;
+    const updated: ActivePlan = {
+      tasks: active.tasks.map(task => ({ ...task, date: dateOfPlanDay(active.plan, task.day, today) })),
+      plan: {
+        ...active.plan,
+        end_date: planEndDay(active.plan, today),
+        progress: {
+          completed_days: completedDays,
+          total_days: totalDays,
+          completion_percentage: Math.round((completedDays / totalDays) * 100),
+        },
+      },
+    };
+    await storageService.setUserData(userId, PLAN_KEY, updated, { persistent: true });
+    return updated;
+  }
+
+  scheduleTask(plan: GlowUpPlan, task: Pick<GlowUpDayTask, 'day' | 'title' | 'description' | 'type'> & Partial<GlowUpDayTask>): GlowUpDayTask {
+    return {
+      ...task,
+      id: `task-${plan.id}-${task.day}-${Math.random().toString(36).substr(2, 9)}`,
+      plan_id: plan.id,
+      user_id: plan.user_id,
+      date: dateOfPlanDay(plan, task.day),
+      completed: false,
+    };
+  }
+
+  // Daily skincare and hydration, a weekly mask and exercise every third day
+  private routineTasks(plan: GlowUpPlan, day: number): GlowUpDayTask[] {
+    const analysisData = plan.analysis_data;
+    const tasks: (Pick<GlowUpDayTask, 'day' | 'title' | 'description' | 'type'> & Partial<GlowUpDayTask>)[] = [
+      {
+        day,
+        title: 'Morning Skincare Routine',
+        description: 'Complete your morning skincare routine',
+        type: 'skincare',
+        product_suggestion: getSkincareRecommendation('morning', analysisData, plan.focus),
+        routine_slot: 'morning',
+      },
+      {
+        day,
+        title: 'Hydration Goal',
+        description: 'Drink 8-10 glasses of water throughout the day',
+        type: 'hydration',
+      },
+      {
+        day,
+        title: 'Evening Skincare',
+        description: 'Complete your evening skincare routine',
+        type: 'skincare',
+        product_suggestion: getSkincareRecommendation('evening', analysisData, plan.focus),
+        routine_slot: 'evening',
+      },
+    ];
+
+    if (day % 7 === 0) {
+      tasks.push({
+        day,
+        title: 'Weekly Face Mask',
+        description: 'Apply a hydrating or purifying face mask',
+        type: 'skincare',
+        product_suggestion: 'Hydrating sheet mask or clay mask',
+        rhythm_days: 7,
+      });
+    }
+
+    if (day % 3 === 0) {
+      tasks.push({
+        day,
+        title: 'Light Exercise',
+        description: '20-30 minutes of light exercise to boost circulation',
+        type: 'exercise',
+        rhythm_days: 3,
+      });
+    }
+
+    return tasks.map(task => this.scheduleTask(plan, task));
+  }
+
+  // Moves a plan saved by the old screens into user storage, filling in the fields they didn't record
+  private async migrateLegacyPlan(userId: string): Promise<ActivePlan | null> {
+    try {
+      const planId = await AsyncStorage.getItem(LEGACY_CURRENT_KEY);
+      if (!planId) return null;
+      const [planKey, tasksKey] = legacyKeys(planId);
+      const [planData, tasksData] = await Promise.all([AsyncStorage.getItem(planKey), AsyncStorage.getItem(tasksKey)]);
+      if (!planData || !tasksData) return null;
+
+      const legacy = JSON.parse(planData) as Partial<GlowUpPlan> & Pick<GlowUpPlan, 'id' | 'user_id' | 'goal' | 'start_date'>;
+      if (legacy.user_id !== userId && legacy.user_id !== 'anonymous') return null;
+
+      const plan: GlowUpPlan = withCalendar({
+        ...legacy,
+        user_id: userId,
+        source: legacy.analysis_data ? 'glow-scan' : 'coaching',
+        end_date: legacy.start_date,
+        created_at: legacy.created_at ?? legacy.start_date,
+        tips: legacy.tips ?? DEFAULT_TIPS,
+        expected_results: legacy.expected_results ?? DEFAULT_EXPECTED_RESULTS,
+        progress: legacy.progress ?? { completed_days: 0, total_days: PLAN_DAYS, completion_percentage: 0 },
+      } as GlowUpPlan);
+      const tasks = (JSON.parse(tasksData) as GlowUpDayTask[]).map(task => ({ ...task, user_id: userId }));
+
+      const active = await this.save(userId, { plan, tasks });
+      await AsyncStorage.multiRemove([LEGACY_CURRENT_KEY, ...legacyKeys(planId)]);
+      logger.info('GlowPlan: Migrated legacy plan', { userId, planId });
+      return active;
+    } catch (error) {
+      logger.warn('GlowPlan: Failed to migrate legacy plan', { userId, error: (error as Error).message });
+      return null;
+    }
+  }
+}
+
+export const glowPlanService = new GlowPlanService();
+export default glowPlanService;
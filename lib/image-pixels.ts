@@ -0,0 +1,56 @@
+import { Image } from 'react-native';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { decode as decodeJpeg } from 'jpeg-js';
+
+// Downscaled RGBA pixels plus the source size, so coordinates from vision providers can be mapped onto them
+export interface ImagePixels {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (let i = 0; i < clean.length; i++) {
+    buffer = (buffer << 6) | BASE64_CHARS.indexOf(clean[i]);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, index);
+};
+
+export const getImageSize = (uri: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    Image.getSize(uri, (width, height) => resolve({ width, height }), reject);
+  });
+
+export async function loadImagePixels(uri: string, maxWidth: number): Promise<ImagePixels> {
+  const original = await getImageSize(uri);
+  const resized = await ImageManipulator.manipulateAsync(
+    uri,
+    original.width > maxWidth ? [{ resize: { width: maxWidth } }] : [],
+    { compress: 0.9, format: ImageManipulator.SaveFormat.JPEG, base64: true }
+  );
+  if (!resized.base64) {
+    throw new Error('Failed to read image data');
+  }
+  const decoded = decodeJpeg(base64ToBytes(resized.base64), { useTArray: true, formatAsRGBA: true });
+  return {
+    data: decoded.data,
+    width: decoded.width,
+    height: decoded.height,
+    originalWidth: original.width,
+    originalHeight: original.height,
+  };
+}
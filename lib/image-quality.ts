@@ -0,0 +1,257 @@
+import { Alert, Platform } from 'react-native';
+import { loadImagePixels } from './image-pixels';
+import { logger } from './logger';
+import { performanceMonitor } from './performance';
+
+export type ImageQualityProfile = 'face' | 'outfit';
+
+export type ImageQualityIssueType =
+  | 'blurry'
+  | 'underexposed'
+  | 'overexposed'
+  | 'color-cast'
+  | 'low-resolution';
+
+export interface ImageQualityIssue {
+  type: ImageQualityIssueType;
+  severity: 'warn' | 'reject';
+  message: string;
+}
+
+export interface ImageQualityMetrics {
+  width: number;
+  height: number;
+  sharpness: number; // variance of the Laplacian on the downscaled luma channel
+  meanLuminance: number; // 0-255
+  shadowClipping: number; // fraction of pixels near black
+  highlightClipping: number; // fraction of pixels near white
+  colorCast: { r: number; g: number; b: number }; // channel mean relative to the gray-world mean
+}
+
+export interface ImageQualityReport {
+  verdict: 'good' | 'warn' | 'reject';
+  score: number;
+  metrics: ImageQualityMetrics;
+  issues: ImageQualityIssue[];
+  reasons: string[];
+}
+
+interface QualityThresholds {
+  minShortSide: { warn: number; reject: number };
+  sharpness: { warn: number; reject: number };
+  luminance: { darkWarn: number; darkReject: number; brightWarn: number; brightReject: number };
+  clipping: { warn: number; reject: number };
+  colorCast: { warn: number };
+}
+
+// Tuned on the 256px analysis size; downscaling sharpens, so thresholds are higher than full-resolution values
+const THRESHOLDS: Record<ImageQualityProfile, QualityThresholds> = {
+  face: {
+    minShortSide: { warn: 720, reject: 400 },
+    sharpness: { warn: 90, reject: 35 },
+    luminance: { darkWarn: 85, darkReject: 55, brightWarn: 200, brightReject: 225 },
+    clipping: { warn: 0.15, reject: 0.35 },
+    // Skin pulls gray-world toward red, so only strong casts are flagged
+    colorCast: { warn: 0.3 },
+  },
+  outfit: {
+    minShortSide: { warn: 900, reject: 480 },
+    sharpness: { warn: 70, reject: 25 },
+    luminance: { darkWarn: 75, darkReject: 45, brightWarn: 210, brightReject: 235 },
+    clipping: { warn: 0.2, reject: 0.45 },
+    colorCast: { warn: 0.25 },
+  },
+};
+
+const ANALYSIS_WIDTH = 256;
+
+class ImageQualityAnalyzer {
+  async analyze(imageUri: string, profile: ImageQualityProfile = 'face'): Promise<ImageQualityReport> {
+    return performanceMonitor.measure('analyzeImageQuality', async () => {
+      const pixels = await loadImagePixels(imageUri, ANALYSIS_WIDTH);
+      const report = this.analyzePixels(
+        pixels.data,
+        pixels.width,
+        pixels.height,
+        { width: pixels.originalWidth, height: pixels.originalHeight },
+        profile
+      );
+      logger.debug('ImageQuality: Analysis completed', { profile, verdict: report.verdict, score: report.score });
+      return report;
+    });
+  }
+
+  // Pure pixel pass over an RGBA buffer, kept separate so it can run against decoded fixtures
+  analyzePixels(
+    rgba: Uint8Array,
+    width: number,
+    height: number,
+    original: { width: number; height: number },
+    profile: ImageQualityProfile = 'face'
+  ): ImageQualityReport {
+    const metrics = this.computeMetrics(rgba, width, height, original);
+    const issues = this.evaluate(metrics, THRESHOLDS[profile], profile);
+
+    const penalty = issues.reduce((sum, issue) => sum + (issue.severity === 'reject' ? 35 : 12), 0);
+    const verdict = issues.some(i => i.severity === 'reject') ? 'reject' : issues.length > 0 ? 'warn' : 'good';
+
+    return {
+      verdict,
+      score: Math.max(0, 100 - penalty),
+      metrics,
+      issues,
+      reasons: issues.map(i => i.message),
+    };
+  }
+
+  private computeMetrics(rgba: Uint8Array, width: number, height: number, original: { width: number; height: number }): ImageQualityMetrics {
+    const pixelCount = width * height;
+    const luma = new Float32Array(pixelCount);
+    let sumR = 0;
+    let sumG = 0;
+    let sumB = 0;
+    let sumLuma = 0;
+    let shadows = 0;
+    let highlights = 0;
+
+    for (let i = 0; i < pixelCount; i++) {
+      const r = rgba[i * 4];
+      const g = rgba[i * 4 + 1];
+      const b = rgba[i * 4 + 2];
+      const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      luma[i] = y;
+      sumR += r;
+      sumG += g;
+      sumB += b;
+      sumLuma += y;
+      if (y < 16) shadows++;
+      if (y > 240) highlights++;
+    }
+
+    // 4-neighbour Laplacian; low variance means few edges, i.e. a blurry photo
+    let lapSum = 0;
+    let lapSumSq = 0;
+    let lapCount = 0;
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const lap = luma[i - width] + luma[i + width] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+        lapSum += lap;
+        lapSumSq += lap * lap;
+        lapCount++;
+      }
+    }
+    const lapMean = lapCount > 0 ? lapSum / lapCount : 0;
+    const sharpness = lapCount > 0 ? lapSumSq / lapCount - lapMean * lapMean : 0;
+
+    const meanR = sumR / pixelCount;
+    const meanG = sumG / pixelCount;
+    const meanB = sumB / pixelCount;
+    const gray = (meanR + meanG + meanB) / 3 || 1;
+
+    return {
+      width: original.width,
+      height: original.height,
+      sharpness: Math.round(sharpness),
+      meanLuminance: Math.round(sumLuma / pixelCount),
+      shadowClipping: shadows / pixelCount,
+      highlightClipping: highlights / pixelCount,
+      colorCast: {
+        r: meanR / gray - 1,
+        g: meanG / gray - 1,
+        b: meanB / gray - 1,
+      },
+    };
+  }
+
+  private evaluate(metrics: ImageQualityMetrics, t: QualityThresholds, profile: ImageQualityProfile): ImageQualityIssue[] {
+    const issues: ImageQualityIssue[] = [];
+    const subject = profile === 'face' ? 'your face' : 'your outfit';
+
+    const shortSide = Math.min(metrics.width, metrics.height);
+    if (shortSide < t.minShortSide.reject) {
+      issues.push({ type: 'low-resolution', severity: 'reject', message: `The photo is too small (${metrics.width}×${metrics.height}). Use the camera directly instead of a screenshot or thumbnail.` });
+    } else if (shortSide < t.minShortSide.warn) {
+      issues.push({ type: 'low-resolution', severity: 'warn', message: 'The photo resolution is low. Move closer or use the rear camera for more detail.' });
+    }
+
+    if (metrics.sharpness < t.sharpness.reject) {
+      issues.push({ type: 'blurry', severity: 'reject', message: `The photo is blurry. Hold the phone steady, tap to focus on ${subject} and wipe the lens.` });
+    } else if (metrics.sharpness < t.sharpness.warn) {
+      issues.push({ type: 'blurry', severity: 'warn', message: 'The photo is slightly soft. Brace your arms or use a timer to avoid shake.' });
+    }
+
+    const { darkWarn, darkReject, brightWarn, brightReject } = t.luminance;
+    if (metrics.meanLuminance < darkReject || metrics.shadowClipping > t.clipping.reject) {
+      issues.push({ type: 'underexposed', severity: 'reject', message: 'The photo is too dark. Face a window or turn on a light in front of you.' });
+    } else if (metrics.meanLuminance < darkWarn || metrics.shadowClipping > t.clipping.warn) {
+      issues.push({ type: 'underexposed', severity: 'warn', message: 'Lighting is a bit dim. Brighter, even light will give more accurate results.' });
+    }
+
+    if (metrics.meanLuminance > brightReject || metrics.highlightClipping > t.clipping.reject) {
+      issues.push({ type: 'overexposed', severity: 'reject', message: 'The photo is overexposed. Step out of direct sunlight and turn off the flash.' });
+    } else if (metrics.meanLuminance > brightWarn || metrics.highlightClipping > t.clipping.warn) {
+      issues.push({ type: 'overexposed', severity: 'warn', message: 'Some areas are washed out. Try softer, indirect light.' });
+    }
+
+    const cast = metrics.colorCast;
+    const strongest = (['r', 'g', 'b'] as const).reduce((a, b) => (Math.abs(cast[a]) >= Math.abs(cast[b]) ? a : b));
+    if (Math.abs(cast[strongest]) > t.colorCast.warn) {
+      const tint = strongest === 'b' ? (cast.b > 0 ? 'blue' : 'yellow') : strongest === 'r' ? (cast.r > 0 ? 'orange' : 'cyan') : (cast.g > 0 ? 'green' : 'magenta');
+      issues.push({ type: 'color-cast', severity: 'warn', message: `The photo has a strong ${tint} tint. Use natural daylight rather than colored or mixed indoor lighting.` });
+    }
+
+    return issues;
+  }
+}
+
+export const imageQualityAnalyzer = new ImageQualityAnalyzer();
+
+/**
+ * Runs the quality pre-check and asks the user what to do about a weak photo. Resolves true to go on
+ * with the analysis. Alert.alert is a no-op on web, so there the browser's own dialogs ask instead.
+ */
+export async function confirmImageQuality(imageUri: string, profile: ImageQualityProfile): Promise<boolean> {
+  let report: ImageQualityReport;
+  try {
+    report = await imageQualityAnalyzer.analyze(imageUri, profile);
+  } catch (error) {
+    // The pre-check is best effort; never block analysis because it failed
+    logger.warn('ImageQuality: Check failed', { error: (error as Error).message });
+    return true;
+  }
+
+  if (report.verdict === 'good') return true;
+
+  const reasons = report.reasons.join('\n\n');
+  if (Platform.OS === 'web') {
+    if (report.verdict === 'reject') {
+      window.alert(`Please retake your photo\n\n${reasons}`);
+      return false;
+    }
+    return window.confirm(`${reasons}\n\nResults may be less accurate. Continue anyway?`);
+  }
+
+  return new Promise(resolve => {
+    if (report.verdict === 'reject') {
+      Alert.alert(
+        'Please Retake Your Photo',
+        reasons,
+        [{ text: 'Retake', onPress: () => resolve(false) }],
+        { cancelable: false }
+      );
+    } else {
+      Alert.alert(
+        'Photo Quality',
+        `${reasons}\n\nResults may be less accurate.`,
+        [
+          { text: 'Retake', onPress: () => resolve(false), style: 'cancel' },
+          { text: 'Continue Anyway', onPress: () => resolve(true) },
+        ],
+        { cancelable: false }
+      );
+    }
+  });
+}
+
+export default imageQualityAnalyzer;
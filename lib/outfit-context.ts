@@ -0,0 +1,96 @@
+import { Platform } from 'react-native';
+import * as Location from 'expo-location';
+import { logger } from './logger';
+import { storageService } from './storage';
+import { toDayKey } from './dates';
+import { weatherSources, localWeatherStub, GeoLocation, WeatherForecast } from './weather';
+import { deviceCalendarService, UpcomingEvent } from './device-calendar';
+import { toWeatherContext, OutfitWeatherContext } from './weather-fit';
+
+export interface OutfitDayContext {
+  date: string; // YYYY-MM-DD
+  forecast: WeatherForecast | null;
+  weather: OutfitWeatherContext | null;
+  event: UpcomingEvent | null; // the day's most dress-relevant calendar event
+}
+
+// Used when location permission is denied; only the hemisphere and rough climate matter to the stub
+const DEFAULT_LOCATION: GeoLocation = { latitude: 45, longitude: 0 };
+const FORECAST_CACHE_MS = 3 * 60 * 60 * 1000;
+const LOCATION_CACHE_KEY = 'outfit_context_location';
+
+class OutfitContextService {
+  // Coarse position for the forecast; asks once, then reuses the last fix
+  async getLocation(): Promise<GeoLocation> {
+    const cached = await storageService.get<GeoLocation>(LOCATION_CACHE_KEY);
+    if (cached) return cached;
+    if (Platform.OS === 'web') return DEFAULT_LOCATION;
+
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') return DEFAULT_LOCATION;
+      const position = await Location.getLastKnownPositionAsync()
+        ?? await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Low });
+      // Rounded to ~10km; the forecast needs nothing finer
+      const location = {
+        latitude: Math.round(position.coords.latitude * 10) / 10,
+        longitude: Math.round(position.coords.longitude * 10) / 10,
+      };
+      await storageService.set(LOCATION_CACHE_KEY, location, { expiresIn: 24 * 60 * 60 * 1000 });
+      return location;
+    } catch (error) {
+      logger.warn('Outfit context: Location unavailable, using default', { error: (error as Error).message });
+      return DEFAULT_LOCATION;
+    }
+  }
+
+  async getForecast(date: Date): Promise<WeatherForecast> {
+    const location = await this.getLocation();
+    const cacheKey = `weather_${location.latitude}_${location.longitude}_${toDayKey(date)}`;
+    const cached = await storageService.get<WeatherForecast>(cacheKey);
+    if (cached) return cached;
+
+    let forecast: WeatherForecast;
+    try {
+      forecast = await weatherSources.getForecast(location, date);
+    } catch (error) {
+      logger.warn('Outfit context: All weather sources failed, using local stub', { error: (error as Error).message });
+      forecast = await localWeatherStub.getForecast(location, date);
+    }
+    await storageService.set(cacheKey, forecast, { expiresIn: FORECAST_CACHE_MS });
+    return forecast;
+  }
+
+  // Weather and calendar for one day; each half is best-effort and may be missing
+  async getContext(date: Date = new Date()): Promise<OutfitDayContext> {
+    const [forecast, events] = await Promise.all([
+      this.getForecast(date).catch(error => {
+        logger.warn('Outfit context: Forecast failed', { error: (error as Error).message });
+        return null;
+      }),
+      deviceCalendarService.getEventsOn(date),
+    ]);
+    return {
+      date: toDayKey(date),
+      forecast,
+      weather: forecast ? toWeatherContext(forecast) : null,
+      event: this.pickEvent(events),
+    };
+  }
+
+  async getTomorrowContext(now: Date = new Date()): Promise<OutfitDayContext> {
+    return this.getContext(new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 12));
+  }
+
+  // Events we can dress for beat unrecognized ones; all-day entries like holidays come last
+  private pickEvent(events: UpcomingEvent[]): UpcomingEvent | null {
+    const ranked = [...events].sort((a, b) => {
+      const rank = (e: UpcomingEvent) => (e.eventTypeId ? 0 : 1) + (e.allDay ? 2 : 0);
+      return rank(a) - rank(b);
+    });
+    return ranked[0] ?? null;
+  }
+}
+
+export const outfitContextService = new OutfitContextService();
+export default outfitContextService;
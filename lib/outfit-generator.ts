@@ -0,0 +1,213 @@
+import { computeColorHarmony, estimateOccasionScore } from './scoring-models';
+import { assessWeatherFit, OutfitWeatherContext } from './weather-fit';
+import { evaluateDressCode, itemFormality, DressCode, STYLE_TAG_FORMALITY } from './dress-code';
+import type { WardrobeItem, WardrobeCategory } from './wardrobe';
+
+export interface GeneratedOutfit {
+  id: string; // stable key built from the item ids
+  items: WardrobeItem[];
+  score: number;
+  colorHarmony: number;
+  occasionScore: number;
+  styleFit: number;
+  weatherFit?: number; // only when generated against a forecast
+  reasons: string[];
+}
+
+export interface GenerateOptions {
+  lockedItemId?: string;
+  exclude?: string[]; // outfit ids already shown, so regenerating proposes new looks
+  count?: number;
+  weather?: OutfitWeatherContext | null; // forecast for the day, so looks suit the conditions
+  dressCode?: DressCode | null; // the event's dress code; without one, the event name is matched against style tags
+}
+
+// Candidates kept per category before combining, which bounds the search to a few thousand looks
+const MAX_PER_CATEGORY = 8;
+// Layers and accessories are optional extras, so fewer of each are tried
+const MAX_OPTIONAL_PER_CATEGORY = 3;
+// Looks scoring at least this count as wearable when measuring what the wardrobe can put together
+const WEARABLE_SCORE = 75;
+
+// Style tags that suit an event, best first
+const EVENT_STYLES: { match: string[]; styles: string[] }[] = [
+  { match: ['interview', 'business', 'formal'], styles: ['Formal', 'Business Casual', 'Smart Casual'] },
+  { match: ['date', 'party'], styles: ['Smart Casual', 'Formal', 'Streetwear', 'Casual'] },
+  { match: ['workout'], styles: ['Athletic', 'Casual'] },
+  { match: ['casual', 'travel'], styles: ['Casual', 'Streetwear', 'Smart Casual', 'Athletic'] },
+];
+
+const outfitId = (items: WardrobeItem[]) => items.map(i => i.id).sort().join('+');
+
+function styleFitScore(item: WardrobeItem, event: string, dressCode?: DressCode): number {
+  if (item.occasions.includes(event)) return 100;
+  const tagFormality = STYLE_TAG_FORMALITY[item.styleTag];
+  if (dressCode && tagFormality !== undefined) {
+    return Math.max(40, 100 - Math.abs(tagFormality - dressCode.formality) * 20);
+  }
+  const lower = event.toLowerCase();
+  const styles = EVENT_STYLES.find(e => e.match.some(m => lower.includes(m)))?.styles;
+  if (!styles) return 75;
+  const rank = styles.indexOf(item.styleTag);
+  return rank === -1 ? 50 : 90 - rank * 8;
+}
+
+interface OutfitSlots {
+  locked?: WardrobeItem;
+  bases: WardrobeItem[][];
+  shoeOptions: (WardrobeItem | null)[];
+  layerOptions: (WardrobeItem | null)[];
+  accessoryOptions: (WardrobeItem | null)[];
+}
+
+class OutfitGeneratorService {
+  // Complete looks from the wardrobe: a dress or a top with a bottom, plus shoes and an optional layer
+  generate(wardrobe: WardrobeItem[], event: string, options: GenerateOptions = {}): GeneratedOutfit[] {
+    const { exclude = [], count = 3, weather, dressCode } = options;
+    const { locked, bases, shoeOptions, layerOptions, accessoryOptions } = this.slots(wardrobe, event, options);
+
+    const candidates: GeneratedOutfit[] = [];
+    for (const base of bases) {
+      for (const shoe of shoeOptions) {
+        for (const layer of layerOptions) {
+          for (const accessory of accessoryOptions) {
+            const items = [...base, shoe, layer, accessory].filter((i): i is WardrobeItem => !!i);
+            if (locked && !items.includes(locked)) continue;
+            const id = outfitId(items);
+            if (exclude.includes(id)) continue;
+            candidates.push(this.scoreOutfit(id, items, event, weather ?? undefined, dressCode ?? undefined));
+          }
+        }
+      }
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+
+    // Greedy pick for variety: each look must change at least two pieces from the ones before it
+    const results: GeneratedOutfit[] = [];
+    for (const candidate of candidates) {
+      const distinct = results.every(r => candidate.items.filter(i => !r.items.includes(i)).length >= 2);
+      if (distinct) results.push(candidate);
+      if (results.length >= count) break;
+    }
+    return results;
+  }
+
+  /**
+   * Ids of the core looks (base and shoes) that reach minScore with at least one layer option. Accessories
+   * are left out so a new bracelet doesn't multiply the count; a locked layer is the only layer tried.
+   * A locked top, bottom, dress or shoe fills its slot, so every look returned includes it.
+   */
+  wearableLooks(wardrobe: WardrobeItem[], event: string, options: GenerateOptions = {}, minScore: number = WEARABLE_SCORE): Set<string> {
+    const { weather, dressCode } = options;
+    const { locked, bases, shoeOptions, layerOptions } = this.slots(wardrobe, event, options);
+
+    const wearable = new Set<string>();
+    for (const base of bases) {
+      for (const shoe of shoeOptions) {
+        const core = [...base, shoe].filter((i): i is WardrobeItem => !!i);
+        const id = outfitId(core);
+        for (const layer of layerOptions) {
+          const items = layer ? [...core, layer] : core;
+          if (this.scoreOutfit(id, items, event, weather ?? undefined, dressCode ?? undefined).score >= minScore) {
+            wearable.add(id);
+            break;
+          }
+        }
+      }
+    }
+    return wearable;
+  }
+
+  private slots(wardrobe: WardrobeItem[], event: string, options: GenerateOptions): OutfitSlots {
+    const fitFor = (item: WardrobeItem) => styleFitScore(item, event, options.dressCode ?? undefined);
+    const locked = wardrobe.find(i => i.id === options.lockedItemId);
+
+    const pick = (category: WardrobeCategory, limit = MAX_PER_CATEGORY): WardrobeItem[] => {
+      if (locked?.category === category) return [locked];
+      return wardrobe
+        .filter(i => i.category === category)
+        .sort((a, b) => fitFor(b) - fitFor(a))
+        .slice(0, limit);
+    };
+
+    const tops = pick('top');
+    const bottoms = pick('bottom');
+    const dresses = pick('dress');
+    const shoes = pick('shoes');
+
+    // A locked top or bottom rules out dresses, and a locked dress rules out separates
+    const bases: WardrobeItem[][] = [];
+    if (locked?.category !== 'dress') {
+      for (const top of tops) for (const bottom of bottoms) bases.push([top, bottom]);
+    }
+    if (locked?.category !== 'top' && locked?.category !== 'bottom') {
+      for (const dress of dresses) bases.push([dress]);
+    }
+
+    // Optional slots include "none", except when the locked item lives there
+    const optional = (category: WardrobeCategory): (WardrobeItem | null)[] => {
+      const items = pick(category, MAX_OPTIONAL_PER_CATEGORY);
+      return locked?.category === category ? items : [null, ...items];
+    };
+
+    return {
+      locked,
+      bases,
+      // Shoes are only left out when the wardrobe has none
+      shoeOptions: shoes.length > 0 ? shoes : [null],
+      layerOptions: optional('outerwear'),
+      accessoryOptions: optional('accessory'),
+    };
+  }
+
+  // Which categories are missing for a complete look, so the UI can say what to add
+  missingCategories(wardrobe: WardrobeItem[]): WardrobeCategory[] {
+    const has = (category: WardrobeCategory) => wardrobe.some(i => i.category === category);
+    const missing: WardrobeCategory[] = [];
+    if (!has('dress')) {
+      if (!has('top')) missing.push('top');
+      if (!has('bottom')) missing.push('bottom');
+    }
+    if (!has('shoes')) missing.push('shoes');
+    return missing;
+  }
+
+  private scoreOutfit(
+    id: string,
+    items: WardrobeItem[],
+    event: string,
+    weather?: OutfitWeatherContext,
+    dressCode?: DressCode
+  ): GeneratedOutfit {
+    const colorHarmony = computeColorHarmony(items.map(i => i.colorHex));
+    // Wardrobe items know their category, and their style tag stands in when the name says nothing about formality
+    const dressCodeFit = dressCode
+      ? evaluateDressCode(
+          dressCode,
+          items.map(i => ({ name: i.name, category: i.category, formality: itemFormality(i.name) ?? STYLE_TAG_FORMALITY[i.styleTag] ?? null })),
+          items.map(i => i.colorHex)
+        )
+      : null;
+    const occasionScore = dressCodeFit ? dressCodeFit.score : estimateOccasionScore(event, items.map(i => i.name));
+    const styleFit = Math.round(items.reduce((sum, i) => sum + styleFitScore(i, event, dressCode), 0) / items.length);
+    const fit = weather ? assessWeatherFit(items.map(i => i.name), items.map(i => i.colorHex), weather) : null;
+    const score = fit
+      ? Math.round(colorHarmony * 0.3 + occasionScore * 0.3 + styleFit * 0.25 + fit.score * 0.15)
+      : Math.round(colorHarmony * 0.35 + occasionScore * 0.35 + styleFit * 0.3);
+
+    const reasons: string[] = [];
+    if (colorHarmony >= 80) reasons.push('Colors work well together');
+    if (occasionScore >= 80) reasons.push(`Right level of dress for ${event}`);
+    if (items.some(i => i.occasions.includes(event))) reasons.push(`Includes pieces you've worn or tagged for ${event}`);
+    if (styleFit < 60) reasons.push('Some pieces are more casual or dressy than this event usually calls for');
+    if (dressCodeFit) reasons.push(...dressCodeFit.issues);
+    if (fit && fit.issues.length === 0 && fit.score >= 85) reasons.push('Suits the forecast');
+    if (fit) reasons.push(...fit.issues);
+
+    return { id, items, score, colorHarmony, occasionScore, styleFit, weatherFit: fit?.score, reasons };
+  }
+}
+
+export const outfitGeneratorService = new OutfitGeneratorService();
+export default outfitGeneratorService;
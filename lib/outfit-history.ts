@@ -0,0 +1,251 @@
+import { logger } from './logger';
+import { storageService } from './storage';
+import { errorHandler } from './error-handler';
+import { persistThumbnail, deleteThumbnail } from './thumbnails';
+import { aiService, OutfitAnalysisResult } from './ai-service';
+import { hexToLab, deltaE } from './color-science';
+import { toDayKey } from './dates';
+import { tryOnService, TryOnVariation } from './try-on';
+import type { UpcomingEvent } from './device-calendar';
+import type { WardrobeCategory, WardrobeItem } from './wardrobe';
+
+// The calendar occurrence a look was worn to, so repeats can be spotted across a recurring series
+export interface LookCalendarEvent {
+  seriesId: string;
+  title: string;
+  recurring: boolean;
+}
+
+export interface OutfitLookRecord {
+  id: string;
+  createdAt: string;
+  wornOn: string; // YYYY-MM-DD, local
+  imageUri: string;
+  thumbnailUri: string;
+  eventTypeId: string;
+  eventLabel: string;
+  calendarEvent?: LookCalendarEvent;
+  itemIds: string[]; // wardrobe items, once the look has been saved to the wardrobe
+  result: OutfitAnalysisResult;
+  tryOns?: TryOnVariation[]; // generated previews of the analysis's suggestions, newest first
+}
+
+export interface NewLook {
+  result: OutfitAnalysisResult;
+  imageUri: string;
+  eventTypeId: string;
+  eventLabel: string;
+  calendarEvent?: UpcomingEvent | null;
+}
+
+// A garment reduced to what makes two outfits look the same
+export interface LookGarment {
+  category: WardrobeCategory;
+  colorHex: string;
+}
+
+export interface RepeatWarning {
+  look: OutfitLookRecord;
+  overlap: number; // 0-1 share of garments in common
+}
+
+export interface WearStats {
+  mostWorn: WardrobeItem[];
+  leastWorn: WardrobeItem[];
+}
+
+// The history holds the looks without their analyses; each analysis is stored under its own key, so no
+// single value outgrows Android's ~2 MB AsyncStorage row
+const HISTORY_KEY = 'outfit_history';
+const RESULT_KEY_PREFIX = 'outfit_look_result_';
+const MAX_LOOKS = 300;
+// Same category and a color within this distance counts as the same piece
+const SAME_GARMENT_DELTA_E = 12;
+const REPEAT_OVERLAP = 0.75;
+
+// Looks saved before analyses had their own keys still carry them inline
+type StoredLook = Omit<OutfitLookRecord, 'result'> & { result?: OutfitAnalysisResult };
+
+const resultKey = (lookId: string) => `${RESULT_KEY_PREFIX}${lookId}`;
+
+class OutfitHistoryService {
+  async getLooks(userId: string): Promise<OutfitLookRecord[]> {
+    const stored = (await storageService.getUserData<StoredLook[]>(userId, HISTORY_KEY)) ?? [];
+    const looks = await Promise.all(stored.map(async look => {
+      const result = look.result ?? (await storageService.getUserData<OutfitAnalysisResult>(userId, resultKey(look.id)));
+      return result ? { ...look, result } : null;
+    }));
+    const sorted = looks
+      .filter((look): look is OutfitLookRecord => look !== null)
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+
+    // Moves inline analyses out of the history the first time it's read
+    const inline = new Set(stored.filter(look => look.result).map(look => look.id));
+    const legacy = sorted.filter(look => inline.has(look.id));
+    if (legacy.length > 0) {
+      await this.save(userId, sorted, legacy);
+      logger.info('OutfitHistory: Moved look analyses to their own keys', { userId, count: legacy.length });
+    }
+    return sorted;
+  }
+
+  async addLook(userId: string, look: NewLook): Promise<OutfitLookRecord> {
+    try {
+      const id = `look_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+      const now = new Date();
+      const record: OutfitLookRecord = {
+        id,
+        createdAt: now.toISOString(),
+        wornOn: toDayKey(now),
+        imageUri: look.imageUri,
+        thumbnailUri: await persistThumbnail('lookbook', id, look.imageUri),
+        eventTypeId: look.eventTypeId,
+        eventLabel: look.eventLabel,
+        calendarEvent: look.calendarEvent
+          ? { seriesId: look.calendarEvent.seriesId, title: look.calendarEvent.title, recurring: look.calendarEvent.recurring }
+          : undefined,
+        itemIds: [],
+        result: look.result,
+      };
+
+      const looks = await this.getLooks(userId);
+      const updated = [record, ...looks].slice(0, MAX_LOOKS);
+      await this.save(userId, updated, [record]);
+      await Promise.all(looks.slice(MAX_LOOKS - 1).map(l => storageService.removeUserData(userId, resultKey(l.id))));
+
+      logger.info('OutfitHistory: Look recorded', { userId, lookId: id, total: updated.length });
+      return record;
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'outfit-history', 'addLook', { userId });
+      throw error;
+    }
+  }
+
+  // Links a look to the wardrobe pieces it was saved as
+  async setLookItems(userId: string, lookId: string, itemIds: string[]): Promise<void> {
+    const looks = await this.getLooks(userId);
+    await this.save(userId, looks.map(l => (l.id === lookId ? { ...l, itemIds } : l)));
+  }
+
+  // Adds a preview to the look's gallery; regenerating the same suggestion replaces the old entry
+  async addTryOn(userId: string, lookId: string, variation: TryOnVariation): Promise<void> {
+    const looks = await this.getLooks(userId);
+    await this.save(userId, looks.map(l => (l.id === lookId
+      ? { ...l, tryOns: [variation, ...(l.tryOns ?? []).filter(t => t.id !== variation.id)] }
+      : l)));
+  }
+
+  async removeLook(userId: string, lookId: string): Promise<void> {
+    const looks = await this.getLooks(userId);
+    const target = looks.find(l => l.id === lookId);
+    const remaining = looks.filter(l => l.id !== lookId);
+    await this.save(userId, remaining);
+    await storageService.removeUserData(userId, resultKey(lookId));
+    // Previews are cached by prompt, so another look may share one
+    const shared = new Set(remaining.flatMap(l => (l.tryOns ?? []).map(t => t.id)));
+    await tryOnService.deleteImages((target?.tryOns ?? []).filter(t => !shared.has(t.id)));
+    if (target) await deleteThumbnail(target.thumbnailUri, target.imageUri);
+  }
+
+  // Same as scan history: saved looks move onto the current outfit model when their features were stored
+  async rescoreOutdatedLooks(userId: string): Promise<number> {
+    try {
+      const looks = await this.getLooks(userId);
+      const rescored: OutfitLookRecord[] = [];
+      const updated = looks.map(look => {
+        const result = aiService.rescoreOutfit(look.result);
+        if (result === look.result) return look;
+        const record = { ...look, result };
+        rescored.push(record);
+        return record;
+      });
+      if (rescored.length > 0) {
+        await this.save(userId, updated, rescored);
+        logger.info('OutfitHistory: Re-scored looks with current model', { userId, rescored: rescored.length });
+      }
+      return rescored.length;
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'outfit-history', 'rescoreOutdatedLooks', { userId });
+      return 0;
+    }
+  }
+
+  groupByDay(looks: OutfitLookRecord[]): Record<string, OutfitLookRecord[]> {
+    const days: Record<string, OutfitLookRecord[]> = {};
+    for (const look of looks) {
+      (days[look.wornOn] ??= []).push(look);
+    }
+    return days;
+  }
+
+  garmentsOf(look: OutfitLookRecord): LookGarment[] {
+    return (look.result.garments ?? []).map(g => ({ category: g.category, colorHex: g.colorHex }));
+  }
+
+  // Share of the new outfit's garments that also appeared in the earlier one
+  overlap(next: LookGarment[], previous: LookGarment[]): number {
+    if (next.length === 0 || previous.length === 0) return 0;
+    const remaining = previous.map(g => ({ category: g.category, lab: hexToLab(g.colorHex) }));
+    let shared = 0;
+    for (const garment of next) {
+      const lab = hexToLab(garment.colorHex);
+      const index = remaining.findIndex(r => r.category === garment.category && deltaE(r.lab, lab) < SAME_GARMENT_DELTA_E);
+      if (index !== -1) {
+        shared++;
+        remaining.splice(index, 1);
+      }
+    }
+    return shared / Math.max(next.length, previous.length);
+  }
+
+  /**
+   * The most recent look with nearly the same garments worn to the same recurring event: the same
+   * calendar series when both are linked to one, otherwise the same user-defined event type.
+   */
+  findRepeat(
+    looks: OutfitLookRecord[],
+    garments: LookGarment[],
+    event: { eventTypeId: string; custom?: boolean; seriesId?: string | null },
+    excludeLookId?: string
+  ): RepeatWarning | null {
+    if (garments.length < 2) return null;
+    for (const look of looks) {
+      if (look.id === excludeLookId) continue;
+      const sameEvent = event.seriesId && look.calendarEvent
+        ? look.calendarEvent.seriesId === event.seriesId
+        : !!event.custom && look.eventTypeId === event.eventTypeId;
+      if (!sameEvent) continue;
+      const overlap = this.overlap(garments, this.garmentsOf(look));
+      if (overlap >= REPEAT_OVERLAP) return { look, overlap };
+    }
+    return null;
+  }
+
+  // Worn pieces by count; the least worn are the ones sitting longest without a wear
+  getWearStats(items: WardrobeItem[], count: number = 3): WearStats {
+    const mostWorn = items
+      .filter(i => i.timesWorn > 0)
+      .sort((a, b) => b.timesWorn - a.timesWorn)
+      .slice(0, count);
+    const leastWorn = items
+      .filter(i => !mostWorn.includes(i))
+      .sort((a, b) =>
+        a.timesWorn - b.timesWorn ||
+        Date.parse(a.lastWornAt ?? a.createdAt) - Date.parse(b.lastWornAt ?? b.createdAt)
+      )
+      .slice(0, count);
+    return { mostWorn, leastWorn };
+  }
+
+  // Writes the history and the analyses of `changed`; the other looks' analyses are already stored
+  private async save(userId: string, looks: OutfitLookRecord[], changed: OutfitLookRecord[] = []): Promise<void> {
+    await Promise.all(changed.map(look =>
+      storageService.setUserData(userId, resultKey(look.id), look.result, { persistent: true })
+    ));
+    const index: StoredLook[] = looks.map(({ result: _result, ...look }) => look);
+    await storageService.setUserData(userId, HISTORY_KEY, index, { persistent: true });
+  }
+}
+
+export const outfitHistoryService = new OutfitHistoryService();
+export default outfitHistoryService;
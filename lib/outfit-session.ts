@@ -0,0 +1,145 @@
+import type { VisionAnalysis, VisionColor, VisionObject } from './vision-providers';
+import type { DetectedGarment } from './wardrobe';
+import { rgbToLab, deltaE } from './color-science';
+
+export type OutfitShotKind = 'front' | 'back' | 'shoes' | 'accessories';
+
+export interface OutfitShot {
+  id: string;
+  kind: OutfitShotKind;
+  imageUri: string;
+}
+
+export interface OutfitShotSummary {
+  kind: OutfitShotKind;
+  imageUri: string;
+  detectedItems: string[];
+}
+
+export interface AnalyzedOutfitShot {
+  shot: OutfitShot;
+  vision: VisionAnalysis;
+}
+
+export const OUTFIT_SHOT_KINDS: { kind: OutfitShotKind; label: string; hint: string }[] = [
+  { kind: 'front', label: 'Front', hint: 'Full outfit, head to toe' },
+  { kind: 'back', label: 'Back', hint: 'Full outfit from behind' },
+  { kind: 'shoes', label: 'Shoes', hint: 'Close-up of your footwear' },
+  { kind: 'accessories', label: 'Accessories', hint: 'Bag, jewelry or other details' },
+];
+
+// Close-ups fill the frame with one garment, so their colors would otherwise outweigh the full-body shots
+const COLOR_WEIGHTS: Record<OutfitShotKind, number> = {
+  front: 1,
+  back: 0.7,
+  shoes: 0.35,
+  accessories: 0.25,
+};
+
+// Colors closer than this are treated as the same garment color seen in different shots
+const SAME_COLOR_DELTA_E = 12;
+
+export const createOutfitShot = (kind: OutfitShotKind, imageUri: string): OutfitShot => ({
+  id: `shot_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+  kind,
+  imageUri,
+});
+
+// "Shoes" in one shot and "Shoe" in another are the same item
+const itemKey = (name: string) => {
+  const lower = name.trim().toLowerCase();
+  return lower.endsWith('s') && !lower.endsWith('ss') ? lower.slice(0, -1) : lower;
+};
+
+export function dedupeItems(items: string[]): string[] {
+  const seen = new Map<string, string>();
+  for (const item of items) {
+    const key = itemKey(item);
+    if (!seen.has(key)) seen.set(key, item);
+  }
+  return Array.from(seen.values());
+}
+
+// Keeps the first sighting of each garment, so callers should pass the main shot's garments first
+export function dedupeGarments(garments: DetectedGarment[]): DetectedGarment[] {
+  const seen = new Set<string>();
+  return garments.filter(garment => {
+    const key = itemKey(garment.name);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * One object per item with the best score from any shot. Boxes are only comparable within one image, so
+ * the box always comes from the primary shot (its best detection of the item), whatever order the shots
+ * arrive in; close-ups only contribute names and scores.
+ */
+function mergeObjects(shots: AnalyzedOutfitShot[], primary: AnalyzedOutfitShot): VisionObject[] {
+  const byKey = new Map<string, VisionObject>();
+  const primaryScores = new Map<string, number>();
+  for (const entry of shots) {
+    for (const object of entry.vision.objects) {
+      const key = itemKey(object.name);
+      const existing = byKey.get(key);
+      let boundingBox = existing?.boundingBox;
+      if (entry === primary && object.score > (primaryScores.get(key) ?? -Infinity)) {
+        primaryScores.set(key, object.score);
+        boundingBox = object.boundingBox;
+      }
+      const best = existing && existing.score >= object.score ? existing : object;
+      byKey.set(key, { name: best.name, score: best.score, boundingBox });
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+function mergeColors(shots: AnalyzedOutfitShot[]): VisionColor[] {
+  const merged: { color: VisionColor; lab: ReturnType<typeof rgbToLab>; weight: number }[] = [];
+  for (const { shot, vision } of shots) {
+    const shotWeight = COLOR_WEIGHTS[shot.kind];
+    for (const color of vision.colors) {
+      const weight = color.pixelFraction * shotWeight;
+      const lab = rgbToLab(color.r, color.g, color.b);
+      const match = merged.find(m => deltaE(m.lab, lab) < SAME_COLOR_DELTA_E);
+      if (match) {
+        // Keep the swatch from whichever shot showed the color most
+        if (weight > match.weight) {
+          match.color = color;
+          match.lab = lab;
+        }
+        match.weight += weight;
+      } else {
+        merged.push({ color, lab, weight });
+      }
+    }
+  }
+
+  const total = merged.reduce((sum, m) => sum + m.weight, 0) || 1;
+  return merged
+    .sort((a, b) => b.weight - a.weight)
+    .map(m => ({ ...m.color, pixelFraction: m.weight / total }));
+}
+
+// Combines per-shot detections into one analysis, as if the whole outfit had been seen in a single photo
+export function mergeShotAnalyses(shots: AnalyzedOutfitShot[]): VisionAnalysis {
+  if (shots.length === 1) return shots[0].vision;
+
+  const primary = shots.find(s => s.shot.kind === 'front') ?? shots[0];
+  const reasons = shots.flatMap(s => s.vision.quality?.reasons ?? []);
+  return {
+    provider: primary.vision.provider,
+    faces: primary.vision.faces,
+    colors: mergeColors(shots),
+    objects: mergeObjects(shots, primary),
+    // Keypoints only line up with the boxes they were measured alongside
+    pose: primary.vision.pose,
+    quality: shots.some(s => s.vision.quality)
+      ? {
+          rating: shots.some(s => s.vision.quality?.rating === 'bad') ? 'bad' : 'good',
+          reasons: Array.from(new Set(reasons)),
+        }
+      : undefined,
+  };
+}
@@ -0,0 +1,207 @@
+import { logger } from './logger';
+import { errorHandler } from './error-handler';
+import { glowPlanService, ActivePlan } from './glow-plan';
+import { todayKey, planDayOn, dateOfPlanDay, isPausedOn } from './plan-calendar';
+import { range } from './dates';
+import type { GlowUpDayTask, PlanAdaptation, PlanAdjustment } from '../types';
+
+// Missed days the user hasn't decided about yet
+export interface MissedDaysReview {
+  missed: number[]; // past days with nothing done
+  partial: number[]; // past days with some tasks left undone
+  gap: number[]; // the untouched run of days up to yesterday, which a pause or an extension can absorb
+}
+
+export interface TaskMove {
+  title: string;
+  from: number;
+  to: number;
+}
+
+export const ADJUSTMENT_LABELS: Record<PlanAdjustment, { title: string; description: string }> = {
+  pause: {
+    title: 'Pause',
+    description: 'Count the missed days as a break and keep the plan paused until you resume',
+  },
+  extend: {
+    title: 'Extend',
+    description: 'Pick up today where you left off; the end date moves back',
+  },
+  compress: {
+    title: 'Keep end date',
+    description: 'Skip the missed days and fit their mask and workouts into the days ahead',
+  },
+};
+
+// Plans saved before tasks recorded their rhythm still have these on a cadence
+const KNOWN_RHYTHMS: Record<string, number> = {
+  'Weekly Face Mask': 7,
+  'Light Exercise': 3,
+};
+
+export const taskRhythm = (task: GlowUpDayTask): number | undefined => task.rhythm_days ?? KNOWN_RHYTHMS[task.title];
+
+/**
+ * Moves undone rhythmic tasks from past days to the first day ahead that keeps their cadence: at least
+ * half a rhythm from the neighbouring occurrences, within one rhythm of today and before the next one.
+ * A weekly mask missed late in the week is dropped instead, since next week's mask already covers it.
+ * Only the days in `from` are considered.
+ */
+export function redistributeTasks(
+  tasks: GlowUpDayTask[],
+  from: number[],
+  today: number,
+  totalDays: number
+): { tasks: GlowUpDayTask[]; moves: TaskMove[] } {
+  let result = tasks;
+  const moves: TaskMove[] = [];
+  const candidates = tasks
+    .filter(task => !task.completed && from.includes(task.day) && taskRhythm(task))
+    .sort((a, b) => a.day - b.day);
+
+  for (const task of candidates) {
+    const rhythm = taskRhythm(task)!;
+    const minGap = Math.ceil(rhythm / 2);
+    // Past occurrences that weren't done don't hold the cadence
+    const siblings = result
+      .filter(other => other.id !== task.id && other.title === task.title && (other.completed || other.day >= today))
+      .map(other => other.day);
+    // Never past the next occurrence, which would swap the two rather than catch up
+    const next = Math.min(...siblings.filter(d => d >= today));
+    const target = range(today, Math.min(totalDays, today + rhythm - 1, next - 1)).find(day => {
+      const before = siblings.filter(d => d < day);
+      return (before.length === 0 || day - Math.max(...before) >= minGap) && next - day >= minGap;
+    });
+    if (target === undefined) continue;
+
+    moves.push({ title: task.title, from: task.day, to: target });
+    result = result.map(t => (t.id === task.id ? { ...t, day: target, rescheduled_from: t.rescheduled_from ?? t.day } : t));
+  }
+
+  return { tasks: result, moves };
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+function adjustmentNote(choice: PlanAdjustment, review: MissedDaysReview, start: string | null): string {
+  if (!start || choice === 'compress') {
+    return `Kept the end date after ${plural(review.missed.length, 'missed day')}`;
+  }
+  return choice === 'pause'
+    ? `Paused from ${start}, after ${plural(review.gap.length, 'missed day')}`
+    : `Extended by ${plural(review.gap.length, 'day')}, picking up where the plan stopped on ${start}`;
+}
+
+class PlanAdaptationService {
+  /**
+   * Past days since the last decision that were missed or only partly done, or null when there are none
+   * or the plan is paused. Days with no tasks don't count as missed but don't break a gap either.
+   */
+  review(active: ActivePlan, now: Date = new Date()): MissedDaysReview | null {
+    const { plan, tasks } = active;
+    const today = todayKey(now);
+    if (isPausedOn(plan, today, today)) return null;
+
+    const todayIndex = Math.min(planDayOn(plan, today, today), plan.progress.total_days + 1);
+    const days = range((plan.reviewed_through ?? 0) + 1, todayIndex - 1)
+      .filter(day => glowPlanService.tasksForDay(tasks, day).length > 0);
+    const missed = days.filter(day => glowPlanService.dayStatus(active, day, now) === 'missed');
+    const partial = days.filter(day => glowPlanService.dayStatus(active, day, now) === 'partial');
+    if (missed.length === 0 && partial.length === 0) return null;
+
+    const gap: number[] = [];
+    for (let day = todayIndex - 1; day > (plan.reviewed_through ?? 0); day--) {
+      if (glowPlanService.tasksForDay(tasks, day).some(task => task.completed)) break;
+      gap.unshift(day);
+    }
+
+    return { missed, partial, gap: gap.some(day => missed.includes(day)) ? gap : [] };
+  }
+
+  /**
+   * Applies the user's choice for the missed run. Pause and extend turn the run into a pause that started
+   * on its first day, open or ending today, so its tasks are still ahead; compress leaves the calendar
+   * alone and lets the run's rhythmic tasks be redistributed.
+   */
+  async adjust(userId: string, choice: PlanAdjustment, now: Date = new Date()): Promise<ActivePlan | null> {
+    try {
+      const updated = await glowPlanService.updatePlan(userId, active => {
+        const review = this.review(active, now);
+        if (!review) return active;
+
+        const today = todayKey(now);
+        const { plan } = active;
+        const start = review.gap.length > 0 ? dateOfPlanDay(plan, review.gap[0], today) : null;
+        const paused = start && choice !== 'compress'
+          ? [...plan.paused, choice === 'pause' ? { start_day: start } : { start_day: start, end_day: today }]
+          : plan.paused;
+        const adjusted = { ...plan, paused };
+        const adaptation: PlanAdaptation = {
+          at: now.toISOString(),
+          kind: choice,
+          days: [...review.missed, ...review.partial].sort((a, b) => a - b),
+          note: adjustmentNote(choice, review, start),
+        };
+
+        return {
+          tasks: active.tasks,
+          plan: {
+            ...adjusted,
+            reviewed_through: planDayOn(adjusted, today, today) - 1,
+            adaptations: [...(plan.adaptations ?? []), adaptation],
+          },
+        };
+      });
+      logger.info('PlanAdaptation: Adjusted', { userId, choice });
+      return (await this.redistribute(userId, now)) ?? updated;
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'plan-adaptation', 'adjust', { userId, choice });
+      throw error;
+    }
+  }
+
+  /**
+   * Run when the plan is opened. Rhythmic tasks left undone on past days move ahead, except on the
+   * untouched run still waiting for the user's decision, since pausing or extending puts those back
+   * in the future.
+   */
+  async redistribute(userId: string, now: Date = new Date()): Promise<ActivePlan | null> {
+    try {
+      const active = await glowPlanService.getActivePlan(userId);
+      if (!active) return null;
+
+      const today = todayKey(now);
+      const todayIndex = Math.max(1, planDayOn(active.plan, today, today));
+      const pending = this.review(active, now)?.gap ?? [];
+      const result = redistributeTasks(
+        active.tasks,
+        range(1, todayIndex - 1).filter(day => !pending.includes(day)),
+        todayIndex,
+        active.plan.progress.total_days
+      );
+      const { moves } = result;
+      if (moves.length === 0) return active;
+
+      const updated = await glowPlanService.updatePlan(userId, current => ({
+        tasks: result.tasks,
+        plan: {
+          ...current.plan,
+          adaptations: [...(current.plan.adaptations ?? []), {
+            at: now.toISOString(),
+            kind: 'redistribute',
+            days: Array.from(new Set(moves.map(move => move.from))),
+            note: moves.map(move => `${move.title} moved from day ${move.from} to day ${move.to}`).join('; '),
+          }],
+        },
+      }));
+      logger.info('PlanAdaptation: Redistributed tasks', { userId, moves: moves.length });
+      return updated;
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'plan-adaptation', 'redistribute', { userId });
+      throw error;
+    }
+  }
+}
+
+export const planAdaptationService = new PlanAdaptationService();
+export default planAdaptationService;
@@ -0,0 +1,100 @@
+import { toDayKey } from './dates';
+import type { GlowUpPlan, PlanPause } from '../types';
+
+// A calendar date with no time or zone, YYYY-MM-DD
+export type DayKey = string;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Day keys are compared as UTC midnights, where every day is exactly 24 hours
+const keyToUtc = (key: DayKey) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+export function currentTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+// The calendar date an instant falls on in a time zone; the device's own zone when none is given or it's unknown
+export function dayKeyInZone(date: Date, timeZone?: string): DayKey {
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+        .formatToParts(date);
+      const part = (type: string) => parts.find(p => p.type === type)?.value;
+      return `${part('year')}-${part('month')}-${part('day')}`;
+    } catch {
+      // Fall through to the device's zone
+    }
+  }
+  return toDayKey(date);
+}
+
+export const todayKey = (now: Date = new Date()) => dayKeyInZone(now);
+
+export const daysBetween = (from: DayKey, to: DayKey) => Math.round((keyToUtc(to) - keyToUtc(from)) / DAY_MS);
+
+export function addDaysToKey(key: DayKey, days: number): DayKey {
+  const date = new Date(keyToUtc(key) + days * DAY_MS);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+// Local midnight of a day key, for display
+export function keyToDate(key: DayKey): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// An open pause runs through today, so the plan can resume tomorrow at the earliest
+const pauseEnd = (pause: PlanPause, today: DayKey) => pause.end_day ?? addDaysToKey(today, 1);
+
+export function isPausedOn(plan: GlowUpPlan, key: DayKey, today: DayKey = todayKey()): boolean {
+  return plan.paused.some(p => key >= p.start_day && key < pauseEnd(p, today));
+}
+
+/**
+ * The plan day a calendar date falls on: calendar days since the start, less the paused ones. A paused
+ * date gets the day the plan resumes on. Not clamped, so dates before the start or after the end go
+ * below 1 or above the plan's length.
+ */
+export function planDayOn(plan: GlowUpPlan, key: DayKey, today: DayKey = todayKey()): number {
+  const paused = plan.paused.reduce((sum, p) => {
+    const from = p.start_day > plan.start_day ? p.start_day : plan.start_day;
+    const to = pauseEnd(p, today) < key ? pauseEnd(p, today) : key;
+    return sum + Math.max(0, daysBetween(from, to));
+  }, 0);
+  return daysBetween(plan.start_day, key) - paused + 1;
+}
+
+// The calendar date of a plan day, pushed back by every pause that starts on or before it
+export function dateOfPlanDay(plan: GlowUpPlan, day: number, today: DayKey = todayKey()): DayKey {
+  let key = addDaysToKey(plan.start_day, day - 1);
+  for (const pause of plan.paused.slice().sort((a, b) => a.start_day.localeCompare(b.start_day))) {
+    if (pause.start_day <= key) {
+      key = addDaysToKey(key, daysBetween(pause.start_day, pauseEnd(pause, today)));
+    }
+  }
+  return key;
+}
+
+export const planEndDay = (plan: GlowUpPlan, today: DayKey = todayKey()) =>
+  dateOfPlanDay(plan, plan.progress.total_days, today);
+
+// Whole weeks from the Sunday on or before the start to the Saturday on or after the end
+export function planCalendarWeeks(plan: GlowUpPlan, today: DayKey = todayKey()): DayKey[][] {
+  const first = addDaysToKey(plan.start_day, -keyToDate(plan.start_day).getDay());
+  const end = planEndDay(plan, today);
+  const last = addDaysToKey(end, 6 - keyToDate(end).getDay());
+  const weeks: DayKey[][] = [];
+  for (let key = first; key <= last; key = addDaysToKey(key, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => addDaysToKey(key, i)));
+  }
+  return weeks;
+}
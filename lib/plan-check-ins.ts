@@ -0,0 +1,198 @@
+import { logger } from './logger';
+import { errorHandler } from './error-handler';
+import { glowPlanService, ActivePlan, PlanAnalysisData, getSkincareRecommendation, routineSlot } from './glow-plan';
+import { todayKey, planDayOn, isPausedOn } from './plan-calendar';
+import { range } from './dates';
+import type { GlowScanRecord } from './scan-history';
+import type { GlowUpDayTask, GlowUpPlan, PlanAdaptation, PlanCheckIn, PlanFocusMetric } from '../types';
+
+export const CHECK_IN_EVERY_DAYS = 7;
+
+// Smaller changes are scan-to-scan noise rather than progress
+const IMPROVED_BY = 5;
+// Where getSkincareRecommendation stops adding a product for the metric
+const TARGET_SCORE = 70;
+
+const FOCUS_METRICS: PlanFocusMetric[] = ['hydration', 'brightness'];
+
+const FOCUS_LABELS: Record<PlanFocusMetric, string> = {
+  hydration: 'Hydration',
+  brightness: 'Brightness',
+};
+
+// A weekly treatment for a metric that stalled, on a weekday clear of the mask (day 7 of each week)
+const FOCUS_TASKS: Record<PlanFocusMetric, { weekday: number; task: Pick<GlowUpDayTask, 'title' | 'description' | 'type' | 'product_suggestion'> }> = {
+  brightness: {
+    weekday: 3,
+    task: {
+      title: 'Brightening Treatment',
+      description: "Swap tonight's retinol for a gentle exfoliating toner to lift dullness",
+      type: 'skincare',
+      product_suggestion: 'Lactic or mandelic acid toner',
+    },
+  },
+  hydration: {
+    weekday: 5,
+    task: {
+      title: 'Hydration Boost',
+      description: 'Layer a hydrating essence under your moisturizer and seal it in with an overnight mask',
+      type: 'skincare',
+      product_suggestion: 'Hydrating essence + overnight sleeping mask',
+    },
+  },
+};
+
+type Reading = Pick<PlanCheckIn, 'overallScore' | 'hydration' | 'brightness'>;
+
+type MetricTrend = 'improved' | 'on-target' | 'stalled';
+
+export interface CheckInOutcome {
+  active: ActivePlan;
+  entry: PlanAdaptation;
+}
+
+// The last check-in, or the scan the plan started from
+function baselineReading(plan: GlowUpPlan): Reading | null {
+  const last = plan.check_ins?.[plan.check_ins.length - 1];
+  if (last) return last;
+  const { analysis_data: data } = plan;
+  return data ? { overallScore: data.overallScore, hydration: data.hydration, brightness: data.brightness } : null;
+}
+
+function metricTrend(before: number | undefined, after: number): MetricTrend {
+  if (before !== undefined && after - before >= IMPROVED_BY) return 'improved';
+  return after >= TARGET_SCORE ? 'on-target' : 'stalled';
+}
+
+function describeTrend(metric: PlanFocusMetric, trend: MetricTrend, before: number | undefined, after: number): string {
+  const label = FOCUS_LABELS[metric];
+  if (before === undefined) return `${label} is at ${after}`;
+  if (trend === 'improved') return `${label} improved ${before} → ${after}`;
+  if (trend === 'on-target') return `${label} is on target at ${after}`;
+  return after < before ? `${label} dropped ${before} → ${after}` : `${label} hasn't moved (${before} → ${after})`;
+}
+
+class PlanCheckInService {
+  nextCheckInDay(plan: GlowUpPlan): number {
+    return (plan.check_ins?.[plan.check_ins.length - 1]?.day ?? 1) + CHECK_IN_EVERY_DAYS;
+  }
+
+  // A week since the start or the last check-in, while the plan is running
+  isDue(active: ActivePlan, now: Date = new Date()): boolean {
+    const { plan } = active;
+    const today = todayKey(now);
+    const day = planDayOn(plan, today, today);
+    return !isPausedOn(plan, today, today) && day >= this.nextCheckInDay(plan) && day <= plan.progress.total_days;
+  }
+
+  /**
+   * Records a scan as the plan's check-in when one is due. Hydration and brightness are compared with
+   * the last reading: a metric that stalled below target becomes a focus, which strengthens its
+   * products in the remaining skincare tasks and adds a weekly treatment for it; one that improved
+   * drops its focus. The changelog entry says what moved and what the plan changed in response.
+   */
+  async recordCheckIn(userId: string, scan: GlowScanRecord, now: Date = new Date()): Promise<CheckInOutcome | null> {
+    try {
+      const current = await glowPlanService.getActivePlan(userId);
+      if (!current || !this.isDue(current, now)) return null;
+
+      const active = await glowPlanService.updatePlan(userId, ({ plan, tasks }) => {
+        const today = todayKey(now);
+        const day = planDayOn(plan, today, today);
+        const before = baselineReading(plan);
+        const after: Reading = {
+          overallScore: scan.result.overallScore,
+          hydration: scan.result.hydration,
+          brightness: scan.result.brightness,
+        };
+
+        const trends = FOCUS_METRICS.map(metric => {
+          const trend = metricTrend(before?.[metric], after[metric]);
+          return { metric, trend, summary: describeTrend(metric, trend, before?.[metric], after[metric]) };
+        });
+        const focus = trends.filter(t => t.trend === 'stalled').map(t => t.metric);
+        const analysisData: PlanAnalysisData = {
+          overallScore: scan.result.overallScore,
+          skinPotential: scan.result.skinPotential,
+          skinQuality: scan.result.skinQuality,
+          jawlineScore: scan.result.jawlineScore,
+          skinTone: scan.result.skinTone,
+          skinType: scan.result.skinType,
+          brightness: scan.result.brightness,
+          hydration: scan.result.hydration,
+          symmetryScore: scan.result.symmetryScore,
+          regions: scan.result.regions ?? plan.analysis_data?.regions,
+        };
+
+        const changes: string[] = [];
+        const ahead = (task: GlowUpDayTask) => task.day >= day && !task.completed;
+
+        // Remaining routine tasks take the products for the new reading
+        const suggestions = { morning: '', evening: '' };
+        let updated = tasks.map(task => {
+          const slot = routineSlot(task);
+          if (!slot || !ahead(task)) return task;
+          suggestions[slot] = getSkincareRecommendation(slot, analysisData, focus);
+          if (suggestions[slot] === task.product_suggestion) return task;
+          return { ...task, product_suggestion: suggestions[slot] };
+        });
+        (['morning', 'evening'] as const).forEach(slot => {
+          const previous = tasks.find(task => routineSlot(task) === slot && ahead(task))?.product_suggestion;
+          if (suggestions[slot] && suggestions[slot] !== previous) {
+            changes.push(`${slot === 'morning' ? 'Morning' : 'Evening'} routine is now ${suggestions[slot]}`);
+          }
+        });
+
+        // Treatments for metrics that recovered come off; stalled ones without a treatment get one
+        for (const { metric, summary } of trends) {
+          const { title } = FOCUS_TASKS[metric].task;
+          const scheduled = updated.filter(task => task.focus === metric && ahead(task));
+          if (!focus.includes(metric) && scheduled.length > 0) {
+            updated = updated.filter(task => !scheduled.includes(task));
+            changes.push(`Removed ${title} from the remaining days — ${summary.toLowerCase()}`);
+          } else if (focus.includes(metric) && scheduled.length === 0) {
+            const { weekday, task } = FOCUS_TASKS[metric];
+            const days = range(day, plan.progress.total_days).filter(d => d % 7 === weekday);
+            if (days.length === 0) continue;
+            updated = [
+              ...updated,
+              ...days.map(d => glowPlanService.scheduleTask(plan, { ...task, day: d, focus: metric })),
+            ];
+            changes.push(`Added ${title} on day${days.length === 1 ? '' : 's'} ${days.join(', ')}`);
+          }
+        }
+
+        const entry: PlanAdaptation = {
+          at: now.toISOString(),
+          kind: 'check-in',
+          days: [day],
+          note: `Day ${day} check-in: ${trends.map(t => t.summary).join('; ')}`,
+          changes,
+        };
+        const checkIn: PlanCheckIn = { day, at: now.toISOString(), scan_id: scan.id, ...after };
+
+        return {
+          tasks: updated,
+          plan: {
+            ...plan,
+            analysis_data: analysisData,
+            focus,
+            check_ins: [...(plan.check_ins ?? []), checkIn],
+            adaptations: [...(plan.adaptations ?? []), entry],
+          },
+        };
+      });
+
+      const entry = active?.plan.adaptations?.[active.plan.adaptations.length - 1];
+      if (!active || !entry) return null;
+      logger.info('PlanCheckIn: Recorded', { userId, scanId: scan.id, focus: active.plan.focus });
+      return { active, entry };
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'plan-check-ins', 'recordCheckIn', { userId, scanId: scan.id });
+      throw error;
+    }
+  }
+}
+
+export const planCheckInService = new PlanCheckInService();
+export default planCheckInService;
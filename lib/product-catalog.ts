@@ -0,0 +1,129 @@
+import { CONFIG } from './config';
+import { logger } from './logger';
+import { hexToLab, deltaE } from './color-science';
+import type { WardrobeCategory } from './wardrobe';
+import localCatalog from '../constants/product-catalog.json';
+
+// Catalogs are registered at runtime, so retailer adapters can be added without touching this union
+export type ProductCatalogId = string;
+
+export interface Product {
+  id: string;
+  title: string;
+  brand: string;
+  category: WardrobeCategory;
+  colorHex: string;
+  styleTag: string;
+  price: number;
+  currency: string;
+  imageUrl?: string;
+  url?: string;
+  catalog: ProductCatalogId;
+}
+
+export interface ProductQuery {
+  category: WardrobeCategory;
+  colorHex: string;
+  styleTag?: string;
+  limit?: number;
+}
+
+// A product with how closely it answers the query, for merging results across catalogs
+export interface ProductMatch {
+  product: Product;
+  colorDistance: number; // CIE76 delta E to the requested color
+  styleMatch: boolean;
+}
+
+export interface ProductCatalog {
+  readonly id: ProductCatalogId;
+  isConfigured(): boolean;
+  search(query: ProductQuery): Promise<ProductMatch[]>;
+}
+
+// Beyond this the product reads as a different color from the one asked for
+const MAX_COLOR_DISTANCE = 25;
+const DEFAULT_LIMIT = 3;
+
+// Closest color first; a matching style tag breaks near-ties
+const compareMatches = (a: ProductMatch, b: ProductMatch) =>
+  a.colorDistance + (a.styleMatch ? 0 : 8) - (b.colorDistance + (b.styleMatch ? 0 : 8));
+
+// Filters an in-memory product list; used by the bundled catalog and handy for adapters that fetch a full feed
+export function matchProducts(products: Product[], query: ProductQuery): ProductMatch[] {
+  const target = hexToLab(query.colorHex);
+  return products
+    .filter(p => p.category === query.category)
+    .map(product => ({
+      product,
+      colorDistance: Math.round(deltaE(target, hexToLab(product.colorHex))),
+      styleMatch: !query.styleTag || product.styleTag === query.styleTag,
+    }))
+    .filter(m => m.colorDistance <= MAX_COLOR_DISTANCE)
+    .sort(compareMatches)
+    .slice(0, query.limit ?? DEFAULT_LIMIT);
+}
+
+// Sample products shipped with the app so suggestions work offline and in development
+class LocalJsonCatalog implements ProductCatalog {
+  readonly id = 'local';
+  private products: Product[] = (localCatalog as Omit<Product, 'catalog'>[]).map(p => ({ ...p, catalog: this.id }));
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  setProducts(products: Omit<Product, 'catalog'>[]): void {
+    this.products = products.map(p => ({ ...p, catalog: this.id }));
+  }
+
+  async search(query: ProductQuery): Promise<ProductMatch[]> {
+    return matchProducts(this.products, query);
+  }
+}
+
+class ProductCatalogRegistry {
+  private catalogs = new Map<ProductCatalogId, ProductCatalog>();
+
+  register(catalog: ProductCatalog): void {
+    this.catalogs.set(catalog.id, catalog);
+    logger.debug('Shopping: Catalog registered', { id: catalog.id });
+  }
+
+  get(id: ProductCatalogId): ProductCatalog | undefined {
+    return this.catalogs.get(id);
+  }
+
+  getPriority(): ProductCatalogId[] {
+    return CONFIG.FEATURES.USE_MOCK_DATA ? ['local'] : CONFIG.SHOPPING.CATALOGS;
+  }
+
+  getChain(priority: ProductCatalogId[] = this.getPriority()): ProductCatalog[] {
+    return priority
+      .map(id => this.catalogs.get(id))
+      .filter((c): c is ProductCatalog => !!c && c.isConfigured());
+  }
+
+  // Unlike vision and weather, every catalog is asked: more stores means more to choose from
+  async search(query: ProductQuery, priority?: ProductCatalogId[]): Promise<Product[]> {
+    const matches: ProductMatch[] = [];
+    for (const catalog of this.getChain(priority)) {
+      try {
+        matches.push(...(await catalog.search(query)));
+      } catch (error) {
+        logger.warn('Shopping: Catalog failed, skipping', { catalog: catalog.id, error: (error as Error).message });
+      }
+    }
+    return matches
+      .sort(compareMatches)
+      .slice(0, query.limit ?? DEFAULT_LIMIT)
+      .map(m => m.product);
+  }
+}
+
+export const localProductCatalog = new LocalJsonCatalog();
+
+export const productCatalogs = new ProductCatalogRegistry();
+productCatalogs.register(localProductCatalog);
+
+export default productCatalogs;
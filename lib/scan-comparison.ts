@@ -0,0 +1,104 @@
+import { scanHistoryService, GlowScanRecord, GlowTrendMetric, GLOW_TREND_METRICS } from './scan-history';
+
+export interface MetricDelta {
+  metric: GlowTrendMetric;
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ScanComparison {
+  before: GlowScanRecord;
+  after: GlowScanRecord;
+  daysApart: number;
+  deltas: MetricDelta[];
+  narrative: string;
+}
+
+export const MILESTONE_DAYS = [7, 14, 30];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Short names used when writing narratives ("hydration +12, brightness +5")
+const NARRATIVE_NAMES: Record<GlowTrendMetric, string> = {
+  overallScore: 'overall score',
+  brightness: 'brightness',
+  hydration: 'hydration',
+  symmetryScore: 'symmetry',
+  jawlineScore: 'jawline',
+};
+
+class ScanComparisonService {
+  // Orders the two scans chronologically so deltas always read "after minus before"
+  compare(first: GlowScanRecord, second: GlowScanRecord): ScanComparison {
+    const [before, after] = Date.parse(first.createdAt) <= Date.parse(second.createdAt)
+      ? [first, second]
+      : [second, first];
+
+    const deltas: MetricDelta[] = GLOW_TREND_METRICS.map(({ key, label }) => {
+      const beforeValue = Number(before.result[key] ?? 0);
+      const afterValue = Number(after.result[key] ?? 0);
+      return {
+        metric: key,
+        label,
+        before: beforeValue,
+        after: afterValue,
+        delta: Math.round(afterValue - beforeValue),
+      };
+    });
+
+    return {
+      before,
+      after,
+      daysApart: Math.round((Date.parse(after.createdAt) - Date.parse(before.createdAt)) / DAY_MS),
+      deltas,
+      narrative: this.buildNarrative(deltas),
+    };
+  }
+
+  buildNarrative(deltas: MetricDelta[]): string {
+    const changed = deltas
+      .filter(d => d.metric !== 'overallScore' && d.delta !== 0)
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+    if (changed.length === 0) {
+      return 'Your scores are holding steady — consistency is the first step.';
+    }
+
+    const parts = changed.map(d => `${NARRATIVE_NAMES[d.metric]} ${d.delta > 0 ? '+' : ''}${d.delta}`);
+    const overall = deltas.find(d => d.metric === 'overallScore');
+    const overallPart = overall && overall.delta !== 0
+      ? ` Overall score ${overall.delta > 0 ? 'up' : 'down'} ${Math.abs(overall.delta)} points.`
+      : '';
+    const summary = parts.join(', ');
+    return `${summary.charAt(0).toUpperCase()}${summary.slice(1)}.${overallPart}`;
+  }
+
+  /**
+   * Compares the scan closest to the plan start with the latest scan, for the
+   * progress card shown on milestone days. Returns null when there is no
+   * scan taken after the baseline.
+   */
+  async getPlanComparison(userId: string, planStartDate: string): Promise<ScanComparison | null> {
+    const scans = await scanHistoryService.getScans(userId);
+    if (scans.length < 2) return null;
+
+    const start = Date.parse(planStartDate);
+    const byDistance = scans
+      .slice()
+      .sort((a, b) => Math.abs(Date.parse(a.createdAt) - start) - Math.abs(Date.parse(b.createdAt) - start));
+    const baseline = byDistance[0];
+    const latest = scans[0];
+
+    if (latest.id === baseline.id) return null;
+    return this.compare(baseline, latest);
+  }
+
+  isMilestoneDay(day: number): boolean {
+    return MILESTONE_DAYS.includes(day);
+  }
+}
+
+export const scanComparisonService = new ScanComparisonService();
+export default scanComparisonService;
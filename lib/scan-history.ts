@@ -0,0 +1,202 @@
+import { logger } from './logger';
+import { storageService } from './storage';
+import { errorHandler } from './error-handler';
+import { persistThumbnail, deleteThumbnail } from './thumbnails';
+import { aiService, GlowAnalysisResult } from './ai-service';
+import { LEGACY_MODEL_VERSION } from './scoring-models';
+import type { SkinToneProfile } from './skin-tone';
+
+export interface GlowScanRecord {
+  id: string;
+  createdAt: string;
+  imageUri: string;
+  thumbnailUri: string;
+  result: GlowAnalysisResult;
+}
+
+export type GlowTrendMetric = 'overallScore' | 'brightness' | 'hydration' | 'symmetryScore' | 'jawlineScore';
+
+export const GLOW_TREND_METRICS: { key: GlowTrendMetric; label: string }[] = [
+  { key: 'overallScore', label: 'Overall Score' },
+  { key: 'brightness', label: 'Brightness & Glow' },
+  { key: 'hydration', label: 'Hydration Level' },
+  { key: 'symmetryScore', label: 'Facial Symmetry' },
+  { key: 'jawlineScore', label: 'Jawline Sharpness' },
+];
+
+export interface TrendPoint {
+  timestamp: number;
+  value: number;
+}
+
+export type WeekOverWeekDeltas = Record<GlowTrendMetric, number | null>;
+
+// Same layout as the lookbook: the history holds the scans without their analyses, and each analysis
+// is stored under its own key so no single value outgrows Android's ~2 MB AsyncStorage row
+const HISTORY_KEY = 'glow_scan_history';
+const RESULT_KEY_PREFIX = 'glow_scan_result_';
+const MAX_SCANS = 200;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Scans saved before analyses had their own keys still carry them inline
+type StoredScan = Omit<GlowScanRecord, 'result'> & { result?: GlowAnalysisResult };
+
+const resultKey = (scanId: string) => `${RESULT_KEY_PREFIX}${scanId}`;
+
+// Geometry and regions are kept once, inside the features they were scored from
+const toStoredResult = ({ geometry, regions, ...result }: GlowAnalysisResult): GlowAnalysisResult => ({
+  ...result,
+  ...(geometry && !result.features?.geometry ? { geometry } : {}),
+  ...(regions && !result.features?.regions ? { regions } : {}),
+});
+
+const fromStoredResult = (result: GlowAnalysisResult): GlowAnalysisResult => ({
+  ...result,
+  geometry: result.geometry ?? result.features?.geometry,
+  regions: result.regions ?? result.features?.regions,
+});
+
+class ScanHistoryService {
+  async getScans(userId: string): Promise<GlowScanRecord[]> {
+    const stored = (await storageService.getUserData<StoredScan[]>(userId, HISTORY_KEY)) ?? [];
+    const scans = await Promise.all(stored.map(async scan => {
+      const result = scan.result ?? (await storageService.getUserData<GlowAnalysisResult>(userId, resultKey(scan.id)));
+      return result ? { ...scan, result: fromStoredResult(result) } : null;
+    }));
+    const sorted = scans
+      .filter((scan): scan is GlowScanRecord => scan !== null)
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+
+    // Moves inline analyses out of the history the first time it's read
+    const inline = new Set(stored.filter(scan => scan.result).map(scan => scan.id));
+    const legacy = sorted.filter(scan => inline.has(scan.id));
+    if (legacy.length > 0) {
+      await this.save(userId, sorted, legacy);
+      logger.info('ScanHistory: Moved scan analyses to their own keys', { userId, count: legacy.length });
+    }
+    return sorted;
+  }
+
+  async getScan(userId: string, scanId: string): Promise<GlowScanRecord | null> {
+    const scans = await this.getScans(userId);
+    return scans.find(s => s.id === scanId) ?? null;
+  }
+
+  // Most recent calibrated skin tone; older scans predate skin tone profiles
+  async getLatestSkinTone(userId: string): Promise<SkinToneProfile | null> {
+    const scans = await this.getScans(userId);
+    return scans.find(s => s.result.skinToneProfile)?.result.skinToneProfile ?? null;
+  }
+
+  // Brings saved scans onto the current scoring model; scans saved before features were stored keep their scores
+  async rescoreOutdatedScans(userId: string): Promise<number> {
+    try {
+      const scans = await this.getScans(userId);
+      const rescored: GlowScanRecord[] = [];
+      const updated = scans.map(scan => {
+        const result = aiService.rescoreGlow(scan.result);
+        if (result === scan.result) return scan;
+        const record = { ...scan, result };
+        rescored.push(record);
+        return record;
+      });
+      if (rescored.length > 0) {
+        await this.save(userId, updated, rescored);
+        logger.info('ScanHistory: Re-scored scans with current model', { userId, rescored: rescored.length });
+      }
+      return rescored.length;
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'scan-history', 'rescoreOutdatedScans', { userId });
+      return 0;
+    }
+  }
+
+  // True when two scans were scored by different models, so their difference isn't purely the user's skin
+  scoredByDifferentModels(a: GlowScanRecord, b: GlowScanRecord): boolean {
+    return (a.result.modelVersion ?? LEGACY_MODEL_VERSION) !== (b.result.modelVersion ?? LEGACY_MODEL_VERSION);
+  }
+
+  async addScan(userId: string, result: GlowAnalysisResult, imageUri: string): Promise<GlowScanRecord> {
+    try {
+      const id = `scan_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+      const record: GlowScanRecord = {
+        id,
+        createdAt: new Date().toISOString(),
+        imageUri,
+        thumbnailUri: await persistThumbnail('scan-history', id, imageUri),
+        result,
+      };
+
+      const scans = await this.getScans(userId);
+      const updated = [record, ...scans].slice(0, MAX_SCANS);
+      await this.save(userId, updated, [record]);
+      await Promise.all(scans.slice(MAX_SCANS - 1).map(s => storageService.removeUserData(userId, resultKey(s.id))));
+
+      logger.info('ScanHistory: Scan recorded', { userId, scanId: id, total: updated.length });
+      return record;
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'scan-history', 'addScan', { userId });
+      throw error;
+    }
+  }
+
+  async removeScan(userId: string, scanId: string): Promise<void> {
+    const scans = await this.getScans(userId);
+    const target = scans.find(s => s.id === scanId);
+    await this.save(userId, scans.filter(s => s.id !== scanId));
+    await storageService.removeUserData(userId, resultKey(scanId));
+    if (target) await deleteThumbnail(target.thumbnailUri, target.imageUri);
+  }
+
+  // Chronological series for one metric, oldest first
+  getTrend(scans: GlowScanRecord[], metric: GlowTrendMetric): TrendPoint[] {
+    return scans
+      .map(s => ({ timestamp: Date.parse(s.createdAt), value: Number(s.result[metric] ?? 0) }))
+      .filter(p => !isNaN(p.timestamp))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  // Average of the last 7 days minus the average of the 7 days before; null when either week is empty
+  getWeekOverWeekDeltas(scans: GlowScanRecord[], now: number = Date.now()): WeekOverWeekDeltas {
+    const average = (metric: GlowTrendMetric, from: number, to: number): number | null => {
+      const values = this.getTrend(scans, metric)
+        .filter(p => p.timestamp > from && p.timestamp <= to)
+        .map(p => p.value);
+      if (values.length === 0) return null;
+      return values.reduce((sum, v) => sum + v, 0) / values.length;
+    };
+
+    const deltas = {} as WeekOverWeekDeltas;
+    for (const { key } of GLOW_TREND_METRICS) {
+      const thisWeek = average(key, now - WEEK_MS, now);
+      const lastWeek = average(key, now - 2 * WEEK_MS, now - WEEK_MS);
+      deltas[key] = thisWeek !== null && lastWeek !== null ? Math.round(thisWeek - lastWeek) : null;
+    }
+    return deltas;
+  }
+
+  // Whether the scans behind getWeekOverWeekDeltas came from more than one scoring model
+  weekOverWeekMixesModels(scans: GlowScanRecord[], now: number = Date.now()): boolean {
+    const versions = new Set(
+      scans
+        .filter(s => {
+          const t = Date.parse(s.createdAt);
+          return t > now - 2 * WEEK_MS && t <= now;
+        })
+        .map(s => s.result.modelVersion ?? LEGACY_MODEL_VERSION)
+    );
+    return versions.size > 1;
+  }
+
+  // Writes the history and the analyses of `changed`; the other scans' analyses are already stored
+  private async save(userId: string, scans: GlowScanRecord[], changed: GlowScanRecord[] = []): Promise<void> {
+    await Promise.all(changed.map(scan =>
+      storageService.setUserData(userId, resultKey(scan.id), toStoredResult(scan.result), { persistent: true })
+    ));
+    const index: StoredScan[] = scans.map(({ result: _result, ...scan }) => scan);
+    await storageService.setUserData(userId, HISTORY_KEY, index, { persistent: true });
+  }
+}
+
+export const scanHistoryService = new ScanHistoryService();
+export default scanHistoryService;
@@ -0,0 +1,267 @@
+import type { FacialGeometry } from './face-geometry';
+import type { SkinRegionAnalysis } from './skin-regions';
+import { assessWeatherFit, OutfitWeatherContext } from './weather-fit';
+import { evaluateDressCode, DressCode } from './dress-code';
+import { scoreFit, FitMeasurements } from './fit-analysis';
+
+// Everything a glow model needs, captured at analysis time so results can be re-scored later
+export interface GlowFeatures {
+  detectionConfidence: number;
+  landmarkingConfidence: number;
+  rollAngle: number;
+  panAngle: number;
+  tiltAngle: number;
+  luminance: number; // 0-100, pixel-fraction weighted over dominant colors
+  geometry?: FacialGeometry;
+  regions?: SkinRegionAnalysis[];
+}
+
+export interface GlowScores {
+  overallScore: number;
+  brightness: number;
+  hydration: number;
+  symmetryScore: number;
+  jawlineScore: number;
+  skinPotential: string;
+  skinQuality: string;
+}
+
+export interface OutfitFeatures {
+  eventType: string;
+  detectedItems: string[];
+  palette: string[]; // dominant image colors, most prominent first
+  objectCount: number;
+  paletteScore?: number; // fit against the user's personal palette, when one exists
+  context?: OutfitWeatherContext; // forecast for the day the outfit is worn
+  dressCode?: DressCode; // the event's dress code as it was when analyzed
+  fit?: FitMeasurements; // garment proportions, when the photo had a person and garment boxes
+}
+
+export interface OutfitScores {
+  outfitScore: number;
+  colorMatchScore: number;
+  styleScore: number;
+  fitScore: number;
+  trendScore: number;
+  occasionScore: number;
+}
+
+export interface ScoringModel<TFeatures, TScores> {
+  version: string;
+  description: string;
+  score(features: TFeatures): TScores;
+}
+
+// Recorded on a result when it was re-scored by a newer model
+export interface RescoreRecord {
+  modelVersion: string;
+  overallScore: number;
+  rescoredAt: string;
+}
+
+// Results from before versioning have no modelVersion
+export const LEGACY_MODEL_VERSION = 'legacy';
+
+const clamp = (n: number, min = 1, max = 100) => Math.max(min, Math.min(max, Math.round(n)));
+
+export function computeColorHarmony(palette: string[]): number {
+  if (palette.length <= 1) return 65;
+  const toHsv = (hex: string) => {
+    const r = parseInt(hex.slice(1, 3), 16) / 255;
+    const g = parseInt(hex.slice(3, 5), 16) / 255;
+    const b = parseInt(hex.slice(5, 7), 16) / 255;
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    const d = max - min;
+    let h = 0;
+    if (d === 0) h = 0; else if (max === r) h = ((g - b) / d) % 6; else if (max === g) h = (b - r) / d + 2; else h = (r - g) / d + 4;
+    h = Math.round((h * 60 + 360) % 360);
+    const s = max === 0 ? 0 : d / max;
+    const v = max;
+    return { h, s, v };
+  };
+  const hsv = palette.map(toHsv);
+  let spread = 0;
+  for (let i = 0; i < hsv.length; i++) {
+    for (let j = i + 1; j < hsv.length; j++) {
+      const diff = Math.min(Math.abs(hsv[i].h - hsv[j].h), 360 - Math.abs(hsv[i].h - hsv[j].h));
+      spread += diff;
+    }
+  }
+  const pairs = (hsv.length * (hsv.length - 1)) / 2;
+  const avgSpread = pairs > 0 ? spread / pairs : 0;
+  const harmony = 70 + Math.min(30, Math.abs(180 - avgSpread) / 6);
+  return Math.max(50, Math.min(95, Math.round(harmony)));
+}
+
+export function estimateOccasionScore(eventType: string, items: string[]): number {
+  const e = eventType.toLowerCase();
+  if (e.includes('formal') || e.includes('interview') || e.includes('business')) {
+    const hasBlazer = items.some(i => i.toLowerCase().includes('blazer') || i.toLowerCase().includes('jacket'));
+    return hasBlazer ? 85 : 70;
+  }
+  if (e.includes('party')) return 80;
+  if (e.includes('date')) return 78;
+  if (e.includes('casual') || e.includes('travel')) return 75;
+  if (e.includes('workout')) return 72;
+  return 75;
+}
+
+const describeGlow = (overall: number): Pick<GlowScores, 'skinPotential' | 'skinQuality'> => ({
+  skinPotential: overall >= 85 ? 'High' : overall >= 70 ? 'Medium' : 'Low',
+  skinQuality: overall >= 90 ? 'Excellent' : overall >= 80 ? 'Good' : overall >= 70 ? 'Fair' : 'Needs Improvement',
+});
+
+const combineGlow = (f: GlowFeatures, symmetryScore: number, jawlineScore: number): GlowScores => {
+  const brightness = clamp(f.luminance);
+  const hydration = clamp((brightness * 0.6) + (symmetryScore * 0.2) + (f.detectionConfidence * 100 * 0.2));
+  const overallScore = clamp(
+    (symmetryScore * 0.25) +
+    (brightness * 0.25) +
+    (jawlineScore * 0.2) +
+    (hydration * 0.2) +
+    (f.detectionConfidence * 100 * 0.1)
+  );
+  return { overallScore, brightness, hydration, symmetryScore, jawlineScore, ...describeGlow(overallScore) };
+};
+
+const anglePenalty = (f: GlowFeatures) => Math.min(30, Math.abs(f.rollAngle) + Math.abs(f.panAngle) + Math.abs(f.tiltAngle));
+
+const glowV1: ScoringModel<GlowFeatures, GlowScores> = {
+  version: 'glow-v1',
+  description: 'Head-angle and detection-confidence heuristics',
+  score: f => combineGlow(f, clamp(100 - anglePenalty(f) * 2), clamp(f.landmarkingConfidence * 100)),
+};
+
+const glowV2: ScoringModel<GlowFeatures, GlowScores> = {
+  version: 'glow-v2',
+  description: 'Landmark geometry for symmetry and jawline',
+  score: f => {
+    const symmetry = f.geometry?.symmetry
+      ? f.geometry.symmetry.score - (f.geometry.reliable ? 0 : anglePenalty(f))
+      : 100 - anglePenalty(f) * 2;
+    const jawline = f.geometry?.jawAngle
+      ? f.geometry.jawAngle.score * 0.85 + f.landmarkingConfidence * 100 * 0.15
+      : f.landmarkingConfidence * 100;
+    return combineGlow(f, clamp(symmetry), clamp(jawline));
+  },
+};
+
+// Before fit analysis, more detected pieces simply meant a better fit
+const objectCountFit = (f: OutfitFeatures) => Math.max(50, Math.min(95, (f.objectCount >= 3 ? 80 : 65)));
+
+const combineOutfit = (
+  f: OutfitFeatures,
+  colorMatchScore: number,
+  occasionScore: number = estimateOccasionScore(f.eventType, f.detectedItems),
+  fitScore: number = objectCountFit(f)
+): OutfitScores => {
+  const trendScore = 70;
+  const styleScore = Math.round((colorMatchScore + fitScore + trendScore) / 3);
+  const outfitScore = Math.round(
+    colorMatchScore * 0.25 +
+    fitScore * 0.25 +
+    trendScore * 0.2 +
+    occasionScore * 0.15 +
+    styleScore * 0.15
+  );
+  return { outfitScore, colorMatchScore, styleScore, fitScore, trendScore, occasionScore };
+};
+
+const outfitV1: ScoringModel<OutfitFeatures, OutfitScores> = {
+  version: 'outfit-v1',
+  description: 'Hue-spread color harmony',
+  score: f => combineOutfit(f, computeColorHarmony(f.palette)),
+};
+
+// With a personal palette, how the colors suit the wearer counts as much as how they suit each other
+const paletteBlendedHarmony = (f: OutfitFeatures) => {
+  const harmony = computeColorHarmony(f.palette);
+  return f.paletteScore !== undefined ? Math.round(harmony * 0.5 + f.paletteScore * 0.5) : harmony;
+};
+
+const outfitV2: ScoringModel<OutfitFeatures, OutfitScores> = {
+  version: 'outfit-v2',
+  description: 'Color harmony blended with personal palette fit',
+  score: f => combineOutfit(f, paletteBlendedHarmony(f)),
+};
+
+// Dressing right for the event also means dressing for the day it happens on
+const withWeather = (f: OutfitFeatures, occasion: number) =>
+  f.context ? clamp(occasion * 0.7 + assessWeatherFit(f.detectedItems, f.palette, f.context).score * 0.3) : occasion;
+
+const outfitV3: ScoringModel<OutfitFeatures, OutfitScores> = {
+  version: 'outfit-v3',
+  description: 'Occasion fit includes the weather and season',
+  score: f => combineOutfit(f, paletteBlendedHarmony(f), withWeather(f, estimateOccasionScore(f.eventType, f.detectedItems))),
+};
+
+const dressCodeOccasion = (f: OutfitFeatures) =>
+  f.dressCode
+    ? evaluateDressCode(f.dressCode, f.detectedItems.map(name => ({ name })), f.palette).score
+    : estimateOccasionScore(f.eventType, f.detectedItems);
+
+const outfitV4: ScoringModel<OutfitFeatures, OutfitScores> = {
+  version: 'outfit-v4',
+  description: "Occasion fit scored against the event's dress code",
+  score: f => combineOutfit(f, paletteBlendedHarmony(f), withWeather(f, dressCodeOccasion(f))),
+};
+
+const outfitV5: ScoringModel<OutfitFeatures, OutfitScores> = {
+  version: 'outfit-v5',
+  description: 'Fit scored from garment proportions and body keypoints',
+  score: f => combineOutfit(
+    f,
+    paletteBlendedHarmony(f),
+    withWeather(f, dressCodeOccasion(f)),
+    f.fit ? scoreFit(f.fit) : objectCountFit(f)
+  ),
+};
+
+class ScoringModelRegistry {
+  private glowModels = new Map<string, ScoringModel<GlowFeatures, GlowScores>>();
+  private outfitModels = new Map<string, ScoringModel<OutfitFeatures, OutfitScores>>();
+  private currentGlow: string;
+  private currentOutfit: string;
+
+  constructor() {
+    [glowV1, glowV2].forEach(m => this.glowModels.set(m.version, m));
+    [outfitV1, outfitV2, outfitV3, outfitV4, outfitV5].forEach(m => this.outfitModels.set(m.version, m));
+    this.currentGlow = glowV2.version;
+    this.currentOutfit = outfitV5.version;
+  }
+
+  get currentGlowVersion(): string {
+    return this.currentGlow;
+  }
+
+  get currentOutfitVersion(): string {
+    return this.currentOutfit;
+  }
+
+  getGlowModel(version: string = this.currentGlow): ScoringModel<GlowFeatures, GlowScores> {
+    const model = this.glowModels.get(version);
+    if (!model) throw new Error(`Unknown glow scoring model: ${version}`);
+    return model;
+  }
+
+  getOutfitModel(version: string = this.currentOutfit): ScoringModel<OutfitFeatures, OutfitScores> {
+    const model = this.outfitModels.get(version);
+    if (!model) throw new Error(`Unknown outfit scoring model: ${version}`);
+    return model;
+  }
+
+  describe(version?: string): string {
+    if (!version || version === LEGACY_MODEL_VERSION) return 'Original scoring';
+    const model = this.glowModels.get(version) ?? this.outfitModels.get(version);
+    return model ? `${version} · ${model.description}` : version;
+  }
+
+  // A result needs re-scoring when a newer model exists and its features were stored
+  needsRescore(result: { modelVersion?: string; features?: unknown }, kind: 'glow' | 'outfit'): boolean {
+    const current = kind === 'glow' ? this.currentGlow : this.currentOutfit;
+    return !!result.features && result.modelVersion !== current;
+  }
+}
+
+export const scoringModels = new ScoringModelRegistry();
+export default scoringModels;
@@ -0,0 +1,234 @@
+import type { ImagePixels } from './image-pixels';
+import type { VisionFace, VisionPoint } from './vision-providers';
+import { rgbToLab, labChroma, looksLikeSkin, LabColor } from './color-science';
+
+export type SkinRegionId = 'forehead' | 'tZone' | 'cheeks' | 'chin';
+
+export type SkinRegionCondition = 'balanced' | 'oily' | 'dry' | 'red' | 'uneven';
+
+// Rectangle normalized to the face bounding box (0-1), for drawing the face map
+export interface RegionBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SkinRegionAnalysis {
+  id: SkinRegionId;
+  label: string;
+  uniformity: number; // 0-100, higher is more even color
+  shine: number; // 0-100, share of specular highlights; oiliness proxy
+  redness: number; // 0-100, from CIELAB a*
+  condition: SkinRegionCondition;
+  notes: string[];
+  bounds: RegionBounds[];
+  sampleCount: number;
+}
+
+interface PixelRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+const REGION_LABELS: Record<SkinRegionId, string> = {
+  forehead: 'Forehead',
+  tZone: 'T-Zone',
+  cheeks: 'Cheeks',
+  chin: 'Chin',
+};
+
+const MIN_SAMPLES = 40;
+const OILY_SHINE = 45;
+const RED_THRESHOLD = 60;
+
+const clamp = (n: number, min = 0, max = 100) => Math.max(min, Math.min(max, Math.round(n)));
+
+const std = (values: number[], mean: number) =>
+  Math.sqrt(values.reduce((s, v) => s + (v - mean) * (v - mean), 0) / values.length);
+
+class SkinRegionService {
+  analyze(pixels: ImagePixels, face: VisionFace): SkinRegionAnalysis[] | null {
+    const box = face.boundingBox;
+    if (!box || box.width <= 0 || box.height <= 0) return null;
+
+    const rects = this.locateRegions(face);
+    if (!rects) return null;
+
+    const regions: SkinRegionAnalysis[] = [];
+    for (const id of Object.keys(rects) as SkinRegionId[]) {
+      const samples = rects[id].flatMap(rect => this.sample(pixels, rect));
+      if (samples.length < MIN_SAMPLES) continue;
+      const metrics = this.measure(samples);
+      const { condition, notes } = this.describe(id, metrics);
+      regions.push({
+        id,
+        label: REGION_LABELS[id],
+        ...metrics,
+        condition,
+        notes,
+        bounds: rects[id].map(rect => ({
+          x: (rect.x0 - box.x) / box.width,
+          y: (rect.y0 - box.y) / box.height,
+          width: (rect.x1 - rect.x0) / box.width,
+          height: (rect.y1 - rect.y0) / box.height,
+        })),
+        sampleCount: samples.length,
+      });
+    }
+    return regions.length > 0 ? regions : null;
+  }
+
+  // Overall skin type from the regional pattern; combination skin is an oily T-zone with calmer cheeks
+  inferSkinType(regions: SkinRegionAnalysis[]): string {
+    const cheeks = regions.find(r => r.id === 'cheeks');
+    const tZoneOily = regions.some(r => (r.id === 'tZone' || r.id === 'forehead') && r.shine >= OILY_SHINE);
+    const avgRedness = regions.reduce((s, r) => s + r.redness, 0) / regions.length;
+
+    if (avgRedness >= RED_THRESHOLD) return 'Sensitive';
+    if (tZoneOily && cheeks && cheeks.shine < OILY_SHINE) return 'Combination';
+    if (tZoneOily) return 'Oily';
+    if (cheeks?.condition === 'dry') return 'Dry';
+    return 'Normal';
+  }
+
+  // Region rectangles in source image pixels, from landmarks with face-box proportions as fallback
+  private locateRegions(face: VisionFace): Record<SkinRegionId, PixelRect[]> | null {
+    const box = face.boundingBox!;
+    const lm = (type: string) => face.landmarks.find(l => l.type === type)?.position;
+    const at = (fx: number, fy: number): VisionPoint => ({ x: box.x + box.width * fx, y: box.y + box.height * fy });
+
+    const eyeA = lm('LEFT_EYE') ?? at(0.32, 0.4);
+    const eyeB = lm('RIGHT_EYE') ?? at(0.68, 0.4);
+    const [leftEye, rightEye] = eyeA.x <= eyeB.x ? [eyeA, eyeB] : [eyeB, eyeA];
+    const eyeDist = rightEye.x - leftEye.x;
+    if (eyeDist <= 0) return null;
+
+    const midX = (leftEye.x + rightEye.x) / 2;
+    const eyeY = (leftEye.y + rightEye.y) / 2;
+    const browY = Math.min(
+      lm('LEFT_EYEBROW_UPPER_MIDPOINT')?.y ?? eyeY - eyeDist * 0.3,
+      lm('RIGHT_EYEBROW_UPPER_MIDPOINT')?.y ?? eyeY - eyeDist * 0.3
+    );
+    const noseBase = lm('NOSE_BOTTOM_CENTER') ?? lm('NOSE_TIP') ?? at(0.5, 0.65);
+    const mouthLeft = lm('MOUTH_LEFT');
+    const mouthRight = lm('MOUTH_RIGHT');
+    const mouthY = lm('MOUTH_CENTER')?.y
+      ?? (mouthLeft && mouthRight ? (mouthLeft.y + mouthRight.y) / 2 : box.y + box.height * 0.78);
+    const lowerLipY = lm('LOWER_LIP')?.y ?? mouthY + eyeDist * 0.1;
+    const chinY = lm('CHIN_GNATHION')?.y ?? box.y + box.height;
+
+    const forehead: PixelRect = {
+      x0: leftEye.x,
+      x1: rightEye.x,
+      y0: Math.max(box.y, browY - eyeDist * 0.55),
+      y1: browY - eyeDist * 0.08,
+    };
+    const nose: PixelRect = {
+      x0: midX - eyeDist * 0.15,
+      x1: midX + eyeDist * 0.15,
+      y0: eyeY,
+      y1: noseBase.y - eyeDist * 0.05,
+    };
+    const cheekSize = eyeDist * 0.32;
+    const cheekY = eyeY + (mouthY - eyeY) * 0.55;
+    const cheek = (center: VisionPoint): PixelRect => ({
+      x0: center.x - cheekSize / 2,
+      x1: center.x + cheekSize / 2,
+      y0: center.y - cheekSize / 2,
+      y1: center.y + cheekSize / 2,
+    });
+    const leftCheek = lm('LEFT_CHEEK_CENTER') ?? { x: leftEye.x - eyeDist * 0.05, y: cheekY };
+    const rightCheek = lm('RIGHT_CHEEK_CENTER') ?? { x: rightEye.x + eyeDist * 0.05, y: cheekY };
+    const chinSpan = chinY - lowerLipY;
+    const chin: PixelRect = {
+      x0: midX - eyeDist * 0.3,
+      x1: midX + eyeDist * 0.3,
+      y0: lowerLipY + chinSpan * 0.25,
+      y1: chinY - chinSpan * 0.1,
+    };
+
+    const foreheadCenterWidth = (forehead.x1 - forehead.x0) * 0.3;
+    return {
+      forehead: [forehead],
+      // The T-zone is the band across the brow line down the nose
+      tZone: [
+        { x0: midX - foreheadCenterWidth, x1: midX + foreheadCenterWidth, y0: forehead.y0, y1: eyeY },
+        nose,
+      ],
+      cheeks: [cheek(leftCheek), cheek(rightCheek)],
+      chin: [chin],
+    };
+  }
+
+  private sample(pixels: ImagePixels, rect: PixelRect): LabColor[] {
+    const sx = pixels.width / pixels.originalWidth;
+    const sy = pixels.height / pixels.originalHeight;
+    const x0 = Math.max(0, Math.floor(rect.x0 * sx));
+    const x1 = Math.min(pixels.width, Math.ceil(rect.x1 * sx));
+    const y0 = Math.max(0, Math.floor(rect.y0 * sy));
+    const y1 = Math.min(pixels.height, Math.ceil(rect.y1 * sy));
+
+    const all: [number, number, number][] = [];
+    const skin: [number, number, number][] = [];
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const i = (y * pixels.width + x) * 4;
+        const rgb: [number, number, number] = [pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]];
+        all.push(rgb);
+        if (looksLikeSkin(...rgb)) skin.push(rgb);
+      }
+    }
+    // Unusual lighting can defeat the skin gate entirely; fall back to the raw patch then
+    const chosen = skin.length >= all.length * 0.3 ? skin : all;
+    return chosen.map(([r, g, b]) => rgbToLab(r, g, b));
+  }
+
+  private measure(samples: LabColor[]): Pick<SkinRegionAnalysis, 'uniformity' | 'shine' | 'redness'> {
+    const ls = samples.map(s => s.L);
+    const as = samples.map(s => s.a);
+    const bs = samples.map(s => s.b);
+    const meanL = ls.reduce((s, v) => s + v, 0) / ls.length;
+    const meanA = as.reduce((s, v) => s + v, 0) / as.length;
+    const meanB = bs.reduce((s, v) => s + v, 0) / bs.length;
+    const stdL = std(ls, meanL);
+    const stdAB = Math.hypot(std(as, meanA), std(bs, meanB));
+
+    // Specular highlights are bright and desaturated compared to the surrounding skin
+    const meanChroma = Math.hypot(meanA, meanB);
+    const brightCutoff = meanL + Math.max(8, stdL * 1.5);
+    const specular = samples.filter(s => s.L > brightCutoff && labChroma(s) < meanChroma * 0.75).length / samples.length;
+
+    return {
+      uniformity: clamp(100 - stdL * 4 - stdAB * 2),
+      shine: clamp(specular * 400),
+      redness: clamp((meanA - 10) * 5),
+    };
+  }
+
+  private describe(id: SkinRegionId, m: Pick<SkinRegionAnalysis, 'uniformity' | 'shine' | 'redness'>): { condition: SkinRegionCondition; notes: string[] } {
+    const notes: string[] = [];
+    const place = REGION_LABELS[id].toLowerCase();
+
+    if (m.shine >= OILY_SHINE) notes.push(`Visible shine on the ${place} points to excess oil here.`);
+    if (m.redness >= RED_THRESHOLD) notes.push(`The ${place} shows more redness than typical — possible irritation or sensitivity.`);
+    if (m.uniformity < 60) notes.push(`Color is uneven across the ${place}, often from spots, texture or hyperpigmentation.`);
+    const dry = m.shine < 5 && m.uniformity < 70;
+    if (dry) notes.push(`The ${place} looks matte and uneven, a common sign of dryness.`);
+    if (notes.length === 0) notes.push(`The ${place} looks balanced.`);
+
+    const condition: SkinRegionCondition =
+      m.shine >= OILY_SHINE ? 'oily' :
+      m.redness >= RED_THRESHOLD ? 'red' :
+      dry ? 'dry' :
+      m.uniformity < 60 ? 'uneven' :
+      'balanced';
+
+    return { condition, notes };
+  }
+}
+
+export const skinRegionService = new SkinRegionService();
+export default skinRegionService;
@@ -0,0 +1,155 @@
+import type { ImagePixels } from './image-pixels';
+import type { VisionColor, VisionFace } from './vision-providers';
+import { rgbToHex } from './vision-providers';
+import { rgbToLab, hexToLab, labHue, deltaE, looksLikeSkin, LabColor } from './color-science';
+
+export type Undertone = 'warm' | 'cool' | 'neutral' | 'olive';
+
+export interface SkinToneProfile {
+  monkIndex: number; // 1 (lightest) - 10 (deepest) on the Monk Skin Tone scale
+  monkHex: string;
+  undertone: Undertone;
+  lab: LabColor; // white-balanced median skin color
+  hex: string;
+  label: string; // e.g. "Warm Medium"
+  confidence: number; // 0-1
+  source: 'face-pixels' | 'dominant-colors';
+}
+
+// Monk Skin Tone scale reference swatches (Google, CC-BY 4.0)
+export const MONK_SCALE = [
+  '#F6EDE4', '#F3E7DB', '#F7EAD0', '#EADABA', '#D7BD96',
+  '#A07E56', '#825C43', '#604134', '#3A312A', '#292420',
+];
+
+const MONK_LAB = MONK_SCALE.map(hexToLab);
+
+const DEPTH_LABELS = ['Fair', 'Fair', 'Light', 'Light', 'Medium', 'Tan', 'Deep', 'Deep', 'Rich Deep', 'Rich Deep'];
+
+// Gray-world gains are clamped so a colorful background can't push skin into a false tone
+const MAX_WB_GAIN = 1.35;
+const MIN_SKIN_SAMPLES = 60;
+
+type RGB = [number, number, number];
+
+const medianOf = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+class SkinToneService {
+  // Classifies from face pixels, white-balanced against the rest of the frame
+  classify(pixels: ImagePixels, face: VisionFace): SkinToneProfile | null {
+    const box = face.boundingBox;
+    if (!box) return null;
+
+    const sx = pixels.width / pixels.originalWidth;
+    const sy = pixels.height / pixels.originalHeight;
+    const face0 = { x0: box.x * sx, y0: box.y * sy, x1: (box.x + box.width) * sx, y1: (box.y + box.height) * sy };
+    // Inner face only: skips hair at the top, beard/neck at the bottom and background at the sides
+    const inner = {
+      x0: Math.max(0, Math.floor(face0.x0 + (face0.x1 - face0.x0) * 0.2)),
+      x1: Math.min(pixels.width, Math.ceil(face0.x1 - (face0.x1 - face0.x0) * 0.2)),
+      y0: Math.max(0, Math.floor(face0.y0 + (face0.y1 - face0.y0) * 0.25)),
+      y1: Math.min(pixels.height, Math.ceil(face0.y0 + (face0.y1 - face0.y0) * 0.8)),
+    };
+
+    const gains = this.grayWorldGains(pixels, face0);
+    const samples: RGB[] = [];
+    for (let y = inner.y0; y < inner.y1; y++) {
+      for (let x = inner.x0; x < inner.x1; x++) {
+        const i = (y * pixels.width + x) * 4;
+        const r = pixels.data[i];
+        const g = pixels.data[i + 1];
+        const b = pixels.data[i + 2];
+        // Gate on the raw color; the skin model is built for camera output, not corrected values
+        if (looksLikeSkin(r, g, b)) {
+          samples.push([r * gains[0], g * gains[1], b * gains[2]]);
+        }
+      }
+    }
+    if (samples.length < MIN_SKIN_SAMPLES) return null;
+
+    // Drop specular highlights and shadowed pixels, which skew both depth and undertone
+    const labs = samples.map(([r, g, b]) => rgbToLab(r, g, b));
+    const ls = labs.map(l => l.L).sort((a, b) => a - b);
+    const low = ls[Math.floor(ls.length * 0.1)];
+    const high = ls[Math.floor(ls.length * 0.9)];
+    const kept = labs.filter(l => l.L >= low && l.L <= high);
+    const keptRgb = samples.filter((_, i) => labs[i].L >= low && labs[i].L <= high);
+
+    const lab = { L: medianOf(kept.map(l => l.L)), a: medianOf(kept.map(l => l.a)), b: medianOf(kept.map(l => l.b)) };
+    const rgb: RGB = [0, 1, 2].map(c => medianOf(keptRgb.map(p => p[c]))) as RGB;
+
+    const spreadL = high - low;
+    const gainShift = gains.reduce((s, g) => s + Math.abs(g - 1), 0) / 3;
+    const confidence =
+      Math.min(1, kept.length / 400) *
+      (1 - Math.min(0.5, spreadL / 60)) *
+      (1 - Math.min(0.4, gainShift));
+
+    return this.buildProfile(lab, rgbToHex(...rgb), confidence, 'face-pixels');
+  }
+
+  // Fallback when pixels are unavailable: the most prominent skin-like dominant color, never the background
+  fromDominantColors(colors: VisionColor[]): SkinToneProfile | null {
+    const skinColors = colors.filter(c => looksLikeSkin(c.r, c.g, c.b));
+    if (skinColors.length === 0) return null;
+    const top = skinColors.reduce((a, b) => (b.pixelFraction > a.pixelFraction ? b : a));
+    const lab = rgbToLab(top.r, top.g, top.b);
+    return this.buildProfile(lab, top.hex.toUpperCase(), Math.min(0.5, top.pixelFraction + 0.2), 'dominant-colors');
+  }
+
+  private grayWorldGains(pixels: ImagePixels, face: { x0: number; y0: number; x1: number; y1: number }): [number, number, number] {
+    let sums: [number, number, number] = [0, 0, 0];
+    let count = 0;
+    // Step through every other pixel; the estimate only needs channel averages
+    for (let y = 0; y < pixels.height; y += 2) {
+      for (let x = 0; x < pixels.width; x += 2) {
+        if (x >= face.x0 && x < face.x1 && y >= face.y0 && y < face.y1) continue;
+        const i = (y * pixels.width + x) * 4;
+        sums = [sums[0] + pixels.data[i], sums[1] + pixels.data[i + 1], sums[2] + pixels.data[i + 2]];
+        count++;
+      }
+    }
+    if (count < 100) return [1, 1, 1];
+    const means = sums.map(s => s / count);
+    const gray = (means[0] + means[1] + means[2]) / 3;
+    return means.map(m => Math.max(1 / MAX_WB_GAIN, Math.min(MAX_WB_GAIN, m > 0 ? gray / m : 1))) as [number, number, number];
+  }
+
+  private buildProfile(lab: LabColor, hex: string, confidence: number, source: SkinToneProfile['source']): SkinToneProfile {
+    // Lightness dominates depth; chroma differences between swatches are secondary
+    const distances = MONK_LAB.map(ref => deltaE({ L: lab.L, a: lab.a * 0.5, b: lab.b * 0.5 }, { L: ref.L, a: ref.a * 0.5, b: ref.b * 0.5 }));
+    const sorted = [...distances].sort((a, b) => a - b);
+    const monkIndex = distances.indexOf(sorted[0]) + 1;
+    // Sitting halfway between two swatches is less certain than a clear match
+    const margin = sorted[1] > 0 ? (sorted[1] - sorted[0]) / sorted[1] : 1;
+
+    const undertone = this.classifyUndertone(lab);
+    const depth = DEPTH_LABELS[monkIndex - 1];
+
+    return {
+      monkIndex,
+      monkHex: MONK_SCALE[monkIndex - 1],
+      undertone,
+      lab: { L: Math.round(lab.L * 10) / 10, a: Math.round(lab.a * 10) / 10, b: Math.round(lab.b * 10) / 10 },
+      hex,
+      label: `${undertone.charAt(0).toUpperCase() + undertone.slice(1)} ${depth}`,
+      confidence: Math.round(Math.max(0.05, Math.min(1, confidence * (0.7 + margin * 0.3))) * 100) / 100,
+      source,
+    };
+  }
+
+  // Skin hue sits roughly between 40° (pink) and 75° (golden) in a*b*; olive reads as low red with yellow
+  private classifyUndertone(lab: LabColor): Undertone {
+    const hue = labHue(lab);
+    if (lab.a < 8 && lab.a < lab.b * 0.35) return 'olive';
+    if (hue >= 62) return 'warm';
+    if (hue <= 50) return 'cool';
+    return 'neutral';
+  }
+}
+
+export const skinToneService = new SkinToneService();
+export default skinToneService;
@@ -0,0 +1,323 @@
+import { logger } from './logger';
+import { storageService } from './storage';
+import { glowPlanService, ActivePlan, routineSlot } from './glow-plan';
+import { todayKey, planDayOn } from './plan-calendar';
+import inciDataset from '../constants/inci-ingredients.json';
+
+// What an ingredient does that matters for layering and conflicts
+export type ActiveFamily =
+  | 'retinoid'
+  | 'aha'
+  | 'bha'
+  | 'pha'
+  | 'vitamin-c'
+  | 'benzoyl-peroxide'
+  | 'niacinamide'
+  | 'hydrator'
+  | 'ceramide'
+  | 'peptide'
+  | 'uv-filter';
+
+export interface InciIngredient {
+  inci: string;
+  aliases?: string[];
+  actives?: ActiveFamily[];
+}
+
+export type ProductStep = 'cleanser' | 'toner' | 'essence' | 'serum' | 'treatment' | 'eye-cream' | 'moisturizer' | 'oil' | 'sunscreen';
+
+export type ProductTexture = 'water' | 'gel' | 'serum' | 'lotion' | 'cream' | 'balm' | 'oil';
+
+export type RoutineSlot = 'morning' | 'evening';
+
+export interface SkincareProduct {
+  id: string;
+  name: string;
+  brand?: string;
+  step: ProductStep;
+  texture: ProductTexture;
+  ingredients: string[]; // INCI names where the dataset knows them, as entered otherwise
+  slots: RoutineSlot[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SkincareProductInput = Pick<SkincareProduct, 'name' | 'brand' | 'step' | 'texture' | 'ingredients' | 'slots'>;
+
+export interface RoutineWarning {
+  id: string;
+  severity: 'conflict' | 'missing' | 'caution';
+  slot: RoutineSlot;
+  message: string;
+  productIds: string[]; // for conflicts, the pair that alternates nights
+}
+
+// Products in application order for each slot, and what's wrong with them
+export interface SkincareRoutine {
+  morning: SkincareProduct[];
+  evening: SkincareProduct[];
+  warnings: RoutineWarning[];
+}
+
+export const PRODUCT_STEPS: { id: ProductStep; label: string; texture: ProductTexture }[] = [
+  { id: 'cleanser', label: 'Cleanser', texture: 'gel' },
+  { id: 'toner', label: 'Toner', texture: 'water' },
+  { id: 'essence', label: 'Essence', texture: 'water' },
+  { id: 'serum', label: 'Serum', texture: 'serum' },
+  { id: 'treatment', label: 'Treatment', texture: 'serum' },
+  { id: 'eye-cream', label: 'Eye cream', texture: 'cream' },
+  { id: 'moisturizer', label: 'Moisturizer', texture: 'cream' },
+  { id: 'oil', label: 'Face oil', texture: 'oil' },
+  { id: 'sunscreen', label: 'Sunscreen', texture: 'lotion' },
+];
+
+// Thinnest first, so each layer can reach the skin before a heavier one seals it
+export const PRODUCT_TEXTURES: { id: ProductTexture; label: string }[] = [
+  { id: 'water', label: 'Watery' },
+  { id: 'gel', label: 'Gel' },
+  { id: 'serum', label: 'Serum' },
+  { id: 'lotion', label: 'Lotion' },
+  { id: 'cream', label: 'Cream' },
+  { id: 'balm', label: 'Balm' },
+  { id: 'oil', label: 'Oil' },
+];
+
+export const ACTIVE_LABELS: Record<ActiveFamily, string> = {
+  retinoid: 'Retinoid',
+  aha: 'AHA',
+  bha: 'BHA',
+  pha: 'PHA',
+  'vitamin-c': 'Vitamin C',
+  'benzoyl-peroxide': 'Benzoyl peroxide',
+  niacinamide: 'Niacinamide',
+  hydrator: 'Hydrator',
+  ceramide: 'Ceramides',
+  peptide: 'Peptides',
+  'uv-filter': 'UV filter',
+};
+
+// Pairs that shouldn't share a routine; the product with the first family is named first in the message
+const CONFLICTS: { first: ActiveFamily[]; second: ActiveFamily[]; message: (a: string, b: string) => string }[] = [
+  {
+    first: ['retinoid'],
+    second: ['aha', 'bha'],
+    message: (a, b) => `${a} and ${b} on the same night can irritate and over-exfoliate — alternate nights`,
+  },
+  {
+    first: ['vitamin-c'],
+    second: ['benzoyl-peroxide'],
+    message: (a, b) => `${b} oxidizes the vitamin C in ${a} — use them at different times of day or on alternate days`,
+  },
+  {
+    first: ['retinoid'],
+    second: ['benzoyl-peroxide'],
+    message: (a, b) => `${b} can break down the retinoid in ${a} — alternate them`,
+  },
+];
+
+// Actives that make skin more sun-sensitive, so a routine using them needs SPF all the more
+const PHOTOSENSITIZING: ActiveFamily[] = ['retinoid', 'aha', 'bha'];
+
+const PRODUCTS_KEY = 'skincare_products';
+
+const normalize = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, '')
+    .replace(/\d+(\.\d+)?\s*%/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const INCI_INDEX = new Map<string, InciIngredient>();
+for (const entry of inciDataset as InciIngredient[]) {
+  [entry.inci, ...(entry.aliases ?? [])].forEach(name => INCI_INDEX.set(normalize(name), entry));
+}
+
+export function lookupIngredient(name: string): InciIngredient | null {
+  return INCI_INDEX.get(normalize(name)) ?? null;
+}
+
+// Dataset entries whose name or alias starts with the query, then ones that contain it
+export function searchIngredients(query: string, limit: number = 5): InciIngredient[] {
+  const q = normalize(query);
+  if (q.length < 2) return [];
+  const entries = inciDataset as InciIngredient[];
+  const names = (entry: InciIngredient) => [entry.inci, ...(entry.aliases ?? [])].map(normalize);
+  const starts = entries.filter(entry => names(entry).some(n => n.startsWith(q)));
+  const contains = entries.filter(entry => !starts.includes(entry) && names(entry).some(n => n.includes(q)));
+  return [...starts, ...contains].slice(0, limit);
+}
+
+// A pasted ingredient list, one name per comma or line, with known names spelled the INCI way. A comma
+// between digits is part of a chemical name such as 1,2-Hexanediol.
+export function parseIngredients(text: string): string[] {
+  const names = text
+    .split(/[\n;]|(?<!\d),|,(?!\d)/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => lookupIngredient(part)?.inci ?? part);
+  return Array.from(new Set(names));
+}
+
+export function productActives(product: Pick<SkincareProduct, 'ingredients'>): ActiveFamily[] {
+  const actives = product.ingredients.flatMap(name => lookupIngredient(name)?.actives ?? []);
+  return Array.from(new Set(actives));
+}
+
+// Titanium dioxide and zinc oxide also turn up as pigments in tinted products, so a single UV filter
+// doesn't make a product SPF
+const MIN_UV_FILTERS = 2;
+
+export const isSunscreen = (product: SkincareProduct) =>
+  product.step === 'sunscreen' ||
+  product.ingredients.filter(name => lookupIngredient(name)?.actives?.includes('uv-filter')).length >= MIN_UV_FILTERS;
+
+// Cleanser first and sunscreen last; everything between goes thinnest to thickest
+function layerRank(product: SkincareProduct): number {
+  if (product.step === 'cleanser') return -1;
+  if (isSunscreen(product)) return PRODUCT_TEXTURES.length;
+  return PRODUCT_TEXTURES.findIndex(t => t.id === product.texture);
+}
+
+const stepRank = (product: SkincareProduct) => PRODUCT_STEPS.findIndex(s => s.id === product.step);
+
+function slotWarnings(slot: RoutineSlot, products: SkincareProduct[]): RoutineWarning[] {
+  const warnings: RoutineWarning[] = [];
+  const has = (product: SkincareProduct, families: ActiveFamily[]) =>
+    productActives(product).some(active => families.includes(active));
+
+  for (const conflict of CONFLICTS) {
+    for (const a of products.filter(p => has(p, conflict.first))) {
+      for (const b of products.filter(p => p.id !== a.id && has(p, conflict.second))) {
+        const id = `conflict-${slot}-${[a.id, b.id].sort().join('-')}`;
+        if (warnings.some(w => w.id === id)) continue;
+        warnings.push({ id, severity: 'conflict', slot, message: conflict.message(a.name, b.name), productIds: [a.id, b.id] });
+      }
+    }
+  }
+
+  if (slot === 'morning') {
+    for (const product of products.filter(p => has(p, ['retinoid']))) {
+      warnings.push({
+        id: `caution-morning-${product.id}`,
+        severity: 'caution',
+        slot,
+        message: `Retinoids break down in sunlight — move ${product.name} to your evening routine`,
+        productIds: [product.id],
+      });
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Orders each slot's products for application and checks them: active pairs that clash within a slot,
+ * retinoids used in the morning, and a morning routine without sunscreen. Clashing pairs are kept and
+ * alternate nights in routineForDay, so the warning says what to expect rather than blocking the save.
+ */
+export function buildRoutine(products: SkincareProduct[]): SkincareRoutine {
+  const ordered = (slot: RoutineSlot) =>
+    products
+      .filter(p => p.slots.includes(slot))
+      .sort((a, b) => layerRank(a) - layerRank(b) || stepRank(a) - stepRank(b));
+  const morning = ordered('morning');
+  const evening = ordered('evening');
+  const warnings = [...slotWarnings('morning', morning), ...slotWarnings('evening', evening)];
+
+  if (products.length > 0 && !morning.some(isSunscreen)) {
+    const sensitizing = products.some(p => productActives(p).some(a => PHOTOSENSITIZING.includes(a)));
+    warnings.unshift({
+      id: 'missing-spf',
+      severity: 'missing',
+      slot: 'morning',
+      message: sensitizing
+        ? 'No SPF in your morning routine — essential while you use retinoids or exfoliating acids'
+        : 'No SPF in your morning routine — finish every morning with SPF 30 or higher',
+      productIds: [],
+    });
+  }
+
+  return { morning, evening, warnings };
+}
+
+// A slot's products for one plan day; each clashing pair takes turns, the first on even days
+export function routineForDay(routine: SkincareRoutine, slot: RoutineSlot, day: number): SkincareProduct[] {
+  const skipped = routine.warnings
+    .filter(w => w.severity === 'conflict' && w.slot === slot)
+    .map(w => w.productIds[day % 2 === 0 ? 1 : 0]);
+  return routine[slot].filter(p => !skipped.includes(p.id));
+}
+
+class SkincareRoutineService {
+  async getProducts(userId: string): Promise<SkincareProduct[]> {
+    const products = await storageService.getUserData<SkincareProduct[]>(userId, PRODUCTS_KEY);
+    return products ?? [];
+  }
+
+  async getRoutine(userId: string): Promise<SkincareRoutine> {
+    return buildRoutine(await this.getProducts(userId));
+  }
+
+  async addProduct(userId: string, input: SkincareProductInput): Promise<SkincareProduct> {
+    const now = new Date().toISOString();
+    const product: SkincareProduct = {
+      id: `product_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const products = await this.getProducts(userId);
+    await this.saveProducts(userId, [...products, product]);
+    logger.info('SkincareRoutine: Product added', { userId, productId: product.id, step: product.step });
+    return product;
+  }
+
+  async updateProduct(userId: string, productId: string, input: SkincareProductInput): Promise<void> {
+    const products = await this.getProducts(userId);
+    await this.saveProducts(userId, products.map(p =>
+      p.id === productId ? { ...p, ...input, updatedAt: new Date().toISOString() } : p
+    ));
+  }
+
+  async removeProduct(userId: string, productId: string): Promise<void> {
+    const products = await this.getProducts(userId);
+    await this.saveProducts(userId, products.filter(p => p.id !== productId));
+  }
+
+  /**
+   * Writes the routine into the glow plan's remaining morning and evening skincare tasks as "your
+   * product", day by day so clashing pairs alternate. Tasks filled in from an earlier routine are
+   * cleared when their slot empties; products typed in by hand are only replaced when the slot has some.
+   */
+  async applyToPlan(userId: string, routine: SkincareRoutine, now: Date = new Date()): Promise<ActivePlan | null> {
+    return glowPlanService.updatePlan(userId, ({ plan, tasks }) => {
+      const today = todayKey(now);
+      const day = planDayOn(plan, today, today);
+      return {
+        plan,
+        tasks: tasks.map(task => {
+          const slot = routineSlot(task);
+          if (!slot || task.completed || task.day < day) return task;
+          const steps = routineForDay(routine, slot, task.day);
+          if (steps.length === 0) {
+            return task.routine_product_ids ? { ...task, user_product: undefined, routine_product_ids: undefined } : task;
+          }
+          return { ...task, user_product: steps.map(p => p.name).join(' → '), routine_product_ids: steps.map(p => p.id) };
+        }),
+      };
+    });
+  }
+
+  private async saveProducts(userId: string, products: SkincareProduct[]): Promise<void> {
+    await storageService.setUserData(userId, PRODUCTS_KEY, products, { persistent: true });
+    try {
+      await this.applyToPlan(userId, buildRoutine(products));
+    } catch (error) {
+      logger.warn('SkincareRoutine: Failed to update plan tasks', { userId, error: (error as Error).message });
+    }
+  }
+}
+
+export const skincareRoutineService = new SkincareRoutineService();
+export default skincareRoutineService;
@@ -7,12 +7,14 @@ export interface CacheItem<T = any> {
   timestamp: number;
   expiresAt: number;
   version: string;
+  persistent?: boolean;
 }
 
 export interface StorageOptions {
   expiresIn?: number; // milliseconds
   version?: string;
   compress?: boolean;
+  persistent?: boolean; // never expires and survives app version changes
 }
 
 class StorageService {
@@ -24,11 +26,11 @@ class StorageService {
   }
 
   private isExpired(item: CacheItem): boolean {
-    return Date.now() > item.expiresAt;
+    return !item.persistent && Date.now() > item.expiresAt;
   }
 
   private isVersionMismatch(item: CacheItem): boolean {
-    return item.version !== this.currentVersion;
+    return !item.persistent && item.version !== this.currentVersion;
   }
 
   async set<T>(key: string, data: T, options: StorageOptions = {}): Promise<void> {
@@ -36,6 +38,7 @@ class StorageService {
       const {
         expiresIn = CONFIG.STORAGE.CACHE_EXPIRY,
         version = this.currentVersion,
+        persistent = false,
       } = options;
 
       const cacheItem: CacheItem<T> = {
@@ -43,6 +46,7 @@ class StorageService {
         timestamp: Date.now(),
         expiresAt: Date.now() + expiresIn,
         version,
+        persistent,
       };
 
       const serialized = JSON.stringify(cacheItem);
@@ -0,0 +1,51 @@
+import { Platform } from 'react-native';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { logger } from './logger';
+
+// Import FileSystem conditionally for React Native
+let FileSystem: any = null;
+if (Platform.OS !== 'web') {
+  try {
+    FileSystem = require('expo-file-system');
+  } catch (error) {
+    console.warn('FileSystem not available:', error);
+  }
+}
+
+// Wide enough for the face crop in glow-compare
+const THUMBNAIL_WIDTH = 480;
+
+/**
+ * Camera and picker URIs live in cache directories the OS may purge, so history screens keep their own
+ * downsized copy under `folder`. Falls back to the original URI on web or when resizing fails.
+ */
+export async function persistThumbnail(folder: string, id: string, imageUri: string): Promise<string> {
+  if (!FileSystem?.documentDirectory) {
+    return imageUri;
+  }
+  try {
+    const resized = await ImageManipulator.manipulateAsync(
+      imageUri,
+      [{ resize: { width: THUMBNAIL_WIDTH } }],
+      { compress: 0.8, format: ImageManipulator.SaveFormat.JPEG }
+    );
+    const dir = `${FileSystem.documentDirectory}${folder}/`;
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    const target = `${dir}${id}.jpg`;
+    await FileSystem.moveAsync({ from: resized.uri, to: target });
+    return target;
+  } catch (error) {
+    logger.warn('Thumbnails: Failed to persist thumbnail, using original URI', { folder, id, error: (error as Error).message });
+    return imageUri;
+  }
+}
+
+// Only copies made by persistThumbnail are ours to delete
+export async function deleteThumbnail(thumbnailUri: string, imageUri: string): Promise<void> {
+  if (!FileSystem || thumbnailUri === imageUri) return;
+  try {
+    await FileSystem.deleteAsync(thumbnailUri, { idempotent: true });
+  } catch (error) {
+    logger.warn('Thumbnails: Failed to delete thumbnail', { thumbnailUri, error: (error as Error).message });
+  }
+}
@@ -0,0 +1,149 @@
+import { Platform } from 'react-native';
+import { logger } from './logger';
+import { storageService } from './storage';
+import { errorHandler } from './error-handler';
+import { aiService, OutfitAnalysisResult } from './ai-service';
+import { COLOR_FAMILIES, colorFamily } from './wardrobe';
+
+// Import FileSystem conditionally for React Native
+let FileSystem: any = null;
+if (Platform.OS !== 'web') {
+  try {
+    FileSystem = require('expo-file-system');
+  } catch (error) {
+    console.warn('FileSystem not available:', error);
+  }
+}
+
+// One generated preview of an outfit with a single suggested change applied
+export interface TryOnVariation {
+  id: string;
+  suggestion: string; // the improvement it visualizes, as shown in the analysis
+  prompt: string;
+  imageUri: string;
+  createdAt: string;
+}
+
+// What the preview can know about the person beyond the outfit itself
+export interface TryOnContext {
+  eventLabel?: string;
+  skinTone?: string | null; // e.g. "Medium", from the latest face scan
+}
+
+// Portrait, so a full-length figure fits without cropping the shoes
+const TRY_ON_SIZE = '1024x1536';
+const TRY_ON_CACHE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const colorLabel = (hex: string) =>
+  (COLOR_FAMILIES.find(f => f.id === colorFamily(hex))?.label ?? '').toLowerCase();
+
+const hashString = (str: string) => {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) - hash) + str.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash).toString(36);
+};
+
+/**
+ * The image endpoint is text-to-image, so the photo reaches it as a description: the garments and
+ * colors the analysis found, the style and occasion, and the user's skin tone when known. Everything
+ * but the suggested change is spelled out so the preview differs from the original in that one way.
+ */
+export function buildTryOnPrompt(result: OutfitAnalysisResult, suggestion: string, context: TryOnContext = {}): string {
+  const pieces = result.garments && result.garments.length > 0
+    ? result.garments.map(g => `${colorLabel(g.colorHex)} ${g.name.toLowerCase()}`.trim())
+    : result.detectedItems.map(item => item.toLowerCase());
+  const accessories = (result.accessories?.items ?? []).map(a => a.name.toLowerCase());
+  const outfit = [...pieces, ...accessories.filter(a => !pieces.includes(a))];
+  // Palette suggestions say "a suggested shade"; name the shades so the swap lands on one of them
+  const shades = result.paletteMatch && /palette|shade/i.test(suggestion)
+    ? Array.from(new Set(result.paletteMatch.alternatives.map(colorLabel).filter(Boolean)))
+    : [];
+
+  return [
+    `Photorealistic full-length fashion photo of ${context.skinTone ? `a person with a ${context.skinTone.toLowerCase()} skin tone` : 'a person'}, standing and facing the camera.`,
+    outfit.length > 0 ? `They are wearing: ${outfit.join(', ')}.` : null,
+    `Overall style: ${result.styleCategory}${context.eventLabel ? `, dressed for ${context.eventLabel.toLowerCase()}` : ''}.`,
+    `Apply this one change to the outfit: ${suggestion.replace(/\.$/, '')}.`,
+    shades.length > 0 ? `Use one of these colors for the changed piece: ${shades.join(', ')}.` : null,
+    'Keep every other piece, the pose and the framing the same. Plain light background, soft natural light, no text.',
+  ].filter(Boolean).join(' ');
+}
+
+class TryOnService {
+  /**
+   * Generates a preview of one suggestion. The same outfit and suggestion build the same prompt, so
+   * asking again returns the cached image instead of paying for another generation.
+   */
+  async generate(result: OutfitAnalysisResult, suggestion: string, context: TryOnContext = {}): Promise<TryOnVariation> {
+    const prompt = buildTryOnPrompt(result, suggestion, context);
+    const id = `tryon_${hashString(prompt)}`;
+    try {
+      const cached = await storageService.get<TryOnVariation>(id);
+      if (cached && await this.imageExists(cached.imageUri)) {
+        logger.debug('TryOn: Using cached preview', { id });
+        return cached;
+      }
+
+      const { image } = await aiService.generateImage(prompt, TRY_ON_SIZE);
+      const variation: TryOnVariation = {
+        id,
+        suggestion,
+        prompt,
+        imageUri: await this.persistImage(id, image.base64Data, image.mimeType),
+        createdAt: new Date().toISOString(),
+      };
+      await storageService.set(id, variation, { expiresIn: TRY_ON_CACHE_MS });
+      logger.info('TryOn: Preview generated', { id, promptLength: prompt.length });
+      return variation;
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'try-on', 'generate', { id });
+      throw error;
+    }
+  }
+
+  // Files no longer referenced by any saved look; the cache entry is dropped with them
+  async deleteImages(variations: TryOnVariation[]): Promise<void> {
+    for (const variation of variations) {
+      await storageService.remove(variation.id).catch(() => undefined);
+      if (!FileSystem || variation.imageUri.startsWith('data:')) continue;
+      try {
+        await FileSystem.deleteAsync(variation.imageUri, { idempotent: true });
+      } catch (error) {
+        logger.warn('TryOn: Failed to delete preview', { id: variation.id, error: (error as Error).message });
+      }
+    }
+  }
+
+  private async imageExists(uri: string): Promise<boolean> {
+    if (!FileSystem || uri.startsWith('data:')) return true;
+    try {
+      return (await FileSystem.getInfoAsync(uri)).exists;
+    } catch {
+      return false;
+    }
+  }
+
+  // Web keeps the data URI; native writes a file so storage doesn't hold megabytes of base64
+  private async persistImage(id: string, base64Data: string, mimeType: string): Promise<string> {
+    const dataUri = `data:${mimeType};base64,${base64Data}`;
+    if (!FileSystem?.documentDirectory) {
+      return dataUri;
+    }
+    try {
+      const dir = `${FileSystem.documentDirectory}try-on/`;
+      await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+      const target = `${dir}${id}.${mimeType.split('/')[1] ?? 'png'}`;
+      await FileSystem.writeAsStringAsync(target, base64Data, { encoding: FileSystem.EncodingType.Base64 });
+      return target;
+    } catch (error) {
+      logger.warn('TryOn: Failed to save preview, keeping it inline', { id, error: (error as Error).message });
+      return dataUri;
+    }
+  }
+}
+
+export const tryOnService = new TryOnService();
+export default tryOnService;
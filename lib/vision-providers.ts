@@ -0,0 +1,476 @@
+import { CONFIG } from './config';
+import { logger } from './logger';
+import { networkService } from './network';
+import { errorHandler } from './error-handler';
+
+export type VisionProviderId = 'google-vision' | 'gemini' | 'rork' | 'fixture';
+
+export interface VisionPoint {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+// Face boxes and landmarks are in image pixels, object boxes are normalized (0-1)
+export interface VisionBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VisionFaceLandmark {
+  type: string;
+  position: VisionPoint;
+}
+
+export interface VisionFace {
+  detectionConfidence: number;
+  landmarkingConfidence: number;
+  rollAngle: number;
+  panAngle: number;
+  tiltAngle: number;
+  boundingBox?: VisionBoundingBox;
+  landmarks: VisionFaceLandmark[];
+  blurred?: boolean;
+  underExposed?: boolean;
+}
+
+export interface VisionColor {
+  r: number;
+  g: number;
+  b: number;
+  hex: string;
+  pixelFraction: number;
+  score: number;
+}
+
+export interface VisionObject {
+  name: string;
+  score: number;
+  boundingBox?: VisionBoundingBox;
+}
+
+export type PoseKeypointName =
+  | 'nose'
+  | 'left_shoulder'
+  | 'right_shoulder'
+  | 'left_hip'
+  | 'right_hip'
+  | 'left_knee'
+  | 'right_knee'
+  | 'left_ankle'
+  | 'right_ankle';
+
+// Normalized (0-1) like object boxes
+export interface VisionPoseKeypoint {
+  name: PoseKeypointName;
+  x: number;
+  y: number;
+  score: number;
+}
+
+export const POSE_KEYPOINT_NAMES: PoseKeypointName[] = [
+  'nose',
+  'left_shoulder',
+  'right_shoulder',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle',
+];
+
+export interface VisionAnalysis {
+  provider: VisionProviderId;
+  faces: VisionFace[];
+  colors: VisionColor[];
+  objects: VisionObject[];
+  pose?: VisionPoseKeypoint[]; // body keypoints, from providers that can estimate them
+  quality?: {
+    rating: 'good' | 'bad';
+    reasons: string[];
+  };
+}
+
+export interface VisionProvider {
+  readonly id: VisionProviderId;
+  readonly uploadsImage: boolean; // false for providers that never look at the image, so it isn't encoded for them
+  isConfigured(): boolean;
+  analyze(base64Image: string): Promise<VisionAnalysis>;
+}
+
+const LIKELY_VALUES = ['LIKELY', 'VERY_LIKELY'];
+
+const clampChannel = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+
+export const rgbToHex = (r: number, g: number, b: number): string =>
+  `#${[r, g, b].map(v => clampChannel(v).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
+export const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
+  const clean = (hex || '').replace('#', '');
+  return {
+    r: parseInt(clean.slice(0, 2) || '00', 16) || 0,
+    g: parseInt(clean.slice(2, 4) || '00', 16) || 0,
+    b: parseInt(clean.slice(4, 6) || '00', 16) || 0,
+  };
+};
+
+const colorFromHex = (hex: string, pixelFraction: number): VisionColor => {
+  const { r, g, b } = hexToRgb(hex);
+  return { r, g, b, hex: rgbToHex(r, g, b), pixelFraction, score: pixelFraction };
+};
+
+const boxFromVertices = (vertices: any[] | undefined): VisionBoundingBox | undefined => {
+  if (!Array.isArray(vertices) || vertices.length === 0) return undefined;
+  const xs = vertices.map(v => Number(v?.x ?? 0));
+  const ys = vertices.map(v => Number(v?.y ?? 0));
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+const parseJsonPayload = (text: string): any => {
+  const match = text.match(/\{[\s\S]*\}/);
+  return JSON.parse(match ? match[0] : text);
+};
+
+const poseFromPayload = (raw: unknown): VisionPoseKeypoint[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const keypoints = raw
+    .map((k: any) => ({ name: String(k?.name) as PoseKeypointName, x: Number(k?.x), y: Number(k?.y), score: 0.6 }))
+    .filter(k => POSE_KEYPOINT_NAMES.includes(k.name) && k.x >= 0 && k.x <= 1 && k.y >= 0 && k.y <= 1);
+  return keypoints.length > 0 ? keypoints : undefined;
+};
+
+// LLM-backed providers only report presence, so the face gets neutral geometry
+const syntheticFace = (confidence: number): VisionFace => ({
+  detectionConfidence: confidence,
+  landmarkingConfidence: confidence * 0.75,
+  rollAngle: 0,
+  panAngle: 0,
+  tiltAngle: 0,
+  landmarks: [],
+});
+
+const fromLLMPayload = (provider: VisionProviderId, parsed: any): VisionAnalysis => {
+  const colors: string[] = Array.isArray(parsed.colors) ? parsed.colors.map(String) : [];
+  const items: string[] = Array.isArray(parsed.items) ? parsed.items.map(String) : [];
+  return {
+    provider,
+    faces: parsed.facePresent ? [syntheticFace(0.8)] : [],
+    colors: colors.slice(0, 5).map(hex => colorFromHex(hex, 0.2)),
+    objects: items.map(name => ({ name, score: 0.7 })),
+    pose: poseFromPayload(parsed.pose),
+    quality: {
+      rating: parsed.quality === 'good' ? 'good' : 'bad',
+      reasons: Array.isArray(parsed.reasons) ? parsed.reasons.map(String) : [],
+    },
+  };
+};
+
+const VALIDATOR_PROMPT = 'You are a strict validator. Analyze this photo and return compact JSON. Goals: 1) Determine if a real human face is clearly present and centered for analysis (not cartoon, not obscured), 2) List visible clothing items and accessories on the person (bags, watches, belts, glasses, jewelry, scarves), naming the metal of watches and jewelry when visible (e.g. "gold necklace"), 3) Extract dominant garment colors as hex if possible, 4) Rate image quality for analysis based on lighting, focus, and obstructions.';
+const VALIDATOR_FORMAT = `Respond ONLY with JSON having fields: {"facePresent": true|false, "facesCount": number, "quality": "good"|"bad", "reasons": string[], "items": string[], "colors": string[], "pose": [{"name": string, "x": number, "y": number}] }. Include "pose" only when the body is visible, using image-relative 0-1 coordinates and names from: ${POSE_KEYPOINT_NAMES.join(', ')}`;
+
+class GoogleVisionProvider implements VisionProvider {
+  readonly id = 'google-vision' as const;
+  readonly uploadsImage = true;
+
+  isConfigured(): boolean {
+    return !!CONFIG.AI.GOOGLE_VISION_API_KEY;
+  }
+
+  async analyze(base64Image: string): Promise<VisionAnalysis> {
+    const response = await fetch(
+      `https://vision.googleapis.com/v1/images:annotate?key=${CONFIG.AI.GOOGLE_VISION_API_KEY}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          requests: [
+            {
+              image: {
+                content: base64Image,
+              },
+              features: [
+                { type: 'FACE_DETECTION', maxResults: 1 },
+                { type: 'IMAGE_PROPERTIES', maxResults: 1 },
+                { type: 'OBJECT_LOCALIZATION', maxResults: 10 },
+              ],
+            },
+          ],
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      let details = '';
+      try {
+        const errJson = await response.json();
+        details = errJson?.error?.message || JSON.stringify(errJson);
+      } catch {
+        details = response.statusText || 'Unknown error';
+      }
+      throw new Error(`Vision API error: ${response.status} ${details}`);
+    }
+
+    const json = await response.json();
+    return this.normalize(json?.responses?.[0] ?? {});
+  }
+
+  private normalize(res: any): VisionAnalysis {
+    const faces: VisionFace[] = (res.faceAnnotations ?? []).map((f: any) => ({
+      detectionConfidence: Number(f?.detectionConfidence ?? 0.7),
+      landmarkingConfidence: Number(f?.landmarkingConfidence ?? 0.6),
+      rollAngle: Number(f?.rollAngle ?? 0),
+      panAngle: Number(f?.panAngle ?? 0),
+      tiltAngle: Number(f?.tiltAngle ?? 0),
+      boundingBox: boxFromVertices(f?.fdBoundingPoly?.vertices ?? f?.boundingPoly?.vertices),
+      landmarks: (f?.landmarks ?? []).map((l: any) => ({
+        type: String(l?.type ?? 'UNKNOWN_LANDMARK'),
+        position: {
+          x: Number(l?.position?.x ?? 0),
+          y: Number(l?.position?.y ?? 0),
+          z: Number(l?.position?.z ?? 0),
+        },
+      })),
+      blurred: LIKELY_VALUES.includes(f?.blurredLikelihood),
+      underExposed: LIKELY_VALUES.includes(f?.underExposedLikelihood),
+    }));
+
+    const colors: VisionColor[] = (res.imagePropertiesAnnotation?.dominantColors?.colors ?? [])
+      .filter((c: any) => c?.color)
+      .map((c: any) => {
+        const r = Number(c.color.r ?? 0);
+        const g = Number(c.color.g ?? 0);
+        const b = Number(c.color.b ?? 0);
+        return {
+          r,
+          g,
+          b,
+          hex: rgbToHex(r, g, b),
+          pixelFraction: Number(c?.pixelFraction ?? 0.1),
+          score: Number(c?.score ?? 0),
+        };
+      });
+
+    const objects: VisionObject[] = (res.localizedObjectAnnotations ?? []).map((o: any) => ({
+      name: String(o?.name ?? ''),
+      score: Number(o?.score ?? 0),
+      boundingBox: boxFromVertices(o?.boundingPoly?.normalizedVertices),
+    }));
+
+    return { provider: this.id, faces, colors, objects };
+  }
+}
+
+class GeminiVisionProvider implements VisionProvider {
+  readonly id = 'gemini' as const;
+  readonly uploadsImage = true;
+
+  isConfigured(): boolean {
+    return !!CONFIG.AI.GOOGLE_GEMINI_API_KEY;
+  }
+
+  async analyze(base64Image: string): Promise<VisionAnalysis> {
+    const body = {
+      contents: [
+        {
+          parts: [
+            { text: VALIDATOR_PROMPT },
+            { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+            { text: VALIDATOR_FORMAT },
+          ]
+        }
+      ]
+    } as const;
+
+    const res = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent?key=${CONFIG.AI.GOOGLE_GEMINI_API_KEY}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      }
+    );
+    if (!res.ok) {
+      throw new Error(`Gemini API error: ${res.status} ${res.statusText}`);
+    }
+    const json = await res.json();
+    const text: string = json?.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+    return fromLLMPayload(this.id, parseJsonPayload(text));
+  }
+}
+
+class RorkVisionProvider implements VisionProvider {
+  readonly id = 'rork' as const;
+  readonly uploadsImage = true;
+
+  isConfigured(): boolean {
+    return !!CONFIG.AI.RORK_AI_BASE_URL;
+  }
+
+  async analyze(base64Image: string): Promise<VisionAnalysis> {
+    const result = await networkService.post<{ completion: string }>(
+      `${CONFIG.AI.RORK_AI_BASE_URL}/text/llm/`,
+      {
+        messages: [
+          { role: 'system', content: VALIDATOR_PROMPT },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: VALIDATOR_FORMAT },
+              { type: 'image', image: base64Image },
+            ],
+          },
+        ],
+      },
+      { timeout: 45000, retries: 1, retryDelay: 2000 }
+    );
+    return fromLLMPayload(this.id, parseJsonPayload(result.completion));
+  }
+}
+
+const DEFAULT_FIXTURE: VisionAnalysis = {
+  provider: 'fixture',
+  faces: [
+    {
+      detectionConfidence: 0.95,
+      landmarkingConfidence: 0.8,
+      rollAngle: 1.5,
+      panAngle: -2,
+      tiltAngle: 3,
+      boundingBox: { x: 180, y: 140, width: 280, height: 340 },
+      landmarks: [
+        { type: 'LEFT_EYE', position: { x: 262, y: 262, z: 0 } },
+        { type: 'RIGHT_EYE', position: { x: 378, y: 260, z: 0 } },
+        { type: 'MIDPOINT_BETWEEN_EYES', position: { x: 320, y: 258, z: -12 } },
+        { type: 'NOSE_TIP', position: { x: 321, y: 330, z: -40 } },
+        { type: 'MOUTH_LEFT', position: { x: 280, y: 392, z: -6 } },
+        { type: 'MOUTH_RIGHT', position: { x: 362, y: 391, z: -6 } },
+        { type: 'MOUTH_CENTER', position: { x: 321, y: 394, z: -10 } },
+        { type: 'UPPER_LIP', position: { x: 321, y: 380, z: -14 } },
+        { type: 'LOWER_LIP', position: { x: 321, y: 408, z: -12 } },
+        { type: 'NOSE_BOTTOM_CENTER', position: { x: 321, y: 350, z: -30 } },
+        { type: 'LEFT_EYEBROW_UPPER_MIDPOINT', position: { x: 258, y: 232, z: -4 } },
+        { type: 'RIGHT_EYEBROW_UPPER_MIDPOINT', position: { x: 382, y: 231, z: -4 } },
+        { type: 'FOREHEAD_GLABELLA', position: { x: 320, y: 230, z: -14 } },
+        { type: 'CHIN_GNATHION', position: { x: 321, y: 470, z: -4 } },
+        { type: 'CHIN_LEFT_GONION', position: { x: 200, y: 400, z: 60 } },
+        { type: 'CHIN_RIGHT_GONION', position: { x: 440, y: 398, z: 60 } },
+        { type: 'LEFT_EAR_TRAGION', position: { x: 186, y: 300, z: 90 } },
+        { type: 'RIGHT_EAR_TRAGION', position: { x: 454, y: 298, z: 90 } },
+      ],
+      blurred: false,
+      underExposed: false,
+    },
+  ],
+  colors: [
+    { r: 214, g: 170, b: 142, hex: '#D6AA8E', pixelFraction: 0.34, score: 0.4 },
+    { r: 40, g: 52, b: 82, hex: '#283452', pixelFraction: 0.22, score: 0.25 },
+    { r: 236, g: 232, b: 226, hex: '#ECE8E2', pixelFraction: 0.18, score: 0.15 },
+    { r: 92, g: 64, b: 48, hex: '#5C4030', pixelFraction: 0.12, score: 0.12 },
+    { r: 150, g: 120, b: 96, hex: '#967860', pixelFraction: 0.08, score: 0.08 },
+  ],
+  objects: [
+    { name: 'Person', score: 0.94, boundingBox: { x: 0.2, y: 0.05, width: 0.6, height: 0.9 } },
+    { name: 'Jacket', score: 0.82, boundingBox: { x: 0.22, y: 0.3, width: 0.56, height: 0.32 } },
+    { name: 'Pants', score: 0.78, boundingBox: { x: 0.3, y: 0.6, width: 0.4, height: 0.3 } },
+    { name: 'Shoe', score: 0.7, boundingBox: { x: 0.32, y: 0.9, width: 0.12, height: 0.05 } },
+    { name: 'Gold watch', score: 0.62, boundingBox: { x: 0.24, y: 0.56, width: 0.05, height: 0.03 } },
+  ],
+  pose: [
+    { name: 'nose', x: 0.5, y: 0.14, score: 0.9 },
+    { name: 'left_shoulder', x: 0.36, y: 0.27, score: 0.88 },
+    { name: 'right_shoulder', x: 0.64, y: 0.27, score: 0.88 },
+    { name: 'left_hip', x: 0.41, y: 0.55, score: 0.8 },
+    { name: 'right_hip', x: 0.59, y: 0.55, score: 0.8 },
+    { name: 'left_knee', x: 0.42, y: 0.73, score: 0.75 },
+    { name: 'right_knee', x: 0.58, y: 0.73, score: 0.75 },
+    { name: 'left_ankle', x: 0.42, y: 0.9, score: 0.7 },
+    { name: 'right_ankle', x: 0.58, y: 0.9, score: 0.7 },
+  ],
+  quality: { rating: 'good', reasons: [] },
+};
+
+// Offline provider returning a fixed analysis so the pipeline can run without network access
+class FixtureVisionProvider implements VisionProvider {
+  readonly id = 'fixture' as const;
+  readonly uploadsImage = false;
+  private fixture: VisionAnalysis = DEFAULT_FIXTURE;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  setFixture(fixture: Omit<VisionAnalysis, 'provider'>): void {
+    this.fixture = { ...fixture, provider: this.id };
+  }
+
+  resetFixture(): void {
+    this.fixture = DEFAULT_FIXTURE;
+  }
+
+  async analyze(_base64Image: string): Promise<VisionAnalysis> {
+    return JSON.parse(JSON.stringify(this.fixture));
+  }
+}
+
+class VisionProviderRegistry {
+  private providers = new Map<VisionProviderId, VisionProvider>();
+
+  register(provider: VisionProvider): void {
+    this.providers.set(provider.id, provider);
+    logger.debug('Vision: Provider registered', { id: provider.id });
+  }
+
+  get(id: VisionProviderId): VisionProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  getPriority(): VisionProviderId[] {
+    return CONFIG.FEATURES.USE_MOCK_DATA ? ['fixture'] : CONFIG.AI.VISION_PROVIDERS;
+  }
+
+  getChain(priority: VisionProviderId[] = this.getPriority()): VisionProvider[] {
+    return priority
+      .map(id => this.providers.get(id))
+      .filter((p): p is VisionProvider => !!p && p.isConfigured());
+  }
+
+  // The image is encoded on first use, so a chain that only reaches the fixture never reads the file
+  async analyze(loadImage: () => Promise<string>, priority?: VisionProviderId[]): Promise<VisionAnalysis> {
+    const chain = this.getChain(priority);
+    if (chain.length === 0) {
+      throw new Error('No vision provider configured');
+    }
+
+    let base64Image: Promise<string> | null = null;
+    let lastError: Error | null = null;
+    for (const provider of chain) {
+      const image = provider.uploadsImage ? await (base64Image ??= loadImage()) : '';
+      try {
+        const result = await provider.analyze(image);
+        logger.debug('Vision: Analysis completed', { provider: provider.id, faces: result.faces.length, objects: result.objects.length });
+        return result;
+      } catch (error) {
+        lastError = error as Error;
+        await errorHandler.reportNetworkError(lastError, `vision:${provider.id}`, 'POST');
+        logger.warn('Vision: Provider failed, trying next', { provider: provider.id, error: lastError.message });
+      }
+    }
+    throw lastError ?? new Error('Vision analysis failed');
+  }
+}
+
+export const fixtureVisionProvider = new FixtureVisionProvider();
+
+export const visionProviders = new VisionProviderRegistry();
+visionProviders.register(new GoogleVisionProvider());
+visionProviders.register(new GeminiVisionProvider());
+visionProviders.register(new RorkVisionProvider());
+visionProviders.register(fixtureVisionProvider);
+
+export default visionProviders;
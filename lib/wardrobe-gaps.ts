@@ -0,0 +1,193 @@
+import { errorHandler } from './error-handler';
+import { logger } from './logger';
+import { hexToLab, deltaE } from './color-science';
+import { colorPaletteService, SeasonDefinition } from './color-palette';
+import { eventTypeService } from './event-types';
+import { outfitGeneratorService } from './outfit-generator';
+import { outfitHistoryService, OutfitLookRecord } from './outfit-history';
+import { productCatalogs, Product } from './product-catalog';
+import { STYLE_TAG_FORMALITY } from './dress-code';
+import { wardrobeService, WardrobeCategory, WardrobeItem, COLOR_FAMILIES, colorFamily } from './wardrobe';
+import type { EventType } from '../constants/event-types';
+
+export interface FrequentEvent {
+  eventType: EventType;
+  weight: number; // share of the user's occasions, summing to 1
+}
+
+// A piece the wardrobe doesn't have, and what it would add
+export interface WardrobeGap {
+  id: string;
+  category: WardrobeCategory;
+  colorHex: string;
+  colorLabel: string;
+  styleTag: string;
+  newLooks: number; // wearable looks it unlocks across the frequent events
+  score: number; // newLooks weighted by how often each event comes up, for ranking
+  byEvent: { eventTypeId: string; label: string; newLooks: number }[];
+}
+
+export interface ShoppableGap extends WardrobeGap {
+  products: Product[];
+}
+
+export interface GapReport {
+  events: FrequentEvent[];
+  gaps: ShoppableGap[];
+  paletteLabel: string | null; // the season the colors were drawn from, when the user has a palette
+}
+
+const FREQUENT_EVENT_COUNT = 3;
+const DEFAULT_EVENT_ID = 'casual-outing';
+const GAP_CATEGORIES: WardrobeCategory[] = ['top', 'bottom', 'dress', 'outerwear', 'shoes'];
+// Colors this close count as one candidate, and as a piece the user already owns
+const SAME_COLOR_DELTA_E = 15;
+const MAX_GAPS = 6;
+const MAX_GAPS_PER_CATEGORY = 2;
+// Tags tried for a missing piece, so the suggestion matches how dressy the event is
+const GAP_STYLE_TAGS = ['Athletic', 'Casual', 'Smart Casual', 'Business Casual', 'Formal'];
+
+const styleTagFor = (formality: number) =>
+  GAP_STYLE_TAGS.reduce((best, tag) =>
+    Math.abs(STYLE_TAG_FORMALITY[tag] - formality) < Math.abs(STYLE_TAG_FORMALITY[best] - formality) ? tag : best
+  );
+
+class WardrobeGapService {
+  /**
+   * The occasions the user dresses for most: looks in the lookbook count fully, occasions tagged on
+   * wardrobe items count half. Falls back to casual outings for a new user.
+   */
+  frequentEvents(looks: OutfitLookRecord[], items: WardrobeItem[], types: EventType[], count: number = FREQUENT_EVENT_COUNT): FrequentEvent[] {
+    const tally = new Map<string, number>();
+    const add = (id: string | undefined, amount: number) => {
+      if (id) tally.set(id, (tally.get(id) ?? 0) + amount);
+    };
+    looks.forEach(look => add(look.eventTypeId, 1));
+    items.forEach(item => item.occasions.forEach(label => add(types.find(t => t.label === label)?.id, 0.5)));
+
+    const ranked = Array.from(tally.entries())
+      .map(([id, total]) => ({ eventType: types.find(t => t.id === id), total }))
+      .filter((e): e is { eventType: EventType; total: number } => !!e.eventType)
+      .sort((a, b) => b.total - a.total)
+      .slice(0, count);
+    if (ranked.length === 0) {
+      const fallback = types.find(t => t.id === DEFAULT_EVENT_ID) ?? types[0];
+      return fallback ? [{ eventType: fallback, weight: 1 }] : [];
+    }
+    const sum = ranked.reduce((s, e) => s + e.total, 0);
+    return ranked.map(e => ({ eventType: e.eventType, weight: e.total / sum }));
+  }
+
+  // The palette's colors when the user has one, otherwise one swatch per color family
+  candidateColors(palette: SeasonDefinition | null): string[] {
+    const colors = palette ? [...palette.bestColors, ...palette.neutrals] : COLOR_FAMILIES.map(f => f.swatch);
+    const distinct: { hex: string; lab: ReturnType<typeof hexToLab> }[] = [];
+    for (const hex of colors) {
+      const lab = hexToLab(hex);
+      if (!distinct.some(d => deltaE(d.lab, lab) < SAME_COLOR_DELTA_E)) distinct.push({ hex, lab });
+    }
+    return distinct.map(d => d.hex);
+  }
+
+  /**
+   * Tries each missing category and color as a hypothetical item and counts the wearable looks it adds
+   * for each frequent event, via the Style Me generator. Dresses are only suggested to users who own one.
+   */
+  findGaps(items: WardrobeItem[], events: FrequentEvent[], palette: SeasonDefinition | null, limit: number = MAX_GAPS): WardrobeGap[] {
+    const colors = this.candidateColors(palette);
+    const categories = GAP_CATEGORIES.filter(c => c !== 'dress' || items.some(i => i.category === 'dress'));
+    const owned = items.map(i => ({ category: i.category, lab: hexToLab(i.colorHex) }));
+    const gaps = new Map<string, WardrobeGap>();
+
+    for (const { eventType, weight } of events) {
+      const options = { dressCode: eventType.dressCode };
+      const baseline = outfitGeneratorService.wearableLooks(items, eventType.label, options);
+      const styleTag = styleTagFor(eventType.dressCode.formality);
+
+      for (const category of categories) {
+        for (const colorHex of colors) {
+          const lab = hexToLab(colorHex);
+          if (owned.some(o => o.category === category && deltaE(o.lab, lab) < SAME_COLOR_DELTA_E)) continue;
+
+          const colorLabel = COLOR_FAMILIES.find(f => f.id === colorFamily(colorHex))?.label ?? colorHex;
+          const candidate = this.hypotheticalItem(category, colorHex, colorLabel, styleTag);
+          const looks = outfitGeneratorService.wearableLooks([...items, candidate], eventType.label, {
+            ...options,
+            lockedItemId: candidate.id,
+          });
+          const newLooks = Array.from(looks).filter(id => !baseline.has(id)).length;
+          if (newLooks === 0) continue;
+
+          const id = `${category}:${colorHex}:${styleTag}`;
+          const gap = gaps.get(id) ?? { id, category, colorHex, colorLabel, styleTag, newLooks: 0, score: 0, byEvent: [] };
+          gap.newLooks += newLooks;
+          gap.score += newLooks * weight;
+          gap.byEvent.push({ eventTypeId: eventType.id, label: eventType.label, newLooks });
+          gaps.set(id, gap);
+        }
+      }
+    }
+
+    // Keep the list varied: a handful of navy tops says less than one top, one pair of shoes, one layer
+    const perCategory = new Map<WardrobeCategory, number>();
+    return Array.from(gaps.values())
+      .sort((a, b) => b.score - a.score)
+      .filter(gap => {
+        const taken = perCategory.get(gap.category) ?? 0;
+        if (taken >= MAX_GAPS_PER_CATEGORY) return false;
+        perCategory.set(gap.category, taken + 1);
+        return true;
+      })
+      .slice(0, limit);
+  }
+
+  async shop(gaps: WardrobeGap[], productsPerGap: number = 3): Promise<ShoppableGap[]> {
+    return Promise.all(gaps.map(async gap => ({
+      ...gap,
+      products: await productCatalogs.search({
+        category: gap.category,
+        colorHex: gap.colorHex,
+        styleTag: gap.styleTag,
+        limit: productsPerGap,
+      }),
+    })));
+  }
+
+  async getReport(userId: string): Promise<GapReport> {
+    try {
+      const [items, looks, types, palette] = await Promise.all([
+        wardrobeService.getItems(userId),
+        outfitHistoryService.getLooks(userId),
+        eventTypeService.getAll(userId),
+        colorPaletteService.getPalette(userId),
+      ]);
+      const events = this.frequentEvents(looks, items, types);
+      const gaps = await this.shop(this.findGaps(items, events, palette));
+      logger.info('WardrobeGaps: Report built', { userId, items: items.length, events: events.length, gaps: gaps.length });
+      return { events, gaps, paletteLabel: palette?.label ?? null };
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'wardrobe-gaps', 'getReport', { userId });
+      throw error;
+    }
+  }
+
+  private hypotheticalItem(category: WardrobeCategory, colorHex: string, colorLabel: string, styleTag: string): WardrobeItem {
+    const now = new Date().toISOString();
+    return {
+      id: `gap_${category}_${colorHex}`,
+      // No garment keywords, so the style tag alone sets its formality
+      name: `${colorLabel} ${styleTag}`,
+      category,
+      colorHex,
+      styleTag,
+      occasions: [],
+      timesWorn: 0,
+      source: 'manual',
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+}
+
+export const wardrobeGapService = new WardrobeGapService();
+export default wardrobeGapService;
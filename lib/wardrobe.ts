@@ -0,0 +1,361 @@
+import { Platform } from 'react-native';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { logger } from './logger';
+import { storageService } from './storage';
+import { errorHandler } from './error-handler';
+import { getImageSize, ImagePixels } from './image-pixels';
+import { hexToLab, deltaE, looksLikeSkin } from './color-science';
+import { hexToRgb, rgbToHex } from './vision-providers';
+import type { VisionAnalysis, VisionBoundingBox } from './vision-providers';
+import type { OutfitAnalysisResult } from './ai-service';
+
+// Import FileSystem conditionally for React Native
+let FileSystem: any = null;
+if (Platform.OS !== 'web') {
+  try {
+    FileSystem = require('expo-file-system');
+  } catch (error) {
+    console.warn('FileSystem not available:', error);
+  }
+}
+
+export type WardrobeCategory = 'top' | 'bottom' | 'dress' | 'outerwear' | 'shoes' | 'accessory';
+
+export type ColorFamily =
+  | 'black' | 'white' | 'gray' | 'beige' | 'brown' | 'red' | 'orange'
+  | 'yellow' | 'green' | 'blue' | 'purple' | 'pink';
+
+export interface WardrobeItem {
+  id: string;
+  name: string;
+  category: WardrobeCategory;
+  colorHex: string;
+  styleTag: string;
+  occasions: string[]; // event labels the item has been worn to or tagged for
+  photoUri?: string; // cropped garment photo
+  timesWorn: number;
+  lastWornAt?: string;
+  source: 'analysis' | 'manual';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WardrobeItemInput = Pick<WardrobeItem, 'name' | 'category' | 'colorHex' | 'styleTag' | 'occasions'> & {
+  photoUri?: string;
+};
+
+// A garment found in an outfit photo, before it becomes a wardrobe item
+export interface DetectedGarment {
+  name: string;
+  category: WardrobeCategory;
+  colorHex: string;
+  boundingBox?: VisionBoundingBox; // normalized 0-1 within imageUri
+  imageUri: string;
+}
+
+export interface WardrobeFilter {
+  category?: WardrobeCategory;
+  colorFamily?: ColorFamily;
+  occasion?: string;
+}
+
+export const WARDROBE_CATEGORIES: { id: WardrobeCategory; label: string; icon: string }[] = [
+  { id: 'top', label: 'Tops', icon: '👕' },
+  { id: 'bottom', label: 'Bottoms', icon: '👖' },
+  { id: 'dress', label: 'Dresses', icon: '👗' },
+  { id: 'outerwear', label: 'Outerwear', icon: '🧥' },
+  { id: 'shoes', label: 'Shoes', icon: '👟' },
+  { id: 'accessory', label: 'Accessories', icon: '👜' },
+];
+
+export const COLOR_FAMILIES: { id: ColorFamily; label: string; swatch: string }[] = [
+  { id: 'black', label: 'Black', swatch: '#1A1A1A' },
+  { id: 'white', label: 'White', swatch: '#FAFAFA' },
+  { id: 'gray', label: 'Gray', swatch: '#9E9E9E' },
+  { id: 'beige', label: 'Beige', swatch: '#D8C3A5' },
+  { id: 'brown', label: 'Brown', swatch: '#795548' },
+  { id: 'red', label: 'Red', swatch: '#D32F2F' },
+  { id: 'orange', label: 'Orange', swatch: '#F57C00' },
+  { id: 'yellow', label: 'Yellow', swatch: '#FBC02D' },
+  { id: 'green', label: 'Green', swatch: '#388E3C' },
+  { id: 'blue', label: 'Blue', swatch: '#1976D2' },
+  { id: 'purple', label: 'Purple', swatch: '#7B1FA2' },
+  { id: 'pink', label: 'Pink', swatch: '#EC407A' },
+];
+
+export const STYLE_TAGS = ['Casual', 'Smart Casual', 'Business Casual', 'Formal', 'Streetwear', 'Athletic'];
+
+const WARDROBE_KEY = 'wardrobe_items';
+// Two garments of the same category this close in color are taken to be the same piece
+const SAME_ITEM_DELTA_E = 10;
+
+const CATEGORY_KEYWORDS: [WardrobeCategory, string[]][] = [
+  // Order matters: "dress shoe" is footwear, "dress shirt" a top and "shirt dress" a dress
+  ['shoes', ['shoe', 'sneaker', 'boot', 'sandal', 'heel', 'loafer', 'footwear']],
+  ['top', ['dress shirt']],
+  ['bottom', ['dress pants', 'dress trousers', 'dress slacks']],
+  ['dress', ['dress', 'gown', 'jumpsuit']],
+  ['outerwear', ['coat', 'jacket', 'blazer', 'cardigan', 'parka', 'vest']],
+  ['bottom', ['pants', 'trousers', 'jeans', 'skirt', 'shorts', 'leggings']],
+  ['top', ['shirt', 'blouse', 'sweater', 'hoodie', 'top', 'polo', 'sweatshirt']],
+  ['accessory', ['tie', 'hat', 'cap', 'bag', 'handbag', 'purse', 'backpack', 'belt', 'scarf', 'watch', 'glasses', 'sunglasses', 'jewelry', 'necklace', 'earring', 'bracelet']],
+];
+
+export function categorizeGarment(name: string): WardrobeCategory | null {
+  const lower = name.toLowerCase();
+  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+    if (keywords.some(k => lower.includes(k))) return category;
+  }
+  return null;
+}
+
+export function colorFamily(hex: string): ColorFamily {
+  const { r, g, b } = hexToRgb(hex);
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const d = max - min;
+  const s = max === 0 ? 0 : d / max;
+  let h = 0;
+  if (d > 0) {
+    if (max === r / 255) h = (((g - b) / 255) / d) % 6;
+    else if (max === g / 255) h = ((b - r) / 255) / d + 2;
+    else h = ((r - g) / 255) / d + 4;
+  }
+  h = (h * 60 + 360) % 360;
+
+  if (max < 0.2) return 'black';
+  if (s < 0.12) return max > 0.85 ? 'white' : 'gray';
+  // Charcoal and slate read as gray even with a slight tint
+  if (s < 0.35 && max < 0.35) return 'gray';
+  if (h >= 15 && h < 50 && s < 0.4 && max > 0.7) return 'beige';
+  if (h >= 10 && h < 45 && max < 0.6) return 'brown';
+  if (h < 15 || h >= 345) return s < 0.45 && max > 0.75 ? 'pink' : 'red';
+  if (h < 45) return 'orange';
+  if (h < 70) return 'yellow';
+  if (h < 170) return 'green';
+  if (h < 260) return 'blue';
+  if (h < 300) return 'purple';
+  return 'pink';
+}
+
+// Median garment color from the middle of its box, where collars, skin and background are least likely
+export function sampleGarmentColor(pixels: ImagePixels, box: VisionBoundingBox): string | null {
+  const x0 = Math.max(0, Math.floor((box.x + box.width * 0.2) * pixels.width));
+  const x1 = Math.min(pixels.width, Math.ceil((box.x + box.width * 0.8) * pixels.width));
+  const y0 = Math.max(0, Math.floor((box.y + box.height * 0.2) * pixels.height));
+  const y1 = Math.min(pixels.height, Math.ceil((box.y + box.height * 0.8) * pixels.height));
+
+  const rs: number[] = [];
+  const gs: number[] = [];
+  const bs: number[] = [];
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * pixels.width + x) * 4;
+      const r = pixels.data[i];
+      const g = pixels.data[i + 1];
+      const b = pixels.data[i + 2];
+      if (looksLikeSkin(r, g, b)) continue;
+      rs.push(r);
+      gs.push(g);
+      bs.push(b);
+    }
+  }
+  if (rs.length < 20) return null;
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  return rgbToHex(median(rs), median(gs), median(bs)).toUpperCase();
+}
+
+// Garments in one photo; pixels are optional and only sharpen the per-garment colors
+export function extractGarments(vision: VisionAnalysis, imageUri: string, pixels?: ImagePixels | null): DetectedGarment[] {
+  const fallbackColor = vision.colors.find(c => !looksLikeSkin(c.r, c.g, c.b))?.hex ?? vision.colors[0]?.hex ?? '#808080';
+  const garments: DetectedGarment[] = [];
+  for (const object of vision.objects) {
+    const category = categorizeGarment(object.name);
+    if (!category || garments.some(g => g.name.toLowerCase() === object.name.toLowerCase())) continue;
+    const sampled = pixels && object.boundingBox ? sampleGarmentColor(pixels, object.boundingBox) : null;
+    garments.push({
+      name: object.name.charAt(0).toUpperCase() + object.name.slice(1),
+      category,
+      colorHex: (sampled ?? fallbackColor).toUpperCase(),
+      boundingBox: object.boundingBox,
+      imageUri,
+    });
+  }
+  return garments;
+}
+
+class WardrobeService {
+  async getItems(userId: string): Promise<WardrobeItem[]> {
+    const items = await storageService.getUserData<WardrobeItem[]>(userId, WARDROBE_KEY);
+    return (items ?? []).slice().sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+  }
+
+  async getItem(userId: string, itemId: string): Promise<WardrobeItem | null> {
+    const items = await this.getItems(userId);
+    return items.find(i => i.id === itemId) ?? null;
+  }
+
+  async addItem(userId: string, input: WardrobeItemInput, source: WardrobeItem['source'] = 'manual'): Promise<WardrobeItem> {
+    const now = new Date().toISOString();
+    const item: WardrobeItem = {
+      id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      ...input,
+      colorHex: input.colorHex.toUpperCase(),
+      timesWorn: 0,
+      source,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const items = await this.getItems(userId);
+    await this.saveItems(userId, [item, ...items]);
+    logger.info('Wardrobe: Item added', { userId, itemId: item.id, source });
+    return item;
+  }
+
+  async updateItem(userId: string, itemId: string, changes: Partial<WardrobeItemInput>): Promise<WardrobeItem> {
+    const items = await this.getItems(userId);
+    const existing = items.find(i => i.id === itemId);
+    if (!existing) {
+      throw new Error('Wardrobe item not found');
+    }
+    const updated: WardrobeItem = {
+      ...existing,
+      ...changes,
+      colorHex: (changes.colorHex ?? existing.colorHex).toUpperCase(),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.saveItems(userId, items.map(i => (i.id === itemId ? updated : i)));
+    return updated;
+  }
+
+  async removeItem(userId: string, itemId: string): Promise<void> {
+    const items = await this.getItems(userId);
+    const target = items.find(i => i.id === itemId);
+    await this.saveItems(userId, items.filter(i => i.id !== itemId));
+    if (target?.photoUri && FileSystem?.documentDirectory && target.photoUri.startsWith(FileSystem.documentDirectory)) {
+      try {
+        await FileSystem.deleteAsync(target.photoUri, { idempotent: true });
+      } catch (error) {
+        logger.warn('Wardrobe: Failed to delete item photo', { itemId, error: (error as Error).message });
+      }
+    }
+  }
+
+  async markWorn(userId: string, itemIds: string[], occasion?: string, wornAt: string = new Date().toISOString()): Promise<void> {
+    const items = await this.getItems(userId);
+    await this.saveItems(userId, items.map(item => {
+      if (!itemIds.includes(item.id)) return item;
+      return {
+        ...item,
+        timesWorn: item.timesWorn + 1,
+        lastWornAt: wornAt,
+        occasions: occasion && !item.occasions.includes(occasion) ? [...item.occasions, occasion] : item.occasions,
+        updatedAt: wornAt,
+      };
+    }));
+  }
+
+  // Adds the garments from an analyzed outfit; pieces already in the wardrobe are counted as worn again
+  async importFromAnalysis(userId: string, result: OutfitAnalysisResult, occasion: string): Promise<{ added: WardrobeItem[]; worn: WardrobeItem[] }> {
+    try {
+      const garments = result.garments ?? [];
+      const items = await this.getItems(userId);
+      const added: WardrobeItem[] = [];
+      const wornIds: string[] = [];
+
+      for (const garment of garments) {
+        const existing = this.findMatchingItem([...added, ...items], garment);
+        if (existing) {
+          if (!wornIds.includes(existing.id)) wornIds.push(existing.id);
+          continue;
+        }
+        const id = `item_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+        const now = new Date().toISOString();
+        added.push({
+          id,
+          name: garment.name,
+          category: garment.category,
+          colorHex: garment.colorHex,
+          styleTag: result.styleCategory,
+          occasions: [occasion],
+          photoUri: await this.persistCrop(id, garment),
+          timesWorn: 1,
+          lastWornAt: now,
+          source: 'analysis',
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+
+      // New items arrive already counted as worn once
+      const newIds = added.map(a => a.id);
+      await this.saveItems(userId, [...added, ...items]);
+      await this.markWorn(userId, wornIds.filter(id => !newIds.includes(id)), occasion);
+
+      logger.info('Wardrobe: Imported outfit', { userId, added: added.length, worn: wornIds.length });
+      const refreshed = await this.getItems(userId);
+      return { added, worn: refreshed.filter(i => wornIds.includes(i.id)) };
+    } catch (error) {
+      await errorHandler.reportError(error as Error, 'wardrobe', 'importFromAnalysis', { userId });
+      throw error;
+    }
+  }
+
+  filterItems(items: WardrobeItem[], filter: WardrobeFilter): WardrobeItem[] {
+    return items.filter(item =>
+      (!filter.category || item.category === filter.category) &&
+      (!filter.colorFamily || colorFamily(item.colorHex) === filter.colorFamily) &&
+      (!filter.occasion || item.occasions.includes(filter.occasion))
+    );
+  }
+
+  // Occasions actually present in the wardrobe, for filter chips
+  getOccasions(items: WardrobeItem[]): string[] {
+    return Array.from(new Set(items.flatMap(i => i.occasions))).sort();
+  }
+
+  private findMatchingItem(items: WardrobeItem[], garment: DetectedGarment): WardrobeItem | undefined {
+    const lab = hexToLab(garment.colorHex);
+    return items.find(item => item.category === garment.category && deltaE(lab, hexToLab(item.colorHex)) < SAME_ITEM_DELTA_E);
+  }
+
+  private async saveItems(userId: string, items: WardrobeItem[]): Promise<void> {
+    await storageService.setUserData(userId, WARDROBE_KEY, items, { persistent: true });
+  }
+
+  // Crops the garment out of the outfit photo; falls back to the whole photo when cropping isn't possible
+  private async persistCrop(itemId: string, garment: DetectedGarment): Promise<string> {
+    if (!garment.boundingBox) return garment.imageUri;
+    try {
+      const { width, height } = await getImageSize(garment.imageUri);
+      const box = garment.boundingBox;
+      const originX = Math.max(0, Math.round(box.x * width));
+      const originY = Math.max(0, Math.round(box.y * height));
+      const cropped = await ImageManipulator.manipulateAsync(
+        garment.imageUri,
+        [{
+          crop: {
+            originX,
+            originY,
+            width: Math.max(1, Math.min(width - originX, Math.round(box.width * width))),
+            height: Math.max(1, Math.min(height - originY, Math.round(box.height * height))),
+          },
+        }, { resize: { width: 300 } }],
+        { compress: 0.8, format: ImageManipulator.SaveFormat.JPEG }
+      );
+      if (!FileSystem?.documentDirectory) return cropped.uri;
+
+      const dir = `${FileSystem.documentDirectory}wardrobe/`;
+      await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+      const target = `${dir}${itemId}.jpg`;
+      await FileSystem.moveAsync({ from: cropped.uri, to: target });
+      return target;
+    } catch (error) {
+      logger.warn('Wardrobe: Failed to crop garment photo', { itemId, error: (error as Error).message });
+      return garment.imageUri;
+    }
+  }
+}
+
+export const wardrobeService = new WardrobeService();
+export default wardrobeService;
@@ -0,0 +1,97 @@
+import type { Season, WeatherCondition, WeatherForecast } from './weather';
+import { categorizeGarment } from './wardrobe';
+import { hexToLab } from './color-science';
+
+// The slice of a forecast that outfit scoring depends on; stored with results so they can be re-scored
+export interface OutfitWeatherContext {
+  temperatureC: number;
+  temperatureMinC: number;
+  precipitationChance: number;
+  condition: WeatherCondition;
+  season: Season;
+}
+
+export interface WeatherFit {
+  score: number; // 0-100
+  seasonalMatch: boolean;
+  issues: string[]; // what doesn't suit the conditions
+  tips: string[];
+}
+
+const COLD_C = 12;
+const FREEZING_C = 3;
+const HOT_C = 26;
+const WET_CHANCE = 0.5;
+
+export const toWeatherContext = (forecast: WeatherForecast): OutfitWeatherContext => ({
+  temperatureC: forecast.temperatureC,
+  temperatureMinC: forecast.temperatureMinC,
+  precipitationChance: forecast.precipitationChance,
+  condition: forecast.condition,
+  season: forecast.season,
+});
+
+export function describeWeather(context: OutfitWeatherContext): string {
+  const icon = { clear: '☀️', cloudy: '☁️', rain: '🌧️', snow: '❄️' }[context.condition];
+  const rain = context.precipitationChance >= WET_CHANCE ? `, ${Math.round(context.precipitationChance * 100)}% chance of rain` : '';
+  return `${icon} ${context.temperatureC}°C${rain}`;
+}
+
+// How well the pieces suit the temperature, rain and season
+export function assessWeatherFit(items: string[], palette: string[], context: OutfitWeatherContext): WeatherFit {
+  const lower = items.map(i => i.toLowerCase());
+  const categories = items.map(categorizeGarment);
+  const has = (...keywords: string[]) => lower.some(i => keywords.some(k => i.includes(k)));
+  const hasOuterwear = categories.includes('outerwear');
+  const wet = context.condition === 'rain' || context.condition === 'snow' || context.precipitationChance >= WET_CHANCE;
+
+  let score = 90;
+  const issues: string[] = [];
+  const tips: string[] = [];
+
+  if (context.temperatureC < COLD_C) {
+    if (!hasOuterwear) {
+      score -= context.temperatureC < FREEZING_C ? 25 : 15;
+      issues.push(`It'll be around ${context.temperatureC}°C — add a coat or jacket`);
+    }
+    if (has('shorts', 'sandal')) {
+      score -= 15;
+      issues.push('Shorts and sandals will feel cold today');
+    }
+    tips.push('Layer a knit under your outer layer so you can adjust indoors');
+  } else if (context.temperatureC > HOT_C) {
+    if (has('coat', 'parka', 'sweater', 'hoodie')) {
+      score -= 15;
+      issues.push(`At ${context.temperatureC}°C, heavy layers will be uncomfortable`);
+    }
+    tips.push('Choose breathable fabrics like linen or cotton');
+  } else if (context.temperatureMinC < COLD_C && !hasOuterwear) {
+    tips.push(`It drops to ${context.temperatureMinC}°C later — bring a light layer`);
+  }
+
+  if (wet) {
+    if (has('sandal', 'suede')) {
+      score -= 10;
+      issues.push('Open or suede shoes will suffer in the rain');
+    }
+    if (!hasOuterwear) {
+      score -= 5;
+    }
+    tips.push(context.condition === 'snow' ? 'Wear boots with grip' : 'Bring a water-resistant layer and closed shoes');
+  }
+
+  // Very dark palettes read heavy in summer and very pale ones washed out in winter
+  if (palette.length > 0) {
+    const lightness = palette.reduce((sum, hex) => sum + hexToLab(hex).L, 0) / palette.length;
+    if (context.season === 'summer' && lightness < 30) {
+      score -= 5;
+      tips.push('Lighter or brighter colors suit summer days');
+    } else if (context.season === 'winter' && lightness > 85) {
+      score -= 5;
+      tips.push('Deeper, richer tones feel more seasonal in winter');
+    }
+  }
+
+  score = Math.max(30, Math.min(100, score));
+  return { score, seasonalMatch: score >= 70, issues, tips };
+}
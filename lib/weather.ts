@@ -0,0 +1,178 @@
+import { CONFIG } from './config';
+import { logger } from './logger';
+import { toDayKey } from './dates';
+
+export type WeatherSourceId = 'open-meteo' | 'local';
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export type WeatherCondition = 'clear' | 'cloudy' | 'rain' | 'snow';
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export interface WeatherForecast {
+  date: string; // YYYY-MM-DD, local to the forecast location
+  temperatureC: number; // daytime high
+  temperatureMinC: number;
+  precipitationMm: number;
+  precipitationChance: number; // 0-1
+  condition: WeatherCondition;
+  season: Season;
+  source: WeatherSourceId;
+}
+
+export interface WeatherSource {
+  readonly id: WeatherSourceId;
+  isConfigured(): boolean;
+  getForecast(location: GeoLocation, date: Date): Promise<WeatherForecast>;
+}
+
+// Meteorological seasons, flipped for the southern hemisphere
+export function seasonFor(date: Date, latitude: number): Season {
+  const northern: Season[] = ['winter', 'winter', 'spring', 'spring', 'spring', 'summer', 'summer', 'summer', 'autumn', 'autumn', 'autumn', 'winter'];
+  const season = northern[date.getMonth()];
+  if (latitude >= 0) return season;
+  const flip: Record<Season, Season> = { winter: 'summer', summer: 'winter', spring: 'autumn', autumn: 'spring' };
+  return flip[season];
+}
+
+// WMO weather interpretation codes, grouped
+const conditionFromWmo = (code: number): WeatherCondition => {
+  if (code >= 71 && code <= 77) return 'snow';
+  if (code === 85 || code === 86) return 'snow';
+  if (code >= 51) return 'rain';
+  if (code >= 2) return 'cloudy';
+  return 'clear';
+};
+
+class OpenMeteoWeatherSource implements WeatherSource {
+  readonly id = 'open-meteo' as const;
+
+  isConfigured(): boolean {
+    // Keyless public API; only needs the network
+    return true;
+  }
+
+  async getForecast(location: GeoLocation, date: Date): Promise<WeatherForecast> {
+    const day = toDayKey(date);
+    const params = [
+      `latitude=${location.latitude.toFixed(3)}`,
+      `longitude=${location.longitude.toFixed(3)}`,
+      'daily=temperature_2m_max,temperature_2m_min,precipitation_sum,precipitation_probability_max,weather_code',
+      'timezone=auto',
+      `start_date=${day}`,
+      `end_date=${day}`,
+    ].join('&');
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), CONFIG.WEATHER.TIMEOUT);
+    let json: any;
+    try {
+      const response = await fetch(`https://api.open-meteo.com/v1/forecast?${params}`, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`Open-Meteo HTTP ${response.status}`);
+      }
+      json = await response.json();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Open-Meteo timed out after ${CONFIG.WEATHER.TIMEOUT}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+    const daily = json?.daily;
+    if (!daily || !Array.isArray(daily.temperature_2m_max) || daily.temperature_2m_max.length === 0) {
+      throw new Error('Open-Meteo returned no forecast');
+    }
+    return {
+      date: day,
+      temperatureC: Math.round(daily.temperature_2m_max[0]),
+      temperatureMinC: Math.round(daily.temperature_2m_min?.[0] ?? daily.temperature_2m_max[0]),
+      precipitationMm: daily.precipitation_sum?.[0] ?? 0,
+      precipitationChance: (daily.precipitation_probability_max?.[0] ?? 0) / 100,
+      condition: conditionFromWmo(daily.weather_code?.[0] ?? 0),
+      season: seasonFor(date, location.latitude),
+      source: this.id,
+    };
+  }
+}
+
+// Offline fallback: typical conditions for the season and latitude, so scoring never goes without context
+class LocalWeatherStub implements WeatherSource {
+  readonly id = 'local' as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async getForecast(location: GeoLocation, date: Date): Promise<WeatherForecast> {
+    const season = seasonFor(date, location.latitude);
+    const seasonal: Record<Season, { high: number; low: number; rain: number }> = {
+      winter: { high: 6, low: -1, rain: 0.4 },
+      spring: { high: 16, low: 7, rain: 0.35 },
+      summer: { high: 27, low: 17, rain: 0.2 },
+      autumn: { high: 15, low: 7, rain: 0.4 },
+    };
+    // Warmer toward the equator, roughly 0.4°C per degree of latitude from 45°
+    const latitudeShift = Math.round((45 - Math.min(70, Math.abs(location.latitude))) * 0.4);
+    const { high, low, rain } = seasonal[season];
+    const temperatureC = high + latitudeShift;
+    return {
+      date: toDayKey(date),
+      temperatureC,
+      temperatureMinC: low + latitudeShift,
+      precipitationMm: rain > 0.3 ? 2 : 0,
+      precipitationChance: rain,
+      condition: temperatureC <= 0 && rain > 0.3 ? 'snow' : rain > 0.35 ? 'cloudy' : 'clear',
+      season,
+      source: this.id,
+    };
+  }
+}
+
+class WeatherSourceRegistry {
+  private sources = new Map<WeatherSourceId, WeatherSource>();
+
+  register(source: WeatherSource): void {
+    this.sources.set(source.id, source);
+    logger.debug('Weather: Source registered', { id: source.id });
+  }
+
+  get(id: WeatherSourceId): WeatherSource | undefined {
+    return this.sources.get(id);
+  }
+
+  getPriority(): WeatherSourceId[] {
+    return CONFIG.FEATURES.USE_MOCK_DATA ? ['local'] : CONFIG.WEATHER.SOURCES;
+  }
+
+  getChain(priority: WeatherSourceId[] = this.getPriority()): WeatherSource[] {
+    return priority
+      .map(id => this.sources.get(id))
+      .filter((s): s is WeatherSource => !!s && s.isConfigured());
+  }
+
+  async getForecast(location: GeoLocation, date: Date, priority?: WeatherSourceId[]): Promise<WeatherForecast> {
+    let lastError: Error | null = null;
+    for (const source of this.getChain(priority)) {
+      try {
+        return await source.getForecast(location, date);
+      } catch (error) {
+        lastError = error as Error;
+        logger.warn('Weather: Source failed, trying next', { source: source.id, error: lastError.message });
+      }
+    }
+    throw lastError ?? new Error('No weather source configured');
+  }
+}
+
+export const localWeatherStub = new LocalWeatherStub();
+
+export const weatherSources = new WeatherSourceRegistry();
+weatherSources.register(new OpenMeteoWeatherSource());
+weatherSources.register(localWeatherStub);
+
+export default weatherSources;
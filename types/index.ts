@@ -1,3 +1,5 @@
+import type { SkinRegionAnalysis } from '../lib/skin-regions';
+
 export interface User {
   id: string;
   email: string;
@@ -52,31 +54,6 @@ export interface OutfitAnalysis {
   tips: string[];
 }
 
-export interface CoachingPlan {
-  id: string;
-  user_id: string;
-  goal: string;
-  start_date: string;
-  end_date: string;
-  created_at: string;
-}
-
-export interface DailyTask {
-  id: string;
-  plan_id: string;
-  user_id: string;
-  day: number;
-  date: string;
-  tasks: {
-    id: string;
-    title: string;
-    description: string;
-    completed: boolean;
-  }[];
-  selfie_url?: string;
-  completed: boolean;
-}
-
 export interface UserSettings {
   user_id: string;
   notification_time: string;
@@ -107,9 +84,19 @@ export interface GlowUpPlan {
   id: string;
   user_id: string;
   goal: string;
-  start_date: string;
-  end_date: string;
+  source: 'glow-scan' | 'coaching'; // started from a scan result or from a goal picked on the coaching screen
+  start_date: string; // the instant the plan was created
+  start_day: string; // YYYY-MM-DD, the calendar date day 1 fell on in the plan's time zone
+  timezone: string; // IANA zone the plan was started in
+  paused: PlanPause[];
+  end_date: string; // YYYY-MM-DD of the last day, later by however long the plan was paused
   created_at: string;
+  tips: string[];
+  expected_results: string[];
+  reviewed_through?: number; // last plan day whose misses the user has already decided about
+  adaptations?: PlanAdaptation[];
+  check_ins?: PlanCheckIn[];
+  focus?: PlanFocusMetric[]; // metrics the routine pushes harder because they stalled at the last check-in
   analysis_data?: {
     overallScore: number;
     skinPotential: string;
@@ -120,6 +107,7 @@ export interface GlowUpPlan {
     brightness: number;
     hydration: number;
     symmetryScore: number;
+    regions?: SkinRegionAnalysis[]; // per-zone conditions, when the scan measured them
   };
   progress: {
     completed_days: number;
@@ -128,20 +116,57 @@ export interface GlowUpPlan {
   };
 }
 
+// Days the plan stood still; end_day is the day it resumed, absent while still paused
+export interface PlanPause {
+  start_day: string; // YYYY-MM-DD
+  end_day?: string;
+}
+
+export type PlanAdjustment = 'pause' | 'extend' | 'compress';
+
+// An entry in the plan's changelog: a change the plan made to itself, newest last
+export interface PlanAdaptation {
+  at: string;
+  kind: PlanAdjustment | 'redistribute' | 'check-in';
+  days: number[]; // the plan days it responded to
+  note: string; // why
+  changes?: string[]; // what changed, one line each
+}
+
+export type PlanFocusMetric = 'hydration' | 'brightness';
+
+// A scan taken during the plan to see how the skin is responding
+export interface PlanCheckIn {
+  day: number;
+  at: string;
+  scan_id: string;
+  overallScore: number;
+  hydration: number;
+  brightness: number;
+}
+
+export type PlanTaskType = 'skincare' | 'hydration' | 'sleep' | 'exercise' | 'nutrition' | 'mindfulness';
+
 export interface GlowUpDayTask {
   id: string;
   plan_id: string;
   user_id: string;
   day: number;
-  date: string;
+  date: string; // YYYY-MM-DD the day falls on, following pauses
   title: string;
   description: string;
-  type: 'skincare' | 'hydration' | 'sleep' | 'exercise' | 'nutrition' | 'mindfulness';
+  type: PlanTaskType;
   product_suggestion?: string;
   user_product?: string;
   completed: boolean;
+  completed_at?: string;
   reminder_time?: string;
   notes?: string;
+  rhythm_days?: number; // repeats every this many days, e.g. 7 for a weekly mask
+  rescheduled_from?: number; // the day it was first scheduled on, when it was moved after being missed
+  routine_slot?: 'morning' | 'evening'; // the daily skincare routine it stands for
+  routine_product_ids?: string[]; // set when user_product was filled in from the user's registered routine
+  focus?: PlanFocusMetric; // added by a check-in to push a metric that stalled
 }
 
 export interface GlowUpProgress {
@@ -152,6 +177,8 @@ export interface GlowUpProgress {
   total_tasks: number;
   streak_days: number;
   last_activity_date: string;
+  missed_days: number[]; // past days with nothing done
+  partial_days: number[]; // past days with some tasks left undone
   weekly_progress: {
     week: number;
     completed_days: number;